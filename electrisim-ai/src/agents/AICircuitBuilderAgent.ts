@@ -1,5 +1,7 @@
 import { GoogleGenerativeAI } from '@google/generative-ai';
-import type { Circuit, Component, Connection } from '../types/circuit.types';
+import type { Circuit, Component, Connection, MCBCurve } from '../types/circuit.types';
+import { ElectricalCalculations } from '../utils/electricalCalculations';
+import { MCB_CURVES, ProtectionCurves } from '../utils/protectionCurves';
 
 export interface CircuitPrompt {
   appliances: {
@@ -11,7 +13,7 @@ export interface CircuitPrompt {
     motor?: number;
   };
   requirements?: string;
-  voltage?: number;
+  voltage?: number; // V, phase-to-neutral
   phase?: 'single' | 'three';
 }
 
@@ -22,8 +24,10 @@ export interface CircuitRecommendation {
   totalLoad: number;
   suggestedProtection: {
     mcb: number;
+    mcbCurve: MCBCurve;
     fuse: number;
     rccb: boolean;
+    selectivityLimit: number | null; // A, fault current above which the fuse may blow with the MCB; null when fully selective
   };
 }
 
@@ -183,7 +187,15 @@ export class AICircuitBuilderAgent {
       'db': 'junction',
       'main-distribution-board': 'junction',
       'distribution-panel': 'junction',
-      'battery-backup': 'ups'
+      'battery-backup': 'ups',
+      'pv-array': 'pv-array',
+      'solar-panel': 'pv-array',
+      'pv-string': 'pv-array',
+      'charge-controller': 'charge-controller',
+      'mppt': 'charge-controller',
+      'battery-bank': 'battery-bank',
+      'grid-tie-inverter': 'grid-tie-inverter',
+      'solar-inverter': 'grid-tie-inverter'
     };
 
     if (directMap[type]) {
@@ -191,6 +203,10 @@ export class AICircuitBuilderAgent {
     }
 
     const keywordMap: Array<{ keyword: RegExp; type: Component['type'] }> = [
+      { keyword: /(charge.?controller|mppt)/i, type: 'charge-controller' },
+      { keyword: /(grid.?tie|solar.?inverter)/i, type: 'grid-tie-inverter' },
+      { keyword: /(battery.?bank|battery.?storage)/i, type: 'battery-bank' },
+      { keyword: /(solar|photovoltaic|pv.?(array|module|string|panel))/i, type: 'pv-array' },
       { keyword: /(battery|dc source|ac source|power supply|bus|three.?phase.?source|3.?phase.?source)/i, type: 'battery' },
       { keyword: /(resistor|load)/, type: 'resistor' },
       { keyword: /(capacitor|capacitance)/, type: 'capacitor' },
@@ -644,7 +660,7 @@ Generate a complete, VERY SAFE, and code-compliant electrical circuit design tha
         }
 
         // Normalize and validate component type
-        const validTypes: Component['type'][] = ['battery', 'resistor', 'capacitor', 'inductor', 'transformer', 'diode', 'led', 'switch', 'ground', 'wire', 'fan', 'light', 'tv', 'ac', 'motor', 'heater', 'voltmeter', 'ammeter', 'wattmeter', 'fuse', 'mcb', 'rccb', 'contactor', 'relay', 'timer', 'sensor', 'breaker', 'socket', 'junction', 'ups', 'inverter', 'refrigerator', 'washing-machine', 'microwave', 'dishwasher', 'water-heater', 'electric-stove', 'electric-oven', 'heat-pump', 'electric-boiler', 'two-way-switch', 'surge-protector', 'gfci', 'afci', 'spd', 'isolation-transformer', 'emergency-stop', 'overvoltage-protector', 'undervoltage-protector'];
+        const validTypes: Component['type'][] = ['battery', 'resistor', 'capacitor', 'inductor', 'transformer', 'diode', 'led', 'switch', 'ground', 'wire', 'fan', 'light', 'tv', 'ac', 'motor', 'heater', 'voltmeter', 'ammeter', 'wattmeter', 'fuse', 'mcb', 'rccb', 'contactor', 'relay', 'timer', 'sensor', 'breaker', 'socket', 'junction', 'ups', 'inverter', 'refrigerator', 'washing-machine', 'microwave', 'dishwasher', 'water-heater', 'electric-stove', 'electric-oven', 'heat-pump', 'electric-boiler', 'two-way-switch', 'surge-protector', 'gfci', 'afci', 'spd', 'isolation-transformer', 'emergency-stop', 'overvoltage-protector', 'undervoltage-protector', 'pv-array', 'charge-controller', 'battery-bank', 'grid-tie-inverter'];
         const inferredType = this.inferComponentType(comp);
 
         if (inferredType && validTypes.includes(inferredType)) {
@@ -826,15 +842,7 @@ Generate a complete, VERY SAFE, and code-compliant electrical circuit design tha
     const totalLoad = appliances.reduce((sum, app) => sum + (app.properties?.powerConsumption || 0), 0);
     const supplyVoltage = prompt.voltage || 230;
     const isThreePhase = prompt.phase === 'three';
-    const powerFactor = 0.8;
-    const totalCurrent = totalLoad > 0
-      ? (isThreePhase
-          ? totalLoad / (Math.sqrt(3) * supplyVoltage * powerFactor)
-          : totalLoad / (supplyVoltage * powerFactor))
-      : 16;
-    const mcbRating = Math.ceil(totalCurrent * 1.25);
-    const standardMCBRatings = [6, 10, 16, 20, 25, 32, 40, 50, 63, 80, 100, 125];
-    const selectedMCB = standardMCBRatings.find(rating => rating >= mcbRating) || 32;
+    const selectedMCB = this.getMainMCBRating(appliances.map(app => app.properties?.powerConsumption || 0), supplyVoltage, isThreePhase);
 
     const requiredDevices: Array<{ type: Component['type']; defaultValue: number; unit: string; properties?: Record<string, unknown> }> = [
       { type: 'mcb', defaultValue: selectedMCB, unit: 'A', properties: { tripCurrent: selectedMCB, breakingCapacity: 6, voltageRating: supplyVoltage } },
@@ -1207,10 +1215,11 @@ Generate a complete, VERY SAFE, and code-compliant electrical circuit design tha
     const isThreePhase = prompt.phase === 'three';
     const supplyVoltage = prompt.voltage || 230;
     const powerFactor = 0.8;
+    // The supply voltage is phase-to-neutral: P = 3·V·I·pf across three phases
     const totalCurrent = isThreePhase 
-      ? totalLoad / (Math.sqrt(3) * supplyVoltage * powerFactor)
+      ? totalLoad / (3 * supplyVoltage * powerFactor)
       : totalLoad / (supplyVoltage * powerFactor);
-    const mcbRating = Math.ceil(totalCurrent * 1.25);
+    const mcbRating = this.getMainMCBRating(this.getApplianceLoads(prompt), supplyVoltage, isThreePhase, powerFactor);
 
     // Add main supply
     const mainSupplyId = `main-supply-${componentId++}`;
@@ -1892,35 +1901,65 @@ Generate a complete, VERY SAFE, and code-compliant electrical circuit design tha
   }
 
   private calculateTotalLoad(prompt: CircuitPrompt): number {
-    let totalLoad = 0;
-    
-    if (prompt.appliances.fans) totalLoad += prompt.appliances.fans * 75;
-    if (prompt.appliances.lights) totalLoad += prompt.appliances.lights * 60;
-    if (prompt.appliances.ac) totalLoad += prompt.appliances.ac * 1500;
-    if (prompt.appliances.heater) totalLoad += prompt.appliances.heater * 1500;
-    if (prompt.appliances.tv) totalLoad += prompt.appliances.tv * 150;
-    if (prompt.appliances.motor) totalLoad += prompt.appliances.motor * 750;
-
-    return totalLoad;
+    return this.getApplianceLoads(prompt).reduce((sum, load) => sum + load, 0);
   }
 
-  private calculateProtection(totalLoad: number): { mcb: number; fuse: number; rccb: boolean } {
-    const current = totalLoad / 230; // Assuming 230V
-    
-    let mcbRating = 16;
-    if (current > 15) mcbRating = 32;
-    if (current > 30) mcbRating = 63;
-    if (current > 60) mcbRating = 100;
+  // Power of each requested appliance in the order the fallback circuit wires them
+  private getApplianceLoads(prompt: CircuitPrompt): number[] {
+    const { fans = 0, lights = 0, ac = 0, heater = 0, tv = 0, motor = 0 } = prompt.appliances;
+    return [
+      ...Array<number>(fans).fill(75),
+      ...Array<number>(lights).fill(60),
+      ...Array<number>(ac).fill(1500),
+      ...Array<number>(heater).fill(1500),
+      ...Array<number>(tv).fill(150),
+      ...Array<number>(motor).fill(750)
+    ];
+  }
+
+  // Main MCB for the most heavily loaded phase; three-phase layouts deal appliances round-robin across the phases
+  private getMainMCBRating(loads: number[], supplyVoltage: number, isThreePhase: boolean, powerFactor: number = 0.8): number {
+    const phases = isThreePhase ? 3 : 1;
+    const phaseLoads = Array.from({ length: phases }, (_, phase) =>
+      loads.reduce((sum, load, index) => (index % phases === phase ? sum + load : sum), 0)
+    );
+    const heaviest = Math.max(...phaseLoads);
+    // A general-purpose 20A circuit when no appliance states its power
+    return heaviest > 0 ? ElectricalCalculations.calculateMCBRating(heaviest, supplyVoltage, powerFactor) : 20;
+  }
+
+  // Size the final-circuit MCB from the load, then the smallest upstream fuse that stays selective with it
+  private calculateProtection(totalLoad: number): CircuitRecommendation['suggestedProtection'] {
+    const voltage = 230; // Assuming 230V
+    const mcbCurve: MCBCurve = 'B';
+    const mcbRating = ElectricalCalculations.calculateMCBRating(totalLoad, voltage, 1);
+    const prospectiveFaultCurrent = ElectricalCalculations.calculateShortCircuitCurrent(voltage);
+    const protectionDevice = (type: 'mcb' | 'fuse', rating: number): Component => ({
+      id: `${type}-suggested`,
+      type,
+      value: rating,
+      unit: 'A',
+      position: { x: 0, y: 0 },
+      rotation: 0,
+      connections: [],
+      ports: 2,
+      properties: type === 'mcb' ? { tripCurrent: rating, mcbCurve } : { fuseRating: rating, fuseType: 'slow' }
+    });
+    const mcb = protectionDevice('mcb', mcbRating);
 
-    let fuseRating = 20;
-    if (current > 18) fuseRating = 32;
-    if (current > 30) fuseRating = 50;
-    if (current > 45) fuseRating = 63;
+    // Overloads and faults up to the MCB's instantaneous trip must never blow the fuse
+    const standardFuseRatings = [20, 25, 32, 40, 50, 63, 80, 100, 125];
+    const candidates = standardFuseRatings.filter(rating => rating >= mcbRating);
+    const fuseRating = candidates.find(rating =>
+      ProtectionCurves.checkSelectivity(protectionDevice('fuse', rating), mcb, mcbRating * MCB_CURVES[mcbCurve].magneticMax).selective
+    ) || candidates[candidates.length - 1] || standardFuseRatings[standardFuseRatings.length - 1];
 
     return {
       mcb: mcbRating,
+      mcbCurve,
       fuse: fuseRating,
-      rccb: true // Always recommend RCCB for safety
+      rccb: true, // Always recommend RCCB for safety
+      selectivityLimit: ProtectionCurves.checkSelectivity(protectionDevice('fuse', fuseRating), mcb, prospectiveFaultCurrent).selectivityLimit
     };
   }
 
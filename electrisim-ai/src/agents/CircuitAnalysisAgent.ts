@@ -1,13 +1,18 @@
 // Circuit Analysis Agent
-import type { Circuit, CircuitAnalysis,  Component } from '../types/circuit.types';
+import type { Circuit, CircuitAnalysis,  Component, AnalysisOptions, CircuitIssue, SweepOptions, SweepOutput, SweepResult } from '../types/circuit.types';
 import { ElectricalCalculations } from '../utils/electricalCalculations';
+import { CircuitSolver } from '../utils/circuitSolver';
+import { CircuitSimulator } from '../utils/circuitSimulator';
+import { DEFAULT_CABLE } from '../utils/cables';
+import { ParameterSweep } from '../utils/parameterSweep';
+import { SafetyAssessmentAgent } from './SafetyAssessmentAgent';
 
 export class CircuitAnalysisAgent {
   private analysisHistory: CircuitAnalysis[] = [];
 
   // Main analysis method
-  analyzeCircuit(circuit: Circuit): CircuitAnalysis {
-    const analysis = ElectricalCalculations.analyzeCircuit(circuit);
+  analyzeCircuit(circuit: Circuit, options: AnalysisOptions = {}): CircuitAnalysis {
+    const analysis = ElectricalCalculations.analyzeCircuit(circuit, options);
     
     // Add additional analysis
     this.detectSeriesParallelConfigurations(circuit, analysis);
@@ -44,10 +49,10 @@ export class CircuitAnalysisAgent {
 
   // Check power balance in circuit
   private checkPowerBalance(circuit: Circuit, analysis: CircuitAnalysis): void {
-    const powerSources = circuit.components.filter(c => c.type === 'battery');
-    const powerConsumers = circuit.components.filter(c => 
-      c.type === 'resistor' || c.type === 'led'
-    );
+    const supplied = CircuitSolver.withBankSupply(circuit);
+    const roles = new Map(supplied.components.map(c => [c.id, CircuitSolver.getComponentRole(c, supplied)]));
+    const powerSources = circuit.components.filter(c => roles.get(c.id) === 'source');
+    const powerConsumers = circuit.components.filter(c => ['load', 'passive'].includes(roles.get(c.id)!));
 
     let totalPowerGenerated = 0;
     let totalPowerConsumed = 0;
@@ -62,10 +67,11 @@ export class CircuitAnalysisAgent {
       totalPowerConsumed += consumerPower;
     });
 
-    const powerBalance = totalPowerGenerated - totalPowerConsumed;
-    const efficiency = totalPowerGenerated > 0 ? (totalPowerConsumed / totalPowerGenerated) * 100 : 0;
+    // Transformers pass their load through, so only their losses sit between generation and consumption
+    const transformerLosses = (analysis.transformers || []).reduce((sum, t) => sum + t.copperLoss + t.noLoadLoss, 0);
+    const powerBalance = totalPowerGenerated - totalPowerConsumed - transformerLosses;
 
-    if (Math.abs(powerBalance) > 0.1) { // Allow small tolerance
+    if (Math.abs(powerBalance) > Math.max(0.1, totalPowerGenerated * 0.01)) { // Allow for wiring losses
       analysis.issues.push({
         id: 'power-balance',
         type: 'warning',
@@ -75,7 +81,9 @@ export class CircuitAnalysisAgent {
       });
     }
 
-    analysis.efficiency = efficiency;
+    if (totalPowerGenerated > 0) {
+      analysis.efficiency = (totalPowerConsumed / totalPowerGenerated) * 100;
+    }
   }
 
   // Validate circuit topology
@@ -218,4 +226,122 @@ export class CircuitAnalysisAgent {
 
     return { voltageChanges, currentChanges, powerChanges };
   }
+
+  // Step one field across a range, re-analysing at each point, and track the chosen outputs against the unswept circuit
+  sweepParameter(circuit: Circuit, options: SweepOptions): SweepResult {
+    const issues: CircuitIssue[] = [];
+    const { parameter } = options;
+    const result: SweepResult = {
+      options,
+      parameterLabel: ParameterSweep.getParameterLabel(circuit, parameter),
+      labels: options.outputs.map(output => ParameterSweep.getOutputLabel(output)),
+      baseline: [],
+      points: [],
+      issues
+    };
+
+    if (ParameterSweep.getCurrentValue(circuit, parameter) === null) {
+      issues.push({
+        id: 'sweep-unknown-parameter',
+        type: 'error',
+        severity: 'high',
+        message: `${result.parameterLabel} is not a numeric field of this circuit`,
+        recommendation: 'Choose a component value or property, or a cable length, that exists in the circuit'
+      });
+      return result;
+    }
+    if (options.scale === 'log' && !(options.start > 0 && options.end > 0)) {
+      issues.push({
+        id: 'sweep-invalid-range',
+        type: 'error',
+        severity: 'medium',
+        message: 'A logarithmic sweep needs a start and end above zero',
+        recommendation: 'Raise the range above zero or use a linear sweep'
+      });
+      return result;
+    }
+
+    const safetyAgent = new SafetyAssessmentAgent();
+    const simulator = new CircuitSimulator(circuit);
+    const baseline = this.analyzeSweepPoint(circuit, simulator.updateCircuit(circuit));
+    result.baseline = options.outputs.map(output => this.readSweepOutput(output, baseline, circuit, safetyAgent));
+
+    const conn = circuit.connections.find(c => c.id === parameter.id);
+    if (parameter.target === 'cable' && !conn?.cable) {
+      issues.push({
+        id: 'sweep-default-cable',
+        type: 'info',
+        severity: 'low',
+        message: `${parameter.id} has no cable, so the sweep starts from a ${DEFAULT_CABLE.length}m ${DEFAULT_CABLE.size}mm² run`,
+        recommendation: 'Set the cable on the connection for a sweep around the real installation'
+      });
+    }
+
+    ParameterSweep.getValues(options).forEach(value => {
+      // Every point starts from the unswept circuit so only the swept field differs
+      simulator.updateCircuit(circuit);
+      const swept = parameter.target === 'cable'
+        ? simulator.updateConnection(parameter.id, { cable: { ...DEFAULT_CABLE, ...conn?.cable, [parameter.field]: value } })
+        : simulator.updateComponent(
+            parameter.id,
+            ParameterSweep.getComponentUpdates(circuit.components.find(c => c.id === parameter.id)!, parameter.field, value)
+          );
+      const analysis = this.analyzeSweepPoint(swept, simulator.getAnalysis()!);
+      const { voltageChanges, currentChanges, powerChanges } = this.compareAnalyses(baseline, analysis);
+      const outputs = options.outputs.map(output => this.readSweepOutput(output, analysis, swept, safetyAgent));
+      result.points.push({
+        value,
+        outputs,
+        changes: options.outputs.map((output, i) => {
+          const byComponent = output.quantity === 'voltage' ? voltageChanges
+            : output.quantity === 'current' ? currentChanges
+            : output.quantity === 'power' ? powerChanges
+            : null;
+          return byComponent && output.id ? (byComponent[output.id] ?? NaN) : outputs[i] - result.baseline[i];
+        })
+      });
+    });
+
+    const missing = options.outputs.filter((_, i) => result.points.some(point => !Number.isFinite(point.outputs[i])));
+    if (missing.length > 0) {
+      issues.push({
+        id: 'sweep-missing-outputs',
+        type: 'warning',
+        severity: 'low',
+        message: `${missing.map(output => ParameterSweep.getOutputLabel(output)).join(', ')} could not be read at every point`,
+        recommendation: 'Voltage drop needs a cabled connection; voltage, current and power need a connected component'
+      });
+    }
+
+    return result;
+  }
+
+  // Same checks as analyzeCircuit, without adding the point to the history
+  private analyzeSweepPoint(circuit: Circuit, analysis: CircuitAnalysis): CircuitAnalysis {
+    const checked = { ...analysis, issues: [...analysis.issues] };
+    this.detectSeriesParallelConfigurations(circuit, checked);
+    this.checkPowerBalance(circuit, checked);
+    this.validateCircuitTopology(circuit, checked);
+    return checked;
+  }
+
+  private readSweepOutput(output: SweepOutput, analysis: CircuitAnalysis, circuit: Circuit, safetyAgent: SafetyAssessmentAgent): number {
+    const byComponent = (values: { [componentId: string]: number }) => (output.id && output.id in values ? values[output.id] : NaN);
+    switch (output.quantity) {
+      case 'voltage':
+        return byComponent(analysis.voltages);
+      case 'current':
+        return byComponent(analysis.currents);
+      case 'power':
+        return byComponent(analysis.power);
+      case 'voltage-drop':
+        return analysis.cables?.find(cable => cable.connectionId === output.id)?.voltageDropPercent ?? NaN;
+      case 'total-power':
+        return analysis.totalPower;
+      case 'power-factor':
+        return analysis.powerFactor ?? 1;
+      case 'safety-score':
+        return safetyAgent.assessSafety(analysis, circuit).safetyScore;
+    }
+  }
 }
@@ -1,6 +1,10 @@
 // Safety Assessment Agent
 import type { Circuit, CircuitAnalysis, SafetyAssessment, SafetyHazard, ComplianceCheck, Component } from '../types/circuit.types';
 import { ElectricalCalculations } from '../utils/electricalCalculations';
+import { DEFAULT_DIODE_REVERSE_VOLTAGE, DEFAULT_LED_REVERSE_VOLTAGE } from '../utils/circuitSolver';
+import { MAX_PPE_ENERGY } from '../utils/arcFlash';
+import { MAX_TOUCH_VOLTAGE } from '../utils/earthing';
+import { ThermalModel } from '../utils/thermalModel';
 
 export class SafetyAssessmentAgent {
   private safetyStandards = {
@@ -34,9 +38,11 @@ export class SafetyAssessmentAgent {
     // Analyze circuit for safety hazards
     this.analyzeOvercurrentHazards(validatedAnalysis, circuit, hazards);
     this.analyzeOvervoltageHazards(validatedAnalysis, circuit, hazards);
+    this.analyzeReverseBreakdownHazards(validatedAnalysis, circuit, hazards);
     this.analyzeShortCircuitHazards(validatedAnalysis, circuit, hazards);
     this.analyzeGroundFaultHazards(validatedAnalysis, circuit, hazards);
     this.analyzeThermalHazards(validatedAnalysis, circuit, hazards);
+    this.analyzeHarmonicHazards(validatedAnalysis, hazards);
     this.analyzeArcFlashHazards(validatedAnalysis, circuit, hazards);
 
     // Remove duplicate hazards (same type/component/description)
@@ -125,6 +131,7 @@ export class SafetyAssessmentAgent {
     });
     
     return {
+      ...analysis,
       voltages: validatedVoltages,
       currents: validatedCurrents,
       power: validatedPower,
@@ -227,6 +234,29 @@ export class SafetyAssessmentAgent {
     }
   }
 
+  // Analyze diodes and LEDs driven past their reverse voltage rating
+  private analyzeReverseBreakdownHazards(analysis: CircuitAnalysis, circuit: Circuit, hazards: SafetyHazard[]): void {
+    circuit.components.forEach(component => {
+      if (component.type !== 'diode' && component.type !== 'led') return;
+      const reverseVoltage = analysis.reverseVoltages?.[component.id] || 0;
+      const rating = component.properties.reverseVoltage
+        || (component.type === 'led' ? DEFAULT_LED_REVERSE_VOLTAGE : DEFAULT_DIODE_REVERSE_VOLTAGE);
+
+      if (reverseVoltage > rating) {
+        hazards.push({
+          id: `reverse-breakdown-${component.id}`,
+          type: 'overvoltage',
+          severity: 'high',
+          componentId: component.id,
+          description: `${component.type === 'led' ? 'LED' : 'Diode'} ${component.id} reverse voltage ${reverseVoltage.toFixed(2)}V exceeds its ${rating}V rating and will break down`,
+          mitigation: component.type === 'led'
+            ? 'Check LED polarity or add an anti-parallel protection diode'
+            : 'Check diode polarity or use a diode with a higher reverse voltage rating'
+        });
+      }
+    });
+  }
+
   // Analyze short circuit hazards
   private analyzeShortCircuitHazards(analysis: CircuitAnalysis, circuit: Circuit, hazards: SafetyHazard[]): void {
     const powerSources = circuit.components.filter(c => c.type === 'battery' || c.type === 'socket');
@@ -277,6 +307,29 @@ export class SafetyAssessmentAgent {
       });
     }
 
+    // AC circuits: disconnection and touch voltage of the earth fault loop at every final circuit
+    if (analysis.earthing) {
+      const system = analysis.earthing.system;
+      analysis.earthing.finalCircuits.filter(result => !result.compliant).forEach(result => {
+        const exposed = result.touchVoltage > MAX_TOUCH_VOLTAGE;
+        hazards.push({
+          id: `earth-fault-${result.componentId}`,
+          type: 'ground_fault',
+          severity: result.maxDisconnectionTime === null ? 'medium' : exposed ? 'critical' : 'high',
+          componentId: result.componentId,
+          description: result.maxDisconnectionTime === null
+            ? `First earth fault at ${result.componentId} leaves ${result.touchVoltage.toFixed(0)}V on exposed parts (${system})`
+            : result.disconnectionTime === null
+              ? `Earth fault at ${result.componentId} is never disconnected; ${result.touchVoltage.toFixed(0)}V stays on exposed parts (${system}, Zs ${result.loopImpedance.toFixed(2)}Ω)`
+              : `Earth fault at ${result.componentId} takes ${result.disconnectionTime.toFixed(2)}s to disconnect, above ${result.maxDisconnectionTime}s, with ${result.touchVoltage.toFixed(0)}V on exposed parts (${system}, Zs ${result.loopImpedance.toFixed(2)}Ω)`,
+          mitigation: system === 'TT' || system === 'IT'
+            ? 'Install 30mA RCD protection and improve the earth electrode'
+            : 'Reduce the earth fault loop impedance or install 30mA RCD protection'
+        });
+      });
+      return;
+    }
+
     // Check for ground fault current
     if (hasGroundFaultProtection) {
       return;
@@ -314,6 +367,11 @@ export class SafetyAssessmentAgent {
     ];
 
     circuit.components.forEach(component => {
+      // Sources deliver power rather than dissipate it
+      if (component.type === 'battery' || component.type === 'socket') {
+        return;
+      }
+
       // Use powerConsumption directly for appliances, validated power for others
       let power: number;
       if (highPowerAppliances.includes(component.type) && component.properties.powerConsumption) {
@@ -360,10 +418,67 @@ export class SafetyAssessmentAgent {
         }
       }
     });
+
+    // Components and cables heading past their limit, with how long they last from cold at full load
+    ThermalModel.getElements(circuit, analysis).forEach(element => {
+      const seconds = ThermalModel.getTimeToLimit(element.ambient, element.steadyTemperature, element.limit, element.timeConstant);
+      if (seconds === null) return;
+      const timing = `reaches its ${element.limit}°C limit after ${ThermalModel.formatHours(seconds / 3600)} at full load`;
+      const rated = hazards.find(hazard => hazard.id === `thermal-${element.id}`);
+      if (rated) {
+        rated.description += ` and ${timing}`;
+        return;
+      }
+      hazards.push({
+        id: `thermal-time-${element.id}`,
+        type: 'thermal',
+        severity: seconds < 5 * 60 ? 'critical' : seconds < 60 * 60 ? 'high' : 'medium',
+        componentId: element.kind === 'component' ? element.id : undefined,
+        description: `${element.kind === 'cable' ? 'Cable' : 'Component'} ${element.label} ${timing}, heading for ${element.steadyTemperature.toFixed(0)}°C`,
+        mitigation: element.kind === 'cable'
+          ? 'Use a larger cross-section, reduce grouping or improve the installation method'
+          : 'Use a higher power rating, add heat sinking or reduce the dissipated power'
+      });
+    });
+  }
+
+  // Analyze neutral conductor heating from triplen harmonics on three-phase supplies
+  private analyzeHarmonicHazards(analysis: CircuitAnalysis, hazards: SafetyHazard[]): void {
+    const neutral = analysis.harmonics?.neutral;
+    if (!neutral) return;
+    const highestPhaseCurrent = Math.max(neutral.phaseCurrents.L1, neutral.phaseCurrents.L2, neutral.phaseCurrents.L3);
+    if (highestPhaseCurrent <= 0.01 || neutral.rmsCurrent <= highestPhaseCurrent) return;
+
+    hazards.push({
+      id: 'thermal-neutral-harmonics',
+      type: 'thermal',
+      severity: neutral.rmsCurrent > 1.5 * highestPhaseCurrent ? 'critical' : 'high',
+      description: `Neutral current ${neutral.rmsCurrent.toFixed(2)}A exceeds the highest phase current ${highestPhaseCurrent.toFixed(2)}A because triplen harmonics (${neutral.triplenCurrent.toFixed(2)}A) add in the neutral; a neutral sized like the phases will overheat`,
+      mitigation: 'Use a neutral rated for the harmonic current (up to twice the phase conductor cross-section) or fit third-harmonic filters to the non-linear loads'
+    });
   }
 
   // Analyze arc flash hazards
   private analyzeArcFlashHazards(analysis: CircuitAnalysis, circuit: Circuit, hazards: SafetyHazard[]): void {
+    // The IEEE 1584 study gives the incident energy at every bus from the network's fault level and clearing times
+    if (analysis.arcFlash) {
+      analysis.arcFlash.locations
+        .filter(result => result.incidentEnergy > this.safetyStandards.NFPA.maxArcFlashEnergy)
+        .forEach(result => {
+          hazards.push({
+            id: `arc-flash-${result.componentId}`,
+            type: 'arc_flash',
+            severity: result.incidentEnergy > MAX_PPE_ENERGY ? 'critical' : result.ppeCategory >= 3 ? 'high' : 'medium',
+            componentId: result.componentId,
+            description: `Arc flash energy ${result.incidentEnergy.toFixed(2)} cal/cm² at ${result.workingDistance.toFixed(0)}mm exceeds NFPA limit; arc-flash boundary ${(result.arcFlashBoundary / 1000).toFixed(2)}m, PPE category ${result.ppeCategory}`,
+            mitigation: result.incidentEnergy > MAX_PPE_ENERGY
+              ? 'De-energize before work or fit a faster upstream protective device'
+              : `Wear PPE category ${result.ppeCategory} inside the arc-flash boundary, or reduce the clearing time of the upstream device`
+          });
+        });
+      return;
+    }
+
     const powerSources = circuit.components.filter(c => c.type === 'battery' || c.type === 'socket');
     
     powerSources.forEach(source => {
@@ -375,9 +490,9 @@ export class SafetyAssessmentAgent {
       if (!Number.isFinite(current) || current < 0 || current > 10000) return;
       
       if (voltage > 50) { // Arc flash risk above 50V
-        // Use realistic fault current (typically 10x operating current for short circuit)
-        const faultCurrent = Math.min(current * 10, 10000); // Cap at 10kA for realistic calculation
-        const arcFlashEnergy = ElectricalCalculations.calculateArcFlashEnergy(voltage, faultCurrent, 18); // 18 inch working distance
+        // Prospective fault current from the source impedance
+        const faultCurrent = ElectricalCalculations.calculateShortCircuitCurrent(voltage, source);
+        const arcFlashEnergy = ElectricalCalculations.calculateArcFlashEnergy(voltage, faultCurrent); // 18 inch working distance, default clearing time
         
         if (Number.isFinite(arcFlashEnergy) && arcFlashEnergy > this.safetyStandards.NFPA.maxArcFlashEnergy) {
           hazards.push({
@@ -484,22 +599,26 @@ export class SafetyAssessmentAgent {
     const powerSources = circuit.components.filter(c => c.type === 'battery');
     let maxArcFlashEnergy = 0;
 
-    powerSources.forEach(source => {
-      const voltage = analysis.voltages[source.id] || 0;
-      const current = analysis.currents[source.id] || 0;
-      
-      if (voltage > 50) {
-        const arcFlashEnergy = ElectricalCalculations.calculateArcFlashEnergy(voltage, current, 18);
-        if (Number.isFinite(arcFlashEnergy)) {
-          maxArcFlashEnergy = Math.max(maxArcFlashEnergy, arcFlashEnergy);
+    if (analysis.arcFlash) {
+      maxArcFlashEnergy = Math.max(...analysis.arcFlash.locations.map(result => result.incidentEnergy));
+    } else {
+      powerSources.forEach(source => {
+        const voltage = analysis.voltages[source.id] || 0;
+        
+        if (voltage > 50) {
+          const faultCurrent = ElectricalCalculations.calculateShortCircuitCurrent(voltage, source);
+          const arcFlashEnergy = ElectricalCalculations.calculateArcFlashEnergy(voltage, faultCurrent);
+          if (Number.isFinite(arcFlashEnergy)) {
+            maxArcFlashEnergy = Math.max(maxArcFlashEnergy, arcFlashEnergy);
+          }
         }
-      }
-    });
+      });
+    }
 
     let status: ComplianceCheck['status'] = 'compliant';
     let description: string;
 
-    if (powerSources.length === 0) {
+    if (powerSources.length === 0 && !analysis.arcFlash) {
       status = 'warning';
       description = 'No primary power sources detected – unable to evaluate arc flash risk';
     } else if (maxArcFlashEnergy === 0) {
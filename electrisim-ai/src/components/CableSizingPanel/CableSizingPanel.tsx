@@ -0,0 +1,116 @@
+import React, { useState } from 'react';
+import type { CableSizingOptions, CableSizingStudy, CableStandard } from '../../types/circuit.types';
+import { Cable, Play, Check } from 'lucide-react';
+import { CableCalculations } from '../../utils/cables';
+import { DEFAULT_CABLE_SIZING_OPTIONS } from '../../utils/cableSizing';
+
+interface CableSizingPanelProps {
+  study: CableSizingStudy | null;
+  onRun: (options: CableSizingOptions) => void;
+  onApply: () => void;
+}
+
+const formatSize = (size: number, standard: CableStandard): string =>
+  standard === 'nec' ? `${size <= 0 ? `${1 - size}/0` : size}AWG` : `${size}mm²`;
+
+export const CableSizingPanel: React.FC<CableSizingPanelProps> = ({ study, onRun, onApply }) => {
+  const [options, setOptions] = useState<CableSizingOptions>(DEFAULT_CABLE_SIZING_OPTIONS);
+  const changed = study ? study.branches.filter(branch => branch.changed) : [];
+
+  return (
+    <div className="border-t border-gray-200 p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <Cable className="h-5 w-5 text-blue-600" />
+          <h3 className="text-lg font-semibold text-gray-900">Cable Sizing</h3>
+        </div>
+        <div className="flex items-center space-x-2 text-sm">
+          <select
+            value={options.standard}
+            onChange={(e) => setOptions({ ...options, standard: e.target.value as CableStandard })}
+            className="px-2 py-1 border border-gray-300 rounded"
+          >
+            <option value="iec">IEC 60364-5-52 (mm²)</option>
+            <option value="nec">NEC 310.16 (AWG)</option>
+          </select>
+          <label className="flex items-center space-x-1 text-gray-600">
+            <span>Max drop</span>
+            <input
+              type="number"
+              min={0.5}
+              step={0.5}
+              value={options.maxVoltageDrop}
+              onChange={(e) => setOptions({ ...options, maxVoltageDrop: parseFloat(e.target.value) || DEFAULT_CABLE_SIZING_OPTIONS.maxVoltageDrop })}
+              className="w-16 px-2 py-1 border border-gray-300 rounded"
+            />
+            <span>%</span>
+          </label>
+          <button
+            onClick={() => onRun(options)}
+            className="flex items-center space-x-1 px-3 py-1 bg-blue-600 text-white rounded hover:bg-blue-700"
+          >
+            <Play className="h-4 w-4" />
+            <span>Size</span>
+          </button>
+          {study && (
+            <button
+              onClick={onApply}
+              disabled={changed.length === 0}
+              className="flex items-center space-x-1 px-3 py-1 text-green-700 border border-green-300 rounded hover:bg-green-50 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Check className="h-4 w-4" />
+              <span>Apply to Circuit</span>
+            </button>
+          )}
+        </div>
+      </div>
+
+      {!study && (
+        <div className="text-sm text-gray-500">Find the minimum conductor for each wire by derated ampacity and voltage drop</div>
+      )}
+
+      {study && study.branches.length > 0 && (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-600">
+              <th className="font-medium">Branch</th>
+              <th className="font-medium">Current</th>
+              <th className="font-medium">Derating</th>
+              <th className="font-medium">Ampacity</th>
+              <th className="font-medium">Drop</th>
+              <th className="font-medium">Selected</th>
+            </tr>
+          </thead>
+          <tbody>
+            {study.branches.map(branch => (
+              <tr key={branch.connectionId} className="text-gray-700">
+                <td>{branch.from} → {branch.to}</td>
+                <td>
+                  {branch.current.toFixed(1)}A
+                  {branch.designCurrent > branch.current && ` (${branch.designCurrent.toFixed(1)}A design)`}
+                </td>
+                <td>×{(branch.ambientFactor * branch.groupingFactor).toFixed(2)}</td>
+                <td className={branch.governedBy === 'ampacity' ? 'font-semibold' : ''}>{formatSize(branch.ampacitySize, study.options.standard)}</td>
+                <td className={branch.governedBy === 'voltage-drop' ? 'font-semibold' : ''}>{formatSize(branch.voltageDropSize, study.options.standard)}</td>
+                <td className={branch.changed ? 'text-blue-700' : ''}>
+                  {CableCalculations.getLabel(branch.cable)} · {branch.ampacity.toFixed(0)}A · {branch.voltageDropPercent.toFixed(1)}%
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {study && study.issues.length > 0 && (
+        <ul className="space-y-1">
+          {study.issues.map(issue => (
+            <li key={issue.id} className={`text-sm flex items-start ${issue.type === 'error' ? 'text-red-800' : issue.type === 'warning' ? 'text-yellow-800' : 'text-gray-700'}`}>
+              <span className="mr-2">•</span>
+              {issue.message}. {issue.recommendation}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
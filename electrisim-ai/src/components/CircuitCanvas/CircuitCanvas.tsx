@@ -1,12 +1,27 @@
 import React, { useRef, useEffect, useState, useCallback } from 'react';
-import type { Circuit, CircuitAnalysis, Component, Connection, Position } from '../../types/circuit.types';
+import type { BatteryChemistry, Cable, Circuit, CircuitAnalysis, Component, Connection, ElectrodeConfiguration, FaultSpec, FaultType, InstallationMethod, Position } from '../../types/circuit.types';
 import { Trash2, Link } from 'lucide-react';
+import { DEFAULT_CONDUCTOR_GAP, DEFAULT_ELECTRODE_CONFIGURATION, DEFAULT_WORKING_DISTANCE } from '../../utils/arcFlash';
+import { CircuitSolver, SWITCHING_TYPES } from '../../utils/circuitSolver';
+import { CableCalculations, DEFAULT_CABLE } from '../../utils/cables';
+import { BATTERY_CHEMISTRIES } from '../../utils/solarPV';
+
+const INSTALLATION_METHODS: { value: InstallationMethod; label: string }[] = [
+  { value: 'A1', label: 'A1 - Conductors in conduit in insulated wall' },
+  { value: 'A2', label: 'A2 - Multicore cable in conduit in insulated wall' },
+  { value: 'B1', label: 'B1 - Conductors in conduit on wall' },
+  { value: 'B2', label: 'B2 - Multicore cable in conduit on wall' },
+  { value: 'C', label: 'C - Clipped direct' },
+  { value: 'D1', label: 'D1 - In ducts in the ground' },
+  { value: 'E', label: 'E - Multicore cable in free air' }
+];
 
 interface CircuitCanvasProps {
   circuit: Circuit;
   analysis: CircuitAnalysis | null;
   onCircuitUpdate: (circuit: Circuit) => void;
   onImageUpload: (file: File) => void;
+  onInjectFault?: (fault: FaultSpec) => void;
   isAnalyzing: boolean;
 }
 
@@ -15,6 +30,7 @@ export const CircuitCanvas: React.FC<CircuitCanvasProps> = ({
   analysis,
   onCircuitUpdate,
   onImageUpload,
+  onInjectFault,
   isAnalyzing
 }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
@@ -34,11 +50,12 @@ export const CircuitCanvas: React.FC<CircuitCanvasProps> = ({
   // Component editing state
   const [editingComponent, setEditingComponent] = useState<string | null>(null);
   const [editValue, setEditValue] = useState<string>('');
-  const [editProperty, setEditProperty] = useState<'value' | 'unit' | 'batteryType' | 'frequency' | 'turnsRatio' | 'forwardVoltage' | 'powerConsumption' | 'operatingVoltage' | 'operatingCurrent' | 'efficiency' | 'coolingCapacity' | 'heatingCapacity' | 'screenSize' | 'fanSpeed' | 'motorType' | 'description' | 'name'>('value');
+  const [editProperty, setEditProperty] = useState<'value' | 'unit' | 'tolerance' | 'thermalResistance' | 'thermalMass' | 'maxTemperature' | 'batteryType' | 'frequency' | 'faultLevel' | 'xrRatio' | 'breakingCapacity' | 'turnsRatio' | 'kvaRating' | 'impedancePercent' | 'groundingResistance' | 'electrodeConfiguration' | 'conductorGap' | 'workingDistance' | 'modulePower' | 'modulesPerString' | 'strings' | 'moduleVoc' | 'maxChargeCurrent' | 'maxPVVoltage' | 'batteryChemistry' | 'batteryCapacity' | 'depthOfDischarge' | 'exportLimit' | 'forwardVoltage' | 'powerConsumption' | 'operatingVoltage' | 'operatingCurrent' | 'efficiency' | 'coolingCapacity' | 'heatingCapacity' | 'screenSize' | 'fanSpeed' | 'motorType' | 'description' | 'name'>('value');
   const [showEditModal, setShowEditModal] = useState(false);
+  const [editingCable, setEditingCable] = useState<{ connectionId: string; cable: Cable } | null>(null);
   
-  // Context menu state
-  const [contextMenu, setContextMenu] = useState<{ x: number; y: number; componentId: string } | null>(null);
+  // Context menu state; right-clicking a wire opens it with the cable and fault actions
+  const [contextMenu, setContextMenu] = useState<{ x: number; y: number; componentId?: string; connectionId?: string } | null>(null);
   
   // Connection state
   const [connectionMode, setConnectionMode] = useState(false);
@@ -185,6 +202,19 @@ export const CircuitCanvas: React.FC<CircuitCanvasProps> = ({
         ctx.beginPath();
         ctx.arc(toComponent.position.x, toComponent.position.y, 3, 0, 2 * Math.PI);
         ctx.fill();
+
+        // Label cabled wires at their midpoint, in red when the cable is overloaded
+        if (connection.cable) {
+          const branch = analysis?.cables?.find(b => b.connectionId === connection.id);
+          ctx.fillStyle = branch && branch.utilisation > 100 ? '#dc2626' : '#4b5563';
+          ctx.font = '10px sans-serif';
+          ctx.textAlign = 'center';
+          ctx.fillText(
+            CableCalculations.getLabel(connection.cable),
+            (fromComponent.position.x + toComponent.position.x) / 2,
+            (fromComponent.position.y + toComponent.position.y) / 2 - 6
+          );
+        }
       }
     });
   };
@@ -245,6 +275,14 @@ export const CircuitCanvas: React.FC<CircuitCanvasProps> = ({
     // Draw port circles
     drawPortCircles(ctx, component);
 
+    // Contact state of switching devices: green when made, red when broken
+    if (SWITCHING_TYPES.includes(component.type)) {
+      ctx.fillStyle = CircuitSolver.isContactClosed(component) ? '#16a34a' : '#dc2626';
+      ctx.beginPath();
+      ctx.arc(position.x + width / 2 - 6, position.y - height / 2 + 6, 4, 0, 2 * Math.PI);
+      ctx.fill();
+    }
+
     // Draw component label (value and unit) - below component, not overlapping
     ctx.fillStyle = '#1f2937';
     ctx.font = 'bold 10px Arial';
@@ -417,7 +455,7 @@ export const CircuitCanvas: React.FC<CircuitCanvasProps> = ({
         break;
 
       case 'switch':
-        // Switch symbol
+        // Switch symbol; the blade lies flat when closed
         ctx.beginPath();
         ctx.moveTo(position.x - 15, position.y);
         ctx.lineTo(position.x - 5, position.y);
@@ -425,11 +463,11 @@ export const CircuitCanvas: React.FC<CircuitCanvasProps> = ({
         ctx.lineTo(position.x + 15, position.y);
         ctx.stroke();
         ctx.beginPath();
-        ctx.arc(position.x, position.y - 5, 3, 0, 2 * Math.PI);
+        ctx.arc(position.x - 5, position.y, 2, 0, 2 * Math.PI);
         ctx.fill();
         ctx.beginPath();
         ctx.moveTo(position.x - 5, position.y);
-        ctx.lineTo(position.x, position.y - 5);
+        ctx.lineTo(position.x + 5, CircuitSolver.isContactClosed(component) ? position.y : position.y - 8);
         ctx.stroke();
         break;
 
@@ -487,6 +525,24 @@ export const CircuitCanvas: React.FC<CircuitCanvasProps> = ({
     }) || null;
   };
 
+  // Find the wire passing within a few pixels of a point
+  const findConnectionAt = (x: number, y: number): Connection | null => {
+    return circuit.connections.find(connection => {
+      const from = circuit.components.find(c => c.id === connection.from);
+      const to = circuit.components.find(c => c.id === connection.to);
+      if (!from || !to) return false;
+      const dx = to.position.x - from.position.x;
+      const dy = to.position.y - from.position.y;
+      const lengthSquared = dx * dx + dy * dy;
+      const t = lengthSquared > 0
+        ? Math.max(0, Math.min(1, ((x - from.position.x) * dx + (y - from.position.y) * dy) / lengthSquared))
+        : 0;
+      const px = from.position.x + t * dx - x;
+      const py = from.position.y + t * dy - y;
+      return Math.sqrt(px * px + py * py) < 6;
+    }) || null;
+  };
+
 
   const drawConnectionPreview = (ctx: CanvasRenderingContext2D) => {
     if (!connectionStart || !connectionPreview) return;
@@ -550,6 +606,20 @@ export const CircuitCanvas: React.FC<CircuitCanvasProps> = ({
     });
   };
 
+  // Lowest port on a component that no wire uses yet, so the solver can tell terminals apart
+  const getNextFreePort = (componentId: string): number => {
+    const component = circuit.components.find(c => c.id === componentId);
+    const usedPorts = new Set<number>();
+    circuit.connections.forEach(conn => {
+      if (conn.from === componentId) usedPorts.add(conn.fromPort);
+      if (conn.to === componentId) usedPorts.add(conn.toPort);
+    });
+    for (let port = 1; port <= (component?.ports || 1); port++) {
+      if (!usedPorts.has(port)) return port;
+    }
+    return 1;
+  };
+
   // Screen to canvas coordinate conversion
   const screenToCanvas = (screenX: number, screenY: number): Position => {
     const rect = canvasRef.current?.getBoundingClientRect();
@@ -575,8 +645,8 @@ export const CircuitCanvas: React.FC<CircuitCanvasProps> = ({
               id: `conn-${Date.now()}`,
               from: connectionStart,
               to: clickedComponent.id,
-              fromPort: 1,
-              toPort: 1
+              fromPort: getNextFreePort(connectionStart),
+              toPort: getNextFreePort(clickedComponent.id)
             };
 
             const updatedCircuit = {
@@ -672,17 +742,54 @@ export const CircuitCanvas: React.FC<CircuitCanvasProps> = ({
     const canvasPos = screenToCanvas(e.clientX, e.clientY);
     const clickedComponent = findComponentAt(canvasPos.x, canvasPos.y);
 
+    const clickedConnection = !clickedComponent ? findConnectionAt(canvasPos.x, canvasPos.y) : null;
+
     if (clickedComponent) {
       setContextMenu({
         x: e.clientX,
         y: e.clientY,
         componentId: clickedComponent.id
       });
+    } else if (clickedConnection) {
+      setContextMenu({
+        x: e.clientX,
+        y: e.clientY,
+        connectionId: clickedConnection.id
+      });
     } else {
       setContextMenu(null);
     }
   };
 
+  // Inject a fault at the component or wire the context menu was opened on
+  const handleFaultAction = (type: FaultType) => {
+    if (!contextMenu || !onInjectFault) return;
+    onInjectFault({ type, componentId: contextMenu.componentId, connectionId: contextMenu.connectionId });
+    setContextMenu(null);
+  };
+
+  // Open the cable editor for the wire the context menu was opened on
+  const handleEditCable = () => {
+    const connection = circuit.connections.find(conn => conn.id === contextMenu?.connectionId);
+    if (!connection) return;
+    setEditingCable({ connectionId: connection.id, cable: { ...DEFAULT_CABLE, ...connection.cable } });
+    setContextMenu(null);
+  };
+
+  // Write the edited cable onto its connection, or return it to an ideal wire
+  const handleCableSave = (cable: Cable | undefined) => {
+    if (!editingCable) return;
+    onCircuitUpdate({
+      ...circuit,
+      connections: circuit.connections.map(conn => (conn.id === editingCable.connectionId ? { ...conn, cable } : conn)),
+      metadata: {
+        ...circuit.metadata,
+        updatedAt: new Date()
+      }
+    });
+    setEditingCable(null);
+  };
+
   // Handle context menu actions
   const handleContextMenuAction = (action: string) => {
     if (!contextMenu) return;
@@ -757,6 +864,21 @@ export const CircuitCanvas: React.FC<CircuitCanvasProps> = ({
         setContextMenu(null);
         break;
 
+      case 'toggle':
+        // Flip the contact; the circuit is re-solved with the new topology
+        onCircuitUpdate({
+          ...circuit,
+          components: circuit.components.map(c =>
+            c.id === component.id ? CircuitSolver.setContactClosed(c, !CircuitSolver.isContactClosed(c)) : c
+          ),
+          metadata: {
+            ...circuit.metadata,
+            updatedAt: new Date()
+          }
+        });
+        setContextMenu(null);
+        break;
+
       case 'details':
         // Show component details (could open a details modal)
         alert(`Component: ${component.type}\nValue: ${component.value} ${component.unit}\nDescription: ${component.properties.description || 'N/A'}`);
@@ -798,15 +920,84 @@ export const CircuitCanvas: React.FC<CircuitCanvasProps> = ({
           case 'unit':
             updatedComponent.unit = editValue;
             break;
+          case 'tolerance':
+            updatedComponent.properties.tolerance = parseFloat(editValue) || undefined;
+            break;
+          case 'thermalResistance':
+            updatedComponent.properties.thermalResistance = parseFloat(editValue) || undefined;
+            break;
+          case 'thermalMass':
+            updatedComponent.properties.thermalMass = parseFloat(editValue) || undefined;
+            break;
+          case 'maxTemperature':
+            updatedComponent.properties.maxTemperature = parseFloat(editValue) || undefined;
+            break;
+          case 'groundingResistance':
+            updatedComponent.properties.groundingResistance = parseFloat(editValue) || undefined;
+            break;
+          case 'electrodeConfiguration':
+            updatedComponent.properties.electrodeConfiguration = editValue as ElectrodeConfiguration;
+            break;
+          case 'conductorGap':
+            updatedComponent.properties.conductorGap = parseFloat(editValue) || undefined;
+            break;
+          case 'workingDistance':
+            updatedComponent.properties.workingDistance = parseFloat(editValue) || undefined;
+            break;
+          case 'modulePower':
+            updatedComponent.properties.modulePower = parseFloat(editValue) || undefined;
+            break;
+          case 'modulesPerString':
+            updatedComponent.properties.modulesPerString = parseInt(editValue, 10) || undefined;
+            break;
+          case 'strings':
+            updatedComponent.properties.strings = parseInt(editValue, 10) || undefined;
+            break;
+          case 'moduleVoc':
+            updatedComponent.properties.moduleVoc = parseFloat(editValue) || undefined;
+            break;
+          case 'maxChargeCurrent':
+            updatedComponent.properties.maxChargeCurrent = parseFloat(editValue) || undefined;
+            break;
+          case 'maxPVVoltage':
+            updatedComponent.properties.maxPVVoltage = parseFloat(editValue) || undefined;
+            break;
+          case 'batteryChemistry':
+            updatedComponent.properties.batteryChemistry = editValue as BatteryChemistry;
+            break;
+          case 'batteryCapacity':
+            updatedComponent.properties.batteryCapacity = parseFloat(editValue) || undefined;
+            break;
+          case 'depthOfDischarge':
+            updatedComponent.properties.depthOfDischarge = parseFloat(editValue) || undefined;
+            break;
+          case 'exportLimit':
+            updatedComponent.properties.exportLimit = parseFloat(editValue) || undefined;
+            break;
           case 'batteryType':
             updatedComponent.properties.batteryType = editValue as 'DC' | 'AC';
             break;
           case 'frequency':
             updatedComponent.properties.frequency = parseFloat(editValue) || 0;
             break;
+          case 'faultLevel':
+            updatedComponent.properties.faultLevel = parseFloat(editValue) || undefined;
+            break;
+          case 'xrRatio':
+            updatedComponent.properties.xrRatio = parseFloat(editValue) || undefined;
+            break;
+          case 'breakingCapacity':
+            updatedComponent.properties.breakingCapacity = parseFloat(editValue) || undefined;
+            break;
           case 'turnsRatio':
             updatedComponent.properties.turnsRatio = parseFloat(editValue) || 1;
             break;
+          case 'kvaRating':
+            updatedComponent.properties.kvaRating = parseFloat(editValue) || undefined;
+            break;
+          case 'impedancePercent':
+            updatedComponent.properties.impedancePercent = parseFloat(editValue) || undefined;
+            break;
           case 'forwardVoltage':
             updatedComponent.properties.forwardVoltage = parseFloat(editValue) || 0;
             break;
@@ -1000,42 +1191,97 @@ export const CircuitCanvas: React.FC<CircuitCanvasProps> = ({
             style={{ left: contextMenu.x, top: contextMenu.y }}
             onClick={(e) => e.stopPropagation()}
           >
-            <button
-              onClick={() => handleContextMenuAction('edit')}
-              className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 flex items-center space-x-2"
-            >
-              <span>✏️</span>
-              <span>Edit Properties</span>
-            </button>
-            <button
-              onClick={() => handleContextMenuAction('disconnect')}
-              className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 flex items-center space-x-2"
-            >
-              <span>🔌</span>
-              <span>Disconnect All</span>
-            </button>
-            <button
-              onClick={() => handleContextMenuAction('duplicate')}
-              className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 flex items-center space-x-2"
-            >
-              <span>📋</span>
-              <span>Duplicate</span>
-            </button>
-            <button
-              onClick={() => handleContextMenuAction('details')}
-              className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 flex items-center space-x-2"
-            >
-              <span>ℹ️</span>
-              <span>View Details</span>
-            </button>
-            <div className="border-t border-gray-200 my-1"></div>
-            <button
-              onClick={() => handleContextMenuAction('delete')}
-              className="w-full text-left px-4 py-2 text-sm text-red-600 hover:bg-red-50 flex items-center space-x-2"
-            >
-              <span>🗑️</span>
-              <span>Delete Component</span>
-            </button>
+            {contextMenu.componentId && (
+              <>
+                <button
+                  onClick={() => handleContextMenuAction('edit')}
+                  className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 flex items-center space-x-2"
+                >
+                  <span>✏️</span>
+                  <span>Edit Properties</span>
+                </button>
+                {(() => {
+                  const component = circuit.components.find(c => c.id === contextMenu.componentId);
+                  if (!component || !SWITCHING_TYPES.includes(component.type)) return null;
+                  const label = component.type === 'emergency-stop'
+                    ? (component.properties.estopPressed ? 'Release E-Stop' : 'Press E-Stop')
+                    : CircuitSolver.isContactClosed(component) ? 'Turn Off' : 'Turn On';
+                  return (
+                    <button
+                      onClick={() => handleContextMenuAction('toggle')}
+                      className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 flex items-center space-x-2"
+                    >
+                      <span>🔀</span>
+                      <span>{label}</span>
+                    </button>
+                  );
+                })()}
+                <button
+                  onClick={() => handleContextMenuAction('disconnect')}
+                  className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 flex items-center space-x-2"
+                >
+                  <span>🔌</span>
+                  <span>Disconnect All</span>
+                </button>
+                <button
+                  onClick={() => handleContextMenuAction('duplicate')}
+                  className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 flex items-center space-x-2"
+                >
+                  <span>📋</span>
+                  <span>Duplicate</span>
+                </button>
+                <button
+                  onClick={() => handleContextMenuAction('details')}
+                  className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 flex items-center space-x-2"
+                >
+                  <span>ℹ️</span>
+                  <span>View Details</span>
+                </button>
+                <div className="border-t border-gray-200 my-1"></div>
+                <button
+                  onClick={() => handleContextMenuAction('delete')}
+                  className="w-full text-left px-4 py-2 text-sm text-red-600 hover:bg-red-50 flex items-center space-x-2"
+                >
+                  <span>🗑️</span>
+                  <span>Delete Component</span>
+                </button>
+              </>
+            )}
+            {contextMenu.connectionId && (
+              <button
+                onClick={handleEditCable}
+                className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 flex items-center space-x-2"
+              >
+                <span>📏</span>
+                <span>Edit Cable</span>
+              </button>
+            )}
+            {onInjectFault && (
+              <>
+                <div className="border-t border-gray-200 my-1"></div>
+                <button
+                  onClick={() => handleFaultAction('bolted-short')}
+                  className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 flex items-center space-x-2"
+                >
+                  <span>⚡</span>
+                  <span>Inject Bolted Short</span>
+                </button>
+                <button
+                  onClick={() => handleFaultAction('line-to-ground')}
+                  className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 flex items-center space-x-2"
+                >
+                  <span>⏚</span>
+                  <span>Inject Line-to-Ground Fault</span>
+                </button>
+                <button
+                  onClick={() => handleFaultAction('open-circuit')}
+                  className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 flex items-center space-x-2"
+                >
+                  <span>✂️</span>
+                  <span>Inject Open Circuit</span>
+                </button>
+              </>
+            )}
           </div>
         )}
 
@@ -1115,6 +1361,70 @@ export const CircuitCanvas: React.FC<CircuitCanvasProps> = ({
                       />
                     </div>
 
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">
+                        Tolerance (±%)
+                      </label>
+                      <input
+                        type="number"
+                        min={0}
+                        value={editProperty === 'tolerance' ? editValue : (component.properties.tolerance || '').toString()}
+                        onChange={(e) => {
+                          setEditProperty('tolerance');
+                          setEditValue(e.target.value);
+                        }}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                    </div>
+
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">
+                        Thermal Resistance (K/W)
+                      </label>
+                      <input
+                        type="number"
+                        min={0}
+                        value={editProperty === 'thermalResistance' ? editValue : (component.properties.thermalResistance || '').toString()}
+                        onChange={(e) => {
+                          setEditProperty('thermalResistance');
+                          setEditValue(e.target.value);
+                        }}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                    </div>
+
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">
+                        Thermal Mass (J/K)
+                      </label>
+                      <input
+                        type="number"
+                        min={0}
+                        value={editProperty === 'thermalMass' ? editValue : (component.properties.thermalMass || '').toString()}
+                        onChange={(e) => {
+                          setEditProperty('thermalMass');
+                          setEditValue(e.target.value);
+                        }}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                    </div>
+
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">
+                        Max Temperature (°C)
+                      </label>
+                      <input
+                        type="number"
+                        min={0}
+                        value={editProperty === 'maxTemperature' ? editValue : (component.properties.maxTemperature || '').toString()}
+                        onChange={(e) => {
+                          setEditProperty('maxTemperature');
+                          setEditValue(e.target.value);
+                        }}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                    </div>
+
                     {/* Battery-specific fields */}
                     {component.type === 'battery' && (
                       <>
@@ -1148,20 +1458,114 @@ export const CircuitCanvas: React.FC<CircuitCanvasProps> = ({
                             className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
                           />
                         </div>
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 mb-1">
+                            Fault Level (MVA)
+                          </label>
+                          <input
+                            type="number"
+                            value={editProperty === 'faultLevel' ? editValue : (component.properties.faultLevel || '').toString()}
+                            onChange={(e) => {
+                              setEditProperty('faultLevel');
+                              setEditValue(e.target.value);
+                            }}
+                            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                          />
+                        </div>
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 mb-1">
+                            X/R Ratio
+                          </label>
+                          <input
+                            type="number"
+                            value={editProperty === 'xrRatio' ? editValue : (component.properties.xrRatio || '').toString()}
+                            onChange={(e) => {
+                              setEditProperty('xrRatio');
+                              setEditValue(e.target.value);
+                            }}
+                            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                          />
+                        </div>
                       </>
                     )}
 
+                    {/* Breaking capacity of switching and protective devices */}
+                    {['mcb', 'fuse', 'rccb', 'gfci', 'breaker'].includes(component.type) && (
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">
+                          Breaking Capacity (kA)
+                        </label>
+                        <input
+                          type="number"
+                          value={editProperty === 'breakingCapacity' ? editValue : (component.properties.breakingCapacity || '').toString()}
+                          onChange={(e) => {
+                            setEditProperty('breakingCapacity');
+                            setEditValue(e.target.value);
+                          }}
+                          className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        />
+                      </div>
+                    )}
+
                     {/* Transformer-specific fields */}
                     {component.type === 'transformer' && (
+                      <>
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 mb-1">
+                            Turns Ratio
+                          </label>
+                          <input
+                            type="number"
+                            value={editProperty === 'turnsRatio' ? editValue : (component.properties.turnsRatio || 1).toString()}
+                            onChange={(e) => {
+                              setEditProperty('turnsRatio');
+                              setEditValue(e.target.value);
+                            }}
+                            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                          />
+                        </div>
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 mb-1">
+                            Rating (kVA)
+                          </label>
+                          <input
+                            type="number"
+                            value={editProperty === 'kvaRating' ? editValue : (component.properties.kvaRating || '').toString()}
+                            onChange={(e) => {
+                              setEditProperty('kvaRating');
+                              setEditValue(e.target.value);
+                            }}
+                            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                          />
+                        </div>
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 mb-1">
+                            Impedance (%)
+                          </label>
+                          <input
+                            type="number"
+                            value={editProperty === 'impedancePercent' ? editValue : (component.properties.impedancePercent || '').toString()}
+                            onChange={(e) => {
+                              setEditProperty('impedancePercent');
+                              setEditValue(e.target.value);
+                            }}
+                            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                          />
+                        </div>
+                      </>
+                    )}
+
+                    {/* Earth electrode fields */}
+                    {(component.type === 'ground' || component.type === 'lightning-rod') && (
                       <div>
                         <label className="block text-sm font-medium text-gray-700 mb-1">
-                          Turns Ratio
+                          Grounding Resistance (Ω)
                         </label>
                         <input
                           type="number"
-                          value={editProperty === 'turnsRatio' ? editValue : (component.properties.turnsRatio || 1).toString()}
+                          value={editProperty === 'groundingResistance' ? editValue : (component.properties.groundingResistance || '').toString()}
                           onChange={(e) => {
-                            setEditProperty('turnsRatio');
+                            setEditProperty('groundingResistance');
                             setEditValue(e.target.value);
                           }}
                           className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
@@ -1169,6 +1573,268 @@ export const CircuitCanvas: React.FC<CircuitCanvasProps> = ({
                       </div>
                     )}
 
+                    {/* Arc-flash fields of a distribution point */}
+                    {component.type === 'junction' && (
+                      <>
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 mb-1">
+                            Electrode Configuration
+                          </label>
+                          <select
+                            value={editProperty === 'electrodeConfiguration' ? editValue : (component.properties.electrodeConfiguration || DEFAULT_ELECTRODE_CONFIGURATION)}
+                            onChange={(e) => {
+                              setEditProperty('electrodeConfiguration');
+                              setEditValue(e.target.value);
+                            }}
+                            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                          >
+                            <option value="VCB">VCB - vertical conductors in a box</option>
+                            <option value="VCBB">VCBB - vertical conductors, insulating barrier</option>
+                            <option value="HCB">HCB - horizontal conductors in a box</option>
+                            <option value="VOA">VOA - vertical conductors in open air</option>
+                            <option value="HOA">HOA - horizontal conductors in open air</option>
+                          </select>
+                        </div>
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 mb-1">
+                            Conductor Gap (mm)
+                          </label>
+                          <input
+                            type="number"
+                            value={editProperty === 'conductorGap' ? editValue : (component.properties.conductorGap || DEFAULT_CONDUCTOR_GAP).toString()}
+                            onChange={(e) => {
+                              setEditProperty('conductorGap');
+                              setEditValue(e.target.value);
+                            }}
+                            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                          />
+                        </div>
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 mb-1">
+                            Working Distance (mm)
+                          </label>
+                          <input
+                            type="number"
+                            value={editProperty === 'workingDistance' ? editValue : (component.properties.workingDistance || DEFAULT_WORKING_DISTANCE).toString()}
+                            onChange={(e) => {
+                              setEditProperty('workingDistance');
+                              setEditValue(e.target.value);
+                            }}
+                            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                          />
+                        </div>
+                      </>
+                    )}
+
+                    {/* PV array fields; the array is modules per string × strings */}
+                    {component.type === 'pv-array' && (
+                      <>
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 mb-1">
+                            Module Power (Wp)
+                          </label>
+                          <input
+                            type="number"
+                            value={editProperty === 'modulePower' ? editValue : (component.properties.modulePower || '').toString()}
+                            onChange={(e) => {
+                              setEditProperty('modulePower');
+                              setEditValue(e.target.value);
+                            }}
+                            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                          />
+                        </div>
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 mb-1">
+                            Modules per String
+                          </label>
+                          <input
+                            type="number"
+                            value={editProperty === 'modulesPerString' ? editValue : (component.properties.modulesPerString || 1).toString()}
+                            onChange={(e) => {
+                              setEditProperty('modulesPerString');
+                              setEditValue(e.target.value);
+                            }}
+                            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                          />
+                        </div>
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 mb-1">
+                            Strings in Parallel
+                          </label>
+                          <input
+                            type="number"
+                            value={editProperty === 'strings' ? editValue : (component.properties.strings || 1).toString()}
+                            onChange={(e) => {
+                              setEditProperty('strings');
+                              setEditValue(e.target.value);
+                            }}
+                            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                          />
+                        </div>
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 mb-1">
+                            Module Voc (V)
+                          </label>
+                          <input
+                            type="number"
+                            value={editProperty === 'moduleVoc' ? editValue : (component.properties.moduleVoc || '').toString()}
+                            onChange={(e) => {
+                              setEditProperty('moduleVoc');
+                              setEditValue(e.target.value);
+                            }}
+                            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                          />
+                        </div>
+                      </>
+                    )}
+
+                    {/* Charge controller fields */}
+                    {component.type === 'charge-controller' && (
+                      <>
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 mb-1">
+                            Max Charge Current (A)
+                          </label>
+                          <input
+                            type="number"
+                            value={editProperty === 'maxChargeCurrent' ? editValue : (component.properties.maxChargeCurrent || '').toString()}
+                            onChange={(e) => {
+                              setEditProperty('maxChargeCurrent');
+                              setEditValue(e.target.value);
+                            }}
+                            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                          />
+                        </div>
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 mb-1">
+                            Max PV Voltage (V)
+                          </label>
+                          <input
+                            type="number"
+                            value={editProperty === 'maxPVVoltage' ? editValue : (component.properties.maxPVVoltage || '').toString()}
+                            onChange={(e) => {
+                              setEditProperty('maxPVVoltage');
+                              setEditValue(e.target.value);
+                            }}
+                            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                          />
+                        </div>
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 mb-1">
+                            Efficiency (%)
+                          </label>
+                          <input
+                            type="number"
+                            value={editProperty === 'efficiency' ? editValue : (component.properties.efficiency || '').toString()}
+                            onChange={(e) => {
+                              setEditProperty('efficiency');
+                              setEditValue(e.target.value);
+                            }}
+                            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                          />
+                        </div>
+                      </>
+                    )}
+
+                    {/* Battery bank fields; the value is the nominal voltage */}
+                    {component.type === 'battery-bank' && (
+                      <>
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 mb-1">
+                            Chemistry
+                          </label>
+                          <select
+                            value={editProperty === 'batteryChemistry' ? editValue : (component.properties.batteryChemistry || 'lead-acid')}
+                            onChange={(e) => {
+                              setEditProperty('batteryChemistry');
+                              setEditValue(e.target.value);
+                            }}
+                            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                          >
+                            <option value="lead-acid">Lead-acid</option>
+                            <option value="lithium-ion">Lithium-ion (NMC)</option>
+                            <option value="lifepo4">LiFePO4</option>
+                          </select>
+                        </div>
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 mb-1">
+                            Capacity (Ah)
+                          </label>
+                          <input
+                            type="number"
+                            value={editProperty === 'batteryCapacity' ? editValue : (component.properties.batteryCapacity || '').toString()}
+                            onChange={(e) => {
+                              setEditProperty('batteryCapacity');
+                              setEditValue(e.target.value);
+                            }}
+                            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                          />
+                        </div>
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 mb-1">
+                            Depth of Discharge (%)
+                          </label>
+                          <input
+                            type="number"
+                            value={editProperty === 'depthOfDischarge' ? editValue : (component.properties.depthOfDischarge || BATTERY_CHEMISTRIES[component.properties.batteryChemistry || 'lead-acid'].depthOfDischarge).toString()}
+                            onChange={(e) => {
+                              setEditProperty('depthOfDischarge');
+                              setEditValue(e.target.value);
+                            }}
+                            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                          />
+                        </div>
+                      </>
+                    )}
+
+                    {/* Grid-tie inverter fields */}
+                    {component.type === 'grid-tie-inverter' && (
+                      <>
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 mb-1">
+                            Max PV Voltage (V)
+                          </label>
+                          <input
+                            type="number"
+                            value={editProperty === 'maxPVVoltage' ? editValue : (component.properties.maxPVVoltage || '').toString()}
+                            onChange={(e) => {
+                              setEditProperty('maxPVVoltage');
+                              setEditValue(e.target.value);
+                            }}
+                            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                          />
+                        </div>
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 mb-1">
+                            Export Limit (W)
+                          </label>
+                          <input
+                            type="number"
+                            value={editProperty === 'exportLimit' ? editValue : (component.properties.exportLimit || '').toString()}
+                            onChange={(e) => {
+                              setEditProperty('exportLimit');
+                              setEditValue(e.target.value);
+                            }}
+                            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                          />
+                        </div>
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 mb-1">
+                            Efficiency (%)
+                          </label>
+                          <input
+                            type="number"
+                            value={editProperty === 'efficiency' ? editValue : (component.properties.efficiency || '').toString()}
+                            onChange={(e) => {
+                              setEditProperty('efficiency');
+                              setEditValue(e.target.value);
+                            }}
+                            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                          />
+                        </div>
+                      </>
+                    )}
+
                     {/* Diode-specific fields */}
                     {component.type === 'diode' && (
                       <div>
@@ -1366,6 +2032,163 @@ export const CircuitCanvas: React.FC<CircuitCanvasProps> = ({
             </div>
           </div>
         )}
+
+        {/* Cable Editing Modal */}
+        {editingCable && (
+          <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+            <div className="bg-white rounded-lg shadow-xl p-6 w-96 max-h-[32rem] overflow-y-auto">
+              <div className="flex justify-between items-center mb-4">
+                <h3 className="text-lg font-semibold text-gray-900">
+                  Edit Cable
+                </h3>
+                <button
+                  onClick={() => setEditingCable(null)}
+                  className="text-gray-400 hover:text-gray-600"
+                >
+                  <Trash2 className="h-5 w-5" />
+                </button>
+              </div>
+
+              <div className="space-y-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Length (m)
+                  </label>
+                  <input
+                    type="number"
+                    min={0}
+                    value={editingCable.cable.length}
+                    onChange={(e) => setEditingCable({ ...editingCable, cable: { ...editingCable.cable, length: parseFloat(e.target.value) || 0 } })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+
+                <div className="flex space-x-2">
+                  <div className="flex-1">
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Size
+                    </label>
+                    <input
+                      type="number"
+                      value={editingCable.cable.size}
+                      onChange={(e) => setEditingCable({ ...editingCable, cable: { ...editingCable.cable, size: parseFloat(e.target.value) || 0 } })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                  </div>
+                  <div className="w-28">
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Unit
+                    </label>
+                    <select
+                      value={editingCable.cable.sizeUnit || 'mm2'}
+                      onChange={(e) => setEditingCable({ ...editingCable, cable: { ...editingCable.cable, sizeUnit: e.target.value as Cable['sizeUnit'] } })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                      <option value="mm2">mm²</option>
+                      <option value="awg">AWG</option>
+                    </select>
+                  </div>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Conductor
+                  </label>
+                  <select
+                    value={editingCable.cable.material || 'copper'}
+                    onChange={(e) => setEditingCable({ ...editingCable, cable: { ...editingCable.cable, material: e.target.value as Cable['material'] } })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="copper">Copper</option>
+                    <option value="aluminium">Aluminium</option>
+                  </select>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Insulation
+                  </label>
+                  <select
+                    value={editingCable.cable.insulation || 'pvc'}
+                    onChange={(e) => setEditingCable({ ...editingCable, cable: { ...editingCable.cable, insulation: e.target.value as Cable['insulation'] } })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="pvc">PVC (70°C)</option>
+                    <option value="xlpe">XLPE (90°C)</option>
+                  </select>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Installation Method
+                  </label>
+                  <select
+                    value={editingCable.cable.installationMethod || 'C'}
+                    onChange={(e) => setEditingCable({ ...editingCable, cable: { ...editingCable.cable, installationMethod: e.target.value as InstallationMethod } })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    {INSTALLATION_METHODS.map(method => (
+                      <option key={method.value} value={method.value}>{method.label}</option>
+                    ))}
+                  </select>
+                </div>
+
+                <div className="flex space-x-2">
+                  <div className="flex-1">
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Ambient (°C)
+                    </label>
+                    <input
+                      type="number"
+                      value={editingCable.cable.ambientTemperature ?? CableCalculations.getReferenceAmbient(editingCable.cable)}
+                      onChange={(e) => setEditingCable({ ...editingCable, cable: { ...editingCable.cable, ambientTemperature: e.target.value === '' ? undefined : parseFloat(e.target.value) } })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                  </div>
+                  <div className="flex-1">
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Grouped Circuits
+                    </label>
+                    <input
+                      type="number"
+                      min={1}
+                      value={editingCable.cable.groupedCircuits ?? 1}
+                      onChange={(e) => setEditingCable({ ...editingCable, cable: { ...editingCable.cable, groupedCircuits: parseInt(e.target.value, 10) || 1 } })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                  </div>
+                </div>
+
+                <div className="text-sm text-gray-600">
+                  {CableCalculations.getCrossSection(editingCable.cable).toFixed(2)}mm² · {(CableCalculations.getResistance(editingCable.cable) * 1000).toFixed(1)}mΩ per conductor · {CableCalculations.getAmpacity(editingCable.cable).toFixed(0)}A capacity
+                </div>
+
+                <div className="flex justify-between pt-4 border-t">
+                  <button
+                    onClick={() => handleCableSave(undefined)}
+                    className="px-4 py-2 text-sm font-medium text-red-600 bg-red-50 rounded-md hover:bg-red-100 transition-colors"
+                  >
+                    Remove Cable
+                  </button>
+                  <div className="flex space-x-2">
+                    <button
+                      onClick={() => setEditingCable(null)}
+                      className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 transition-colors"
+                    >
+                      Cancel
+                    </button>
+                    <button
+                      onClick={() => handleCableSave(editingCable.cable)}
+                      className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 transition-colors"
+                    >
+                      Save
+                    </button>
+                  </div>
+                </div>
+              </div>
+            </div>
+          </div>
+        )}
       </div>
     </div>
   );
@@ -30,7 +30,9 @@ import {
   AlertTriangle,
   Layers,
   AlertCircle,
-  Radio
+  Radio,
+  Sun,
+  BatteryCharging
 } from 'lucide-react';
 
 interface ComponentLibraryProps {
@@ -728,6 +730,7 @@ export const ComponentLibrary: React.FC<ComponentLibraryProps> = ({
         description: '16A MCB',
         commonUse: 'Circuit protection',
         tripCurrent: 16,
+        mcbCurve: 'B',
         breakingCapacity: 6,
         voltageRating: 230
       }
@@ -745,6 +748,7 @@ export const ComponentLibrary: React.FC<ComponentLibraryProps> = ({
         description: '30mA RCCB',
         commonUse: 'Earth leakage protection',
         sensitivity: 30,
+        rcdType: 'general',
         voltageRating: 230,
         currentRating: 32
       }
@@ -1057,6 +1061,82 @@ export const ComponentLibrary: React.FC<ComponentLibraryProps> = ({
         commonUse: 'Wire connections',
         voltageRating: 230
       }
+    },
+
+    // Renewables
+    {
+      id: 'pv-array-template',
+      type: 'pv-array',
+      value: 4000,
+      unit: 'W',
+      position: { x: 0, y: 0 },
+      rotation: 0,
+      connections: [],
+      ports: 2,
+      properties: {
+        description: '4kWp PV String',
+        commonUse: 'Rooftop solar generation',
+        modulePower: 400,
+        moduleVoc: 37.5,
+        moduleVmp: 31.2,
+        modulesPerString: 10,
+        strings: 1,
+        temperatureCoefficient: -0.35,
+        vocTemperatureCoefficient: -0.27
+      }
+    },
+    {
+      id: 'charge-controller-template',
+      type: 'charge-controller',
+      value: 80,
+      unit: 'A',
+      position: { x: 0, y: 0 },
+      rotation: 0,
+      connections: [],
+      ports: 2,
+      properties: {
+        description: 'MPPT Charge Controller',
+        commonUse: 'Charging batteries from PV',
+        maxChargeCurrent: 80,
+        maxPVVoltage: 450,
+        efficiency: 97
+      }
+    },
+    {
+      id: 'battery-bank-template',
+      type: 'battery-bank',
+      value: 48,
+      unit: 'V',
+      position: { x: 0, y: 0 },
+      rotation: 0,
+      connections: [],
+      ports: 2,
+      properties: {
+        description: '48V LiFePO4 Battery Bank',
+        commonUse: 'Energy storage for hybrid homes',
+        batteryChemistry: 'lifepo4',
+        batteryCapacity: 200,
+        depthOfDischarge: 90,
+        initialStateOfCharge: 80
+      }
+    },
+    {
+      id: 'grid-tie-inverter-template',
+      type: 'grid-tie-inverter',
+      value: 5000,
+      unit: 'W',
+      position: { x: 0, y: 0 },
+      rotation: 0,
+      connections: [],
+      ports: 2,
+      properties: {
+        description: 'Grid-tie Inverter',
+        commonUse: 'Feeding PV into the mains',
+        operatingVoltage: 230,
+        efficiency: 97,
+        maxPVVoltage: 600,
+        outputFrequency: 50
+      }
     }
   ];
 
@@ -1072,7 +1152,8 @@ export const ComponentLibrary: React.FC<ComponentLibraryProps> = ({
     { id: 'protection', name: 'Protection', icon: Shield, count: componentTemplates.filter(c => ['fuse', 'mcb', 'rccb', 'surge-protector', 'gfci', 'afci', 'spd', 'two-way-switch', 'lightning-rod', 'overvoltage-protector', 'undervoltage-protector', 'emergency-stop'].includes(c.type)).length },
     { id: 'control-devices', name: 'Control Devices', icon: Power, count: componentTemplates.filter(c => ['contactor', 'relay', 'timer'].includes(c.type)).length },
     { id: 'sensors', name: 'Sensors', icon: Eye, count: componentTemplates.filter(c => c.type === 'sensor').length },
-    { id: 'distribution', name: 'Distribution', icon: Plug, count: componentTemplates.filter(c => ['socket', 'junction'].includes(c.type)).length }
+    { id: 'distribution', name: 'Distribution', icon: Plug, count: componentTemplates.filter(c => ['socket', 'junction'].includes(c.type)).length },
+    { id: 'renewables', name: 'Renewables', icon: Sun, count: componentTemplates.filter(c => ['pv-array', 'charge-controller', 'battery-bank', 'grid-tie-inverter'].includes(c.type)).length }
   ];
 
   // Filter components based on search and category
@@ -1091,7 +1172,8 @@ export const ComponentLibrary: React.FC<ComponentLibraryProps> = ({
                            (selectedCategory === 'protection' && ['fuse', 'mcb', 'rccb', 'surge-protector', 'gfci', 'afci', 'spd', 'two-way-switch', 'lightning-rod', 'overvoltage-protector', 'undervoltage-protector', 'emergency-stop'].includes(component.type)) ||
                            (selectedCategory === 'control-devices' && ['contactor', 'relay', 'timer'].includes(component.type)) ||
                            (selectedCategory === 'sensors' && component.type === 'sensor') ||
-                           (selectedCategory === 'distribution' && ['socket', 'junction'].includes(component.type));
+                           (selectedCategory === 'distribution' && ['socket', 'junction'].includes(component.type)) ||
+                           (selectedCategory === 'renewables' && ['pv-array', 'charge-controller', 'battery-bank', 'grid-tie-inverter'].includes(component.type));
     
     const matchesFavorites = !showFavorites || favorites.has(component.id);
     
@@ -1138,6 +1220,10 @@ export const ComponentLibrary: React.FC<ComponentLibraryProps> = ({
       case 'sensor': return Eye;
       case 'socket': return Plug;
       case 'junction': return CircleDot;
+      case 'pv-array': return Sun;
+      case 'charge-controller': return BatteryCharging;
+      case 'battery-bank': return Battery;
+      case 'grid-tie-inverter': return Zap;
       default: return Circle;
     }
   };
@@ -1182,6 +1268,10 @@ export const ComponentLibrary: React.FC<ComponentLibraryProps> = ({
       case 'sensor': return 'text-teal-600 bg-teal-100';
       case 'socket': return 'text-green-600 bg-green-100';
       case 'junction': return 'text-gray-600 bg-gray-100';
+      case 'pv-array': return 'text-amber-600 bg-amber-100';
+      case 'charge-controller': return 'text-green-600 bg-green-100';
+      case 'battery-bank': return 'text-green-600 bg-green-100';
+      case 'grid-tie-inverter': return 'text-amber-600 bg-amber-100';
       default: return 'text-gray-600 bg-gray-100';
     }
   };
@@ -0,0 +1,93 @@
+import React, { useMemo, useState } from 'react';
+import type { Circuit, CircuitAnalysis } from '../../types/circuit.types';
+import { Tag, Printer, Download } from 'lucide-react';
+import { ArcFlashLabels } from '../../utils/arcFlashLabels';
+
+interface LabelPanelProps {
+  circuit: Circuit;
+  analysis: CircuitAnalysis | null;
+}
+
+export const LabelPanel: React.FC<LabelPanelProps> = ({ circuit, analysis }) => {
+  const [studyDate, setStudyDate] = useState(() => new Date().toISOString().slice(0, 10));
+
+  const labels = useMemo(
+    () => (analysis ? ArcFlashLabels.create(circuit, analysis, new Date(studyDate)) : []),
+    [circuit, analysis, studyDate]
+  );
+  const title = `${circuit.name || 'Circuit'} arc flash labels`;
+
+  const printLabels = () => {
+    const printWindow = window.open('', '_blank');
+    if (!printWindow) return;
+    printWindow.document.write(ArcFlashLabels.toHTML(labels, title));
+    printWindow.document.close();
+    printWindow.focus();
+    printWindow.print();
+  };
+
+  const exportHTML = () => {
+    const blob = new Blob([ArcFlashLabels.toHTML(labels, title)], { type: 'text/html' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${circuit.name || 'circuit'}-arc-flash-labels.html`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="border-t border-gray-200 p-4 space-y-3 max-h-96 overflow-y-auto">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <Tag className="h-5 w-5 text-blue-600" />
+          <h3 className="text-lg font-semibold text-gray-900">Arc Flash Labels</h3>
+        </div>
+        <div className="flex items-center space-x-2 text-sm">
+          <label className="flex items-center space-x-1 text-gray-600">
+            <span>Study date</span>
+            <input
+              type="date"
+              value={studyDate}
+              onChange={(e) => e.target.value && setStudyDate(e.target.value)}
+              className="px-2 py-1 border border-gray-300 rounded"
+            />
+          </label>
+          <button
+            onClick={printLabels}
+            disabled={labels.length === 0}
+            className="flex items-center space-x-1 px-3 py-1 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Printer className="h-4 w-4" />
+            <span>Print all</span>
+          </button>
+          <button
+            onClick={exportHTML}
+            disabled={labels.length === 0}
+            className="flex items-center space-x-1 px-3 py-1 text-blue-700 border border-blue-300 rounded hover:bg-blue-50 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Download className="h-4 w-4" />
+            <span>Export HTML</span>
+          </button>
+        </div>
+      </div>
+
+      {labels.length === 0 ? (
+        <div className="text-sm text-gray-500">
+          Labels are made for every distribution point of an AC circuit once the arc flash study has results
+        </div>
+      ) : (
+        <div className="grid grid-cols-2 gap-3">
+          {labels.map(label => (
+            <img
+              key={label.componentId}
+              src={`data:image/svg+xml;charset=utf-8,${encodeURIComponent(ArcFlashLabels.toSVG(label))}`}
+              alt={`${label.signalWord} arc flash label for ${label.equipment}`}
+              className="w-full border border-gray-200 rounded"
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,158 @@
+import React, { useState } from 'react';
+import type { LoadProfileOptions, LoadProfileResult } from '../../types/circuit.types';
+import { CalendarClock, Play } from 'lucide-react';
+
+interface LoadProfilePanelProps {
+  result: LoadProfileResult | null;
+  onRun: (options: LoadProfileOptions) => void;
+}
+
+const DAY_NAMES = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+const PLOT_WIDTH = 560;
+const PLOT_HEIGHT = 160;
+const PLOT_MARGIN = { top: 10, right: 10, bottom: 24, left: 48 };
+
+// Hours from Monday 00:00 as "Mon 18:30", or just the clock time for a one-day run
+const formatTime = (hours: number, days: number): string => {
+  const day = Math.floor(hours / 24);
+  const minutes = Math.round((hours - day * 24) * 60);
+  const clock = `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+  return days > 1 ? `${DAY_NAMES[day % 7]} ${clock}` : clock;
+};
+
+export const LoadProfilePanel: React.FC<LoadProfilePanelProps> = ({ result, onRun }) => {
+  const [days, setDays] = useState(1);
+  const [stepMinutes, setStepMinutes] = useState(15);
+
+  // Demand drawn as a step curve, one level per demand interval
+  const renderPlot = () => {
+    if (!result || result.demand.length === 0) {
+      return (
+        <div className="h-40 flex items-center justify-center text-sm text-gray-500">
+          Run the profile to see the demand curve
+        </div>
+      );
+    }
+
+    const totalHours = result.options.days * 24;
+    const stepHours = result.options.stepMinutes / 60;
+    const max = Math.max(result.peakDemand, 0.001);
+    const innerWidth = PLOT_WIDTH - PLOT_MARGIN.left - PLOT_MARGIN.right;
+    const innerHeight = PLOT_HEIGHT - PLOT_MARGIN.top - PLOT_MARGIN.bottom;
+    const x = (hours: number) => PLOT_MARGIN.left + (hours / totalHours) * innerWidth;
+    const y = (kW: number) => PLOT_MARGIN.top + ((max - kW) / max) * innerHeight;
+    const points = result.demand
+      .flatMap((kW, i) => [`${x(result.time[i]).toFixed(1)},${y(kW).toFixed(1)}`, `${x(result.time[i] + stepHours).toFixed(1)},${y(kW).toFixed(1)}`])
+      .join(' ');
+    const ticks = result.options.days > 1
+      ? Array.from({ length: result.options.days + 1 }, (_, i) => i * 24)
+      : [0, 6, 12, 18, 24];
+
+    return (
+      <svg viewBox={`0 0 ${PLOT_WIDTH} ${PLOT_HEIGHT}`} className="w-full h-40">
+        {[0, 0.5, 1].map(fraction => (
+          <g key={`y-${fraction}`}>
+            <line x1={PLOT_MARGIN.left} x2={PLOT_WIDTH - PLOT_MARGIN.right} y1={y(fraction * max)} y2={y(fraction * max)} stroke="#e5e7eb" />
+            <text x={PLOT_MARGIN.left - 4} y={y(fraction * max) + 3} textAnchor="end" fontSize="9" fill="#6b7280">
+              {(fraction * max).toFixed(2)}kW
+            </text>
+          </g>
+        ))}
+        {ticks.map(hours => (
+          <text key={`x-${hours}`} x={x(hours)} y={PLOT_HEIGHT - 8} textAnchor="middle" fontSize="9" fill="#6b7280">
+            {result.options.days > 1 ? DAY_NAMES[(hours / 24) % 7] || '' : `${hours}:00`}
+          </text>
+        ))}
+        <polyline fill="none" stroke="#2563eb" strokeWidth={1.5} points={points} />
+        <circle cx={x(result.peakTime + stepHours / 2)} cy={y(result.peakDemand)} r={3} fill="#dc2626" />
+      </svg>
+    );
+  };
+
+  return (
+    <div className="border-t border-gray-200 p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <CalendarClock className="h-5 w-5 text-blue-600" />
+          <h3 className="text-lg font-semibold text-gray-900">Load Profile</h3>
+        </div>
+        <div className="flex items-center space-x-2 text-sm">
+          <select
+            value={days}
+            onChange={(e) => setDays(parseInt(e.target.value, 10))}
+            className="px-2 py-1 border border-gray-300 rounded"
+          >
+            <option value={1}>1 day</option>
+            <option value={7}>1 week</option>
+          </select>
+          <select
+            value={stepMinutes}
+            onChange={(e) => setStepMinutes(parseInt(e.target.value, 10))}
+            className="px-2 py-1 border border-gray-300 rounded"
+          >
+            <option value={15}>15 min</option>
+            <option value={30}>30 min</option>
+            <option value={60}>60 min</option>
+          </select>
+          <button
+            onClick={() => onRun({ days, stepMinutes })}
+            className="flex items-center space-x-1 px-3 py-1 bg-blue-600 text-white rounded hover:bg-blue-700"
+          >
+            <Play className="h-4 w-4" />
+            <span>Run</span>
+          </button>
+        </div>
+      </div>
+
+      {renderPlot()}
+
+      {result && (
+        <>
+          <div className="grid grid-cols-3 gap-3 text-sm">
+            <div className="bg-gray-50 p-2 rounded">
+              <div className="text-gray-600">Peak Demand</div>
+              <div className="font-semibold text-gray-900">
+                {result.peakDemand.toFixed(2)}kW at {formatTime(result.peakTime, result.options.days)}
+              </div>
+            </div>
+            <div className="bg-gray-50 p-2 rounded">
+              <div className="text-gray-600">Connected Load</div>
+              <div className="font-semibold text-gray-900">
+                {result.connectedLoad.toFixed(2)}kW ({(result.coincidenceFactor * 100).toFixed(0)}% coincident)
+              </div>
+            </div>
+            <div className="bg-gray-50 p-2 rounded">
+              <div className="text-gray-600">Energy</div>
+              <div className="font-semibold text-gray-900">
+                {result.totalEnergy.toFixed(1)}kWh · load factor {result.loadFactor.toFixed(2)}
+              </div>
+            </div>
+          </div>
+
+          <div className="text-sm text-gray-700">
+            Main protection sized on peak demand: <span className="font-semibold">{result.recommendedMainRating}A</span>
+          </div>
+
+          <div className="grid grid-cols-3 gap-x-4 gap-y-1 text-sm text-gray-600">
+            {result.appliances.map(appliance => (
+              <div key={appliance.componentId}>
+                {appliance.componentId}: {appliance.energy.toFixed(2)}kWh ({appliance.operatingHours.toFixed(1)}h)
+              </div>
+            ))}
+          </div>
+
+          {result.issues.length > 0 && (
+            <ul className="space-y-1">
+              {result.issues.map(issue => (
+                <li key={issue.id} className={`text-sm flex items-start ${issue.type === 'error' ? 'text-red-800' : 'text-gray-700'}`}>
+                  <span className="mr-2">•</span>
+                  {issue.message}. {issue.recommendation}
+                </li>
+              ))}
+            </ul>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
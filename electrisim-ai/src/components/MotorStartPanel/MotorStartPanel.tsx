@@ -0,0 +1,113 @@
+import React, { useState } from 'react';
+import type { MotorStartMode, MotorStartOptions, MotorStartStudy } from '../../types/circuit.types';
+import { Gauge, Play, CheckCircle, AlertTriangle } from 'lucide-react';
+import { DEFAULT_STAGGER_INTERVAL, MAX_STARTING_VOLTAGE_DIP } from '../../utils/motorStarting';
+
+interface MotorStartPanelProps {
+  study: MotorStartStudy | null;
+  onRun: (options: MotorStartOptions) => void;
+}
+
+const formatTime = (seconds: number): string =>
+  seconds < 1 ? `${(seconds * 1000).toFixed(0)}ms` : `${seconds.toFixed(1)}s`;
+
+export const MotorStartPanel: React.FC<MotorStartPanelProps> = ({ study, onRun }) => {
+  const [mode, setMode] = useState<MotorStartMode>('simultaneous');
+  const [staggerInterval, setStaggerInterval] = useState(DEFAULT_STAGGER_INTERVAL);
+
+  // Deepest dips first so the worst-affected buses are visible without scrolling
+  const buses = study ? [...study.buses].sort((a, b) => b.dipPercent - a.dipPercent) : [];
+
+  return (
+    <div className="border-t border-gray-200 p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <Gauge className="h-5 w-5 text-blue-600" />
+          <h3 className="text-lg font-semibold text-gray-900">Motor Starting</h3>
+        </div>
+        <div className="flex items-center space-x-2 text-sm">
+          <select
+            value={mode}
+            onChange={(e) => setMode(e.target.value as MotorStartMode)}
+            className="px-2 py-1 border border-gray-300 rounded"
+          >
+            <option value="simultaneous">Simultaneous</option>
+            <option value="staggered">Staggered</option>
+          </select>
+          {mode === 'staggered' && (
+            <>
+              <label className="text-gray-600">Interval (s)</label>
+              <input
+                type="number"
+                min={0}
+                step={0.1}
+                value={staggerInterval}
+                onChange={(e) => setStaggerInterval(parseFloat(e.target.value) || 0)}
+                className="w-16 px-2 py-1 border border-gray-300 rounded"
+              />
+            </>
+          )}
+          <button
+            onClick={() => onRun({ mode, staggerInterval })}
+            className="flex items-center space-x-1 px-3 py-1 bg-blue-600 text-white rounded hover:bg-blue-700"
+          >
+            <Play className="h-4 w-4" />
+            <span>Start</span>
+          </button>
+        </div>
+      </div>
+
+      {!study && (
+        <div className="text-sm text-gray-500">Start the motors to see inrush current, voltage dip and nuisance tripping</div>
+      )}
+
+      {study && study.motors.length > 0 && (
+        <div className="grid grid-cols-3 gap-4 text-sm">
+          <div className="space-y-1">
+            <div className="font-medium text-gray-700">Motors</div>
+            {study.motors.map(motor => (
+              <div key={motor.componentId} className="text-gray-600">
+                {motor.componentId}: {motor.runningCurrent.toFixed(1)}A → {motor.startingCurrent.toFixed(1)}A
+                {' '}for {formatTime(motor.duration)}{study.options.mode === 'staggered' && ` at ${motor.startTime.toFixed(1)}s`}
+              </div>
+            ))}
+          </div>
+          <div className="space-y-1">
+            <div className="font-medium text-gray-700">Voltage Dip</div>
+            {buses.map(dip => (
+              <div key={dip.componentId} className={dip.dipPercent > MAX_STARTING_VOLTAGE_DIP ? 'text-yellow-800' : 'text-gray-600'}>
+                {dip.componentId}: {dip.dipPercent.toFixed(1)}% ({dip.minVoltage.toFixed(0)}V)
+              </div>
+            ))}
+          </div>
+          <div className="space-y-1">
+            <div className="font-medium text-gray-700">Protection</div>
+            {study.devices.map(device => (
+              <div
+                key={device.componentId}
+                className={`flex items-center space-x-1 ${device.mayTrip ? 'text-red-700' : 'text-green-700'}`}
+              >
+                {device.mayTrip ? <AlertTriangle className="h-4 w-4 flex-shrink-0" /> : <CheckCircle className="h-4 w-4 flex-shrink-0" />}
+                <span>
+                  {device.componentId} ({device.label}): {device.peakCurrent.toFixed(1)}A
+                  {device.willTrip ? ' trips' : device.mayTrip ? ' may trip' : ' rides through'}
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {study && study.issues.length > 0 && (
+        <ul className="space-y-1">
+          {study.issues.map(issue => (
+            <li key={issue.id} className="text-sm text-yellow-800 flex items-start">
+              <span className="mr-2">•</span>
+              {issue.message}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
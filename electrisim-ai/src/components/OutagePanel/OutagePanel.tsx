@@ -0,0 +1,80 @@
+import React from 'react';
+import type { OutageStudy } from '../../types/circuit.types';
+import { BatteryCharging, Play, CheckCircle, AlertTriangle } from 'lucide-react';
+
+interface OutagePanelProps {
+  study: OutageStudy | null;
+  onRun: () => void;
+}
+
+const formatRuntime = (minutes: number): string => {
+  if (!isFinite(minutes)) return 'unlimited';
+  return minutes < 60 ? `${minutes.toFixed(0)}min` : `${Math.floor(minutes / 60)}h ${Math.round(minutes % 60)}min`;
+};
+
+export const OutagePanel: React.FC<OutagePanelProps> = ({ study, onRun }) => {
+  const dropped = study ? study.loads.filter(load => !load.backupId) : [];
+
+  return (
+    <div className="border-t border-gray-200 p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <BatteryCharging className="h-5 w-5 text-blue-600" />
+          <h3 className="text-lg font-semibold text-gray-900">Grid Outage</h3>
+        </div>
+        <button
+          onClick={onRun}
+          className="flex items-center space-x-1 px-3 py-1 text-sm bg-blue-600 text-white rounded hover:bg-blue-700"
+        >
+          <Play className="h-4 w-4" />
+          <span>Cut Mains</span>
+        </button>
+      </div>
+
+      {!study && (
+        <div className="text-sm text-gray-500">Disconnect the mains to see which loads stay up and how long UPS and inverter batteries last</div>
+      )}
+
+      {study && study.backups.length > 0 && (
+        <div className="space-y-2 text-sm">
+          {study.backups.map(backup => {
+            const short = backup.runtime === null || (backup.backupTime !== null && backup.runtime < backup.backupTime);
+            const overloaded = backup.loading !== null && backup.loading > 100;
+            return (
+              <div key={backup.componentId} className="bg-gray-50 p-2 rounded space-y-1">
+                <div className={`flex items-center space-x-1 font-medium ${short || overloaded ? 'text-red-700' : 'text-green-700'}`}>
+                  {short || overloaded ? <AlertTriangle className="h-4 w-4 flex-shrink-0" /> : <CheckCircle className="h-4 w-4 flex-shrink-0" />}
+                  <span>
+                    {backup.componentId}: {backup.runtime === null ? 'runtime unknown' : formatRuntime(backup.runtime)}
+                    {backup.backupTime !== null && ` of ${formatRuntime(backup.backupTime)} promised`}
+                  </span>
+                </div>
+                <div className="text-gray-600">
+                  {backup.outputPower.toFixed(0)}W / {backup.apparentPower.toFixed(0)}VA
+                  {backup.loading !== null && ` (${backup.loading.toFixed(0)}% of rating)`}
+                  {' · '}{backup.batteryCurrent.toFixed(1)}A from {backup.batteryCapacity ?? '?'}Ah at {backup.batteryVoltage}V, {backup.efficiency}% efficient
+                </div>
+                <div className="text-gray-600">Keeps running: {backup.protectedLoads.join(', ') || 'nothing'}</div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {study && dropped.length > 0 && (
+        <div className="text-sm text-gray-600">Loses power: {dropped.map(load => load.componentId).join(', ')}</div>
+      )}
+
+      {study && study.issues.length > 0 && (
+        <ul className="space-y-1">
+          {study.issues.map(issue => (
+            <li key={issue.id} className={`text-sm flex items-start ${issue.type === 'error' ? 'text-red-800' : 'text-yellow-800'}`}>
+              <span className="mr-2">•</span>
+              {issue.message}. {issue.recommendation}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,151 @@
+import React, { useState } from 'react';
+import type { PFCDesign, PFCOptions, PowerFactorPoint } from '../../types/circuit.types';
+import { Waves, Play, Plus, CheckCircle } from 'lucide-react';
+import { DEFAULT_PFC_OPTIONS, MAX_PFC_STEPS, PowerFactorCorrection } from '../../utils/powerFactorCorrection';
+
+interface PowerFactorPanelProps {
+  design: PFCDesign | null;
+  onDesign: (options: PFCOptions) => void;
+  onInsert: () => void;
+}
+
+const OperatingPointRow: React.FC<{ label: string; point: PowerFactorPoint | null }> = ({ label, point }) => (
+  <tr>
+    <td>{label}</td>
+    <td className={point?.leading ? 'text-red-700' : undefined}>{point ? PowerFactorCorrection.formatPowerFactor(point) : '—'}</td>
+    <td>{point ? `${(point.activePower / 1000).toFixed(2)}kW` : '—'}</td>
+    <td>{point ? `${(point.reactivePower / 1000).toFixed(2)}kvar` : '—'}</td>
+    <td>{point ? `${point.current.toFixed(2)}A` : '—'}</td>
+  </tr>
+);
+
+export const PowerFactorPanel: React.FC<PowerFactorPanelProps> = ({ design, onDesign, onInsert }) => {
+  const [options, setOptions] = useState<PFCOptions>(DEFAULT_PFC_OPTIONS);
+
+  return (
+    <div className="border-t border-gray-200 p-4 space-y-3 max-h-96 overflow-y-auto">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <Waves className="h-5 w-5 text-blue-600" />
+          <h3 className="text-lg font-semibold text-gray-900">Power Factor Correction</h3>
+        </div>
+        <div className="flex items-center space-x-2 text-sm">
+          <label className="flex items-center space-x-1 text-gray-600">
+            <span>Target PF</span>
+            <input
+              type="number"
+              min={0.5}
+              max={1}
+              step={0.01}
+              value={options.targetPowerFactor}
+              onChange={(e) => setOptions({ ...options, targetPowerFactor: parseFloat(e.target.value) || DEFAULT_PFC_OPTIONS.targetPowerFactor })}
+              className="w-16 px-2 py-1 border border-gray-300 rounded"
+            />
+          </label>
+          <label className="flex items-center space-x-1 text-gray-600">
+            <span>Stages</span>
+            <input
+              type="number"
+              min={1}
+              max={MAX_PFC_STEPS}
+              value={options.steps}
+              onChange={(e) => setOptions({ ...options, steps: parseInt(e.target.value, 10) || DEFAULT_PFC_OPTIONS.steps })}
+              className="w-14 px-2 py-1 border border-gray-300 rounded"
+            />
+          </label>
+          <label className="flex items-center space-x-1 text-gray-600">
+            <span>Light load</span>
+            <input
+              type="number"
+              min={0}
+              max={100}
+              value={Math.round(options.lightLoadFraction * 100)}
+              onChange={(e) => setOptions({ ...options, lightLoadFraction: (parseFloat(e.target.value) || 0) / 100 })}
+              className="w-14 px-2 py-1 border border-gray-300 rounded"
+            />
+            <span>%</span>
+          </label>
+          <button
+            onClick={() => onDesign(options)}
+            className="flex items-center space-x-1 px-3 py-1 bg-blue-600 text-white rounded hover:bg-blue-700"
+          >
+            <Play className="h-4 w-4" />
+            <span>Design</span>
+          </button>
+        </div>
+      </div>
+
+      {!design && (
+        <div className="text-sm text-gray-500">Size a stepped capacitor bank for the main bus from the circuit's active and reactive power</div>
+      )}
+
+      {design && design.stepCapacitance > 0 && (
+        <div className="space-y-3 text-sm">
+          <div className="flex items-center justify-between">
+            <span className="font-medium text-gray-700">
+              {design.options.steps} × {PowerFactorCorrection.formatReactivePower(design.stepReactivePower)}
+              {' '}({design.stepCapacitance.toFixed(1)}μF each) = {PowerFactorCorrection.formatReactivePower(design.bankReactivePower)}
+              {design.busId ? ` at ${design.busId}` : ''}
+              <span className="text-gray-500 font-normal"> · {PowerFactorCorrection.formatReactivePower(design.requiredReactivePower)} needed</span>
+            </span>
+            {design.inserted ? (
+              <span className="flex items-center space-x-1 text-green-700">
+                <CheckCircle className="h-4 w-4" />
+                <span>Inserted</span>
+              </span>
+            ) : (
+              <button
+                onClick={onInsert}
+                disabled={!design.after}
+                className="flex items-center space-x-1 px-3 py-1 bg-green-600 text-white rounded hover:bg-green-700 disabled:opacity-50"
+              >
+                <Plus className="h-4 w-4" />
+                <span>Insert bank</span>
+              </button>
+            )}
+          </div>
+
+          <table className="w-full text-gray-700">
+            <thead>
+              <tr className="text-left text-gray-600">
+                <th className="font-medium"></th>
+                <th className="font-medium">PF</th>
+                <th className="font-medium">P</th>
+                <th className="font-medium">Q</th>
+                <th className="font-medium">Supply current</th>
+              </tr>
+            </thead>
+            <tbody>
+              <OperatingPointRow label="Full load, uncorrected" point={design.before} />
+              <OperatingPointRow label="Full load, with bank" point={design.after} />
+              {design.lightLoad && (
+                <>
+                  <OperatingPointRow label={`${(design.options.lightLoadFraction * 100).toFixed(0)}% load, uncorrected`} point={design.lightLoad.withoutBank} />
+                  <OperatingPointRow label={`${(design.options.lightLoadFraction * 100).toFixed(0)}% load, with bank`} point={design.lightLoad.withBank} />
+                </>
+              )}
+            </tbody>
+          </table>
+
+          {design.after && (
+            <div className="text-green-700">
+              Supply current falls by {design.currentReduction.toFixed(1)}%
+              {design.lightLoad && ` · ${design.lightLoad.stepsInService} of ${design.options.steps} stages keep the light load lagging`}
+            </div>
+          )}
+        </div>
+      )}
+
+      {design && design.issues.length > 0 && (
+        <ul className="space-y-1">
+          {design.issues.map(issue => (
+            <li key={issue.id} className={`text-sm flex items-start ${issue.type === 'error' ? 'text-red-800' : issue.type === 'warning' ? 'text-yellow-800' : 'text-gray-700'}`}>
+              <span className="mr-2">•</span>
+              {issue.message}. {issue.recommendation}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,135 @@
+import React, { useState } from 'react';
+import type { CoordinationStudy, TimeCurrentCurve } from '../../types/circuit.types';
+import { ChartLine, CheckCircle, AlertTriangle } from 'lucide-react';
+
+interface ProtectionPanelProps {
+  study: CoordinationStudy | null;
+}
+
+type CurveKind = 'overcurrent' | 'residual';
+
+const SERIES_COLORS = ['#2563eb', '#dc2626', '#16a34a', '#d97706', '#7c3aed', '#0891b2'];
+// Time axis limits in seconds (log scale)
+const MIN_TIME = 0.001;
+const MAX_TIME = 10000;
+const PLOT_WIDTH = 560;
+const PLOT_HEIGHT = 240;
+const PLOT_MARGIN = { top: 10, right: 10, bottom: 24, left: 48 };
+
+const formatLevel = (current: number, kind: CurveKind): string =>
+  kind === 'residual' && current < 1 ? `${(current * 1000).toFixed(0)}mA` : `${current.toFixed(0)}A`;
+
+export const ProtectionPanel: React.FC<ProtectionPanelProps> = ({ study }) => {
+  const [kind, setKind] = useState<CurveKind>('overcurrent');
+
+  const curves = study ? study.curves.filter(curve => curve.residual === (kind === 'residual')) : [];
+  const curveIds = curves.map(curve => curve.componentId);
+  const pairs = study ? study.pairs.filter(pair => curveIds.includes(pair.downstreamId)) : [];
+
+  // Overlay every curve on shared log-log axes; solid is the guaranteed trip, dashed the earliest possible trip
+  const renderPlot = () => {
+    const allPoints = curves.flatMap(curve => curve.points);
+    if (allPoints.length === 0) {
+      return (
+        <div className="h-56 flex items-center justify-center text-sm text-gray-500">
+          {study ? 'No protective devices of this kind in the circuit' : 'Build a circuit to see protection curves'}
+        </div>
+      );
+    }
+
+    const minDecade = Math.floor(Math.log10(Math.min(...allPoints.map(p => p.current))));
+    const maxDecade = Math.ceil(Math.log10(Math.max(...allPoints.map(p => p.current))));
+    const decades = Math.max(1, maxDecade - minDecade);
+    const innerWidth = PLOT_WIDTH - PLOT_MARGIN.left - PLOT_MARGIN.right;
+    const innerHeight = PLOT_HEIGHT - PLOT_MARGIN.top - PLOT_MARGIN.bottom;
+    const x = (current: number) => PLOT_MARGIN.left + ((Math.log10(current) - minDecade) / decades) * innerWidth;
+    const y = (time: number) => {
+      const clamped = Math.min(MAX_TIME, Math.max(MIN_TIME, time));
+      return PLOT_MARGIN.top + ((Math.log10(MAX_TIME) - Math.log10(clamped)) / (Math.log10(MAX_TIME) - Math.log10(MIN_TIME))) * innerHeight;
+    };
+    const polyline = (curve: TimeCurrentCurve, bound: 'minTime' | 'maxTime') => curve.points
+      .filter(point => point[bound] !== null)
+      .map(point => `${x(point.current).toFixed(1)},${y(point[bound]!).toFixed(1)}`)
+      .join(' ');
+
+    return (
+      <svg viewBox={`0 0 ${PLOT_WIDTH} ${PLOT_HEIGHT}`} className="w-full h-56">
+        {Array.from({ length: Math.log10(MAX_TIME) - Math.log10(MIN_TIME) + 1 }, (_, i) => Math.pow(10, Math.log10(MIN_TIME) + i)).map(time => (
+          <g key={`t-${time}`}>
+            <line x1={PLOT_MARGIN.left} x2={PLOT_WIDTH - PLOT_MARGIN.right} y1={y(time)} y2={y(time)} stroke="#e5e7eb" />
+            <text x={PLOT_MARGIN.left - 4} y={y(time) + 3} textAnchor="end" fontSize="9" fill="#6b7280">
+              {time >= 1 ? `${time}s` : `${time * 1000}ms`}
+            </text>
+          </g>
+        ))}
+        {Array.from({ length: decades + 1 }, (_, i) => Math.pow(10, minDecade + i)).map(current => (
+          <g key={`i-${current}`}>
+            <line x1={x(current)} x2={x(current)} y1={PLOT_MARGIN.top} y2={PLOT_HEIGHT - PLOT_MARGIN.bottom} stroke="#e5e7eb" />
+            <text x={x(current)} y={PLOT_HEIGHT - 8} textAnchor="middle" fontSize="9" fill="#6b7280">
+              {formatLevel(current, kind)}
+            </text>
+          </g>
+        ))}
+        {curves.map((curve, index) => {
+          const color = SERIES_COLORS[index % SERIES_COLORS.length];
+          return (
+            <g key={curve.componentId}>
+              <polyline fill="none" stroke={color} strokeWidth={1.5} points={polyline(curve, 'maxTime')} />
+              <polyline fill="none" stroke={color} strokeWidth={1} strokeDasharray="4 3" points={polyline(curve, 'minTime')} />
+            </g>
+          );
+        })}
+      </svg>
+    );
+  };
+
+  return (
+    <div className="border-t border-gray-200 p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <ChartLine className="h-5 w-5 text-blue-600" />
+          <h3 className="text-lg font-semibold text-gray-900">Protection Coordination</h3>
+        </div>
+        <select
+          value={kind}
+          onChange={(e) => setKind(e.target.value as CurveKind)}
+          className="px-2 py-1 border border-gray-300 rounded text-sm"
+        >
+          <option value="overcurrent">Overcurrent (MCB / fuse)</option>
+          <option value="residual">Residual current (RCD)</option>
+        </select>
+      </div>
+
+      {curves.length > 0 && (
+        <div className="flex flex-wrap items-center gap-3 text-sm">
+          {curves.map((curve, index) => (
+            <span key={curve.componentId} style={{ color: SERIES_COLORS[index % SERIES_COLORS.length] }}>
+              {curve.componentId} ({curve.label})
+            </span>
+          ))}
+        </div>
+      )}
+
+      {renderPlot()}
+
+      {pairs.length > 0 && (
+        <div className="space-y-1">
+          {pairs.map(pair => (
+            <div
+              key={`${pair.upstreamId}-${pair.downstreamId}`}
+              className={`flex items-center space-x-2 text-sm rounded px-2 py-1 border ${pair.selective ? 'text-green-800 bg-green-50 border-green-200' : 'text-yellow-800 bg-yellow-50 border-yellow-200'}`}
+            >
+              {pair.selective ? <CheckCircle className="h-4 w-4 flex-shrink-0" /> : <AlertTriangle className="h-4 w-4 flex-shrink-0" />}
+              <span>
+                {pair.upstreamId} → {pair.downstreamId}:{' '}
+                {pair.selective || pair.selectivityLimit === null
+                  ? `selective up to ${formatLevel(pair.faultCurrent, kind)}`
+                  : `selective up to ${formatLevel(pair.selectivityLimit, kind)} of ${formatLevel(pair.faultCurrent, kind)}`}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,16 +1,24 @@
 import React from 'react';
-import type { SafetyAssessment, CircuitAnalysis } from '../../types/circuit.types';
-import { Shield, AlertTriangle, CheckCircle, Zap, Thermometer, TrendingUp, Info } from 'lucide-react';
+import type { SafetyAssessment, CircuitAnalysis, Circuit, EarthingSystem, FaultStudyResult } from '../../types/circuit.types';
+import { ARC_FLASH_BOUNDARY_ENERGY } from '../../utils/arcFlash';
+import { MAX_CABLE_VOLTAGE_DROP } from '../../utils/cables';
+import { Shield, AlertTriangle, CheckCircle, Zap, Thermometer, TrendingUp, Info, X } from 'lucide-react';
 
 interface SafetyPanelProps {
   safety: SafetyAssessment | null;
   analysis: CircuitAnalysis | null;
+  faultStudy?: FaultStudyResult | null;
+  onClearFaultStudy?: () => void;
+  onEarthingChange?: (updates: Pick<Circuit['metadata'], 'earthingSystem' | 'externalLoopImpedance'>) => void;
   isAnalyzing: boolean;
 }
 
 export const SafetyPanel: React.FC<SafetyPanelProps> = ({
   safety,
   analysis,
+  faultStudy,
+  onClearFaultStudy,
+  onEarthingChange,
   isAnalyzing
 }) => {
   // Get safety score color
@@ -140,6 +148,211 @@ export const SafetyPanel: React.FC<SafetyPanelProps> = ({
               </div>
             </div>
 
+            {/* AC power breakdown */}
+            {analysis.mode === 'ac' && (
+              <div className="grid grid-cols-3 gap-4 mb-4 text-sm">
+                <div className="bg-gray-50 p-3 rounded-lg">
+                  <div className="text-gray-600">Power Factor</div>
+                  <div className="font-semibold text-gray-900">{(analysis.powerFactor ?? 1).toFixed(3)}</div>
+                </div>
+                <div className="bg-gray-50 p-3 rounded-lg">
+                  <div className="text-gray-600">Reactive Power</div>
+                  <div className="font-semibold text-gray-900">{(analysis.totalReactivePower ?? 0).toFixed(2)}var</div>
+                </div>
+                <div className="bg-gray-50 p-3 rounded-lg">
+                  <div className="text-gray-600">Apparent Power</div>
+                  <div className="font-semibold text-gray-900">{(analysis.totalApparentPower ?? 0).toFixed(2)}VA</div>
+                </div>
+              </div>
+            )}
+
+            {/* Three-phase balance */}
+            {analysis.threePhase && (
+              <div className="mb-4 text-sm">
+                <div className="grid grid-cols-3 gap-4 mb-2">
+                  {(['L1', 'L2', 'L3'] as const).map(phase => (
+                    <div key={phase} className="bg-gray-50 p-3 rounded-lg">
+                      <div className="text-gray-600">{phase}</div>
+                      <div className="font-semibold text-gray-900">{analysis.threePhase!.phases[phase].current.toFixed(2)}A</div>
+                      <div className="text-xs text-gray-500">{analysis.threePhase!.phases[phase].activePower.toFixed(0)}W</div>
+                    </div>
+                  ))}
+                </div>
+                <div className="flex justify-between text-gray-700">
+                  <span>Neutral: {analysis.threePhase.neutralCurrent.toFixed(2)}A</span>
+                  <span>Imbalance: {analysis.threePhase.imbalancePercent.toFixed(1)}%</span>
+                </div>
+              </div>
+            )}
+
+            {/* Harmonic distortion */}
+            {analysis.harmonics && (
+              <div className="mb-4 text-sm">
+                <div className="font-medium text-gray-700 mb-1">Harmonic Distortion</div>
+                <div className="space-y-1">
+                  {analysis.harmonics.buses.map(bus => (
+                    <div key={bus.componentId} className="flex justify-between text-gray-700">
+                      <span>{bus.componentId}{bus.phase && ` (${bus.phase})`}</span>
+                      <span>V THD {bus.voltageTHD.toFixed(1)}% · I THD {bus.currentTHD.toFixed(1)}%</span>
+                    </div>
+                  ))}
+                </div>
+                {analysis.harmonics.neutral && (
+                  <div className="flex justify-between text-gray-700 mt-1">
+                    <span>Neutral (RMS): {analysis.harmonics.neutral.rmsCurrent.toFixed(2)}A</span>
+                    <span>Triplen: {analysis.harmonics.neutral.triplenCurrent.toFixed(2)}A</span>
+                  </div>
+                )}
+              </div>
+            )}
+
+            {/* Cables */}
+            {analysis.cables && (
+              <div className="mb-4 text-sm">
+                <div className="font-medium text-gray-700 mb-1">Cables</div>
+                <div className="space-y-1">
+                  {analysis.cables.map(branch => (
+                    <div
+                      key={branch.connectionId}
+                      className={`flex justify-between ${branch.utilisation > 100 || branch.voltageDropPercent > MAX_CABLE_VOLTAGE_DROP ? 'text-red-700' : 'text-gray-700'}`}
+                    >
+                      <span>{branch.from} → {branch.to} ({branch.crossSection.toFixed(1)}mm², {(branch.resistance * 1000).toFixed(0)}mΩ)</span>
+                      <span>ΔV {branch.voltageDropPercent.toFixed(1)}% · {branch.utilisation.toFixed(0)}% of {branch.ampacity.toFixed(0)}A</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {/* Transformers */}
+            {analysis.transformers && (
+              <div className="mb-4 text-sm">
+                <div className="font-medium text-gray-700 mb-1">Transformers</div>
+                <div className="space-y-1">
+                  {analysis.transformers.map(transformer => (
+                    <div key={transformer.componentId} className={transformer.loading > 100 ? 'text-red-700' : 'text-gray-700'}>
+                      <div className="flex justify-between">
+                        <span>{transformer.componentId} ({(transformer.rating / 1000).toFixed(1)}kVA)</span>
+                        <span>{transformer.loading.toFixed(0)}% loaded · η {transformer.efficiency.toFixed(1)}%</span>
+                      </div>
+                      <div className="flex justify-between text-gray-600">
+                        <span>{transformer.secondaryVoltage.toFixed(1)}V ({transformer.regulation.toFixed(1)}% regulation)</span>
+                        <span>Fault {(transformer.faultCurrent / 1000).toFixed(2)}kA</span>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {/* Earthing */}
+            {analysis.earthing && (
+              <div className="mb-4 text-sm">
+                <div className="flex items-center justify-between mb-1">
+                  <span className="font-medium text-gray-700">Earthing</span>
+                  <div className="flex items-center space-x-2">
+                    <select
+                      value={analysis.earthing.system}
+                      onChange={(e) => onEarthingChange?.({ earthingSystem: e.target.value as EarthingSystem })}
+                      disabled={!onEarthingChange}
+                      className="px-2 py-1 border border-gray-300 rounded"
+                    >
+                      {(['TN-S', 'TN-C-S', 'TT', 'IT'] as const).map(system => (
+                        <option key={system} value={system}>{system}</option>
+                      ))}
+                    </select>
+                    <label className="flex items-center space-x-1 text-gray-600">
+                      <span>Ze</span>
+                      <input
+                        type="number"
+                        min={0}
+                        step={0.05}
+                        value={analysis.earthing.externalImpedance}
+                        onChange={(e) => onEarthingChange?.({ externalLoopImpedance: Math.max(parseFloat(e.target.value) || 0, 0) })}
+                        disabled={!onEarthingChange}
+                        className="w-16 px-2 py-1 border border-gray-300 rounded"
+                      />
+                      <span>Ω</span>
+                    </label>
+                  </div>
+                </div>
+                {analysis.earthing.electrodeResistance !== null && (
+                  <div className="text-gray-600 mb-1">Electrode RA {analysis.earthing.electrodeResistance.toFixed(1)}Ω</div>
+                )}
+                <div className="space-y-1">
+                  {analysis.earthing.finalCircuits.map(result => (
+                    <div key={result.componentId} className={result.compliant ? 'text-gray-700' : 'text-red-700'}>
+                      <div className="flex justify-between">
+                        <span>{result.componentId} (Zs {result.loopImpedance.toFixed(2)}Ω)</span>
+                        <span>
+                          {result.maxDisconnectionTime === null
+                            ? 'first fault, no disconnection'
+                            : result.disconnectionTime === null
+                              ? `not cleared, limit ${result.maxDisconnectionTime}s`
+                              : `${result.disconnectionTime.toFixed(2)}s of ${result.maxDisconnectionTime}s`}
+                        </span>
+                      </div>
+                      <div className="flex justify-between text-gray-600">
+                        <span>If {result.faultCurrent.toFixed(result.faultCurrent < 10 ? 2 : 0)}A{result.protectiveDeviceId && ` on ${result.protectiveDeviceId}`}</span>
+                        <span>Touch {result.touchVoltage.toFixed(0)}V</span>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {/* Short Circuit */}
+            {analysis.shortCircuit && (
+              <div className="mb-4 text-sm">
+                <div className="flex items-center justify-between mb-1">
+                  <span className="font-medium text-gray-700">Short Circuit</span>
+                  <span className="text-gray-600">c = {analysis.shortCircuit.voltageFactor}</span>
+                </div>
+                <div className="space-y-1">
+                  {analysis.shortCircuit.buses.map(result => (
+                    <div key={result.componentId} className="flex justify-between text-gray-700">
+                      <span>{result.componentId} ({(result.faultLevel / 1e6).toFixed(2)}MVA)</span>
+                      <span>
+                        I"k {(result.initialCurrent / 1000).toFixed(2)}kA · ip {(result.peakCurrent / 1000).toFixed(2)}kA · Ib {(result.breakingCurrent / 1000).toFixed(2)}kA
+                      </span>
+                    </div>
+                  ))}
+                  {analysis.shortCircuit.devices.map(duty => (
+                    <div key={duty.componentId} className={`flex justify-between ${duty.adequate ? 'text-gray-600' : 'text-red-700'}`}>
+                      <span>{duty.componentId}</span>
+                      <span>
+                        {(duty.breakingCurrent / 1000).toFixed(2)}kA of {duty.breakingCapacity !== null ? `${duty.breakingCapacity}kA` : 'unrated'}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {/* Arc Flash */}
+            {analysis.arcFlash && (
+              <div className="mb-4 text-sm">
+                <div className="font-medium text-gray-700 mb-1">Arc Flash (IEEE 1584)</div>
+                <div className="space-y-1">
+                  {analysis.arcFlash.locations.map(result => (
+                    <div key={result.componentId} className={result.incidentEnergy > ARC_FLASH_BOUNDARY_ENERGY ? 'text-red-700' : 'text-gray-700'}>
+                      <div className="flex justify-between">
+                        <span>{result.componentId} ({result.electrodeConfiguration}, {result.workingDistance.toFixed(0)}mm)</span>
+                        <span>{result.incidentEnergy.toFixed(2)} cal/cm² · PPE {result.ppeCategory}</span>
+                      </div>
+                      <div className="flex justify-between text-gray-600">
+                        <span>
+                          Iarc {(result.arcingCurrent / 1000).toFixed(2)}kA, {result.clearingTime.toFixed(3)}s{result.protectiveDeviceId && ` on ${result.protectiveDeviceId}`}
+                        </span>
+                        <span>Boundary {(result.arcFlashBoundary / 1000).toFixed(2)}m</span>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
             {/* Issues */}
             {safety && safety.hazards && safety.hazards.length > 0 && (
               <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
@@ -162,6 +375,78 @@ export const SafetyPanel: React.FC<SafetyPanelProps> = ({
           </div>
         )}
 
+        {/* Fault Study */}
+        {faultStudy && (
+          <div className="bg-white rounded-xl border border-red-200 p-6">
+            <div className="flex items-center justify-between mb-4">
+              <div className="flex items-center space-x-3">
+                <Zap className="h-5 w-5 text-red-600" />
+                <h3 className="text-lg font-semibold text-gray-900">Fault Study</h3>
+              </div>
+              {onClearFaultStudy && (
+                <button onClick={onClearFaultStudy} className="p-1 text-gray-400 hover:text-gray-600" title="Clear fault study">
+                  <X className="h-4 w-4" />
+                </button>
+              )}
+            </div>
+
+            <p className="text-sm text-gray-700 mb-3">
+              {faultStudy.fault.type.replace(/-/g, ' ')} at {faultStudy.fault.componentId || faultStudy.fault.connectionId}
+            </p>
+
+            {faultStudy.fault.type !== 'open-circuit' && (
+              <div className="grid grid-cols-2 gap-4 mb-4 text-sm">
+                <div className="bg-red-50 p-3 rounded-lg">
+                  <div className="text-red-700">Prospective Fault Current</div>
+                  <div className="font-semibold text-red-900">{faultStudy.prospectiveCurrent.toFixed(1)}A</div>
+                </div>
+                <div className="bg-gray-50 p-3 rounded-lg">
+                  <div className="text-gray-600">Supply Fault Level</div>
+                  <div className="font-semibold text-gray-900">{faultStudy.sourceFaultLevel.toFixed(0)}A</div>
+                </div>
+              </div>
+            )}
+
+            {faultStudy.devices.length > 0 && (
+              <div className="space-y-2 mb-4">
+                {faultStudy.devices.map(device => (
+                  <div
+                    key={device.componentId}
+                    className={`p-3 border rounded-lg text-sm ${device.componentId === faultStudy.clearingDevice ? 'bg-green-50 border-green-200' : 'bg-gray-50 border-gray-200'}`}
+                  >
+                    <div className="flex items-center justify-between">
+                      <span className="font-medium text-gray-900">{device.componentId}</span>
+                      <span className="text-xs font-semibold tracking-wide text-gray-700">
+                        {device.componentId === faultStudy.clearingDevice ? 'CLEARS FAULT' : device.operates ? 'OPERATES' : device.seesFault ? 'SEES FAULT' : 'UNAFFECTED'}
+                      </span>
+                    </div>
+                    <div className="text-xs text-gray-600">
+                      {device.current.toFixed(2)}A
+                      {device.residualCurrent > 0 && ` · ${(device.residualCurrent * 1000).toFixed(0)}mA residual`}
+                      {device.tripTime !== null && ` · trips in ${device.tripTime < 1 ? `${(device.tripTime * 1000).toFixed(0)}ms` : `${device.tripTime.toFixed(1)}s`}`}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {faultStudy.deenergized.length > 0 && (
+              <p className="text-sm text-gray-700 mb-3">De-energised: {faultStudy.deenergized.join(', ')}</p>
+            )}
+
+            {faultStudy.issues.length > 0 && (
+              <ul className="space-y-1">
+                {faultStudy.issues.map(issue => (
+                  <li key={issue.id} className="text-sm text-red-800 flex items-start">
+                    <span className="mr-2">•</span>
+                    {issue.message}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
         {/* Compliance */}
         {safety && safety.compliance.length > 0 && (
           <div className="bg-white rounded-xl border border-gray-200 p-6">
@@ -0,0 +1,209 @@
+import React, { useState } from 'react';
+import type { SolarOptions, SolarStudy } from '../../types/circuit.types';
+import { Sun, Play } from 'lucide-react';
+import { DEFAULT_SOLAR_OPTIONS } from '../../utils/solarPV';
+
+interface SolarPanelProps {
+  study: SolarStudy | null;
+  onRun: (options: SolarOptions) => void;
+}
+
+const PLOT_WIDTH = 560;
+const PLOT_HEIGHT = 170;
+const PLOT_MARGIN = { top: 10, right: 40, bottom: 24, left: 48 };
+const SERIES = [
+  { key: 'demand', label: 'Demand', color: '#2563eb' },
+  { key: 'generation', label: 'PV', color: '#d97706' },
+  { key: 'gridImport', label: 'Import', color: '#dc2626' },
+  { key: 'gridExport', label: 'Export', color: '#16a34a' }
+] as const;
+const STATE_OF_CHARGE_COLOR = '#7c3aed';
+
+export const SolarPanel: React.FC<SolarPanelProps> = ({ study, onRun }) => {
+  const [days, setDays] = useState(DEFAULT_SOLAR_OPTIONS.days);
+  const [cloudCover, setCloudCover] = useState(DEFAULT_SOLAR_OPTIONS.cloudCover * 100);
+  const [peakIrradiance, setPeakIrradiance] = useState(DEFAULT_SOLAR_OPTIONS.peakIrradiance);
+
+  // Power flows in kW on the left axis, the first battery bank's state of charge dashed against the right
+  const renderPlot = () => {
+    if (!study || study.time.length === 0) {
+      return (
+        <div className="h-40 flex items-center justify-center text-sm text-gray-500">
+          Run the study to see PV generation against demand
+        </div>
+      );
+    }
+
+    const stepHours = study.options.stepMinutes / 60;
+    const totalHours = study.options.days * 24;
+    const max = Math.max(...study.demand, ...study.generation, 0.001);
+    const innerWidth = PLOT_WIDTH - PLOT_MARGIN.left - PLOT_MARGIN.right;
+    const innerHeight = PLOT_HEIGHT - PLOT_MARGIN.top - PLOT_MARGIN.bottom;
+    const x = (hours: number) => PLOT_MARGIN.left + (hours / totalHours) * innerWidth;
+    const y = (kW: number) => PLOT_MARGIN.top + ((max - kW) / max) * innerHeight;
+    const ySoc = (percent: number) => PLOT_MARGIN.top + ((100 - percent) / 100) * innerHeight;
+    const points = (values: number[], scale: (value: number) => number) =>
+      values.map((value, i) => `${x(study.time[i] + stepHours / 2).toFixed(1)},${scale(value).toFixed(1)}`).join(' ');
+    const ticks = study.options.days > 1
+      ? Array.from({ length: study.options.days + 1 }, (_, i) => i * 24)
+      : [0, 6, 12, 18, 24];
+    const bank = study.banks[0];
+
+    return (
+      <svg viewBox={`0 0 ${PLOT_WIDTH} ${PLOT_HEIGHT}`} className="w-full h-40">
+        {[0, 0.5, 1].map(fraction => (
+          <g key={`y-${fraction}`}>
+            <line x1={PLOT_MARGIN.left} x2={PLOT_WIDTH - PLOT_MARGIN.right} y1={y(fraction * max)} y2={y(fraction * max)} stroke="#e5e7eb" />
+            <text x={PLOT_MARGIN.left - 4} y={y(fraction * max) + 3} textAnchor="end" fontSize="9" fill="#6b7280">
+              {(fraction * max).toFixed(2)}kW
+            </text>
+            {bank && (
+              <text x={PLOT_WIDTH - PLOT_MARGIN.right + 4} y={ySoc(fraction * 100) + 3} fontSize="9" fill={STATE_OF_CHARGE_COLOR}>
+                {(fraction * 100).toFixed(0)}%
+              </text>
+            )}
+          </g>
+        ))}
+        {ticks.map(hours => (
+          <text key={`x-${hours}`} x={x(hours)} y={PLOT_HEIGHT - 8} textAnchor="middle" fontSize="9" fill="#6b7280">
+            {study.options.days > 1 ? `Day ${hours / 24 + 1}` : `${hours}:00`}
+          </text>
+        ))}
+        {SERIES.map(series => (
+          <polyline key={series.key} fill="none" stroke={series.color} strokeWidth={1.5} points={points(study[series.key], y)} />
+        ))}
+        {bank && (
+          <polyline fill="none" stroke={STATE_OF_CHARGE_COLOR} strokeWidth={1.5} strokeDasharray="4 3" points={points(bank.stateOfCharge, ySoc)} />
+        )}
+      </svg>
+    );
+  };
+
+  return (
+    <div className="border-t border-gray-200 p-4 space-y-3 max-h-96 overflow-y-auto">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <Sun className="h-5 w-5 text-blue-600" />
+          <h3 className="text-lg font-semibold text-gray-900">Solar PV</h3>
+        </div>
+        <div className="flex items-center space-x-2 text-sm">
+          <label className="flex items-center space-x-1 text-gray-600">
+            <span>Peak</span>
+            <input
+              type="number"
+              min={0}
+              value={peakIrradiance}
+              onChange={(e) => setPeakIrradiance(Math.max(0, parseFloat(e.target.value) || 0))}
+              className="w-20 px-2 py-1 border border-gray-300 rounded"
+            />
+            <span>W/m²</span>
+          </label>
+          <label className="flex items-center space-x-1 text-gray-600">
+            <span>Cloud</span>
+            <input
+              type="number"
+              min={0}
+              max={100}
+              value={cloudCover}
+              onChange={(e) => setCloudCover(Math.min(Math.max(parseFloat(e.target.value) || 0, 0), 100))}
+              className="w-16 px-2 py-1 border border-gray-300 rounded"
+            />
+            <span>%</span>
+          </label>
+          <select
+            value={days}
+            onChange={(e) => setDays(parseInt(e.target.value, 10))}
+            className="px-2 py-1 border border-gray-300 rounded"
+          >
+            <option value={1}>1 day</option>
+            <option value={7}>1 week</option>
+          </select>
+          <button
+            onClick={() => onRun({ ...DEFAULT_SOLAR_OPTIONS, days, peakIrradiance, cloudCover: cloudCover / 100 })}
+            className="flex items-center space-x-1 px-3 py-1 bg-blue-600 text-white rounded hover:bg-blue-700"
+          >
+            <Play className="h-4 w-4" />
+            <span>Run</span>
+          </button>
+        </div>
+      </div>
+
+      {renderPlot()}
+
+      {study && (
+        <>
+          <div className="flex items-center space-x-4 text-xs">
+            {SERIES.map(series => (
+              <span key={series.key} style={{ color: series.color }}>{series.label}</span>
+            ))}
+            {study.banks.length > 0 && <span style={{ color: STATE_OF_CHARGE_COLOR }}>{study.banks[0].componentId} charge</span>}
+          </div>
+
+          <div className="grid grid-cols-3 gap-3 text-sm">
+            <div className="bg-gray-50 p-2 rounded">
+              <div className="text-gray-600">PV Energy</div>
+              <div className="font-semibold text-gray-900">
+                {study.pvEnergy.toFixed(1)}kWh · {(study.selfConsumption * 100).toFixed(0)}% used on site
+              </div>
+            </div>
+            <div className="bg-gray-50 p-2 rounded">
+              <div className="text-gray-600">Demand</div>
+              <div className="font-semibold text-gray-900">
+                {study.demandEnergy.toFixed(1)}kWh · {(study.selfSufficiency * 100).toFixed(0)}% self-sufficient
+              </div>
+            </div>
+            <div className="bg-gray-50 p-2 rounded">
+              <div className="text-gray-600">{study.gridConnected ? 'Grid' : 'Off-grid'}</div>
+              <div className="font-semibold text-gray-900">
+                {study.gridConnected
+                  ? `${study.importEnergy.toFixed(1)}kWh in · ${study.exportEnergy.toFixed(1)}kWh out`
+                  : `${study.unservedEnergy.toFixed(1)}kWh unserved`}
+              </div>
+            </div>
+          </div>
+
+          {study.curtailedEnergy > 0.01 && (
+            <div className="text-sm text-gray-700">
+              Curtailed with nowhere to go: <span className="font-semibold">{study.curtailedEnergy.toFixed(2)}kWh</span>
+            </div>
+          )}
+
+          <div className="space-y-1 text-sm">
+            {study.arrays.map(array => (
+              <div key={array.componentId} className="flex justify-between text-gray-700">
+                <span>
+                  {array.componentId}: {(array.peakPower / 1000).toFixed(2)}kWp
+                  {array.converterId ? ` via ${array.converterId} (${array.coupling?.toUpperCase()}-coupled)` : ', not connected'}
+                </span>
+                <span>
+                  {array.energy.toFixed(2)}kWh{array.clippedEnergy > 0.01 ? `, ${array.clippedEnergy.toFixed(2)}kWh clipped` : ''}
+                </span>
+              </div>
+            ))}
+            {study.banks.map(bank => (
+              <div key={bank.componentId} className="flex justify-between text-gray-700">
+                <span>
+                  {bank.componentId}: {bank.capacity.toFixed(1)}kWh {bank.chemistry} at {bank.nominalVoltage}V
+                </span>
+                <span>
+                  {bank.minimumStateOfCharge.toFixed(0)}% lowest · {bank.voltage.length > 0 ? `${bank.voltage[bank.voltage.length - 1].toFixed(1)}V at end · ` : ''}{bank.cycles.toFixed(2)} cycles
+                </span>
+              </div>
+            ))}
+          </div>
+
+          {study.issues.length > 0 && (
+            <ul className="space-y-1">
+              {study.issues.map(issue => (
+                <li key={issue.id} className={`text-sm flex items-start ${issue.type === 'error' ? 'text-red-800' : 'text-yellow-800'}`}>
+                  <span className="mr-2">•</span>
+                  {issue.message}. {issue.recommendation}
+                </li>
+              ))}
+            </ul>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
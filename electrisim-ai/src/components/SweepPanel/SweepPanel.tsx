@@ -0,0 +1,264 @@
+import React, { useState } from 'react';
+import type { Circuit, SweepOptions, SweepOutput, SweepParameter, SweepQuantity, SweepResult } from '../../types/circuit.types';
+import { SlidersHorizontal, Play, Plus, Trash2, Download } from 'lucide-react';
+import { MAX_SWEEP_STEPS, ParameterSweep, SWEEPABLE_CABLE_FIELDS } from '../../utils/parameterSweep';
+
+interface SweepPanelProps {
+  circuit: Circuit;
+  result: SweepResult | null;
+  onRun: (options: SweepOptions) => void;
+}
+
+const SERIES_COLORS = ['#2563eb', '#dc2626', '#16a34a', '#d97706', '#7c3aed', '#0891b2'];
+const QUANTITIES: { quantity: SweepQuantity; label: string; target: 'component' | 'cable' | null }[] = [
+  { quantity: 'voltage', label: 'Voltage', target: 'component' },
+  { quantity: 'current', label: 'Current', target: 'component' },
+  { quantity: 'power', label: 'Power', target: 'component' },
+  { quantity: 'voltage-drop', label: 'Voltage drop', target: 'cable' },
+  { quantity: 'total-power', label: 'Total power', target: null },
+  { quantity: 'power-factor', label: 'Power factor', target: null },
+  { quantity: 'safety-score', label: 'Safety score', target: null }
+];
+const PLOT_WIDTH = 280;
+const PLOT_HEIGHT = 130;
+const PLOT_MARGIN = { top: 18, right: 8, bottom: 20, left: 48 };
+
+export const SweepPanel: React.FC<SweepPanelProps> = ({ circuit, result, onRun }) => {
+  const [parameter, setParameter] = useState<SweepParameter | null>(null);
+  const [start, setStart] = useState(0);
+  const [end, setEnd] = useState(0);
+  const [steps, setSteps] = useState(11);
+  const [scale, setScale] = useState<SweepOptions['scale']>('linear');
+  const [outputs, setOutputs] = useState<SweepOutput[]>([{ quantity: 'safety-score' }]);
+  const [newQuantity, setNewQuantity] = useState<SweepQuantity>('current');
+  const [newId, setNewId] = useState('');
+
+  const targetKey = parameter ? `${parameter.target}:${parameter.id}` : '';
+  const component = parameter?.target === 'component' ? circuit.components.find(c => c.id === parameter.id) : undefined;
+  const fields = parameter?.target === 'cable' ? SWEEPABLE_CABLE_FIELDS : component ? ParameterSweep.getSweepableFields(component) : [];
+  const newTarget = QUANTITIES.find(q => q.quantity === newQuantity)!.target;
+  const cabled = circuit.connections.filter(conn => conn.cable);
+
+  // Pick a field and centre the range on its present value
+  const selectParameter = (next: SweepParameter) => {
+    setParameter(next);
+    const current = ParameterSweep.getCurrentValue(circuit, next);
+    if (current !== null) {
+      setStart(current === 0 ? 0 : current / 2);
+      setEnd(current === 0 ? 1 : current * 2);
+    }
+  };
+
+  const selectTarget = (key: string) => {
+    const [target, id] = key.split(':') as [SweepParameter['target'], string];
+    if (!id) {
+      setParameter(null);
+      return;
+    }
+    if (target === 'cable') {
+      selectParameter({ target, id, field: 'length' });
+    } else {
+      const selected = circuit.components.find(c => c.id === id);
+      if (selected) selectParameter({ target, id, field: ParameterSweep.getSweepableFields(selected)[0] });
+    }
+  };
+
+  const addOutput = () => {
+    if (newTarget && !newId) return;
+    setOutputs([...outputs, newTarget ? { quantity: newQuantity, id: newId } : { quantity: newQuantity }]);
+  };
+
+  const exportCSV = () => {
+    if (!result) return;
+    const blob = new Blob([ParameterSweep.toCSV(result)], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${circuit.name || 'circuit'}-sweep.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  // One small plot per output, since outputs rarely share a unit
+  const renderPlot = (index: number) => {
+    if (!result) return null;
+    const points = result.points.filter(point => Number.isFinite(point.outputs[index]));
+    if (points.length < 2) {
+      return (
+        <div key={index} className="h-32 flex items-center justify-center text-xs text-gray-500 border border-gray-100 rounded">
+          {result.labels[index]}: not available
+        </div>
+      );
+    }
+
+    const log = result.options.scale === 'log';
+    const xValue = (v: number) => (log ? Math.log10(v) : v);
+    const xMin = xValue(result.points[0].value);
+    const xMax = xValue(result.points[result.points.length - 1].value);
+    const values = points.map(point => point.outputs[index]);
+    let min = Math.min(...values);
+    let max = Math.max(...values);
+    if (max - min < 1e-9) {
+      max += Math.max(1, Math.abs(max) * 0.01);
+      min -= Math.max(1, Math.abs(min) * 0.01);
+    }
+    const innerWidth = PLOT_WIDTH - PLOT_MARGIN.left - PLOT_MARGIN.right;
+    const innerHeight = PLOT_HEIGHT - PLOT_MARGIN.top - PLOT_MARGIN.bottom;
+    const x = (v: number) => PLOT_MARGIN.left + (xMax === xMin ? 0 : ((xValue(v) - xMin) / (xMax - xMin)) * innerWidth);
+    const y = (v: number) => PLOT_MARGIN.top + ((max - v) / (max - min)) * innerHeight;
+    const color = SERIES_COLORS[index % SERIES_COLORS.length];
+
+    return (
+      <svg key={index} viewBox={`0 0 ${PLOT_WIDTH} ${PLOT_HEIGHT}`} className="w-full h-32 border border-gray-100 rounded">
+        <text x={PLOT_MARGIN.left} y={11} fontSize="9" fill={color}>{result.labels[index]}</text>
+        {[0, 0.5, 1].map(fraction => {
+          const value = max - fraction * (max - min);
+          return (
+            <g key={`y-${fraction}`}>
+              <line x1={PLOT_MARGIN.left} x2={PLOT_WIDTH - PLOT_MARGIN.right} y1={y(value)} y2={y(value)} stroke="#e5e7eb" />
+              <text x={PLOT_MARGIN.left - 4} y={y(value) + 3} textAnchor="end" fontSize="9" fill="#6b7280">
+                {value.toPrecision(3)}
+              </text>
+            </g>
+          );
+        })}
+        {[result.points[0], result.points[result.points.length - 1]].map((point, i) => (
+          <text key={`x-${i}`} x={x(point.value)} y={PLOT_HEIGHT - 6} textAnchor={i === 0 ? 'start' : 'end'} fontSize="9" fill="#6b7280">
+            {point.value.toPrecision(3)}
+          </text>
+        ))}
+        <polyline
+          fill="none"
+          stroke={color}
+          strokeWidth={1.5}
+          points={points.map(point => `${x(point.value).toFixed(1)},${y(point.outputs[index]).toFixed(1)}`).join(' ')}
+        />
+      </svg>
+    );
+  };
+
+  return (
+    <div className="border-t border-gray-200 p-4 space-y-3 max-h-96 overflow-y-auto">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <SlidersHorizontal className="h-5 w-5 text-blue-600" />
+          <h3 className="text-lg font-semibold text-gray-900">Parameter Sweep</h3>
+        </div>
+        <div className="flex items-center space-x-2 text-sm">
+          <button
+            onClick={() => parameter && onRun({ parameter, start, end, steps, scale, outputs })}
+            disabled={!parameter || outputs.length === 0}
+            className="flex items-center space-x-1 px-3 py-1 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Play className="h-4 w-4" />
+            <span>Sweep</span>
+          </button>
+          {result && result.points.length > 0 && (
+            <button
+              onClick={exportCSV}
+              className="flex items-center space-x-1 px-3 py-1 text-blue-700 border border-blue-300 rounded hover:bg-blue-50"
+            >
+              <Download className="h-4 w-4" />
+              <span>Export CSV</span>
+            </button>
+          )}
+        </div>
+      </div>
+
+      {/* Swept field and range */}
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <select value={targetKey} onChange={(e) => selectTarget(e.target.value)} className="px-2 py-1 border border-gray-300 rounded">
+          <option value="">Choose a component or cable…</option>
+          {circuit.components.map(c => (
+            <option key={c.id} value={`component:${c.id}`}>{c.id}</option>
+          ))}
+          {circuit.connections.map(conn => (
+            <option key={conn.id} value={`cable:${conn.id}`}>{conn.id} cable ({conn.from} → {conn.to})</option>
+          ))}
+        </select>
+        {parameter && (
+          <select
+            value={parameter.field}
+            onChange={(e) => selectParameter({ ...parameter, field: e.target.value })}
+            className="px-2 py-1 border border-gray-300 rounded"
+          >
+            {fields.map(field => (
+              <option key={field} value={field}>{field}</option>
+            ))}
+          </select>
+        )}
+        <span className="text-gray-600">from</span>
+        <input type="number" value={start} onChange={(e) => setStart(parseFloat(e.target.value) || 0)} className="w-20 px-2 py-1 border border-gray-300 rounded" />
+        <span className="text-gray-600">to</span>
+        <input type="number" value={end} onChange={(e) => setEnd(parseFloat(e.target.value) || 0)} className="w-20 px-2 py-1 border border-gray-300 rounded" />
+        <span className="text-gray-600">in</span>
+        <input
+          type="number"
+          min={2}
+          max={MAX_SWEEP_STEPS}
+          value={steps}
+          onChange={(e) => setSteps(parseInt(e.target.value, 10) || 2)}
+          className="w-16 px-2 py-1 border border-gray-300 rounded"
+        />
+        <span className="text-gray-600">points</span>
+        <select value={scale} onChange={(e) => setScale(e.target.value as SweepOptions['scale'])} className="px-2 py-1 border border-gray-300 rounded">
+          <option value="linear">Linear</option>
+          <option value="log">Logarithmic</option>
+        </select>
+      </div>
+
+      {/* Tracked outputs */}
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        {outputs.map((output, index) => (
+          <span key={index} className="flex items-center space-x-1 px-2 py-0.5 bg-gray-100 rounded" style={{ color: SERIES_COLORS[index % SERIES_COLORS.length] }}>
+            <span>{ParameterSweep.getOutputLabel(output)}</span>
+            <button onClick={() => setOutputs(outputs.filter((_, i) => i !== index))} className="text-gray-500 hover:text-red-600" title="Remove output">
+              <Trash2 className="h-3 w-3" />
+            </button>
+          </span>
+        ))}
+        <select value={newQuantity} onChange={(e) => setNewQuantity(e.target.value as SweepQuantity)} className="px-2 py-1 border border-gray-300 rounded">
+          {QUANTITIES.map(q => (
+            <option key={q.quantity} value={q.quantity}>{q.label}</option>
+          ))}
+        </select>
+        {newTarget && (
+          <select value={newId} onChange={(e) => setNewId(e.target.value)} className="px-2 py-1 border border-gray-300 rounded">
+            <option value="">of…</option>
+            {newTarget === 'component'
+              ? circuit.components.map(c => <option key={c.id} value={c.id}>{c.id}</option>)
+              : cabled.map(conn => <option key={conn.id} value={conn.id}>{conn.from} → {conn.to}</option>)}
+          </select>
+        )}
+        <button onClick={addOutput} className="flex items-center space-x-1 text-blue-600 hover:text-blue-800">
+          <Plus className="h-4 w-4" />
+          <span>Add output</span>
+        </button>
+      </div>
+
+      {!result && (
+        <div className="text-sm text-gray-500">Step one value across a range and re-run the analysis at each point</div>
+      )}
+
+      {result && result.points.length > 0 && (
+        <div>
+          <div className="text-xs text-gray-600 mb-1">Against {result.parameterLabel}</div>
+          <div className="grid grid-cols-2 gap-2">
+            {result.labels.map((_, index) => renderPlot(index))}
+          </div>
+        </div>
+      )}
+
+      {result && result.issues.length > 0 && (
+        <ul className="space-y-1">
+          {result.issues.map(issue => (
+            <li key={issue.id} className={`text-sm flex items-start ${issue.type === 'error' ? 'text-red-800' : issue.type === 'warning' ? 'text-yellow-800' : 'text-gray-700'}`}>
+              <span className="mr-2">•</span>
+              {issue.message}. {issue.recommendation}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,172 @@
+import React, { useState } from 'react';
+import type { EnergyCostResult, OperatingPeriod, ScheduleSuggestion, Tariff } from '../../types/circuit.types';
+import { Receipt, Play, Clock } from 'lucide-react';
+import { TARIFF_PRESETS } from '../../utils/energyCost';
+
+interface TariffPanelProps {
+  result: EnergyCostResult | null;
+  onRun: (tariff: Tariff) => void;
+  onApplySuggestion: (suggestion: ScheduleSuggestion) => void;
+}
+
+const formatHour = (hour: number): string =>
+  `${String(Math.floor(hour) % 24).padStart(2, '0')}:${String(Math.round((hour % 1) * 60)).padStart(2, '0')}`;
+
+const formatPeriods = (periods: OperatingPeriod[]): string =>
+  periods.map(p => `${formatHour(p.start)}-${formatHour(p.end)}`).join(', ');
+
+export const TariffPanel: React.FC<TariffPanelProps> = ({ result, onRun, onApplySuggestion }) => {
+  const [tariff, setTariff] = useState<Tariff>(TARIFF_PRESETS[0]);
+
+  const rateInput = (value: number | undefined, onChange: (value: number) => void) => (
+    <input
+      type="number"
+      min={0}
+      step={0.01}
+      value={value ?? 0}
+      onChange={(e) => onChange(parseFloat(e.target.value) || 0)}
+      className="w-16 px-2 py-1 border border-gray-300 rounded"
+    />
+  );
+
+  const resultMoney = (value: number) => `${result?.tariff.currency ?? ''}${value.toFixed(2)}`;
+
+  return (
+    <div className="border-t border-gray-200 p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <Receipt className="h-5 w-5 text-blue-600" />
+          <h3 className="text-lg font-semibold text-gray-900">Energy Cost</h3>
+        </div>
+        <div className="flex items-center space-x-2 text-sm">
+          <select
+            value={TARIFF_PRESETS.findIndex(preset => preset.name === tariff.name)}
+            onChange={(e) => setTariff(TARIFF_PRESETS[parseInt(e.target.value, 10)])}
+            className="px-2 py-1 border border-gray-300 rounded"
+          >
+            {TARIFF_PRESETS.map((preset, index) => (
+              <option key={preset.name} value={index}>{preset.name}</option>
+            ))}
+          </select>
+          <button
+            onClick={() => onRun(tariff)}
+            className="flex items-center space-x-1 px-3 py-1 bg-blue-600 text-white rounded hover:bg-blue-700"
+          >
+            <Play className="h-4 w-4" />
+            <span>Estimate</span>
+          </button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-2 text-sm text-gray-600">
+        <label className="flex items-center space-x-1">
+          <span>{tariff.type === 'time-of-use' ? 'Other hours' : tariff.type === 'tiered' ? 'Above tiers' : 'Rate'} ({tariff.currency}/kWh)</span>
+          {rateInput(tariff.rate, rate => setTariff({ ...tariff, rate }))}
+        </label>
+        {tariff.tiers?.map((tier, index) => (
+          <label key={`tier-${index}`} className="flex items-center space-x-1">
+            <span>{tier.upTo !== undefined ? `Up to ${tier.upTo}kWh` : 'Remainder'}</span>
+            {rateInput(tier.rate, rate => setTariff({
+              ...tariff,
+              tiers: tariff.tiers!.map((t, i) => (i === index ? { ...t, rate } : t))
+            }))}
+          </label>
+        ))}
+        {tariff.periods?.map((period, index) => (
+          <label key={`period-${index}`} className="flex items-center space-x-1">
+            <span>{period.name} {formatHour(period.start)}-{formatHour(period.end)}{period.days ? ' weekdays' : ''}</span>
+            {rateInput(period.rate, rate => setTariff({
+              ...tariff,
+              periods: tariff.periods!.map((p, i) => (i === index ? { ...p, rate } : p))
+            }))}
+          </label>
+        ))}
+        <label className="flex items-center space-x-1">
+          <span>Demand ({tariff.currency}/kW)</span>
+          {rateInput(tariff.demandCharge, demandCharge => setTariff({ ...tariff, demandCharge }))}
+        </label>
+        <label className="flex items-center space-x-1">
+          <span>Standing ({tariff.currency}/day)</span>
+          {rateInput(tariff.standingCharge, standingCharge => setTariff({ ...tariff, standingCharge }))}
+        </label>
+      </div>
+
+      {!result && (
+        <div className="text-sm text-gray-500">Estimate the monthly bill per appliance from a week of scheduled use</div>
+      )}
+
+      {result && (
+        <>
+          <div className="grid grid-cols-4 gap-3 text-sm">
+            <div className="bg-gray-50 p-2 rounded">
+              <div className="text-gray-600">Monthly Bill</div>
+              <div className="font-semibold text-gray-900">{resultMoney(result.totalCost)}</div>
+            </div>
+            <div className="bg-gray-50 p-2 rounded">
+              <div className="text-gray-600">Energy</div>
+              <div className="font-semibold text-gray-900">
+                {resultMoney(result.energyCost)} for {result.monthlyEnergy.toFixed(0)}kWh
+              </div>
+            </div>
+            <div className="bg-gray-50 p-2 rounded">
+              <div className="text-gray-600">Demand</div>
+              <div className="font-semibold text-gray-900">
+                {resultMoney(result.demandCost)} on {result.peakDemand.toFixed(2)}kW
+              </div>
+            </div>
+            <div className="bg-gray-50 p-2 rounded">
+              <div className="text-gray-600">Standing</div>
+              <div className="font-semibold text-gray-900">{resultMoney(result.standingCost)}</div>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-3 gap-x-4 gap-y-1 text-sm text-gray-600">
+            {[...result.appliances].sort((a, b) => b.cost - a.cost).map(appliance => (
+              <div key={appliance.componentId}>
+                {appliance.componentId}: {resultMoney(appliance.cost)} ({appliance.energy.toFixed(1)}kWh)
+              </div>
+            ))}
+          </div>
+
+          {result.suggestions.length > 0 && (
+            <div className="space-y-1 text-sm">
+              <div className="font-medium text-gray-700">Optimize Schedule</div>
+              {result.suggestions.map(suggestion => (
+                <div key={suggestion.componentId} className="flex items-center justify-between text-gray-600">
+                  <div className="flex items-center space-x-1">
+                    <Clock className="h-4 w-4 text-green-600 flex-shrink-0" />
+                    <span>
+                      Move {suggestion.componentId} from {formatPeriods(suggestion.current)} to {formatPeriods(suggestion.suggested)},
+                      saving {resultMoney(suggestion.monthlySaving)}/month
+                    </span>
+                  </div>
+                  <button
+                    onClick={() => onApplySuggestion(suggestion)}
+                    className="px-2 py-0.5 text-green-700 border border-green-300 rounded hover:bg-green-50"
+                  >
+                    Apply
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {result.issues.length > 0 && (
+            <ul className="space-y-1">
+              {result.issues.map(issue => (
+                <li key={issue.id} className="text-sm text-gray-700 flex items-start">
+                  <span className="mr-2">•</span>
+                  {issue.message}. {issue.recommendation}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <div className="text-xs text-gray-500">
+            Average energy rate {result.tariff.currency}{result.averageRate.toFixed(3)}/kWh under {result.tariff.name}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,163 @@
+import React, { useState } from 'react';
+import type { LoadProfileOptions, ThermalStudy } from '../../types/circuit.types';
+import { Thermometer, Play } from 'lucide-react';
+import { ThermalModel } from '../../utils/thermalModel';
+
+interface ThermalPanelProps {
+  study: ThermalStudy | null;
+  ambientTemperature: number;
+  onRun: (options: LoadProfileOptions) => void;
+  onAmbientChange: (temperature: number) => void;
+}
+
+const SERIES_COLORS = ['#2563eb', '#dc2626', '#16a34a', '#d97706', '#7c3aed', '#0891b2'];
+const PLOT_WIDTH = 560;
+const PLOT_HEIGHT = 170;
+const PLOT_MARGIN = { top: 10, right: 10, bottom: 24, left: 48 };
+
+export const ThermalPanel: React.FC<ThermalPanelProps> = ({ study, ambientTemperature, onRun, onAmbientChange }) => {
+  const [days, setDays] = useState(1);
+  const [stepMinutes, setStepMinutes] = useState(5);
+
+  // Temperature of every traced body with its limit dashed in the same colour
+  const renderPlot = () => {
+    if (!study || study.traces.length === 0) {
+      return (
+        <div className="h-40 flex items-center justify-center text-sm text-gray-500">
+          {study ? 'Nothing to trace' : 'Run the load profile to follow component and cable temperatures'}
+        </div>
+      );
+    }
+
+    const totalHours = study.time[study.time.length - 1] || 1;
+    const values = study.traces.flatMap(trace => [...trace.temperature, trace.limit]);
+    const min = Math.min(...values, study.ambientTemperature);
+    const max = Math.max(...values) + 5;
+    const innerWidth = PLOT_WIDTH - PLOT_MARGIN.left - PLOT_MARGIN.right;
+    const innerHeight = PLOT_HEIGHT - PLOT_MARGIN.top - PLOT_MARGIN.bottom;
+    const x = (hours: number) => PLOT_MARGIN.left + (hours / totalHours) * innerWidth;
+    const y = (temperature: number) => PLOT_MARGIN.top + ((max - temperature) / (max - min)) * innerHeight;
+    const ticks = study.options.days > 1
+      ? Array.from({ length: study.options.days + 1 }, (_, i) => i * 24)
+      : [0, 6, 12, 18, 24];
+
+    return (
+      <svg viewBox={`0 0 ${PLOT_WIDTH} ${PLOT_HEIGHT}`} className="w-full h-40">
+        {[0, 0.5, 1].map(fraction => {
+          const value = max - fraction * (max - min);
+          return (
+            <g key={`y-${fraction}`}>
+              <line x1={PLOT_MARGIN.left} x2={PLOT_WIDTH - PLOT_MARGIN.right} y1={y(value)} y2={y(value)} stroke="#e5e7eb" />
+              <text x={PLOT_MARGIN.left - 4} y={y(value) + 3} textAnchor="end" fontSize="9" fill="#6b7280">
+                {value.toFixed(0)}°C
+              </text>
+            </g>
+          );
+        })}
+        {ticks.map(hours => (
+          <text key={`x-${hours}`} x={x(hours)} y={PLOT_HEIGHT - 8} textAnchor="middle" fontSize="9" fill="#6b7280">
+            {study.options.days > 1 ? `Day ${hours / 24 + 1}` : `${hours}:00`}
+          </text>
+        ))}
+        {study.traces.map((trace, index) => {
+          const color = SERIES_COLORS[index % SERIES_COLORS.length];
+          return (
+            <g key={trace.id}>
+              <line
+                x1={PLOT_MARGIN.left}
+                x2={PLOT_WIDTH - PLOT_MARGIN.right}
+                y1={y(trace.limit)}
+                y2={y(trace.limit)}
+                stroke={color}
+                strokeDasharray="4 3"
+                strokeOpacity={0.6}
+              />
+              <polyline
+                fill="none"
+                stroke={color}
+                strokeWidth={1.5}
+                points={trace.temperature.map((temperature, i) => `${x(study.time[i]).toFixed(1)},${y(temperature).toFixed(1)}`).join(' ')}
+              />
+            </g>
+          );
+        })}
+      </svg>
+    );
+  };
+
+  return (
+    <div className="border-t border-gray-200 p-4 space-y-3 max-h-96 overflow-y-auto">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <Thermometer className="h-5 w-5 text-blue-600" />
+          <h3 className="text-lg font-semibold text-gray-900">Thermal Model</h3>
+        </div>
+        <div className="flex items-center space-x-2 text-sm">
+          <label className="flex items-center space-x-1 text-gray-600">
+            <span>Ambient</span>
+            <input
+              type="number"
+              value={ambientTemperature}
+              onChange={(e) => onAmbientChange(parseFloat(e.target.value) || 0)}
+              className="w-16 px-2 py-1 border border-gray-300 rounded"
+            />
+            <span>°C</span>
+          </label>
+          <select
+            value={days}
+            onChange={(e) => setDays(parseInt(e.target.value, 10))}
+            className="px-2 py-1 border border-gray-300 rounded"
+          >
+            <option value={1}>1 day</option>
+            <option value={7}>1 week</option>
+          </select>
+          <select
+            value={stepMinutes}
+            onChange={(e) => setStepMinutes(parseInt(e.target.value, 10))}
+            className="px-2 py-1 border border-gray-300 rounded"
+          >
+            <option value={1}>1 min</option>
+            <option value={5}>5 min</option>
+            <option value={15}>15 min</option>
+          </select>
+          <button
+            onClick={() => onRun({ days, stepMinutes })}
+            className="flex items-center space-x-1 px-3 py-1 bg-blue-600 text-white rounded hover:bg-blue-700"
+          >
+            <Play className="h-4 w-4" />
+            <span>Run</span>
+          </button>
+        </div>
+      </div>
+
+      {renderPlot()}
+
+      {study && study.traces.length > 0 && (
+        <div className="space-y-1 text-sm">
+          {study.traces.map((trace, index) => (
+            <div key={trace.id} className="flex justify-between">
+              <span style={{ color: SERIES_COLORS[index % SERIES_COLORS.length] }}>{trace.label}</span>
+              <span className={trace.timeToLimit !== null ? 'text-red-700 font-medium' : 'text-gray-700'}>
+                peak {trace.peakTemperature.toFixed(0)}°C of {trace.limit}°C
+                {' · '}full load {trace.fullLoadTemperature.toFixed(0)}°C
+                {' · '}τ {ThermalModel.formatHours(trace.timeConstant / 3600)}
+                {trace.timeToLimit !== null && ` · limit at ${ThermalModel.formatHours(trace.timeToLimit)}`}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {study && study.issues.length > 0 && (
+        <ul className="space-y-1">
+          {study.issues.map(issue => (
+            <li key={issue.id} className={`text-sm flex items-start ${issue.type === 'error' ? 'text-red-800' : issue.type === 'warning' ? 'text-yellow-800' : 'text-gray-700'}`}>
+              <span className="mr-2">•</span>
+              {issue.message}. {issue.recommendation}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,147 @@
+import React, { useState } from 'react';
+import type { ToleranceDistribution, ToleranceOptions, ToleranceQuantity, ToleranceStudy } from '../../types/circuit.types';
+import { Dices, Play, CheckCircle, AlertTriangle } from 'lucide-react';
+import { DEFAULT_TOLERANCE_OPTIONS, MAX_TOLERANCE_RUNS } from '../../utils/toleranceAnalysis';
+
+interface TolerancePanelProps {
+  study: ToleranceStudy | null;
+  onRun: (options: ToleranceOptions) => void;
+}
+
+const QuantityTable: React.FC<{ title: string; unit: string; quantities: ToleranceQuantity[] }> = ({ title, unit, quantities }) => (
+  <div>
+    <div className="font-medium text-gray-700 mb-1">{title}</div>
+    <table className="w-full text-gray-700">
+      <thead>
+        <tr className="text-left text-gray-600">
+          <th className="font-medium">Component</th>
+          <th className="font-medium">Min</th>
+          <th className="font-medium">Mean</th>
+          <th className="font-medium">Max</th>
+          <th className="font-medium">σ</th>
+        </tr>
+      </thead>
+      <tbody>
+        {quantities.map(({ componentId, statistics }) => (
+          <tr key={componentId}>
+            <td>{componentId}</td>
+            <td>{statistics.min.toFixed(2)}{unit}</td>
+            <td>{statistics.mean.toFixed(2)}{unit}</td>
+            <td>{statistics.max.toFixed(2)}{unit}</td>
+            <td>{statistics.stdDev.toFixed(3)}{unit}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  </div>
+);
+
+export const TolerancePanel: React.FC<TolerancePanelProps> = ({ study, onRun }) => {
+  const [options, setOptions] = useState<ToleranceOptions>(DEFAULT_TOLERANCE_OPTIONS);
+
+  return (
+    <div className="border-t border-gray-200 p-4 space-y-3 max-h-96 overflow-y-auto">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <Dices className="h-5 w-5 text-blue-600" />
+          <h3 className="text-lg font-semibold text-gray-900">Tolerance Analysis</h3>
+        </div>
+        <div className="flex items-center space-x-2 text-sm">
+          <label className="flex items-center space-x-1 text-gray-600">
+            <span>Runs</span>
+            <input
+              type="number"
+              min={1}
+              max={MAX_TOLERANCE_RUNS}
+              value={options.runs}
+              onChange={(e) => setOptions({ ...options, runs: parseInt(e.target.value, 10) || DEFAULT_TOLERANCE_OPTIONS.runs })}
+              className="w-20 px-2 py-1 border border-gray-300 rounded"
+            />
+          </label>
+          <select
+            value={options.distribution}
+            onChange={(e) => setOptions({ ...options, distribution: e.target.value as ToleranceDistribution })}
+            className="px-2 py-1 border border-gray-300 rounded"
+          >
+            <option value="normal">Normal (3σ)</option>
+            <option value="uniform">Uniform</option>
+            <option value="extremes">Worst case (limits)</option>
+          </select>
+          <label className="flex items-center space-x-1 text-gray-600">
+            <span>Supply ±</span>
+            <input
+              type="number"
+              min={0}
+              max={50}
+              value={options.supplyTolerance}
+              onChange={(e) => setOptions({ ...options, supplyTolerance: parseFloat(e.target.value) || 0 })}
+              className="w-14 px-2 py-1 border border-gray-300 rounded"
+            />
+            <span>%</span>
+          </label>
+          <label className="flex items-center space-x-1 text-gray-600">
+            <span>Seed</span>
+            <input
+              type="number"
+              value={options.seed}
+              onChange={(e) => setOptions({ ...options, seed: parseInt(e.target.value, 10) || 0 })}
+              className="w-16 px-2 py-1 border border-gray-300 rounded"
+            />
+          </label>
+          <button
+            onClick={() => onRun(options)}
+            className="flex items-center space-x-1 px-3 py-1 bg-blue-600 text-white rounded hover:bg-blue-700"
+          >
+            <Play className="h-4 w-4" />
+            <span>Run</span>
+          </button>
+        </div>
+      </div>
+
+      {!study && (
+        <div className="text-sm text-gray-500">Solve the circuit repeatedly with values drawn within their tolerances to see the spread before sign-off</div>
+      )}
+
+      {study && study.runs > 0 && (
+        <div className="space-y-3 text-sm">
+          <div className={`flex items-center space-x-1 font-medium ${study.exceedanceProbability > 0 ? 'text-red-700' : 'text-green-700'}`}>
+            {study.exceedanceProbability > 0 ? <AlertTriangle className="h-4 w-4" /> : <CheckCircle className="h-4 w-4" />}
+            <span>
+              An MCB or fuse exceeds its rating in {(study.exceedanceProbability * 100).toFixed(1)}% of {study.runs} runs
+              {study.sampled.length > 0 ? ` (${study.sampled.length} toleranced component${study.sampled.length === 1 ? '' : 's'})` : ''}
+            </span>
+          </div>
+
+          {study.devices.length > 0 && (
+            <div className="space-y-1">
+              {study.devices.map(device => (
+                <div key={device.componentId} className={`flex justify-between ${device.probability > 0 ? 'text-red-700' : 'text-gray-700'}`}>
+                  <span>{device.componentId} ({device.label})</span>
+                  <span>
+                    {device.loading.min.toFixed(0)}–{device.loading.max.toFixed(0)}% loaded, mean {device.loading.mean.toFixed(0)}% · P(exceed) {(device.probability * 100).toFixed(1)}%
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-4">
+            <QuantityTable title="Voltages" unit="V" quantities={study.voltages} />
+            <QuantityTable title="Currents" unit="A" quantities={study.currents} />
+          </div>
+        </div>
+      )}
+
+      {study && study.issues.length > 0 && (
+        <ul className="space-y-1">
+          {study.issues.map(issue => (
+            <li key={issue.id} className={`text-sm flex items-start ${issue.type === 'error' ? 'text-red-800' : issue.type === 'warning' ? 'text-yellow-800' : 'text-gray-700'}`}>
+              <span className="mr-2">•</span>
+              {issue.message}. {issue.recommendation}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,234 @@
+import React, { useState } from 'react';
+import type { Circuit, TransientEvent, TransientOptions, TransientResult } from '../../types/circuit.types';
+import { Activity, Play, Plus, Trash2 } from 'lucide-react';
+
+interface WaveformPanelProps {
+  circuit: Circuit;
+  result: TransientResult | null;
+  onRun: (options: TransientOptions) => void;
+}
+
+type Quantity = 'voltage' | 'current';
+
+const SERIES_COLORS = ['#2563eb', '#dc2626', '#16a34a', '#d97706', '#7c3aed', '#0891b2'];
+const SWITCHABLE_TYPES = ['switch', 'two-way-switch', 'mcb', 'rccb', 'fuse', 'breaker', 'contactor', 'relay', 'emergency-stop', 'gfci', 'afci'];
+// Plot at most this many points per series; longer runs are decimated
+const MAX_PLOT_POINTS = 600;
+const PLOT_WIDTH = 560;
+const PLOT_HEIGHT = 180;
+const PLOT_MARGIN = { top: 10, right: 10, bottom: 24, left: 56 };
+
+export const WaveformPanel: React.FC<WaveformPanelProps> = ({
+  circuit,
+  result,
+  onRun
+}) => {
+  const [durationMs, setDurationMs] = useState(100);
+  const [timeStepMs, setTimeStepMs] = useState(0.1);
+  // Event times are edited in milliseconds and converted when the run starts
+  const [events, setEvents] = useState<TransientEvent[]>([]);
+  const [quantity, setQuantity] = useState<Quantity>('current');
+  const [selected, setSelected] = useState<string[]>([]);
+
+  const switchable = circuit.components.filter(c => SWITCHABLE_TYPES.includes(c.type));
+  const seriesSource = result ? (quantity === 'voltage' ? result.componentVoltages : result.componentCurrents) : {};
+  const available = Object.keys(seriesSource);
+  const plotted = selected.filter(id => available.includes(id));
+
+  const handleRun = () => {
+    onRun({
+      duration: durationMs / 1000,
+      timeStep: timeStepMs / 1000,
+      events: events.map(event => ({ ...event, time: event.time / 1000 }))
+    });
+  };
+
+  const addEvent = () => {
+    if (switchable.length === 0) return;
+    setEvents([...events, { time: durationMs / 2, componentId: switchable[0].id, action: 'open' }]);
+  };
+
+  const updateEvent = (index: number, updates: Partial<TransientEvent>) => {
+    setEvents(events.map((event, i) => (i === index ? { ...event, ...updates } : event)));
+  };
+
+  const toggleSeries = (id: string) => {
+    setSelected(selected.includes(id) ? selected.filter(s => s !== id) : [...selected, id]);
+  };
+
+  // Scale plotted series into SVG coordinates
+  const renderPlot = () => {
+    if (!result || result.time.length < 2 || plotted.length === 0) {
+      return (
+        <div className="h-44 flex items-center justify-center text-sm text-gray-500">
+          {result ? 'Select components to plot' : 'Run a simulation to see waveforms'}
+        </div>
+      );
+    }
+
+    const stride = Math.max(1, Math.ceil(result.time.length / MAX_PLOT_POINTS));
+    const indices = result.time.map((_, i) => i).filter(i => i % stride === 0);
+    const values = plotted.flatMap(id => indices.map(i => seriesSource[id][i]));
+    let min = Math.min(...values, 0);
+    let max = Math.max(...values, 0);
+    if (max - min < 1e-9) {
+      max += 1;
+      min -= 1;
+    }
+    const tEnd = result.time[result.time.length - 1] || 1;
+    const innerWidth = PLOT_WIDTH - PLOT_MARGIN.left - PLOT_MARGIN.right;
+    const innerHeight = PLOT_HEIGHT - PLOT_MARGIN.top - PLOT_MARGIN.bottom;
+    const x = (t: number) => PLOT_MARGIN.left + (t / tEnd) * innerWidth;
+    const y = (v: number) => PLOT_MARGIN.top + ((max - v) / (max - min)) * innerHeight;
+    const unit = quantity === 'voltage' ? 'V' : 'A';
+
+    return (
+      <svg viewBox={`0 0 ${PLOT_WIDTH} ${PLOT_HEIGHT}`} className="w-full h-44">
+        {[0, 0.25, 0.5, 0.75, 1].map(fraction => {
+          const value = max - fraction * (max - min);
+          return (
+            <g key={`y-${fraction}`}>
+              <line x1={PLOT_MARGIN.left} x2={PLOT_WIDTH - PLOT_MARGIN.right} y1={y(value)} y2={y(value)} stroke="#e5e7eb" />
+              <text x={PLOT_MARGIN.left - 4} y={y(value) + 3} textAnchor="end" fontSize="9" fill="#6b7280">
+                {value.toPrecision(3)}{unit}
+              </text>
+            </g>
+          );
+        })}
+        {[0, 0.25, 0.5, 0.75, 1].map(fraction => (
+          <text key={`x-${fraction}`} x={x(fraction * tEnd)} y={PLOT_HEIGHT - 8} textAnchor="middle" fontSize="9" fill="#6b7280">
+            {(fraction * tEnd * 1000).toFixed(1)}ms
+          </text>
+        ))}
+        {plotted.map((id, seriesIndex) => (
+          <polyline
+            key={id}
+            fill="none"
+            stroke={SERIES_COLORS[seriesIndex % SERIES_COLORS.length]}
+            strokeWidth={1.5}
+            points={indices.map(i => `${x(result.time[i]).toFixed(1)},${y(seriesSource[id][i]).toFixed(1)}`).join(' ')}
+          />
+        ))}
+      </svg>
+    );
+  };
+
+  return (
+    <div className="border-t border-gray-200 p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <Activity className="h-5 w-5 text-blue-600" />
+          <h3 className="text-lg font-semibold text-gray-900">Transient Simulation</h3>
+        </div>
+        <div className="flex items-center space-x-2 text-sm">
+          <label className="text-gray-600">Duration (ms)</label>
+          <input
+            type="number"
+            min={0}
+            value={durationMs}
+            onChange={(e) => setDurationMs(parseFloat(e.target.value) || 0)}
+            className="w-20 px-2 py-1 border border-gray-300 rounded"
+          />
+          <label className="text-gray-600">Step (ms)</label>
+          <input
+            type="number"
+            min={0}
+            step={0.01}
+            value={timeStepMs}
+            onChange={(e) => setTimeStepMs(parseFloat(e.target.value) || 0)}
+            className="w-20 px-2 py-1 border border-gray-300 rounded"
+          />
+          <button
+            onClick={handleRun}
+            className="flex items-center space-x-1 px-3 py-1 bg-blue-600 text-white rounded hover:bg-blue-700"
+          >
+            <Play className="h-4 w-4" />
+            <span>Run</span>
+          </button>
+        </div>
+      </div>
+
+      {/* Switching events */}
+      <div className="space-y-1 text-sm">
+        {events.map((event, index) => (
+          <div key={index} className="flex items-center space-x-2">
+            <select
+              value={event.action}
+              onChange={(e) => updateEvent(index, { action: e.target.value as TransientEvent['action'] })}
+              className="px-2 py-1 border border-gray-300 rounded"
+            >
+              <option value="open">Open</option>
+              <option value="close">Close</option>
+            </select>
+            <select
+              value={event.componentId}
+              onChange={(e) => updateEvent(index, { componentId: e.target.value })}
+              className="px-2 py-1 border border-gray-300 rounded"
+            >
+              {switchable.map(c => (
+                <option key={c.id} value={c.id}>{c.id}</option>
+              ))}
+            </select>
+            <span className="text-gray-600">at</span>
+            <input
+              type="number"
+              min={0}
+              value={event.time}
+              onChange={(e) => updateEvent(index, { time: parseFloat(e.target.value) || 0 })}
+              className="w-20 px-2 py-1 border border-gray-300 rounded"
+            />
+            <span className="text-gray-600">ms</span>
+            <button
+              onClick={() => setEvents(events.filter((_, i) => i !== index))}
+              className="p-1 text-gray-500 hover:text-red-600"
+              title="Remove event"
+            >
+              <Trash2 className="h-4 w-4" />
+            </button>
+          </div>
+        ))}
+        {switchable.length > 0 && (
+          <button onClick={addEvent} className="flex items-center space-x-1 text-blue-600 hover:text-blue-800">
+            <Plus className="h-4 w-4" />
+            <span>Add switching event</span>
+          </button>
+        )}
+      </div>
+
+      {/* Series selection */}
+      {result && (
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <select
+            value={quantity}
+            onChange={(e) => setQuantity(e.target.value as Quantity)}
+            className="px-2 py-1 border border-gray-300 rounded"
+          >
+            <option value="current">Current</option>
+            <option value="voltage">Voltage</option>
+          </select>
+          {available.map(id => {
+            const colorIndex = plotted.indexOf(id);
+            return (
+              <label key={id} className="flex items-center space-x-1">
+                <input type="checkbox" checked={selected.includes(id)} onChange={() => toggleSeries(id)} />
+                <span style={colorIndex >= 0 ? { color: SERIES_COLORS[colorIndex % SERIES_COLORS.length] } : undefined}>{id}</span>
+              </label>
+            );
+          })}
+        </div>
+      )}
+
+      {renderPlot()}
+
+      {result && result.issues.length > 0 && (
+        <div className="space-y-1">
+          {result.issues.map(issue => (
+            <div key={issue.id} className="text-sm text-yellow-800 bg-yellow-50 border border-yellow-200 rounded px-2 py-1">
+              {issue.message}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
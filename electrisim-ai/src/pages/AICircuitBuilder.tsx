@@ -407,8 +407,14 @@ const AICircuitBuilder: React.FC = () => {
                     <h4 className="text-sm font-medium text-blue-900 mb-2">Circuit Summary</h4>
                     <div className="text-sm text-blue-800">
                       <p><strong>Total Load:</strong> {recommendation.totalLoad}W</p>
-                      <p><strong>Suggested MCB:</strong> {recommendation.suggestedProtection.mcb}A</p>
+                      <p><strong>Suggested MCB:</strong> {recommendation.suggestedProtection.mcbCurve}{recommendation.suggestedProtection.mcb}A</p>
                       <p><strong>Suggested Fuse:</strong> {recommendation.suggestedProtection.fuse}A</p>
+                      <p>
+                        <strong>Fuse/MCB Selectivity:</strong>{' '}
+                        {recommendation.suggestedProtection.selectivityLimit === null
+                          ? 'Total'
+                          : `Up to ${recommendation.suggestedProtection.selectivityLimit.toFixed(0)}A`}
+                      </p>
                       <p><strong>RCCB Required:</strong> {recommendation.suggestedProtection.rccb ? 'Yes' : 'No'}</p>
                     </div>
                   </div>
@@ -1,14 +1,30 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { CircuitCanvas } from '../components/CircuitCanvas/CircuitCanvas';
 import { SafetyPanel } from '../components/SafetyPanel/SafetyPanel';
 import { ComponentLibrary } from '../components/ComponentLibrary/ComponentLibrary';
 import { CircuitChatModal } from '../components/CircuitChatModal/CircuitChatModal';
+import { WaveformPanel } from '../components/WaveformPanel/WaveformPanel';
+import { ProtectionPanel } from '../components/ProtectionPanel/ProtectionPanel';
+import { MotorStartPanel } from '../components/MotorStartPanel/MotorStartPanel';
+import { LoadProfilePanel } from '../components/LoadProfilePanel/LoadProfilePanel';
+import { TariffPanel } from '../components/TariffPanel/TariffPanel';
+import { OutagePanel } from '../components/OutagePanel/OutagePanel';
+import { CableSizingPanel } from '../components/CableSizingPanel/CableSizingPanel';
+import { TolerancePanel } from '../components/TolerancePanel/TolerancePanel';
+import { SweepPanel } from '../components/SweepPanel/SweepPanel';
+import { ThermalPanel } from '../components/ThermalPanel/ThermalPanel';
+import { PowerFactorPanel } from '../components/PowerFactorPanel/PowerFactorPanel';
+import { LabelPanel } from '../components/LabelPanel/LabelPanel';
+import { SolarPanel } from '../components/SolarPanel/SolarPanel';
 import { CircuitAnalysisAgent } from '../agents/CircuitAnalysisAgent';
 import { SafetyAssessmentAgent } from '../agents/SafetyAssessmentAgent';
 import { ImageRecognitionAgent } from '../agents/ImageRecognitionAgent';
 import { CircuitSimulator } from '../utils/circuitSimulator';
-import type { Circuit, CircuitAnalysis, SafetyAssessment, ChatMessage } from '../types/circuit.types';
-import { PanelLeft, PanelRight, X, MessageCircle } from 'lucide-react';
+import { PowerFactorCorrection } from '../utils/powerFactorCorrection';
+import { ProtectionCoordination } from '../utils/protectionCoordination';
+import { ThermalModel } from '../utils/thermalModel';
+import type { CableSizingOptions, CableSizingStudy, Circuit, CircuitAnalysis, SafetyAssessment, ChatMessage, EnergyCostResult, FaultSpec, FaultStudyResult, LoadProfileOptions, LoadProfileResult, MotorStartOptions, MotorStartStudy, OutageStudy, PFCDesign, PFCOptions, ScheduleSuggestion, SolarOptions, SolarStudy, SweepOptions, SweepResult, Tariff, ThermalStudy, ToleranceOptions, ToleranceStudy, TransientOptions, TransientResult } from '../types/circuit.types';
+import { PanelLeft, PanelRight, X, MessageCircle, Activity, ChartLine, Gauge, CalendarClock, Receipt, BatteryCharging, Cable, Dices, SlidersHorizontal, Thermometer, Waves, Tag, Sun } from 'lucide-react';
 
 const CircuitBuilder: React.FC = () => {
   // State management
@@ -19,6 +35,31 @@ const CircuitBuilder: React.FC = () => {
   const [leftSidebarOpen, setLeftSidebarOpen] = useState(true);
   const [rightSidebarOpen, setRightSidebarOpen] = useState(true);
   const [showChat, setShowChat] = useState(false);
+  const [showWaveforms, setShowWaveforms] = useState(false);
+  const [showProtection, setShowProtection] = useState(false);
+  const [transient, setTransient] = useState<TransientResult | null>(null);
+  const [faultStudy, setFaultStudy] = useState<FaultStudyResult | null>(null);
+  const [showMotorStart, setShowMotorStart] = useState(false);
+  const [motorStart, setMotorStart] = useState<MotorStartStudy | null>(null);
+  const [showLoadProfile, setShowLoadProfile] = useState(false);
+  const [loadProfile, setLoadProfile] = useState<LoadProfileResult | null>(null);
+  const [showEnergyCost, setShowEnergyCost] = useState(false);
+  const [energyCost, setEnergyCost] = useState<EnergyCostResult | null>(null);
+  const [showOutage, setShowOutage] = useState(false);
+  const [outage, setOutage] = useState<OutageStudy | null>(null);
+  const [showCableSizing, setShowCableSizing] = useState(false);
+  const [cableSizing, setCableSizing] = useState<CableSizingStudy | null>(null);
+  const [showTolerance, setShowTolerance] = useState(false);
+  const [tolerance, setTolerance] = useState<ToleranceStudy | null>(null);
+  const [showSweep, setShowSweep] = useState(false);
+  const [sweep, setSweep] = useState<SweepResult | null>(null);
+  const [showThermal, setShowThermal] = useState(false);
+  const [thermal, setThermal] = useState<ThermalStudy | null>(null);
+  const [showPowerFactor, setShowPowerFactor] = useState(false);
+  const [powerFactor, setPowerFactor] = useState<PFCDesign | null>(null);
+  const [showLabels, setShowLabels] = useState(false);
+  const [showSolar, setShowSolar] = useState(false);
+  const [solar, setSolar] = useState<SolarStudy | null>(null);
 
   // Initialize agents
   const circuitAnalysisAgent = new CircuitAnalysisAgent();
@@ -28,6 +69,12 @@ const CircuitBuilder: React.FC = () => {
   // Circuit simulator
   const [simulator] = useState(() => new CircuitSimulator(circuit));
 
+  // Coordination study only runs while its panel is open
+  const coordination = useMemo(
+    () => (showProtection ? ProtectionCoordination.analyze(circuit) : null),
+    [circuit, showProtection]
+  );
+
   // Analyze circuit when it changes
   useEffect(() => {
     if (circuit.components.length > 0) {
@@ -47,6 +94,131 @@ const CircuitBuilder: React.FC = () => {
   const handleCircuitUpdate = (updatedCircuit: Circuit) => {
     setCircuit(updatedCircuit);
     simulator.updateCircuit(updatedCircuit);
+    setTransient(null);
+    setFaultStudy(null);
+    setMotorStart(null);
+    setLoadProfile(null);
+    setEnergyCost(null);
+    setOutage(null);
+    setCableSizing(null);
+    setTolerance(null);
+    setSweep(null);
+    setThermal(null);
+    setPowerFactor(null);
+    setSolar(null);
+  };
+
+  // Handle transient simulation runs
+  const handleRunTransient = (options: TransientOptions) => {
+    setTransient(simulator.simulateTransient(options));
+  };
+
+  // Handle motor starting runs
+  const handleRunMotorStart = (options: MotorStartOptions) => {
+    setMotorStart(simulator.simulateMotorStart(options));
+  };
+
+  // Handle load profile runs
+  const handleRunLoadProfile = (options: LoadProfileOptions) => {
+    setLoadProfile(simulator.simulateLoadProfile(options));
+  };
+
+  // Handle energy cost estimates
+  const handleRunEnergyCost = (tariff: Tariff) => {
+    setEnergyCost(simulator.estimateEnergyCost(tariff));
+  };
+
+  // Move a deferrable appliance to its suggested schedule and re-estimate under the same tariff
+  const handleApplySchedule = (suggestion: ScheduleSuggestion) => {
+    const tariff = energyCost?.tariff;
+    handleCircuitUpdate({
+      ...circuit,
+      components: circuit.components.map(c =>
+        c.id === suggestion.componentId ? { ...c, properties: { ...c.properties, schedule: suggestion.suggested } } : c
+      ),
+      metadata: { ...circuit.metadata, updatedAt: new Date() }
+    });
+    if (tariff) setEnergyCost(simulator.estimateEnergyCost(tariff));
+  };
+
+  // Handle grid outage runs
+  const handleRunOutage = () => {
+    setOutage(simulator.simulateOutage());
+  };
+
+  // Handle cable sizing runs
+  const handleRunCableSizing = (options: CableSizingOptions) => {
+    setCableSizing(simulator.sizeCables(options));
+  };
+
+  // Write the sized cables onto their connections and re-size under the same options
+  const handleApplyCableSizes = () => {
+    if (!cableSizing) return;
+    const { options, branches } = cableSizing;
+    const updatedCircuit = {
+      ...circuit,
+      connections: circuit.connections.map(conn => {
+        const branch = branches.find(b => b.connectionId === conn.id && b.changed);
+        return branch ? { ...conn, cable: branch.cable } : conn;
+      }),
+      metadata: { ...circuit.metadata, updatedAt: new Date() }
+    };
+    handleCircuitUpdate(updatedCircuit);
+    setCableSizing(simulator.sizeCables(options));
+  };
+
+  // Handle tolerance analysis runs
+  const handleRunTolerance = (options: ToleranceOptions) => {
+    setTolerance(simulator.simulateTolerance(options));
+  };
+
+  // Handle parameter sweeps
+  const handleRunSweep = (options: SweepOptions) => {
+    setSweep(circuitAnalysisAgent.sweepParameter(circuit, options));
+  };
+
+  // Handle thermal model runs
+  const handleRunThermal = (options: LoadProfileOptions) => {
+    setThermal(simulator.simulateThermal(options));
+  };
+
+  // Handle power factor correction designs
+  const handleDesignPowerFactor = (options: PFCOptions) => {
+    setPowerFactor(simulator.designPowerFactorCorrection(options));
+  };
+
+  // Connect the designed bank at the main bus; the circuit is analysed again with it in place
+  const handleInsertCapacitorBank = () => {
+    if (!powerFactor) return;
+    handleCircuitUpdate(PowerFactorCorrection.insertBank(circuit, powerFactor));
+    setPowerFactor({ ...powerFactor, inserted: true });
+  };
+
+  // Handle solar PV runs
+  const handleRunSolar = (options: SolarOptions) => {
+    setSolar(simulator.simulateSolar(options));
+  };
+
+  // Set the ambient temperature the whole circuit sits in
+  const handleAmbientChange = (temperature: number) => {
+    handleCircuitUpdate({
+      ...circuit,
+      metadata: { ...circuit.metadata, ambientTemperature: temperature, updatedAt: new Date() }
+    });
+  };
+
+  // Earthing arrangement and supply loop impedance, stored with the circuit
+  const handleEarthingChange = (updates: Pick<Circuit['metadata'], 'earthingSystem' | 'externalLoopImpedance'>) => {
+    handleCircuitUpdate({
+      ...circuit,
+      metadata: { ...circuit.metadata, ...updates, updatedAt: new Date() }
+    });
+  };
+
+  // Handle faults injected from the canvas
+  const handleInjectFault = (fault: FaultSpec) => {
+    setFaultStudy(simulator.simulateFault(fault));
+    setRightSidebarOpen(true);
   };
 
   // Handle image upload
@@ -55,8 +227,7 @@ const CircuitBuilder: React.FC = () => {
       const result = await imageRecognitionAgent.processCircuitImage(file);
       
       if (result.confidence > 0.5) {
-        setCircuit(result.circuit);
-        simulator.updateCircuit(result.circuit);
+        handleCircuitUpdate(result.circuit);
       }
     } catch (error) {
       console.error('Error processing image:', error);
@@ -85,6 +256,101 @@ const CircuitBuilder: React.FC = () => {
         </button>
       </div>
 
+      {/* Waveforms Toggle */}
+      <div className="absolute bottom-6 left-6 z-20">
+        <button
+          onClick={() => setShowWaveforms(!showWaveforms)}
+          className="p-4 bg-white border border-gray-300 rounded-full shadow-lg hover:bg-gray-50 transition-all duration-200 hover:shadow-xl"
+          title={showWaveforms ? "Hide Transient Simulation" : "Show Transient Simulation"}
+        >
+          <Activity className="h-6 w-6 text-blue-600" />
+        </button>
+        <button
+          onClick={() => setShowProtection(!showProtection)}
+          className="ml-3 p-4 bg-white border border-gray-300 rounded-full shadow-lg hover:bg-gray-50 transition-all duration-200 hover:shadow-xl"
+          title={showProtection ? "Hide Protection Coordination" : "Show Protection Coordination"}
+        >
+          <ChartLine className="h-6 w-6 text-blue-600" />
+        </button>
+        <button
+          onClick={() => setShowMotorStart(!showMotorStart)}
+          className="ml-3 p-4 bg-white border border-gray-300 rounded-full shadow-lg hover:bg-gray-50 transition-all duration-200 hover:shadow-xl"
+          title={showMotorStart ? "Hide Motor Starting" : "Show Motor Starting"}
+        >
+          <Gauge className="h-6 w-6 text-blue-600" />
+        </button>
+        <button
+          onClick={() => setShowLoadProfile(!showLoadProfile)}
+          className="ml-3 p-4 bg-white border border-gray-300 rounded-full shadow-lg hover:bg-gray-50 transition-all duration-200 hover:shadow-xl"
+          title={showLoadProfile ? "Hide Load Profile" : "Show Load Profile"}
+        >
+          <CalendarClock className="h-6 w-6 text-blue-600" />
+        </button>
+        <button
+          onClick={() => setShowEnergyCost(!showEnergyCost)}
+          className="ml-3 p-4 bg-white border border-gray-300 rounded-full shadow-lg hover:bg-gray-50 transition-all duration-200 hover:shadow-xl"
+          title={showEnergyCost ? "Hide Energy Cost" : "Show Energy Cost"}
+        >
+          <Receipt className="h-6 w-6 text-blue-600" />
+        </button>
+        <button
+          onClick={() => setShowOutage(!showOutage)}
+          className="ml-3 p-4 bg-white border border-gray-300 rounded-full shadow-lg hover:bg-gray-50 transition-all duration-200 hover:shadow-xl"
+          title={showOutage ? "Hide Grid Outage" : "Show Grid Outage"}
+        >
+          <BatteryCharging className="h-6 w-6 text-blue-600" />
+        </button>
+        <button
+          onClick={() => setShowCableSizing(!showCableSizing)}
+          className="ml-3 p-4 bg-white border border-gray-300 rounded-full shadow-lg hover:bg-gray-50 transition-all duration-200 hover:shadow-xl"
+          title={showCableSizing ? "Hide Cable Sizing" : "Show Cable Sizing"}
+        >
+          <Cable className="h-6 w-6 text-blue-600" />
+        </button>
+        <button
+          onClick={() => setShowTolerance(!showTolerance)}
+          className="ml-3 p-4 bg-white border border-gray-300 rounded-full shadow-lg hover:bg-gray-50 transition-all duration-200 hover:shadow-xl"
+          title={showTolerance ? "Hide Tolerance Analysis" : "Show Tolerance Analysis"}
+        >
+          <Dices className="h-6 w-6 text-blue-600" />
+        </button>
+        <button
+          onClick={() => setShowSweep(!showSweep)}
+          className="ml-3 p-4 bg-white border border-gray-300 rounded-full shadow-lg hover:bg-gray-50 transition-all duration-200 hover:shadow-xl"
+          title={showSweep ? "Hide Parameter Sweep" : "Show Parameter Sweep"}
+        >
+          <SlidersHorizontal className="h-6 w-6 text-blue-600" />
+        </button>
+        <button
+          onClick={() => setShowThermal(!showThermal)}
+          className="ml-3 p-4 bg-white border border-gray-300 rounded-full shadow-lg hover:bg-gray-50 transition-all duration-200 hover:shadow-xl"
+          title={showThermal ? "Hide Thermal Model" : "Show Thermal Model"}
+        >
+          <Thermometer className="h-6 w-6 text-blue-600" />
+        </button>
+        <button
+          onClick={() => setShowPowerFactor(!showPowerFactor)}
+          className="ml-3 p-4 bg-white border border-gray-300 rounded-full shadow-lg hover:bg-gray-50 transition-all duration-200 hover:shadow-xl"
+          title={showPowerFactor ? "Hide Power Factor Correction" : "Show Power Factor Correction"}
+        >
+          <Waves className="h-6 w-6 text-blue-600" />
+        </button>
+        <button
+          onClick={() => setShowLabels(!showLabels)}
+          className="ml-3 p-4 bg-white border border-gray-300 rounded-full shadow-lg hover:bg-gray-50 transition-all duration-200 hover:shadow-xl"
+          title={showLabels ? "Hide Arc Flash Labels" : "Show Arc Flash Labels"}
+        >
+          <Tag className="h-6 w-6 text-blue-600" />
+        </button>
+        <button
+          onClick={() => setShowSolar(!showSolar)}
+          className="ml-3 p-4 bg-white border border-gray-300 rounded-full shadow-lg hover:bg-gray-50 transition-all duration-200 hover:shadow-xl"
+          title={showSolar ? "Hide Solar PV" : "Show Solar PV"}
+        >
+          <Sun className="h-6 w-6 text-blue-600" />
+        </button>
+      </div>
+
       {/* Chat Icon */}
       <div className="absolute bottom-6 right-6 z-20">
         <button
@@ -130,8 +396,35 @@ const CircuitBuilder: React.FC = () => {
             analysis={analysis}
             onCircuitUpdate={handleCircuitUpdate}
             onImageUpload={handleImageUpload}
+            onInjectFault={handleInjectFault}
             isAnalyzing={isAnalyzing}
           />
+          {showWaveforms && (
+            <WaveformPanel
+              circuit={circuit}
+              result={transient}
+              onRun={handleRunTransient}
+            />
+          )}
+          {showProtection && <ProtectionPanel study={coordination} />}
+          {showMotorStart && <MotorStartPanel study={motorStart} onRun={handleRunMotorStart} />}
+          {showLoadProfile && <LoadProfilePanel result={loadProfile} onRun={handleRunLoadProfile} />}
+          {showEnergyCost && <TariffPanel result={energyCost} onRun={handleRunEnergyCost} onApplySuggestion={handleApplySchedule} />}
+          {showOutage && <OutagePanel study={outage} onRun={handleRunOutage} />}
+          {showCableSizing && <CableSizingPanel study={cableSizing} onRun={handleRunCableSizing} onApply={handleApplyCableSizes} />}
+          {showTolerance && <TolerancePanel study={tolerance} onRun={handleRunTolerance} />}
+          {showSweep && <SweepPanel circuit={circuit} result={sweep} onRun={handleRunSweep} />}
+          {showThermal && (
+            <ThermalPanel
+              study={thermal}
+              ambientTemperature={ThermalModel.getAmbient(circuit)}
+              onRun={handleRunThermal}
+              onAmbientChange={handleAmbientChange}
+            />
+          )}
+          {showPowerFactor && <PowerFactorPanel design={powerFactor} onDesign={handleDesignPowerFactor} onInsert={handleInsertCapacitorBank} />}
+          {showLabels && <LabelPanel circuit={circuit} analysis={analysis} />}
+          {showSolar && <SolarPanel study={solar} onRun={handleRunSolar} />}
         </div>
 
         {/* Right Sidebar - Safety Panel */}
@@ -140,6 +433,9 @@ const CircuitBuilder: React.FC = () => {
             <SafetyPanel
               safety={safety}
               analysis={analysis}
+              faultStudy={faultStudy}
+              onClearFaultStudy={() => setFaultStudy(null)}
+              onEarthingChange={handleEarthingChange}
               isAnalyzing={isAnalyzing}
             />
           </div>
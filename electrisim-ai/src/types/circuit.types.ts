@@ -4,6 +4,25 @@ export interface Position {
   y: number;
 }
 
+export type ConductorMaterial = 'copper' | 'aluminium';
+export type InsulationType = 'pvc' | 'xlpe'; // 70°C thermoplastic, 90°C thermosetting
+// IEC 60364-5-52 reference installation methods
+export type InstallationMethod = 'A1' | 'A2' | 'B1' | 'B2' | 'C' | 'D1' | 'E';
+// Ampacity tables: IEC 60364-5-52 in mm² or NEC 310.16 in AWG
+export type CableStandard = 'iec' | 'nec';
+
+// Cable run a connection is made with
+export interface Cable {
+  length: number; // meters, one way
+  size: number; // cross-section in mm², or gauge number for AWG (0 = 1/0, -1 = 2/0 ...)
+  sizeUnit?: 'mm2' | 'awg'; // mm² when omitted
+  material?: ConductorMaterial; // copper when omitted
+  insulation?: InsulationType; // PVC when omitted
+  installationMethod?: InstallationMethod; // C (clipped direct) when omitted
+  ambientTemperature?: number; // °C, the table's reference (30°C in air, 20°C in ground) when omitted
+  groupedCircuits?: number; // circuits bunched together including this one, 1 when omitted
+}
+
 export interface Connection {
   id: string;
   from: string; // component id
@@ -11,11 +30,12 @@ export interface Connection {
   fromPort: number; // port index
   toPort: number; // port index
   wireColor?: 'red' | 'black' | 'green' | 'blue'; // Wire color for visualization (red/green/blue for phases, black for neutral/ground)
+  cable?: Cable; // an ideal short wire when omitted
 }
 
 export interface Component {
   id: string;
-  type: 'battery' | 'resistor' | 'capacitor' | 'inductor' | 'transformer' | 'diode' | 'led' | 'switch' | 'ground' | 'wire' | 'fan' | 'light' | 'tv' | 'ac' | 'motor' | 'heater' | 'voltmeter' | 'ammeter' | 'wattmeter' | 'fuse' | 'mcb' | 'rccb' | 'contactor' | 'relay' | 'timer' | 'sensor' | 'breaker' | 'socket' | 'junction' | 'ups' | 'inverter' | 'refrigerator' | 'washing-machine' | 'microwave' | 'dishwasher' | 'water-heater' | 'electric-stove' | 'electric-oven' | 'heat-pump' | 'electric-boiler' | 'two-way-switch' | 'surge-protector' | 'gfci' | 'afci' | 'spd' | 'lightning-rod' | 'isolation-transformer' | 'emergency-stop' | 'overvoltage-protector' | 'undervoltage-protector';
+  type: 'battery' | 'resistor' | 'capacitor' | 'inductor' | 'transformer' | 'diode' | 'led' | 'switch' | 'ground' | 'wire' | 'fan' | 'light' | 'tv' | 'ac' | 'motor' | 'heater' | 'voltmeter' | 'ammeter' | 'wattmeter' | 'fuse' | 'mcb' | 'rccb' | 'contactor' | 'relay' | 'timer' | 'sensor' | 'breaker' | 'socket' | 'junction' | 'ups' | 'inverter' | 'refrigerator' | 'washing-machine' | 'microwave' | 'dishwasher' | 'water-heater' | 'electric-stove' | 'electric-oven' | 'heat-pump' | 'electric-boiler' | 'two-way-switch' | 'surge-protector' | 'gfci' | 'afci' | 'spd' | 'lightning-rod' | 'isolation-transformer' | 'emergency-stop' | 'overvoltage-protector' | 'undervoltage-protector' | 'pv-array' | 'charge-controller' | 'battery-bank' | 'grid-tie-inverter';
   value: number;
   unit: string;
   position: Position;
@@ -32,15 +52,24 @@ export interface Component {
     description?: string;
     commonUse?: string;
     resistance?: number;
+    thermalResistance?: number; // K/W to ambient; from the power rating when omitted
+    thermalMass?: number; // J/K, heat capacity setting how fast the component warms
+    maxTemperature?: number; // °C, limit for the component body
     
     // Battery specific
     batteryType?: 'DC' | 'AC';
     frequency?: number; // Hz for AC
+    faultLevel?: number; // MVA, short-circuit power of the utility at the supply point
+    xrRatio?: number; // X/R of the utility source impedance
     
     // Transformer specific
     turnsRatio?: number;
     primaryVoltage?: number;
     secondaryVoltage?: number;
+    kvaRating?: number; // kVA; an ideal transformer when neither this nor a VA value is given
+    impedancePercent?: number; // short-circuit impedance, % of rated voltage
+    noLoadLoss?: number; // W, core loss at rated voltage
+    copperLoss?: number; // W, winding loss at rated current
     
     // Diode specific
     forwardVoltage?: number;
@@ -66,6 +95,11 @@ export interface Component {
     screenSize?: number; // Inches for TV
     fanSpeed?: number; // RPM for fans
     motorType?: 'induction' | 'brushless' | 'stepper';
+    lockedRotorMultiple?: number; // Starting current as a multiple of running current
+    startDuration?: number; // seconds until the motor reaches running speed
+    harmonicSpectrum?: { [order: number]: number }; // Harmonic current by order, % of fundamental; empty for a linear load
+    schedule?: OperatingPeriod[]; // When the appliance runs; typical use for its type when omitted
+    dutyCycle?: number; // Fraction of running time spent at rated power (0-1), e.g. a thermostat cycling a compressor
     
     // UPS specific
     batteryCapacity?: number; // Ah
@@ -74,6 +108,25 @@ export interface Component {
     // Inverter specific
     inputVoltage?: number; // DC input voltage
     outputFrequency?: number; // Hz
+    exportLimit?: number; // W the grid-tie inverter may feed back into the grid; unlimited when omitted
+    
+    // PV array specific
+    modulePower?: number; // Wp per module at STC
+    moduleVoc?: number; // V, open-circuit voltage per module at STC
+    moduleVmp?: number; // V, maximum-power voltage per module at STC
+    modulesPerString?: number;
+    strings?: number; // strings in parallel
+    temperatureCoefficient?: number; // %/°C change of power with cell temperature
+    vocTemperatureCoefficient?: number; // %/°C change of open-circuit voltage with cell temperature
+    
+    // Charge controller specific
+    maxChargeCurrent?: number; // A into the battery
+    maxPVVoltage?: number; // V, highest open-circuit voltage allowed at the PV input
+    
+    // Battery bank specific
+    batteryChemistry?: BatteryChemistry;
+    depthOfDischarge?: number; // %, of capacity used before the low-voltage cut-off
+    initialStateOfCharge?: number; // %, at the start of a solar study
     
     // Refrigerator specific
     compressorType?: 'reciprocating' | 'rotary' | 'scroll';
@@ -113,6 +166,8 @@ export interface Component {
     sensitivity?: number; // Sensitivity for RCCB
     fuseRating?: number; // Fuse rating in Amperes
     fuseType?: 'slow' | 'fast' | 'time-delay';
+    mcbCurve?: MCBCurve; // Magnetic trip band of an MCB
+    rcdType?: RCDType; // General (instantaneous) or selective (time-delayed) RCD
     
     // Control device specific
     coilVoltage?: number; // Coil voltage for contactor/relay
@@ -131,8 +186,11 @@ export interface Component {
     
     // Junction specific
     junctionType?: 'distribution' | 'junction' | 'terminal';
+    electrodeConfiguration?: ElectrodeConfiguration; // Busbar arrangement for the arc-flash study
+    conductorGap?: number; // mm, gap between the busbars
+    workingDistance?: number; // mm, from the arc to the worker's face and chest
     
-    // Two-way switch specific
+    // Switch, two-way switch, relay and contactor state ('on' closes the contact or energises the coil)
     switchState?: 'on' | 'off';
     switchType?: 'single-pole' | 'double-pole' | 'three-way' | 'four-way';
     
@@ -159,6 +217,7 @@ export interface Component {
     
     // Emergency stop specific
     estopType?: 'normally-open' | 'normally-closed';
+    estopPressed?: boolean; // Button latched down
     resetType?: 'manual' | 'automatic';
     
     // Overvoltage/Undervoltage protector specific
@@ -174,15 +233,25 @@ export interface Component {
   };
 }
 
+// Hours of the day an appliance runs, wrapping past midnight when end is before start
+export interface OperatingPeriod {
+  start: number; // hour, 0-24
+  end: number; // hour, 0-24
+  days?: number[]; // 0 = Monday ... 6 = Sunday; every day when omitted
+}
+
 export interface Circuit {
   id: string;
   name: string;
   components: Component[];
   connections: Connection[];
   metadata: {
-    voltage: number;
+    voltage: number; // V, phase-to-neutral; line-to-line is √3 higher in a three-phase circuit
     frequency?: number;
     phase?: 'single' | 'three';
+    ambientTemperature?: number; // °C around components and cables in air, 30 when omitted
+    earthingSystem?: EarthingSystem; // TN-S when omitted
+    externalLoopImpedance?: number; // ohms, Ze of the supply; the system's typical value when omitted
     description?: string;
     createdAt: Date;
     updatedAt: Date;
@@ -196,6 +265,729 @@ export interface CircuitAnalysis {
   totalPower: number;
   efficiency: number;
   issues: CircuitIssue[];
+  mode?: AnalysisMode;
+  frequency?: number;
+  powerBreakdown?: { [componentId: string]: PowerBreakdown };
+  nodePhasors?: { [nodeName: string]: Phasor };
+  branchPhasors?: { [elementId: string]: Phasor };
+  totalReactivePower?: number;
+  totalApparentPower?: number;
+  powerFactor?: number;
+  convergence?: SolverConvergence;
+  reverseVoltages?: { [componentId: string]: number }; // peak reverse voltage across diodes and LEDs
+  threePhase?: ThreePhaseAnalysis;
+  harmonics?: HarmonicAnalysis;
+  cables?: CableBranchResult[]; // connections made with a cable
+  transformers?: TransformerResult[]; // transformers with a rating
+  earthing?: EarthingAnalysis; // AC circuits only
+  shortCircuit?: ShortCircuitAnalysis; // AC circuits only
+  arcFlash?: ArcFlashAnalysis; // AC circuits only
+}
+
+export type PhaseName = 'L1' | 'L2' | 'L3';
+
+export interface PhaseQuantities {
+  voltage: number; // phase-to-neutral V
+  current: number; // A
+  activePower: number; // W
+  reactivePower: number; // var
+  apparentPower: number; // VA
+  loadCount: number;
+}
+
+// Star-connected supply with solid neutral; red, green and blue wires carry L1, L2 and L3
+export interface ThreePhaseAnalysis {
+  phases: { [phase in PhaseName]: PhaseQuantities };
+  neutralCurrent: number; // A, magnitude of the phasor sum of phase currents
+  imbalancePercent: number; // largest deviation from the mean phase current, as % of the mean
+  componentPhases: { [componentId: string]: PhaseName };
+}
+
+export interface HarmonicOrderResult {
+  order: number;
+  voltage: number; // V rms
+  current: number; // A rms
+}
+
+// Distortion at a supply terminal or distribution bus
+export interface BusHarmonics {
+  componentId: string;
+  phase?: PhaseName;
+  fundamentalVoltage: number; // V rms
+  fundamentalCurrent: number; // A rms
+  voltageTHD: number; // %
+  currentTHD: number; // %
+  harmonics: HarmonicOrderResult[];
+}
+
+// Triplen harmonics add in the neutral instead of cancelling like balanced fundamentals
+export interface NeutralHarmonics {
+  fundamentalCurrent: number; // A
+  triplenCurrent: number; // A rms of orders 3, 9, 15...
+  rmsCurrent: number; // A rms over all orders
+  phaseCurrents: { [phase in PhaseName]: number }; // A rms over all orders
+}
+
+export interface HarmonicAnalysis {
+  orders: number[];
+  sources: string[]; // non-linear loads injecting harmonic current
+  buses: BusHarmonics[];
+  neutral?: NeutralHarmonics;
+}
+
+export interface ThreePhaseLimits {
+  maxImbalancePercent: number;
+  maxNeutralCurrentPercent: number; // % of the highest phase current
+}
+
+// Newton-Raphson outcome for circuits with nonlinear devices
+export interface SolverConvergence {
+  converged: boolean;
+  iterations: number;
+}
+
+export type AnalysisMode = 'dc' | 'ac';
+
+// RMS magnitude and phase angle in degrees relative to the supply
+export interface Phasor {
+  magnitude: number;
+  phase: number;
+}
+
+export interface PowerBreakdown {
+  activePower: number; // W
+  reactivePower: number; // var, positive when inductive
+  apparentPower: number; // VA
+  powerFactor: number;
+  phaseAngle: number; // degrees, voltage leading current
+}
+
+export interface AnalysisOptions {
+  mode?: AnalysisMode;
+  frequency?: number;
+  threePhaseLimits?: Partial<ThreePhaseLimits>;
+}
+
+// Scheduled change of a switching or protective device during a transient run
+export interface TransientEvent {
+  time: number; // seconds
+  componentId: string;
+  action: 'open' | 'close';
+}
+
+export interface TransientOptions {
+  duration: number; // seconds
+  timeStep: number; // seconds
+  events?: TransientEvent[];
+}
+
+// Time series from a transient run; every series is sampled at the instants in `time`
+export interface TransientResult {
+  time: number[];
+  nodeVoltages: { [nodeName: string]: number[] };
+  branchCurrents: { [elementId: string]: number[] };
+  componentVoltages: { [componentId: string]: number[] };
+  componentCurrents: { [componentId: string]: number[] };
+  timeStep: number;
+  duration: number;
+  frequency: number; // 0 for a DC supply
+  issues: CircuitIssue[];
+}
+
+export type FaultType = 'bolted-short' | 'line-to-ground' | 'open-circuit';
+
+// Fault injected at a component's terminals or along a connection
+export interface FaultSpec {
+  type: FaultType;
+  componentId?: string;
+  connectionId?: string;
+  resistance?: number; // ohms, fault path resistance for shorts
+}
+
+// How one protective device responds to an injected fault
+export interface ProtectiveDeviceResponse {
+  componentId: string;
+  type: Component['type'];
+  current: number; // A, through the device during the fault
+  residualCurrent: number; // A, current returning through earth instead of the supply conductors
+  rating: number; // A, rated current, or rated residual current for RCDs
+  seesFault: boolean;
+  operates: boolean;
+  tripTime: number | null; // seconds, null when the device does not operate
+}
+
+export interface FaultStudyResult {
+  fault: FaultSpec;
+  prospectiveCurrent: number; // A, through the fault path
+  sourceFaultLevel: number; // A, short-circuit current at the supply terminals
+  devices: ProtectiveDeviceResponse[];
+  clearingDevice?: string;
+  clearingTime?: number; // seconds
+  deenergized: string[]; // loads left without supply once the fault is cleared
+  issues: CircuitIssue[];
+}
+
+export type MCBCurve = 'B' | 'C' | 'D';
+export type RCDType = 'general' | 'selective';
+
+// Operating time band of a protective device at one current; null when it does not operate
+export interface TripBand {
+  minTime: number | null; // seconds, fastest possible operation (no-trip limit)
+  maxTime: number | null; // seconds, latest operation (guaranteed trip)
+}
+
+export interface TimeCurrentPoint extends TripBand {
+  current: number; // A, residual current for RCDs
+}
+
+export interface TimeCurrentCurve {
+  componentId: string;
+  type: Component['type'];
+  label: string;
+  rating: number; // A, rated residual current for RCDs
+  residual: boolean; // true when the curve is plotted against residual current
+  points: TimeCurrentPoint[];
+}
+
+// Upstream and downstream protective devices in series
+export interface CoordinationPair {
+  upstreamId: string;
+  downstreamId: string;
+  faultCurrent: number; // A, highest current through the downstream device
+  selective: boolean; // downstream always clears first up to faultCurrent
+  selectivityLimit: number | null; // A, current above which the upstream device may also operate
+}
+
+export interface CoordinationStudy {
+  curves: TimeCurrentCurve[];
+  pairs: CoordinationPair[];
+  issues: CircuitIssue[];
+}
+
+export type MotorStartMode = 'simultaneous' | 'staggered';
+
+export interface MotorStartOptions {
+  mode: MotorStartMode;
+  staggerInterval?: number; // seconds between successive starts in staggered mode
+}
+
+// One motor-driven appliance in the starting sequence
+export interface MotorStartEvent {
+  componentId: string;
+  type: Component['type'];
+  startTime: number; // seconds
+  duration: number; // seconds
+  lockedRotorMultiple: number;
+  runningCurrent: number; // A
+  startingCurrent: number; // A, highest current while starting
+}
+
+// Deepest voltage sag at a bus or load during the starting sequence
+export interface BusVoltageDip {
+  componentId: string;
+  type: Component['type'];
+  preStartVoltage: number; // V, before the start that causes the dip
+  minVoltage: number; // V
+  dipPercent: number;
+  time: number; // seconds, when the deepest dip begins
+}
+
+// Whether the inrush can trip an overcurrent device that should ride through it
+export interface NuisanceTripCheck {
+  componentId: string;
+  label: string;
+  rating: number; // A
+  peakCurrent: number; // A
+  peakDuration: number; // seconds the peak current lasts
+  tripTime: number | null; // seconds, earliest possible trip at the peak current
+  mayTrip: boolean;
+  willTrip: boolean;
+}
+
+export interface MotorStartStudy {
+  options: MotorStartOptions;
+  motors: MotorStartEvent[];
+  buses: BusVoltageDip[];
+  devices: NuisanceTripCheck[];
+  issues: CircuitIssue[];
+}
+
+export interface LoadProfileOptions {
+  days: number; // 1 for a day, 7 for a week starting on Monday
+  stepMinutes: number; // demand interval
+}
+
+export interface ApplianceEnergy {
+  componentId: string;
+  type: Component['type'];
+  ratedPower: number; // W, active power when running
+  operatingHours: number; // hours at rated power over the run
+  energy: number; // kWh
+  demand: number[]; // kW averaged over each interval
+}
+
+// Demand averaged over each interval, as a utility meter records it
+export interface LoadProfileResult {
+  options: LoadProfileOptions;
+  time: number[]; // hours from the start of the run
+  demand: number[]; // kW
+  peakDemand: number; // kW
+  peakTime: number; // hours from the start of the run
+  connectedLoad: number; // kW, every appliance at rated power at once
+  coincidenceFactor: number; // peak demand / connected load
+  loadFactor: number; // average demand / peak demand
+  totalEnergy: number; // kWh
+  appliances: ApplianceEnergy[];
+  recommendedMainRating: number; // A, main protection sized on peak demand
+  issues: CircuitIssue[];
+}
+
+// Solved loading of a connection made with a cable
+export interface CableBranchResult {
+  connectionId: string;
+  from: string;
+  to: string;
+  crossSection: number; // mm²
+  resistance: number; // ohms, one conductor at its maximum operating temperature
+  current: number; // A
+  voltageDrop: number; // V, including the return conductor of single-phase and DC circuits
+  voltageDropPercent: number; // % of the nominal phase voltage
+  ampacity: number; // A, current-carrying capacity for the installation method
+  utilisation: number; // % of ampacity
+}
+
+// Loaded transformer with its losses; voltages are magnitudes at the terminals
+export interface TransformerResult {
+  componentId: string;
+  rating: number; // VA
+  loading: number; // % of rating
+  primaryVoltage: number; // V
+  secondaryVoltage: number; // V, on load
+  noLoadVoltage: number; // V, secondary with the load removed
+  regulation: number; // % of the on-load secondary voltage
+  outputPower: number; // W
+  copperLoss: number; // W, at the present load
+  noLoadLoss: number; // W, at the applied voltage
+  efficiency: number; // %
+  faultCurrent: number; // A, bolted fault at the secondary terminals
+  faultLevel: number; // VA
+}
+
+// Bolted fault at one point of the network by the IEC 60909 equivalent voltage source method
+export interface ShortCircuitResult {
+  componentId: string;
+  voltage: number; // V, nominal phase voltage at the fault
+  resistance: number; // Ω, short-circuit impedance seen from the fault
+  reactance: number; // Ω
+  initialCurrent: number; // A, initial symmetrical current I"k
+  peakCurrent: number; // A, ip
+  breakingCurrent: number; // A, symmetrical Ib, equal to I"k far from generators
+  asymmetricalBreakingCurrent: number; // A, with the DC component left at the minimum breaking time
+  faultLevel: number; // VA
+}
+
+// Duty of a protective device breaking a fault on its load side
+export interface BreakingDuty {
+  componentId: string;
+  breakingCurrent: number; // A
+  peakCurrent: number; // A
+  breakingCapacity: number | null; // kA, null when the device doesn't state it
+  adequate: boolean;
+}
+
+export interface ShortCircuitAnalysis {
+  voltageFactor: number; // c
+  buses: ShortCircuitResult[];
+  devices: BreakingDuty[];
+}
+
+// IEEE 1584-2018 electrode configurations: vertical or horizontal conductors in a box (VCB, HCB), vertical conductors
+// ending in an insulating barrier (VCBB), and vertical or horizontal conductors in open air (VOA, HOA)
+export type ElectrodeConfiguration = 'VCB' | 'VCBB' | 'HCB' | 'VOA' | 'HOA';
+
+// Arc flash at one equipment location by the IEEE 1584-2018 model
+export interface ArcFlashResult {
+  componentId: string;
+  voltage: number; // V, open-circuit system voltage, line-to-line in a three-phase system
+  boltedCurrent: number; // A, bolted fault current Ibf from the short-circuit study
+  arcingCurrent: number; // A
+  reducedArcingCurrent: number; // A, lowered by the arcing current variation factor
+  electrodeConfiguration: ElectrodeConfiguration;
+  conductorGap: number; // mm
+  workingDistance: number; // mm
+  protectiveDeviceId?: string; // the upstream device that clears the arc
+  clearingTime: number; // s, capped at the time a worker takes to move away
+  incidentEnergy: number; // cal/cm², the larger of the full and reduced arcing current cases
+  arcFlashBoundary: number; // mm, distance at which the incident energy falls to 1.2 cal/cm²
+  ppeCategory: number;
+  ppeDescription: string;
+}
+
+export interface ArcFlashAnalysis {
+  locations: ArcFlashResult[];
+}
+
+// NFPA 70E arc flash and shock warning label for one panel
+export interface ArcFlashLabel {
+  componentId: string;
+  equipment: string; // name printed on the label
+  signalWord: 'WARNING' | 'DANGER';
+  nominalVoltage: number; // V, the system voltage, line-to-line in a three-phase system
+  phases: 1 | 3;
+  incidentEnergy: number; // cal/cm²
+  workingDistance: number; // mm
+  arcFlashBoundary: number; // mm
+  limitedApproach: number; // mm, NFPA 70E Table 130.4(E)(a) for fixed circuit parts
+  restrictedApproach: number | null; // mm, null where contact alone must be avoided
+  ppeCategory: number | null; // null above the highest category
+  ppeDescription: string;
+  protectiveDeviceId?: string;
+  clearingTime: number; // s
+  studyDate: string; // YYYY-MM-DD
+}
+
+// IEC 60364-1 system earthing: TN-S separate PE, TN-C-S combined PEN in the supply, TT local electrode, IT isolated source
+export type EarthingSystem = 'TN-S' | 'TN-C-S' | 'TT' | 'IT';
+
+// Line-to-earth fault at the far end of one final circuit
+export interface EarthFaultLoopResult {
+  componentId: string;
+  externalImpedance: number; // ohms, Ze
+  lineResistance: number; // ohms, R1 of the cables from the source
+  protectiveResistance: number; // ohms, R2, taken equal to R1
+  electrodeResistance: number; // ohms, RA, only in the loop of TT systems
+  loopImpedance: number; // ohms, Zs
+  faultCurrent: number; // A
+  touchVoltage: number; // V, exposed parts to earth during the fault
+  protectiveDeviceId?: string; // the device that clears first
+  disconnectionTime: number | null; // s, null when nothing on the path disconnects
+  maxDisconnectionTime: number | null; // s, null in IT systems where the first fault needn't disconnect
+  compliant: boolean;
+}
+
+export interface EarthingAnalysis {
+  system: EarthingSystem;
+  externalImpedance: number; // ohms, Ze
+  electrodeResistance: number | null; // ohms, earth electrodes in parallel; null when none gives a resistance
+  finalCircuits: EarthFaultLoopResult[];
+}
+
+export interface CableSizingOptions {
+  standard: CableStandard;
+  maxVoltageDrop: number; // % of the nominal phase voltage, per branch
+}
+
+// Minimum conductor size for one branch, by derated ampacity and by voltage drop
+export interface CableSizingResult {
+  connectionId: string;
+  from: string;
+  to: string;
+  current: number; // A, solved load current
+  designCurrent: number; // A, including the NEC 125% continuous load allowance
+  ambientFactor: number;
+  groupingFactor: number;
+  ampacitySize: number; // mm² or AWG gauge
+  voltageDropSize: number; // mm² or AWG gauge
+  governedBy: 'ampacity' | 'voltage-drop';
+  cable: Cable; // existing run with the larger of the two sizes
+  ampacity: number; // A, derated capacity of the selected size
+  voltageDropPercent: number; // at the selected size
+  changed: boolean; // selected size differs from the connection's current cable
+}
+
+export interface CableSizingStudy {
+  options: CableSizingOptions;
+  branches: CableSizingResult[];
+  issues: CircuitIssue[];
+}
+
+// How toleranced values are drawn: normal with the tolerance at 3σ, uniform across it, or only at its limits
+export type ToleranceDistribution = 'normal' | 'uniform' | 'extremes';
+
+export interface ToleranceOptions {
+  runs: number;
+  distribution: ToleranceDistribution;
+  supplyTolerance: number; // ± % of the supply voltage, 0 to hold it at nominal
+  seed: number; // repeatable sampling for the same seed
+}
+
+export interface ToleranceStatistics {
+  min: number;
+  max: number;
+  mean: number;
+  stdDev: number;
+}
+
+// Spread of one component's voltage or current over all runs
+export interface ToleranceQuantity {
+  componentId: string;
+  type: Component['type'];
+  statistics: ToleranceStatistics;
+}
+
+// Loading of an MCB or fuse over all runs and how often it exceeds its rating
+export interface ProtectionExceedance {
+  componentId: string;
+  label: string;
+  rating: number; // A
+  current: ToleranceStatistics; // A
+  loading: ToleranceStatistics; // % of rating
+  probability: number; // fraction of runs above the rating
+}
+
+export interface ToleranceStudy {
+  options: ToleranceOptions;
+  runs: number; // runs that solved
+  sampled: string[]; // components with a tolerance
+  voltages: ToleranceQuantity[];
+  currents: ToleranceQuantity[];
+  devices: ProtectionExceedance[];
+  exceedanceProbability: number; // fraction of runs in which any MCB or fuse exceeds its rating
+  issues: CircuitIssue[];
+}
+
+// Temperature of a component or cable followed through the load profile from ambient
+export interface ThermalTrace {
+  id: string; // component id, or connection id for a cable
+  kind: 'component' | 'cable';
+  label: string;
+  ambient: number; // °C
+  limit: number; // °C
+  timeConstant: number; // s
+  temperature: number[]; // °C at each time of the study
+  peakTemperature: number; // °C
+  fullLoadTemperature: number; // °C, steady state with every load running
+  timeToLimit: number | null; // hours into the run when the limit is first reached
+}
+
+export interface ThermalStudy {
+  options: LoadProfileOptions;
+  ambientTemperature: number; // °C
+  time: number[]; // hours from the start of the run
+  traces: ThermalTrace[];
+  issues: CircuitIssue[];
+}
+
+// Numeric field stepped by a parameter sweep: a component's value or numeric property, or a field of a connection's cable
+export interface SweepParameter {
+  target: 'component' | 'cable';
+  id: string; // component id, or connection id for a cable
+  field: string; // 'value', a property such as 'powerConsumption', or a cable field such as 'length'
+}
+
+export type SweepQuantity = 'voltage' | 'current' | 'power' | 'voltage-drop' | 'total-power' | 'power-factor' | 'safety-score';
+
+// Result tracked across a sweep; voltage, current and power name a component and voltage drop a cabled connection
+export interface SweepOutput {
+  quantity: SweepQuantity;
+  id?: string;
+}
+
+export interface SweepOptions {
+  parameter: SweepParameter;
+  start: number;
+  end: number;
+  steps: number; // points including both ends
+  scale: 'linear' | 'log';
+  outputs: SweepOutput[];
+}
+
+export interface SweepPoint {
+  value: number; // swept field
+  outputs: number[]; // in the order of SweepOptions.outputs, NaN where unavailable
+  changes: number[]; // from the unswept circuit
+}
+
+export interface SweepResult {
+  options: SweepOptions;
+  parameterLabel: string;
+  labels: string[]; // per output, with its unit
+  baseline: number[]; // outputs of the unswept circuit
+  points: SweepPoint[];
+  issues: CircuitIssue[];
+}
+
+export interface PFCOptions {
+  targetPowerFactor: number; // lagging
+  steps: number; // switched stages of the bank
+  lightLoadFraction: number; // share of appliance power checked for over-correction, 0-1
+}
+
+// Supply operating point; reactive power is positive when lagging
+export interface PowerFactorPoint {
+  activePower: number; // W
+  reactivePower: number; // var
+  apparentPower: number; // VA
+  powerFactor: number;
+  leading: boolean;
+  current: number; // A, delivered by the supply
+}
+
+// Capacitor bank proposed for the main bus, with the circuit solved again with it connected
+export interface PFCDesign {
+  options: PFCOptions;
+  busId: string | null; // the bank connects here; null when no bus was found
+  before: PowerFactorPoint | null;
+  requiredReactivePower: number; // var, to reach the target at full load
+  stepReactivePower: number; // var per stage, a standard rating
+  bankReactivePower: number; // var, all stages at nominal voltage
+  stepCapacitance: number; // µF per stage, from the bus to earth
+  after: PowerFactorPoint | null; // full load with the whole bank in service
+  currentReduction: number; // % of the supply current
+  lightLoad: {
+    withoutBank: PowerFactorPoint;
+    withBank: PowerFactorPoint;
+    stepsInService: number; // stages an automatic controller keeps in to stay lagging
+  } | null;
+  inserted: boolean;
+  issues: CircuitIssue[];
+}
+
+// A UPS or inverter carrying its protected loads on battery while the mains is lost
+export interface BackupSourceResult {
+  componentId: string;
+  type: Component['type'];
+  outputPower: number; // W
+  apparentPower: number; // VA
+  rating: number | null; // VA, or W when the unit is rated in watts
+  loading: number | null; // % of rating
+  batteryVoltage: number; // V DC
+  batteryCapacity: number | null; // Ah
+  efficiency: number; // %
+  batteryCurrent: number; // A DC
+  runtime: number | null; // minutes; null without a battery
+  backupTime: number | null; // minutes promised
+  protectedLoads: string[];
+}
+
+export interface OutageLoad {
+  componentId: string;
+  backupId: string | null; // UPS/inverter keeping it running; null when it drops out
+  voltage: number; // V during the outage
+  power: number; // W during the outage
+}
+
+export interface OutageStudy {
+  backups: BackupSourceResult[];
+  loads: OutageLoad[];
+  issues: CircuitIssue[];
+}
+
+export type BatteryChemistry = 'lead-acid' | 'lithium-ion' | 'lifepo4';
+
+// Day or week of PV generation, battery cycling and grid exchange under an irradiance profile
+export interface SolarOptions extends LoadProfileOptions {
+  peakIrradiance: number; // W/m² on the array at solar noon under a clear sky
+  sunrise: number; // hour
+  sunset: number; // hour
+  cloudCover: number; // 0-1, fraction of the sky covered
+  ambientTemperature?: number; // °C; the circuit's ambient when omitted
+  irradiance?: number[]; // W/m² at each hour of the day, replacing the clear-sky curve
+}
+
+export interface PVArrayResult {
+  componentId: string;
+  peakPower: number; // Wp at STC
+  coupling: 'dc' | 'ac' | null; // through a charge controller or a grid-tie inverter; null when connected to neither
+  converterId: string | null;
+  stringVoc: number | null; // V, open-circuit voltage of a string at the coldest design temperature
+  generation: number[]; // kW delivered by the converter over each interval
+  energy: number; // kWh
+  clippedEnergy: number; // kWh lost to the converter's current or power limit
+}
+
+export interface BatteryBankResult {
+  componentId: string;
+  chemistry: BatteryChemistry;
+  nominalVoltage: number; // V
+  capacity: number; // kWh
+  usableCapacity: number; // kWh within the depth of discharge
+  inverterId: string | null; // inverter the bank supplies loads through
+  stateOfCharge: number[]; // % at the end of each interval
+  voltage: number[]; // V, open-circuit at the end of each interval
+  minimumStateOfCharge: number; // %
+  chargedEnergy: number; // kWh into the bank
+  dischargedEnergy: number; // kWh out of the bank
+  cycles: number; // equivalent full cycles of usable capacity
+}
+
+export interface SolarStudy {
+  options: SolarOptions;
+  time: number[]; // hours from the start of the run
+  irradiance: number[]; // W/m², average over each interval
+  demand: number[]; // kW
+  generation: number[]; // kW from every array after conversion
+  gridImport: number[]; // kW
+  gridExport: number[]; // kW
+  arrays: PVArrayResult[];
+  banks: BatteryBankResult[];
+  gridConnected: boolean;
+  demandEnergy: number; // kWh
+  pvEnergy: number; // kWh
+  importEnergy: number; // kWh
+  exportEnergy: number; // kWh
+  curtailedEnergy: number; // kWh of PV with nowhere to go
+  unservedEnergy: number; // kWh of demand left unmet
+  selfConsumption: number; // fraction of PV energy used on site
+  selfSufficiency: number; // fraction of demand met without the grid
+  issues: CircuitIssue[];
+}
+
+export type TariffType = 'flat' | 'tiered' | 'time-of-use';
+
+export interface TariffTier {
+  upTo?: number; // kWh per month the rate applies up to; open-ended when omitted
+  rate: number; // per kWh
+}
+
+export interface TariffPeriod extends OperatingPeriod {
+  name: string;
+  rate: number; // per kWh
+}
+
+export interface Tariff {
+  name: string;
+  type: TariffType;
+  currency: string;
+  rate: number; // per kWh; the flat rate, and the time-of-use rate outside every period
+  tiers?: TariffTier[];
+  periods?: TariffPeriod[];
+  demandCharge?: number; // per kW of the month's peak demand
+  standingCharge?: number; // per day
+}
+
+export interface ApplianceCost {
+  componentId: string;
+  type: Component['type'];
+  energy: number; // kWh per month
+  energyCost: number; // per month
+  demandCost: number; // per month, share of the demand charge by demand at the peak
+  cost: number; // per month
+  deferrable: boolean;
+}
+
+// Moving a deferrable appliance's schedule into cheaper hours
+export interface ScheduleSuggestion {
+  componentId: string;
+  type: Component['type'];
+  current: OperatingPeriod[];
+  suggested: OperatingPeriod[];
+  monthlySaving: number;
+}
+
+// Monthly bill estimated from a week of scheduled demand
+export interface EnergyCostResult {
+  tariff: Tariff;
+  monthlyEnergy: number; // kWh
+  peakDemand: number; // kW
+  energyCost: number;
+  demandCost: number;
+  standingCost: number;
+  totalCost: number;
+  averageRate: number; // per kWh, energy charges only
+  appliances: ApplianceCost[];
+  suggestions: ScheduleSuggestion[];
+  issues: CircuitIssue[];
 }
 
 export interface CircuitIssue {
@@ -0,0 +1,256 @@
+// Arc Flash: IEEE 1584-2018 Arcing Current, Incident Energy and Arc-flash Boundary at Every Bus
+import type { ArcFlashAnalysis, ArcFlashResult, Circuit, CircuitIssue, Component, ElectrodeConfiguration, ShortCircuitAnalysis } from '../types/circuit.types';
+import { CircuitSolver } from './circuitSolver';
+import { ProtectionCurves } from './protectionCurves';
+import { ThreePhaseSolver } from './threePhaseSolver';
+
+// Panelboard defaults of IEEE 1584-2018 Table 8 (mm)
+export const DEFAULT_ELECTRODE_CONFIGURATION: ElectrodeConfiguration = 'VCB';
+export const DEFAULT_CONDUCTOR_GAP = 25;
+export const DEFAULT_WORKING_DISTANCE = 457.2;
+
+// Longest arc duration when no device clears it, by which a worker can move away (IEEE 1584-2018 6.9.1)
+export const MAX_ARC_DURATION = 2;
+
+// Incident energy at the arc-flash boundary and above which no PPE category protects (cal/cm²)
+export const ARC_FLASH_BOUNDARY_ENERGY = 1.2;
+export const MAX_PPE_ENERGY = 40;
+
+// Range of the model for systems up to 600V (line-to-line V, bolted kA)
+export const MODEL_VOLTAGE_RANGE = { min: 208, max: 600 };
+export const MODEL_CURRENT_RANGE = { min: 0.5, max: 106 };
+
+// NFPA 70E arc-rated clothing categories by the incident energy they are rated for (cal/cm²)
+export const PPE_CATEGORIES = [
+  { category: 0, maxEnergy: 1.2, description: 'Arc-rated long-sleeve shirt and pants' },
+  { category: 1, maxEnergy: 4, description: 'Arc-rated clothing, minimum 4 cal/cm²' },
+  { category: 2, maxEnergy: 8, description: 'Arc-rated clothing, minimum 8 cal/cm²' },
+  { category: 3, maxEnergy: 25, description: 'Arc-rated clothing, minimum 25 cal/cm²' },
+  { category: 4, maxEnergy: MAX_PPE_ENERGY, description: 'Arc-rated clothing, minimum 40 cal/cm²' }
+];
+
+const JOULES_PER_CALORIE = 4.184;
+
+// Table 1: intermediate arcing current at 600V, k1..k10
+const ARCING_CURRENT_COEFFICIENTS: { [config in ElectrodeConfiguration]: number[] } = {
+  VCB: [-0.04287, 1.035, -0.083, 0, 0, -4.783e-9, 1.962e-6, -0.000229, 0.003141, 1.092],
+  VCBB: [-0.017432, 0.98, -0.05, 0, 0, -5.767e-9, 2.524e-6, -0.00034, 0.01187, 1.013],
+  HCB: [0.054922, 0.988, -0.11, 0, 0, -5.382e-9, 2.316e-6, -0.000302, 0.0091, 0.9725],
+  VOA: [0.043785, 1.04, -0.18, 0, 0, -4.783e-9, 1.962e-6, -0.000229, 0.003141, 1.092],
+  HOA: [0.111147, 1.008, -0.24, 0, 0, -3.895e-9, 1.641e-6, -0.000197, 0.002615, 1.1]
+};
+
+// Table 2: arcing current variation correction factor, k1..k7 on the voltage in kV
+const VARIATION_COEFFICIENTS: { [config in ElectrodeConfiguration]: number[] } = {
+  VCB: [0, -1.4269e-6, 8.3137e-5, -0.0019382, 0.022366, -0.12645, 0.30226],
+  VCBB: [1.138e-6, -6.0287e-5, 0.0012758, -0.013778, 0.080217, -0.24066, 0.33524],
+  HCB: [0, -3.097e-6, 0.00016405, -0.0033609, 0.033308, -0.16182, 0.34627],
+  VOA: [9.5606e-7, -5.1543e-5, 0.0011161, -0.01242, 0.075125, -0.23584, 0.33696],
+  HOA: [0, -3.1555e-6, 0.0001682, -0.0034607, 0.034124, -0.1599, 0.34629]
+};
+
+// Table 3: incident energy at 600V and below, k1..k13
+const INCIDENT_ENERGY_COEFFICIENTS: { [config in ElectrodeConfiguration]: number[] } = {
+  VCB: [0.753364, 0.566, 1.752636, 0, 0, -4.783e-9, 1.962e-6, -0.000229, 0.003141, 1.092, 0, -1.598, 0.957],
+  VCBB: [3.068459, 0.26, -0.098107, 0, 0, -5.767e-9, 2.524e-6, -0.00034, 0.01187, 1.013, -0.06, -1.809, 1.19],
+  HCB: [4.073745, 0.344, -0.370259, 0, 0, -5.382e-9, 2.316e-6, -0.000302, 0.0091, 0.9725, 0, -2.03, 1.036],
+  VOA: [0.679294, 0.746, 1.222636, 0, 0, -4.783e-9, 1.962e-6, -0.000229, 0.003141, 1.092, 0, -1.598, 0.997],
+  HOA: [3.470417, 0.465, -0.261863, 0, 0, -3.895e-9, 1.641e-6, -0.000197, 0.002615, 1.1, 0, -1.99, 1.04]
+};
+
+const TRAVERSED_ROLES = ['inline', 'bus', 'transformer'];
+
+// Overcurrent device on the route from the supply, with the share of the arcing current it carries
+interface UpstreamDevice {
+  component: Component;
+  currentRatio: number;
+}
+
+export class ArcFlashAnalyzer {
+  // Arcing current, and the lower value from the variation factor that can take longer to clear; zero when the
+  // bolted current cannot sustain an arc at this voltage
+  static getArcingCurrent(voltage: number, boltedCurrent: number, configuration: ElectrodeConfiguration, gap: number): { arcingCurrent: number; reducedArcingCurrent: number } {
+    const voc = voltage / 1000;
+    const ibf = boltedCurrent / 1000;
+    const intermediate = this.getIntermediateArcingCurrent(ibf, configuration, gap);
+    // IEEE 1584-2018 (25) from the 600V intermediate value down to the system voltage
+    const denominator = (0.6 / voc) ** 2 * (1 / (intermediate * intermediate) - (0.36 - voc * voc) / (0.36 * ibf * ibf));
+    if (!(denominator > 0) || !Number.isFinite(denominator)) return { arcingCurrent: 0, reducedArcingCurrent: 0 };
+    const arcingCurrent = 1 / Math.sqrt(denominator);
+    const variation = VARIATION_COEFFICIENTS[configuration].reduce((sum, k) => sum * voc + k, 0);
+    return { arcingCurrent: arcingCurrent * 1000, reducedArcingCurrent: arcingCurrent * (1 - 0.5 * variation) * 1000 };
+  }
+
+  // Incident energy (cal/cm²) at the working distance for an arc lasting the clearing time; enclosures are taken
+  // as the 508mm reference box, whose size correction factor is 1
+  static getIncidentEnergy(boltedCurrent: number, arcingCurrent: number, clearingTime: number, configuration: ElectrodeConfiguration, gap: number, workingDistance: number): number {
+    if (!(arcingCurrent > 0) || !(clearingTime > 0)) return 0;
+    const k = INCIDENT_ENERGY_COEFFICIENTS[configuration];
+    const exponent = this.getEnergyExponent(boltedCurrent, arcingCurrent, configuration, gap) + k[11] * Math.log10(workingDistance);
+    return ((12.552 / 50) * clearingTime * 1000 * Math.pow(10, exponent)) / JOULES_PER_CALORIE;
+  }
+
+  // Lowest category rated above the incident energy; the highest when none is
+  static getPPECategory(incidentEnergy: number): { category: number; description: string } {
+    const { category, description } = PPE_CATEGORIES.find(ppe => incidentEnergy < ppe.maxEnergy) || PPE_CATEGORIES[PPE_CATEGORIES.length - 1];
+    return { category, description };
+  }
+
+  // Distance (mm) at which the incident energy falls to 1.2 cal/cm²
+  static getArcFlashBoundary(boltedCurrent: number, arcingCurrent: number, clearingTime: number, configuration: ElectrodeConfiguration, gap: number): number {
+    if (!(arcingCurrent > 0) || !(clearingTime > 0)) return 0;
+    const k = INCIDENT_ENERGY_COEFFICIENTS[configuration];
+    const threshold = ARC_FLASH_BOUNDARY_ENERGY * JOULES_PER_CALORIE * (50 / 12.552);
+    const exponent = this.getEnergyExponent(boltedCurrent, arcingCurrent, configuration, gap) - Math.log10(threshold / (clearingTime * 1000));
+    return Math.pow(10, exponent / -k[11]);
+  }
+
+  // Every bus of the short-circuit study, cleared by the fastest overcurrent device upstream of it; each location
+  // takes its electrode configuration, gap and working distance from the junction or the panelboard defaults
+  static analyze(circuit: Circuit, shortCircuit: ShortCircuitAnalysis, issues: CircuitIssue[]): ArcFlashAnalysis {
+    const upstream = this.findUpstreamDevices(circuit);
+    const outOfRange: string[] = [];
+    const locations: ArcFlashResult[] = [];
+    const threePhase = ThreePhaseSolver.isThreePhase(circuit);
+
+    shortCircuit.buses.forEach(bus => {
+      const component = circuit.components.find(c => c.id === bus.componentId);
+      if (!component || CircuitSolver.getComponentRole(component, circuit) !== 'bus') return;
+      // Faults are studied on the phase voltage; the model takes the system voltage, line-to-line in a three-phase system
+      const voltage = threePhase ? bus.voltage * Math.sqrt(3) : bus.voltage;
+      const boltedCurrent = bus.initialCurrent;
+      if (voltage < MODEL_VOLTAGE_RANGE.min || voltage > MODEL_VOLTAGE_RANGE.max
+        || boltedCurrent < MODEL_CURRENT_RANGE.min * 1000 || boltedCurrent > MODEL_CURRENT_RANGE.max * 1000) {
+        outOfRange.push(component.id);
+        return;
+      }
+
+      const electrodeConfiguration = component.properties.electrodeConfiguration || DEFAULT_ELECTRODE_CONFIGURATION;
+      const conductorGap = component.properties.conductorGap && component.properties.conductorGap > 0 ? component.properties.conductorGap : DEFAULT_CONDUCTOR_GAP;
+      const workingDistance = component.properties.workingDistance && component.properties.workingDistance > 0 ? component.properties.workingDistance : DEFAULT_WORKING_DISTANCE;
+      const { arcingCurrent, reducedArcingCurrent } = this.getArcingCurrent(voltage, boltedCurrent, electrodeConfiguration, conductorGap);
+
+      // The reduced arcing current may fall below an instantaneous trip, so both cases are cleared and the worse kept
+      const cases = [arcingCurrent, reducedArcingCurrent].map(current => {
+        const clearing = this.getClearingTime(upstream.get(component.id) || [], current);
+        return {
+          ...clearing,
+          incidentEnergy: this.getIncidentEnergy(boltedCurrent, current, clearing.clearingTime, electrodeConfiguration, conductorGap, workingDistance),
+          arcFlashBoundary: this.getArcFlashBoundary(boltedCurrent, current, clearing.clearingTime, electrodeConfiguration, conductorGap)
+        };
+      });
+      const worst = cases[1].incidentEnergy > cases[0].incidentEnergy ? cases[1] : cases[0];
+      const ppe = this.getPPECategory(worst.incidentEnergy);
+
+      locations.push({
+        componentId: component.id,
+        voltage,
+        boltedCurrent,
+        arcingCurrent,
+        reducedArcingCurrent,
+        electrodeConfiguration,
+        conductorGap,
+        workingDistance,
+        protectiveDeviceId: worst.protectiveDeviceId,
+        clearingTime: worst.clearingTime,
+        incidentEnergy: worst.incidentEnergy,
+        arcFlashBoundary: worst.arcFlashBoundary,
+        ppeCategory: ppe.category,
+        ppeDescription: ppe.description
+      });
+    });
+
+    locations.filter(result => result.incidentEnergy > ARC_FLASH_BOUNDARY_ENERGY).forEach(result => {
+      const clearing = result.protectiveDeviceId
+        ? `cleared by ${result.protectiveDeviceId} in ${result.clearingTime.toFixed(3)}s`
+        : `not cleared by any upstream device, taken as ${MAX_ARC_DURATION}s`;
+      const beyondPPE = result.incidentEnergy > MAX_PPE_ENERGY;
+      issues.push({
+        id: `arc-flash-${result.componentId}`,
+        type: beyondPPE || !result.protectiveDeviceId ? 'error' : 'warning',
+        severity: beyondPPE ? 'critical' : result.ppeCategory >= 3 ? 'high' : 'medium',
+        componentId: result.componentId,
+        message: `Arc flash at ${result.componentId} (${(result.reducedArcingCurrent / 1000).toFixed(2)}-${(result.arcingCurrent / 1000).toFixed(2)}kA arcing, ${clearing}) gives ${result.incidentEnergy.toFixed(2)}cal/cm² at ${result.workingDistance.toFixed(0)}mm with a ${(result.arcFlashBoundary / 1000).toFixed(2)}m boundary`,
+        recommendation: beyondPPE
+          ? `No PPE category covers more than ${MAX_PPE_ENERGY}cal/cm²; work on it only de-energised, or fit a faster upstream device`
+          : `Wear PPE category ${result.ppeCategory} (${result.ppeDescription.toLowerCase()}), or shorten the clearing time with a faster or current-limiting upstream device`
+      });
+    });
+
+    if (outOfRange.length > 0) {
+      issues.push({
+        id: 'arc-flash-out-of-range',
+        type: 'info',
+        severity: 'low',
+        message: `${outOfRange.join(', ')} ${outOfRange.length === 1 ? 'is' : 'are'} outside the IEEE 1584 range of ${MODEL_VOLTAGE_RANGE.min}-${MODEL_VOLTAGE_RANGE.max}V and ${MODEL_CURRENT_RANGE.min}-${MODEL_CURRENT_RANGE.max}kA bolted fault current`,
+        recommendation: 'Assess the arc flash hazard there by other means'
+      });
+    }
+
+    return { locations };
+  }
+
+  // IEEE 1584-2018 (1): arcing current at 600V (kA)
+  private static getIntermediateArcingCurrent(ibf: number, configuration: ElectrodeConfiguration, gap: number): number {
+    const k = ARCING_CURRENT_COEFFICIENTS[configuration];
+    const polynomial = k.slice(3).reduce((sum, coefficient) => sum * ibf + coefficient, 0);
+    return Math.pow(10, k[0] + k[1] * Math.log10(ibf) + k[2] * Math.log10(gap)) * polynomial;
+  }
+
+  // IEEE 1584-2018 (7) without the working distance term, which the energy and the boundary treat differently
+  private static getEnergyExponent(boltedCurrent: number, arcingCurrent: number, configuration: ElectrodeConfiguration, gap: number): number {
+    const k = INCIDENT_ENERGY_COEFFICIENTS[configuration];
+    const ibf = boltedCurrent / 1000;
+    const intermediate = this.getIntermediateArcingCurrent(ibf, configuration, gap);
+    const polynomial = k.slice(3, 10).reduce((sum, coefficient) => sum * ibf + coefficient, 0) * ibf;
+    return k[0] + k[1] * Math.log10(gap) + (k[2] * intermediate) / polynomial + k[10] * Math.log10(ibf) + k[12] * Math.log10(arcingCurrent / 1000);
+  }
+
+  // The device that opens first at the arcing current it sees, or the longest arc duration when none does
+  private static getClearingTime(devices: UpstreamDevice[], arcingCurrent: number): { protectiveDeviceId?: string; clearingTime: number } {
+    let clearingTime = MAX_ARC_DURATION;
+    let protectiveDeviceId: string | undefined;
+    for (const device of devices) {
+      const { maxTime } = ProtectionCurves.getTripBand(device.component, arcingCurrent * device.currentRatio);
+      if (maxTime !== null && maxTime < clearingTime) {
+        clearingTime = maxTime;
+        protectiveDeviceId = device.component.id;
+      }
+    }
+    return { protectiveDeviceId, clearingTime };
+  }
+
+  // Breadth-first search out from every supply collecting overcurrent devices; devices before a transformer carry
+  // the arcing current divided by its turns ratio. RCDs do not see a phase-to-phase arc
+  private static findUpstreamDevices(circuit: Circuit): Map<string, UpstreamDevice[]> {
+    const devices = new Map<string, UpstreamDevice[]>();
+    const componentMap = new Map(circuit.components.map(c => [c.id, c]));
+    const queue = circuit.components.filter(c => CircuitSolver.getComponentRole(c, circuit) === 'source');
+    queue.forEach(source => devices.set(source.id, []));
+
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      const path = devices.get(current.id)!;
+      circuit.connections
+        .filter(conn => conn.from === current.id || conn.to === current.id)
+        .forEach(conn => {
+          const next = componentMap.get(conn.from === current.id ? conn.to : conn.from);
+          if (!next || devices.has(next.id)) return;
+          const role = CircuitSolver.getComponentRole(next, circuit);
+          if (!TRAVERSED_ROLES.includes(role)) return;
+
+          let nextPath = path;
+          if (role === 'transformer') {
+            const turnsRatio = next.properties.turnsRatio || 1;
+            nextPath = path.map(device => ({ ...device, currentRatio: device.currentRatio / turnsRatio }));
+          } else if (ProtectionCurves.isOvercurrentDevice(next)) {
+            nextPath = [...path, { component: next, currentRatio: 1 }];
+          }
+          devices.set(next.id, nextPath);
+          queue.push(next);
+        });
+    }
+
+    return devices;
+  }
+}
@@ -0,0 +1,129 @@
+// Arc Flash Labels: NFPA 70E Warning Labels as SVG and Printable HTML
+import type { ArcFlashLabel, ArcFlashResult, Circuit, CircuitAnalysis } from '../types/circuit.types';
+import { MAX_PPE_ENERGY } from './arcFlash';
+import { ThreePhaseSolver } from './threePhaseSolver';
+
+// NFPA 70E Table 130.4(E)(a) shock approach boundaries to fixed circuit parts, by nominal system voltage (mm);
+// a null restricted boundary means avoid contact
+export const APPROACH_BOUNDARIES: { maxVoltage: number; limited: number; restricted: number | null }[] = [
+  { maxVoltage: 150, limited: 1000, restricted: null },
+  { maxVoltage: 750, limited: 1000, restricted: 300 },
+  { maxVoltage: 5000, limited: 1500, restricted: 700 },
+  { maxVoltage: 15000, limited: 1500, restricted: 700 }
+];
+
+// Nominal system voltages the studied voltage is snapped to when within 2%
+export const NOMINAL_VOLTAGES = [208, 220, 230, 240, 380, 400, 415, 440, 480, 600, 690];
+
+// Label size in inches, 4 × 6 landscape
+export const LABEL_WIDTH = 6;
+export const LABEL_HEIGHT = 4;
+
+const LABEL_COLORS = { WARNING: '#f97316', DANGER: '#dc2626' };
+
+export class ArcFlashLabels {
+  // One label for every bus of the arc-flash study
+  static create(circuit: Circuit, analysis: CircuitAnalysis, studyDate: Date = new Date()): ArcFlashLabel[] {
+    return (analysis.arcFlash?.locations || []).map(result => this.createLabel(circuit, result, studyDate));
+  }
+
+  static getApproachBoundaries(voltage: number): { limited: number; restricted: number | null } {
+    const { limited, restricted } = APPROACH_BOUNDARIES.find(boundary => voltage <= boundary.maxVoltage)
+      || APPROACH_BOUNDARIES[APPROACH_BOUNDARIES.length - 1];
+    return { limited, restricted };
+  }
+
+  static getNominalVoltage(voltage: number): number {
+    return NOMINAL_VOLTAGES.find(nominal => Math.abs(voltage - nominal) <= nominal * 0.02) ?? Math.round(voltage);
+  }
+
+  // "457mm (18in)"
+  static formatDistance(distance: number): string {
+    return `${distance.toFixed(0)}mm (${(distance / 25.4).toFixed(0)}in)`;
+  }
+
+  // Self-contained SVG sized for printing at 6 × 4 inches
+  static toSVG(label: ArcFlashLabel): string {
+    const color = LABEL_COLORS[label.signalWord];
+    const width = LABEL_WIDTH * 100;
+    const height = LABEL_HEIGHT * 100;
+    const text = (x: number, y: number, content: string, attributes: string = '') =>
+      `<text x="${x}" y="${y}" ${attributes}>${this.escape(content)}</text>`;
+    const row = (y: number, name: string, value: string) =>
+      text(24, y, name, 'font-size="15" fill="#374151"') + text(width - 24, y, value, 'font-size="15" font-weight="bold" text-anchor="end"');
+
+    return [
+      `<svg xmlns="http://www.w3.org/2000/svg" width="${LABEL_WIDTH}in" height="${LABEL_HEIGHT}in" viewBox="0 0 ${width} ${height}" font-family="Arial, Helvetica, sans-serif">`,
+      `<rect x="2" y="2" width="${width - 4}" height="${height - 4}" rx="10" fill="#ffffff" stroke="#111827" stroke-width="4"/>`,
+      `<path d="M2 12 a10 10 0 0 1 10 -10 h${width - 24} a10 10 0 0 1 10 10 v58 h-${width - 4} z" fill="${color}"/>`,
+      `<path d="M40 58 l18 -34 l18 34 z" fill="#ffffff" stroke="#111827" stroke-width="3"/>`,
+      text(58, 53, '!', 'font-size="22" font-weight="bold" text-anchor="middle"'),
+      text(width / 2 + 20, 50, label.signalWord, 'font-size="34" font-weight="bold" text-anchor="middle" fill="#111827"'),
+      text(width / 2, 96, 'Arc Flash and Shock Hazard – Appropriate PPE Required', 'font-size="17" font-weight="bold" text-anchor="middle"'),
+      text(24, 130, 'ARC FLASH', `font-size="13" font-weight="bold" fill="${color}"`),
+      row(152, `Incident energy at ${this.formatDistance(label.workingDistance)}`, `${label.incidentEnergy.toFixed(2)} cal/cm²`),
+      row(174, 'Arc flash boundary', this.formatDistance(label.arcFlashBoundary)),
+      row(196, 'PPE', label.ppeCategory !== null ? `Category ${label.ppeCategory}` : 'No PPE category – de-energize'),
+      label.ppeCategory !== null ? text(width - 24, 214, label.ppeDescription, 'font-size="12" fill="#374151" text-anchor="end"') : '',
+      text(24, 244, 'SHOCK', `font-size="13" font-weight="bold" fill="${color}"`),
+      row(266, 'Nominal voltage', `${label.nominalVoltage}V AC ${label.phases === 3 ? 'three-phase' : 'single-phase'}`),
+      row(288, 'Limited approach boundary', this.formatDistance(label.limitedApproach)),
+      row(310, 'Restricted approach boundary', label.restrictedApproach !== null ? this.formatDistance(label.restrictedApproach) : 'Avoid contact'),
+      `<line x1="24" y1="326" x2="${width - 24}" y2="326" stroke="#d1d5db" stroke-width="2"/>`,
+      text(24, 348, `Equipment: ${label.equipment}`, 'font-size="14" font-weight="bold"'),
+      text(24, 368, `Protective device: ${label.protectiveDeviceId ? `${label.protectiveDeviceId}, clears in ${label.clearingTime.toFixed(3)}s` : `none upstream, arc taken as ${label.clearingTime}s`}`, 'font-size="12" fill="#374151"'),
+      text(24, 386, `Study date: ${label.studyDate}`, 'font-size="12" fill="#374151"'),
+      text(width - 24, 386, 'IEEE 1584-2018 / NFPA 70E', 'font-size="12" fill="#374151" text-anchor="end"'),
+      '</svg>'
+    ].join('');
+  }
+
+  // One label per printed page, ready for the browser's print or save-as-PDF
+  static toHTML(labels: ArcFlashLabel[], title: string): string {
+    const pages = labels.map(label => `<div class="label">${this.toSVG(label)}</div>`).join('\n');
+    return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${this.escape(title)}</title>
+<style>
+@page { size: ${LABEL_WIDTH}in ${LABEL_HEIGHT}in; margin: 0; }
+body { margin: 0; }
+.label { width: ${LABEL_WIDTH}in; height: ${LABEL_HEIGHT}in; page-break-after: always; break-after: page; }
+.label:last-child { page-break-after: auto; break-after: auto; }
+</style>
+</head>
+<body>
+${pages}
+</body>
+</html>`;
+  }
+
+  private static createLabel(circuit: Circuit, result: ArcFlashResult, studyDate: Date): ArcFlashLabel {
+    const component = circuit.components.find(c => c.id === result.componentId);
+    const description = component?.properties.description;
+    const { limited, restricted } = this.getApproachBoundaries(result.voltage);
+    const beyondPPE = result.incidentEnergy > MAX_PPE_ENERGY;
+    return {
+      componentId: result.componentId,
+      equipment: description ? `${description} (${result.componentId})` : result.componentId,
+      signalWord: beyondPPE ? 'DANGER' : 'WARNING',
+      nominalVoltage: this.getNominalVoltage(result.voltage),
+      phases: ThreePhaseSolver.isThreePhase(circuit) ? 3 : 1,
+      incidentEnergy: result.incidentEnergy,
+      workingDistance: result.workingDistance,
+      arcFlashBoundary: result.arcFlashBoundary,
+      limitedApproach: limited,
+      restrictedApproach: restricted,
+      ppeCategory: beyondPPE ? null : result.ppeCategory,
+      ppeDescription: result.ppeDescription,
+      protectiveDeviceId: result.protectiveDeviceId,
+      clearingTime: result.clearingTime,
+      studyDate: studyDate.toISOString().slice(0, 10)
+    };
+  }
+
+  private static escape(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+  }
+}
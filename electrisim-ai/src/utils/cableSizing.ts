@@ -0,0 +1,106 @@
+// Cable Sizing: Minimum Conductor per Branch by Derated Ampacity and Voltage Drop
+import type { Cable, CableSizingOptions, CableSizingStudy, Circuit, CircuitIssue } from '../types/circuit.types';
+import { CableCalculations, DEFAULT_CABLE, MAX_CABLE_VOLTAGE_DROP, NEC_CONTINUOUS_LOAD_FACTOR } from './cables';
+import { CircuitSolver } from './circuitSolver';
+import { ComplexMath } from './complexMath';
+import { ElectricalCalculations } from './electricalCalculations';
+import { ThreePhaseSolver } from './threePhaseSolver';
+
+export const DEFAULT_CABLE_SIZING_OPTIONS: CableSizingOptions = { standard: 'iec', maxVoltageDrop: MAX_CABLE_VOLTAGE_DROP };
+
+// Branches carrying less than this are left as they are
+const MIN_SIZED_CURRENT = 0.01;
+
+export class CableSizer {
+  // Size every current-carrying wire of the circuit under one standard; uncabled wires start from the default run
+  static size(circuit: Circuit, options: CableSizingOptions = DEFAULT_CABLE_SIZING_OPTIONS): CableSizingStudy {
+    const issues: CircuitIssue[] = [];
+    const study: CableSizingStudy = { options, branches: [], issues };
+    const netlist = CircuitSolver.buildNetlist(circuit);
+    const analysisMode = ElectricalCalculations.getAnalysisMode(circuit);
+    const solution = ThreePhaseSolver.solvePhasor(circuit, netlist, analysisMode);
+    if (!solution) {
+      issues.push({
+        id: 'cable-sizing-singular',
+        type: 'error',
+        severity: 'critical',
+        message: 'Circuit equations could not be solved, so branch currents are unknown',
+        recommendation: 'Check for voltage sources connected in parallel or loops of ideal sources'
+      });
+      return study;
+    }
+
+    // Three-phase feeders have three loaded conductors and no return drop; single-phase and DC runs have two
+    const threePhase = analysisMode.mode === 'ac' && ThreePhaseSolver.isThreePhase(circuit);
+    const loadedConductors = threePhase ? 3 : 2;
+    const returnFactor = threePhase ? 1 : 2;
+    const sizeUnit = options.standard === 'nec' ? 'awg' : 'mm2';
+
+    circuit.connections.forEach(conn => {
+      const current = ComplexMath.magnitude(solution.elementCurrents.get(`wire:${conn.id}`) || ComplexMath.ZERO);
+      if (!solution.elementCurrents.has(`wire:${conn.id}`) || current < MIN_SIZED_CURRENT) return;
+
+      const existing = conn.cable;
+      const base: Cable = { ...DEFAULT_CABLE, ...existing, sizeUnit };
+      const selection = CableCalculations.selectSize(
+        CableCalculations.withAmbient(base, circuit.metadata?.ambientTemperature), current, netlist.supplyVoltage, options.maxVoltageDrop, loadedConductors, returnFactor
+      );
+      const cable: Cable = { ...base, size: selection.size };
+      const rated = CableCalculations.withAmbient(cable, circuit.metadata?.ambientTemperature);
+      const voltageDrop = returnFactor * current * CableCalculations.getResistance(cable);
+      const label = CableCalculations.getLabel(cable);
+
+      study.branches.push({
+        connectionId: conn.id,
+        from: conn.from,
+        to: conn.to,
+        current,
+        designCurrent: options.standard === 'nec' ? current * NEC_CONTINUOUS_LOAD_FACTOR : current,
+        ambientFactor: CableCalculations.getAmbientFactor(rated),
+        groupingFactor: CableCalculations.getGroupingFactor(rated, loadedConductors),
+        ampacitySize: selection.ampacitySize,
+        voltageDropSize: selection.voltageDropSize,
+        governedBy: selection.governedBy,
+        cable,
+        ampacity: CableCalculations.getAmpacity(rated, loadedConductors),
+        voltageDropPercent: netlist.supplyVoltage > 0 ? (voltageDrop / netlist.supplyVoltage) * 100 : 0,
+        changed: !existing
+          || (existing.sizeUnit || 'mm2') !== sizeUnit
+          || existing.size !== selection.size
+      });
+
+      if (!selection.withinTables) {
+        issues.push({
+          id: `cable-sizing-beyond-tables-${conn.id}`,
+          type: 'error',
+          severity: 'high',
+          message: `${conn.from} → ${conn.to} needs more than the largest tabulated conductor (${label}) for ${current.toFixed(1)}A`,
+          recommendation: 'Run conductors in parallel, shorten the run or improve the installation method and spacing'
+        });
+      } else if (existing && CableCalculations.getCrossSection(existing) < CableCalculations.getCrossSection(cable) - 1e-9) {
+        // An existing run too small to carry the current is a hazard; one that only drops too much voltage is not
+        const overloaded = CableCalculations.getCrossSection(existing) < CableCalculations.getCrossSection({ ...cable, size: selection.ampacitySize }) - 1e-9;
+        issues.push({
+          id: `cable-undersized-${conn.id}`,
+          type: 'warning',
+          severity: overloaded ? 'high' : 'medium',
+          message: `${conn.from} → ${conn.to} is ${CableCalculations.getLabel(existing)} but needs ${label} for ${overloaded ? 'current-carrying capacity' : 'voltage drop'}`,
+          recommendation: 'Apply the sized cables to the circuit or upsize this run'
+        });
+      }
+    });
+
+    const uncabled = study.branches.filter(branch => !circuit.connections.find(conn => conn.id === branch.connectionId)?.cable);
+    if (uncabled.length > 0) {
+      issues.push({
+        id: 'cable-sizing-default-runs',
+        type: 'info',
+        severity: 'low',
+        message: `${uncabled.length} wire${uncabled.length === 1 ? '' : 's'} without a cable ${uncabled.length === 1 ? 'was' : 'were'} sized as ${DEFAULT_CABLE.length}m ${DEFAULT_CABLE.material} ${DEFAULT_CABLE.insulation?.toUpperCase()} runs`,
+        recommendation: 'Set the length and installation of each run from the canvas for an accurate voltage drop'
+      });
+    }
+
+    return study;
+  }
+}
@@ -0,0 +1,209 @@
+// Cable Resistance, Voltage Drop and Current-carrying Capacity
+import type { Cable, CableStandard, ConductorMaterial, InstallationMethod, InsulationType } from '../types/circuit.types';
+
+// Resistivity at 20°C (ohm·mm²/m) and its temperature coefficient (1/°C)
+export const CONDUCTOR_RESISTIVITY: { [material in ConductorMaterial]: number } = { copper: 0.0172, aluminium: 0.0282 };
+export const TEMPERATURE_COEFFICIENT: { [material in ConductorMaterial]: number } = { copper: 0.00393, aluminium: 0.00403 };
+
+// Maximum continuous conductor temperature (°C)
+export const INSULATION_MAX_TEMPERATURE: { [insulation in InsulationType]: number } = { pvc: 70, xlpe: 90 };
+
+export const STANDARD_CABLE_SIZES = [1.5, 2.5, 4, 6, 10, 16, 25, 35, 50, 70, 95, 120, 150, 185, 240];
+
+// AWG gauges from 14 to 4/0 (0 = 1/0, -1 = 2/0 ...)
+export const STANDARD_AWG_SIZES = [14, 12, 10, 8, 6, 4, 3, 2, 1, 0, -1, -2, -3];
+
+// IEC 60364-5-52 Tables B.52.2-B.52.5 and B.52.10: copper, two loaded conductors, 30°C air / 20°C ground (A)
+export const IEC_AMPACITY: { [insulation in InsulationType]: { [method in InstallationMethod]: number[] } } = {
+  pvc: {
+    A1: [14.5, 19.5, 26, 34, 46, 61, 80, 99, 119, 151, 182, 210, 240, 273, 321],
+    A2: [14, 18.5, 25, 32, 43, 57, 75, 92, 110, 139, 167, 192, 219, 248, 291],
+    B1: [17.5, 24, 32, 41, 57, 76, 101, 125, 151, 192, 232, 269, 300, 341, 400],
+    B2: [16.5, 23, 30, 38, 52, 69, 90, 111, 133, 168, 201, 232, 258, 294, 344],
+    C: [19.5, 27, 36, 46, 63, 85, 112, 138, 168, 213, 258, 299, 344, 392, 461],
+    D1: [22, 29, 37, 46, 60, 78, 99, 119, 140, 173, 204, 231, 261, 292, 336],
+    E: [22, 30, 40, 51, 70, 94, 119, 148, 180, 232, 282, 328, 379, 434, 514]
+  },
+  xlpe: {
+    A1: [19, 26, 35, 45, 61, 81, 106, 131, 158, 200, 241, 278, 318, 362, 424],
+    A2: [18.5, 25, 33, 42, 57, 76, 99, 121, 145, 183, 220, 253, 290, 329, 386],
+    B1: [23, 31, 42, 54, 75, 100, 133, 164, 198, 253, 306, 354, 393, 449, 528],
+    B2: [22, 30, 40, 51, 69, 91, 119, 146, 175, 221, 265, 305, 334, 384, 459],
+    C: [24, 33, 45, 58, 80, 107, 138, 171, 209, 269, 328, 382, 441, 506, 599],
+    D1: [25, 33, 43, 53, 71, 91, 116, 139, 164, 203, 239, 271, 306, 343, 395],
+    E: [26, 36, 49, 63, 86, 115, 149, 185, 225, 289, 352, 410, 473, 542, 641]
+  }
+};
+
+// NEC Table 310.16: not more than three current-carrying conductors, 30°C ambient (A); PVC-insulated THWN
+// takes the 75°C column and XLPE XHHW-2 the 90°C column, and 14 AWG aluminium is not listed
+export const NEC_AMPACITY: { [material in ConductorMaterial]: { [insulation in InsulationType]: number[] } } = {
+  copper: {
+    pvc: [20, 25, 35, 50, 65, 85, 100, 115, 130, 150, 175, 200, 230],
+    xlpe: [25, 30, 40, 55, 75, 95, 115, 130, 145, 170, 195, 225, 260]
+  },
+  aluminium: {
+    pvc: [0, 20, 30, 40, 50, 65, 75, 90, 100, 120, 135, 155, 180],
+    xlpe: [0, 25, 35, 45, 55, 75, 85, 100, 115, 135, 150, 175, 205]
+  }
+};
+const NEC_TEMPERATURE_RATING: { [insulation in InsulationType]: number } = { pvc: 75, xlpe: 90 };
+
+// Aluminium carries about 78% of the current of copper of the same size
+const ALUMINIUM_AMPACITY_FACTOR = 0.78;
+
+// IEC 60364-5-52 Table B.52.17, circuits bunched in air, on a surface or enclosed
+const IEC_GROUPING_FACTORS: { circuits: number; factor: number }[] = [
+  { circuits: 1, factor: 1 }, { circuits: 2, factor: 0.8 }, { circuits: 3, factor: 0.7 }, { circuits: 4, factor: 0.65 },
+  { circuits: 5, factor: 0.6 }, { circuits: 6, factor: 0.57 }, { circuits: 7, factor: 0.54 }, { circuits: 8, factor: 0.52 },
+  { circuits: 9, factor: 0.5 }, { circuits: 12, factor: 0.45 }, { circuits: 16, factor: 0.41 }, { circuits: Infinity, factor: 0.38 }
+];
+
+// NEC 310.15(C)(1), current-carrying conductors in one raceway or cable
+const NEC_GROUPING_FACTORS: { conductors: number; factor: number }[] = [
+  { conductors: 3, factor: 1 }, { conductors: 6, factor: 0.8 }, { conductors: 9, factor: 0.7 }, { conductors: 20, factor: 0.5 },
+  { conductors: 30, factor: 0.45 }, { conductors: 40, factor: 0.4 }, { conductors: Infinity, factor: 0.35 }
+];
+
+// Starting point when a cable is first given to a connection
+export const DEFAULT_CABLE: Cable = { length: 10, size: 2.5, sizeUnit: 'mm2', material: 'copper', insulation: 'pvc', installationMethod: 'C' };
+
+// Voltage drop (%) above which a single branch is flagged
+export const MAX_CABLE_VOLTAGE_DROP = 5;
+
+// NEC 210.19(A): conductors are sized for 125% of a continuous load
+export const NEC_CONTINUOUS_LOAD_FACTOR = 1.25;
+
+// Smallest sizes meeting the derated ampacity and the voltage drop limit; the larger one governs
+export interface CableSizeSelection {
+  ampacitySize: number;
+  voltageDropSize: number;
+  size: number;
+  governedBy: 'ampacity' | 'voltage-drop';
+  withinTables: boolean; // false when even the largest tabulated size is not enough
+}
+
+export class CableCalculations {
+  // Cross-section in mm², converting AWG gauges by their diameter
+  static getCrossSection(cable: Cable): number {
+    if (cable.sizeUnit !== 'awg') return cable.size;
+    const diameter = 0.127 * Math.pow(92, (36 - cable.size) / 39);
+    return (Math.PI / 4) * diameter * diameter;
+  }
+
+  // Resistance of one conductor at the given temperature, by default the insulation's maximum as in voltage drop tables
+  static getResistance(cable: Cable, temperature?: number): number {
+    const material = cable.material || 'copper';
+    const area = this.getCrossSection(cable);
+    if (!(area > 0) || !(cable.length > 0)) return 0;
+    const conductorTemperature = temperature ?? INSULATION_MAX_TEMPERATURE[cable.insulation || 'pvc'];
+    const resistivity = CONDUCTOR_RESISTIVITY[material] * (1 + TEMPERATURE_COEFFICIENT[material] * (conductorTemperature - 20));
+    return (resistivity * cable.length) / area;
+  }
+
+  // Sizes are read from NEC 310.16 for AWG cables and from IEC 60364-5-52 otherwise
+  static getStandard(cable: Cable): CableStandard {
+    return cable.sizeUnit === 'awg' ? 'nec' : 'iec';
+  }
+
+  static getStandardSizes(standard: CableStandard): number[] {
+    return standard === 'nec' ? STANDARD_AWG_SIZES : STANDARD_CABLE_SIZES;
+  }
+
+  // Tabulated current-carrying capacity, taken at the largest standard size not exceeding the cross-section
+  static getTabulatedAmpacity(cable: Cable): number {
+    const area = this.getCrossSection(cable);
+    const standard = this.getStandard(cable);
+    const areas = this.getStandardSizes(standard).map(size => this.getCrossSection({ ...cable, size }));
+    const index = areas.reduce((found, size, i) => (size <= area + 1e-9 ? i : found), -1);
+    const insulation = cable.insulation || 'pvc';
+
+    if (standard === 'nec') {
+      const table = NEC_AMPACITY[cable.material || 'copper'][insulation];
+      // Below 14 AWG, capacity scales with cross-section
+      return index >= 0 ? table[index] : (table[0] * area) / areas[0];
+    }
+    const table = IEC_AMPACITY[insulation][cable.installationMethod || 'C'];
+    // Below the smallest tabulated size, capacity scales with cross-section
+    const copper = index >= 0 ? table[index] : (table[0] * area) / areas[0];
+    return cable.material === 'aluminium' ? copper * ALUMINIUM_AMPACITY_FACTOR : copper;
+  }
+
+  // Ambient temperature the tables are based on: 20°C for cables buried in the ground, 30°C otherwise
+  static getReferenceAmbient(cable: Cable): number {
+    return this.getStandard(cable) === 'iec' && cable.installationMethod === 'D1' ? 20 : 30;
+  }
+
+  // The circuit's air temperature applies unless the cable states its own; buried runs keep the ground reference
+  static withAmbient(cable: Cable, airTemperature?: number): Cable {
+    if (cable.ambientTemperature !== undefined || airTemperature === undefined) return cable;
+    if (this.getStandard(cable) === 'iec' && cable.installationMethod === 'D1') return cable;
+    return { ...cable, ambientTemperature: airTemperature };
+  }
+
+  // Conductor temperature the ampacity tables are rated for (°C)
+  static getTemperatureRating(cable: Cable): number {
+    const insulation = cable.insulation || 'pvc';
+    return this.getStandard(cable) === 'nec' ? NEC_TEMPERATURE_RATING[insulation] : INSULATION_MAX_TEMPERATURE[insulation];
+  }
+
+  // Ambient correction by the NEC 310.15(B) equation, from which the IEC B.52.14/B.52.15 factors are also derived
+  static getAmbientFactor(cable: Cable): number {
+    const reference = this.getReferenceAmbient(cable);
+    const ambient = cable.ambientTemperature ?? reference;
+    const rating = this.getTemperatureRating(cable);
+    if (ambient >= rating) return 0;
+    return Math.sqrt((rating - ambient) / (rating - reference));
+  }
+
+  // Grouping correction: IEC counts bunched circuits, NEC counts current-carrying conductors in the raceway
+  static getGroupingFactor(cable: Cable, loadedConductors: number = 2): number {
+    const circuits = Math.max(1, Math.round(cable.groupedCircuits || 1));
+    if (this.getStandard(cable) === 'nec') {
+      const conductors = circuits * loadedConductors;
+      return NEC_GROUPING_FACTORS.find(row => conductors <= row.conductors)!.factor;
+    }
+    return IEC_GROUPING_FACTORS.find(row => circuits <= row.circuits)!.factor;
+  }
+
+  // Current-carrying capacity after ambient temperature and grouping correction
+  static getAmpacity(cable: Cable, loadedConductors: number = 2): number {
+    return this.getTabulatedAmpacity(cable) * this.getAmbientFactor(cable) * this.getGroupingFactor(cable, loadedConductors);
+  }
+
+  // Minimum standard size of the cable's kind for a load current, by ampacity and by voltage drop
+  static selectSize(
+    cable: Cable,
+    current: number,
+    voltage: number,
+    maxVoltageDrop: number,
+    loadedConductors: number = 2,
+    returnFactor: number = 2
+  ): CableSizeSelection {
+    const sizes = this.getStandardSizes(this.getStandard(cable))
+      .filter(size => this.getTabulatedAmpacity({ ...cable, size }) > 0);
+    const designCurrent = this.getStandard(cable) === 'nec' ? current * NEC_CONTINUOUS_LOAD_FACTOR : current;
+    const allowedDrop = (voltage * maxVoltageDrop) / 100;
+
+    const ampacityIndex = sizes.findIndex(size => this.getAmpacity({ ...cable, size }, loadedConductors) >= designCurrent);
+    const voltageDropIndex = sizes.findIndex(size => returnFactor * current * this.getResistance({ ...cable, size }) <= allowedDrop);
+    const last = sizes.length - 1;
+    const ampacityAt = ampacityIndex >= 0 ? ampacityIndex : last;
+    const voltageDropAt = voltageDropIndex >= 0 ? voltageDropIndex : last;
+    return {
+      ampacitySize: sizes[ampacityAt],
+      voltageDropSize: sizes[voltageDropAt],
+      size: sizes[Math.max(ampacityAt, voltageDropAt)],
+      governedBy: voltageDropAt > ampacityAt ? 'voltage-drop' : 'ampacity',
+      withinTables: ampacityIndex >= 0 && voltageDropIndex >= 0
+    };
+  }
+
+  // Short label such as "2.5mm² Cu 20m" or "12AWG Al 15m"
+  static getLabel(cable: Cable): string {
+    const size = cable.sizeUnit === 'awg'
+      ? `${cable.size <= 0 ? `${1 - cable.size}/0` : cable.size}AWG`
+      : `${cable.size}mm²`;
+    return `${size} ${cable.material === 'aluminium' ? 'Al' : 'Cu'} ${cable.length}m`;
+  }
+}
@@ -1,10 +1,23 @@
 // Circuit Simulator Utility
-import type { Circuit, Component, Connection, CircuitAnalysis } from '../types/circuit.types';
+import type { CableSizingOptions, CableSizingStudy, Circuit, Component, Connection, CircuitAnalysis, EnergyCostResult, FaultSpec, FaultStudyResult, LoadProfileOptions, LoadProfileResult, MotorStartOptions, MotorStartStudy, OutageStudy, PFCDesign, PFCOptions, SolarOptions, SolarStudy, Tariff, ThermalStudy, ToleranceOptions, ToleranceStudy, TransientOptions, TransientResult } from '../types/circuit.types';
+import { CableSizer } from './cableSizing';
+import { CircuitSolver } from './circuitSolver';
 import { ElectricalCalculations } from './electricalCalculations';
+import { EnergyCostEstimator } from './energyCost';
+import { FaultSimulator } from './faultSimulator';
+import { LoadProfileSimulator } from './loadProfile';
+import { MotorStartingSimulator } from './motorStarting';
+import { OutageSimulator } from './outageSimulator';
+import { PowerFactorCorrection } from './powerFactorCorrection';
+import { SolarSimulator } from './solarPV';
+import { ThermalModel } from './thermalModel';
+import { ToleranceAnalyzer } from './toleranceAnalysis';
+import { TransientSimulator } from './transientSimulator';
 
 export class CircuitSimulator {
   private circuit: Circuit;
   private analysis: CircuitAnalysis | null = null;
+  private transient: TransientResult | null = null;
 
   constructor(circuit: Circuit) {
     this.circuit = circuit;
@@ -14,6 +27,7 @@ export class CircuitSimulator {
   updateCircuit(circuit: Circuit): CircuitAnalysis {
     this.circuit = circuit;
     this.analysis = ElectricalCalculations.analyzeCircuit(circuit);
+    this.transient = null;
     return this.analysis;
   }
 
@@ -22,6 +36,67 @@ export class CircuitSimulator {
     return this.analysis;
   }
 
+  // Run a time-domain simulation of the current circuit
+  simulateTransient(options: TransientOptions): TransientResult {
+    this.transient = TransientSimulator.simulate(this.circuit, options);
+    return this.transient;
+  }
+
+  // Get the last transient result
+  getTransientResult(): TransientResult | null {
+    return this.transient;
+  }
+
+  // Inject a fault into the current circuit and work out which protection clears it
+  simulateFault(fault: FaultSpec): FaultStudyResult {
+    return FaultSimulator.simulate(this.circuit, fault);
+  }
+
+  // Start the motor-driven appliances of the current circuit and check voltage dip and nuisance tripping
+  simulateMotorStart(options: MotorStartOptions): MotorStartStudy {
+    return MotorStartingSimulator.simulate(this.circuit, options);
+  }
+
+  // Step the current circuit's appliances through their schedules to get demand and energy over a day or week
+  simulateLoadProfile(options: LoadProfileOptions): LoadProfileResult {
+    return LoadProfileSimulator.simulate(this.circuit, options);
+  }
+
+  // Estimate the current circuit's monthly energy bill under a tariff
+  estimateEnergyCost(tariff: Tariff): EnergyCostResult {
+    return EnergyCostEstimator.estimate(this.circuit, tariff);
+  }
+
+  // Disconnect the mains and run the current circuit's protected loads from UPS/inverter batteries
+  simulateOutage(): OutageStudy {
+    return OutageSimulator.simulate(this.circuit);
+  }
+
+  // Size every loaded wire of the current circuit by derated ampacity and voltage drop
+  sizeCables(options?: CableSizingOptions): CableSizingStudy {
+    return CableSizer.size(this.circuit, options);
+  }
+
+  // Solve the current circuit repeatedly with component values and supply voltage drawn within their tolerances
+  simulateTolerance(options?: ToleranceOptions): ToleranceStudy {
+    return ToleranceAnalyzer.simulate(this.circuit, options);
+  }
+
+  // Follow component and cable temperatures from ambient through the current circuit's load profile
+  simulateThermal(options: LoadProfileOptions): ThermalStudy {
+    return ThermalModel.simulate(this.circuit, options);
+  }
+
+  // Size a capacitor bank for the current circuit's main bus and solve with it connected
+  designPowerFactorCorrection(options?: PFCOptions): PFCDesign {
+    return PowerFactorCorrection.design(this.circuit, options);
+  }
+
+  // Run the current circuit's PV arrays and battery banks against its load profile under an irradiance profile
+  simulateSolar(options: SolarOptions): SolarStudy {
+    return SolarSimulator.simulate(this.circuit, options);
+  }
+
   // Add component to circuit
   addComponent(component: Component): Circuit {
     const newCircuit = {
@@ -102,12 +177,29 @@ export class CircuitSimulator {
     return newCircuit;
   }
 
+  // Update connection properties
+  updateConnection(connectionId: string, updates: Partial<Connection>): Circuit {
+    const newCircuit = {
+      ...this.circuit,
+      connections: this.circuit.connections.map(c =>
+        c.id === connectionId ? { ...c, ...updates } : c
+      ),
+      metadata: {
+        ...this.circuit.metadata,
+        updatedAt: new Date()
+      }
+    };
+    
+    this.updateCircuit(newCircuit);
+    return newCircuit;
+  }
+
   // Validate circuit
   validateCircuit(): { isValid: boolean; issues: string[] } {
     const issues: string[] = [];
     
-    // Check for power source
-    const powerSources = this.circuit.components.filter(c => c.type === 'battery');
+    // Check for power source; off-grid battery banks feeding an inverter count as they do in the analysis
+    const powerSources = CircuitSolver.withBankSupply(this.circuit).components.filter(c => c.type === 'battery');
     if (powerSources.length === 0) {
       issues.push('No power source found');
     }
@@ -148,7 +240,7 @@ export class CircuitSimulator {
       totalComponents: this.circuit.components.length,
       totalConnections: this.circuit.connections.length,
       componentCounts,
-      hasPowerSource: this.circuit.components.some(c => c.type === 'battery'),
+      hasPowerSource: CircuitSolver.withBankSupply(this.circuit).components.some(c => c.type === 'battery'),
       hasGround: this.circuit.components.some(c => c.type === 'ground'),
       analysis: this.analysis
     };
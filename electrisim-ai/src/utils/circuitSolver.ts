@@ -0,0 +1,964 @@
+// Modified Nodal Analysis (MNA) Circuit Solver
+import type { Circuit, Component, Connection } from '../types/circuit.types';
+import { CableCalculations } from './cables';
+import { ComplexMath, type Complex } from './complexMath';
+import { TransformerModel } from './transformers';
+
+// Resistance used for every wire between two component terminals without a cable (ohms)
+export const WIRE_RESISTANCE = 0.0001;
+// Closed-contact resistance of protection and control devices (ohms)
+export const CONTACT_RESISTANCE = 0.0001;
+// Input resistance of an ideal voltmeter (ohms)
+export const VOLTMETER_RESISTANCE = 10000000;
+// Leakage conductance from every node to reference so floating nodes stay solvable (siemens)
+export const GMIN = 1e-9;
+// Thermal voltage kT/q at 300 K (volts)
+export const THERMAL_VOLTAGE = 0.02585;
+// Newton-Raphson limits for nonlinear devices
+export const MAX_NEWTON_ITERATIONS = 100;
+export const NEWTON_VOLTAGE_TOLERANCE = 1e-6;
+export const NEWTON_RELATIVE_TOLERANCE = 1e-4;
+// Reverse voltage ratings assumed when a diode or LED does not state one (volts)
+export const DEFAULT_LED_REVERSE_VOLTAGE = 5;
+export const DEFAULT_DIODE_REVERSE_VOLTAGE = 100;
+
+const APPLIANCE_TYPES: Component['type'][] = ['fan', 'light', 'tv', 'ac', 'motor', 'heater', 'refrigerator', 'washing-machine', 'microwave', 'ups', 'inverter', 'dishwasher', 'water-heater', 'electric-stove', 'electric-oven', 'heat-pump', 'electric-boiler'];
+const INLINE_TYPES: Component['type'][] = ['mcb', 'rccb', 'fuse', 'gfci', 'afci', 'spd', 'surge-protector', 'switch', 'two-way-switch', 'breaker', 'contactor', 'relay', 'timer', 'emergency-stop', 'overvoltage-protector', 'undervoltage-protector', 'ammeter', 'wattmeter', 'wire'];
+const REFERENCE_TYPES: Component['type'][] = ['ground', 'lightning-rod'];
+const TRANSFORMER_TYPES: Component['type'][] = ['transformer', 'isolation-transformer'];
+// Converters a battery bank supplies AC loads through
+export const BATTERY_INVERTER_TYPES: Component['type'][] = ['inverter', 'ups'];
+// Inline devices whose contacts open and close with their state
+export const SWITCHING_TYPES: Component['type'][] = ['switch', 'two-way-switch', 'emergency-stop', 'relay', 'contactor'];
+
+export type ComponentRole = 'source' | 'load' | 'passive' | 'inline' | 'bus' | 'reference' | 'transformer' | 'none';
+
+interface NetlistElementBase {
+  id: string;
+  componentId?: string;
+  connectionId?: string;
+  role: ComponentRole | 'wire';
+}
+
+export interface ResistorElement extends NetlistElementBase {
+  kind: 'resistor';
+  nodes: [number, number];
+  resistance: number;
+}
+
+// Appliance modelled as a constant impedance sized from its rating
+export interface LoadElement extends NetlistElementBase {
+  kind: 'load';
+  nodes: [number, number];
+  ratedVoltage: number;
+  ratedPower: number;
+  powerFactor: number;
+}
+
+export interface CapacitorElement extends NetlistElementBase {
+  kind: 'capacitor';
+  nodes: [number, number];
+  capacitance: number;
+}
+
+export interface InductorElement extends NetlistElementBase {
+  kind: 'inductor';
+  nodes: [number, number];
+  inductance: number;
+  resistance: number;
+}
+
+// Shockley junction with reverse breakdown; the on-resistance is its small-signal model for phasor analysis
+export interface DiodeElement extends NetlistElementBase {
+  kind: 'diode';
+  nodes: [number, number]; // [anode, cathode]
+  forwardVoltage: number; // drop at the reference current
+  onResistance: number;
+  saturationCurrent: number;
+  emissionCoefficient: number;
+  breakdownVoltage: number; // reverse voltage at which the junction conducts
+}
+
+// Linearised diode at an operating point: i ≈ conductance·v + current
+export interface DiodeCompanion {
+  conductance: number;
+  current: number;
+}
+
+export interface VoltageSourceElement extends NetlistElementBase {
+  kind: 'voltage-source';
+  nodes: [number, number]; // [positive, negative]
+  voltage: number; // DC value, or RMS magnitude for AC analysis
+  phaseAngle: number; // degrees, AC analysis only
+}
+
+// Ideal transformer: V(primary) = turnsRatio · V(secondary)
+export interface TransformerElement extends NetlistElementBase {
+  kind: 'transformer';
+  nodes: [number, number, number, number]; // [primary+, primary-, secondary+, secondary-]
+  turnsRatio: number;
+}
+
+export type NetlistElement =
+  | ResistorElement
+  | LoadElement
+  | CapacitorElement
+  | InductorElement
+  | DiodeElement
+  | VoltageSourceElement
+  | TransformerElement;
+
+export interface CircuitNetlist {
+  nodeCount: number; // excluding the reference node 0
+  nodeNames: string[]; // index 0 is the reference
+  elements: NetlistElement[];
+  roles: Map<string, ComponentRole>;
+  componentNodes: Map<string, number[]>; // component id -> node per resolved terminal
+  supplyVoltage: number;
+}
+
+export interface DCSolution {
+  nodeVoltages: number[]; // index 0 is the reference (always 0)
+  elementCurrents: Map<string, number>; // element id -> current from nodes[0] to nodes[1]
+  converged: boolean; // false when Newton-Raphson ran out of iterations
+  iterations: number;
+}
+
+// Independent current injection, e.g. the harmonic current drawn by a non-linear load
+export interface CurrentSource {
+  nodes: [number, number];
+  current: Complex;
+}
+
+// Steady-state phasor solution; a DC solution is the special case with zero imaginary parts
+export interface PhasorSolution {
+  frequency: number;
+  nodeVoltages: Complex[];
+  elementCurrents: Map<string, Complex>;
+}
+
+interface ConnectionEnd {
+  connection: Connection;
+  port: number;
+  direction: 'in' | 'out';
+  otherId: string;
+}
+
+export class CircuitSolver {
+  // Classify how a component takes part in the nodal network
+  static getComponentRole(component: Component, circuit: Circuit): ComponentRole {
+    if (component.type === 'battery') return 'source';
+    if (component.type === 'socket') {
+      // Sockets feed the circuit only when nothing else does; otherwise they are outlets
+      return circuit.components.some(c => c.type === 'battery') ? 'bus' : 'source';
+    }
+    if (REFERENCE_TYPES.includes(component.type)) return 'reference';
+    if (component.type === 'junction') return 'bus';
+    if (TRANSFORMER_TYPES.includes(component.type)) return 'transformer';
+    if (component.type === 'ups' || component.type === 'inverter') {
+      // UPS/inverter wired between supply and downstream loads passes power through
+      const feedsDownstream = circuit.connections.some(conn => {
+        if (conn.from !== component.id) return false;
+        const target = circuit.components.find(c => c.id === conn.to);
+        return !!target && !REFERENCE_TYPES.includes(target.type);
+      });
+      return feedsDownstream ? 'inline' : 'load';
+    }
+    if (APPLIANCE_TYPES.includes(component.type) || component.type === 'voltmeter') return 'load';
+    if (INLINE_TYPES.includes(component.type)) return 'inline';
+    if (['resistor', 'capacitor', 'inductor', 'diode', 'led'].includes(component.type)) return 'passive';
+    return 'none';
+  }
+
+  // Off-grid, battery banks that feed an inverter or UPS become AC supplies at the circuit voltage, wired only to that
+  // inverter, so the inverter's loads are energized; circuits with their own supply are returned unchanged
+  static withBankSupply(circuit: Circuit): Circuit {
+    if (circuit.components.some(c => this.getComponentRole(c, circuit) === 'source')) return circuit;
+    const inverterOf = new Map<string, string>();
+    circuit.components.filter(c => c.type === 'battery-bank').forEach(bank => {
+      const inverter = circuit.connections
+        .filter(conn => conn.from === bank.id || conn.to === bank.id)
+        .map(conn => circuit.components.find(c => c.id === (conn.from === bank.id ? conn.to : conn.from)))
+        .find(c => !!c && BATTERY_INVERTER_TYPES.includes(c.type));
+      if (inverter) inverterOf.set(bank.id, inverter.id);
+    });
+    if (inverterOf.size === 0) return circuit;
+
+    const voltage = circuit.metadata?.voltage && circuit.metadata.voltage > 0 ? circuit.metadata.voltage : 230;
+    return {
+      ...circuit,
+      components: circuit.components.map(component => inverterOf.has(component.id)
+        ? { ...component, type: 'battery', value: voltage, unit: 'V', properties: { ...component.properties, batteryType: 'AC' } }
+        : component),
+      connections: circuit.connections.filter(conn =>
+        (!inverterOf.has(conn.from) || inverterOf.get(conn.from) === conn.to) && (!inverterOf.has(conn.to) || inverterOf.get(conn.to) === conn.from)
+      )
+    };
+  }
+
+  // Build the nodal netlist from components and their port-level connections
+  static buildNetlist(circuit: Circuit): CircuitNetlist {
+    const componentMap = new Map(circuit.components.map(c => [c.id, c]));
+    const roles = new Map<string, ComponentRole>();
+    circuit.components.forEach(component => roles.set(component.id, this.getComponentRole(component, circuit)));
+
+    const metadataVoltage = circuit.metadata?.voltage && circuit.metadata.voltage > 0 ? circuit.metadata.voltage : 230;
+    const validSource = circuit.components.find(c => roles.get(c.id) === 'source' && typeof c.value === 'number' && c.value > 0);
+    const supplyVoltage = validSource ? validSource.value : metadataVoltage;
+    // Transformer leakage inductance is set from its reactance at the mains frequency
+    const nominalFrequency = circuit.metadata?.frequency || validSource?.properties.frequency || 50;
+
+    const nodeNames: string[] = ['reference'];
+    const nodeIndex = new Map<string, number>();
+    const getNode = (key: string): number => {
+      const existing = nodeIndex.get(key);
+      if (existing !== undefined) return existing;
+      nodeNames.push(key);
+      nodeIndex.set(key, nodeNames.length - 1);
+      return nodeNames.length - 1;
+    };
+
+    // Collect connection ends per component, skipping wires to missing components
+    const endsByComponent = new Map<string, ConnectionEnd[]>();
+    circuit.components.forEach(component => endsByComponent.set(component.id, []));
+    const activeConnections = circuit.connections.filter(conn => {
+      const fromComponent = componentMap.get(conn.from);
+      const toComponent = componentMap.get(conn.to);
+      if (!fromComponent || !toComponent || conn.from === conn.to) return false;
+      // A bus bonded to earth is a protective-earth connection and carries no load current
+      const fromRole = roles.get(conn.from);
+      const toRole = roles.get(conn.to);
+      if ((fromRole === 'bus' && toRole === 'reference') || (fromRole === 'reference' && toRole === 'bus')) return false;
+      return true;
+    });
+    activeConnections.forEach(conn => {
+      endsByComponent.get(conn.from)!.push({ connection: conn, port: conn.fromPort, direction: 'out', otherId: conn.to });
+      endsByComponent.get(conn.to)!.push({ connection: conn, port: conn.toPort, direction: 'in', otherId: conn.from });
+    });
+
+    // Resolve each connection end to the node of the terminal it lands on
+    const endNodes = new Map<string, number>();
+    const componentNodes = new Map<string, number[]>();
+    const endKey = (conn: Connection, direction: 'in' | 'out') => `${conn.id}:${direction}`;
+
+    circuit.components.forEach(component => {
+      const role = roles.get(component.id)!;
+      const ends = endsByComponent.get(component.id) || [];
+
+      if (role === 'reference') {
+        ends.forEach(end => endNodes.set(endKey(end.connection, end.direction), 0));
+        componentNodes.set(component.id, [0]);
+        return;
+      }
+
+      if (role === 'bus' || role === 'none') {
+        const node = getNode(`${component.id}`);
+        ends.forEach(end => endNodes.set(endKey(end.connection, end.direction), node));
+        componentNodes.set(component.id, [node]);
+        return;
+      }
+
+      const terminalCount = role === 'transformer' ? 4 : this.isChangeoverSwitch(component, ends) ? 3 : 2;
+      const terminals = this.resolveTerminals(component, role, ends, componentMap);
+      const usedTerminals = new Set(terminals.values());
+      const nodes: number[] = [];
+      for (let terminal = 1; terminal <= terminalCount; terminal++) {
+        // Unconnected return terminals close through the reference (implicit neutral)
+        let returnsToReference = false;
+        if (!usedTerminals.has(terminal)) {
+          if (role === 'source' || role === 'transformer') {
+            returnsToReference = terminal % 2 === 0;
+          } else if (role === 'load') {
+            returnsToReference = usedTerminals.size > 0;
+          }
+        }
+        nodes.push(returnsToReference ? 0 : getNode(`${component.id}:${terminal}`));
+      }
+      ends.forEach(end => {
+        const terminal = terminals.get(endKey(end.connection, end.direction))!;
+        endNodes.set(endKey(end.connection, end.direction), nodes[terminal - 1]);
+      });
+      componentNodes.set(component.id, nodes);
+    });
+
+    // Without any earth reference, the negative terminal of the first source becomes the reference
+    const hasReference = circuit.components.some(c => roles.get(c.id) === 'reference');
+    const firstSource = circuit.components.find(c => roles.get(c.id) === 'source');
+    if (!hasReference && firstSource) {
+      const sourceNodes = componentNodes.get(firstSource.id)!;
+      const floatingNode = sourceNodes[1];
+      if (floatingNode !== 0) {
+        const remap = (node: number) => (node === floatingNode ? 0 : node);
+        componentNodes.forEach((nodes, id) => componentNodes.set(id, nodes.map(remap)));
+        endNodes.forEach((node, key) => endNodes.set(key, remap(node)));
+      }
+    }
+
+    const netVoltages = this.getNetVoltages(circuit, roles, componentNodes, activeConnections.map(conn => [endNodes.get(endKey(conn, 'out'))!, endNodes.get(endKey(conn, 'in'))!]), metadataVoltage);
+    const netVoltage = (node: number) => (node !== 0 ? netVoltages.get(node) : undefined);
+
+    const elements: NetlistElement[] = [];
+
+    activeConnections.forEach(conn => {
+      const a = endNodes.get(endKey(conn, 'out'))!;
+      const b = endNodes.get(endKey(conn, 'in'))!;
+      if (a === b) return;
+      // A cable adds the resistance of its conductor
+      const resistance = conn.cable ? Math.max(CableCalculations.getResistance(conn.cable), WIRE_RESISTANCE) : WIRE_RESISTANCE;
+      elements.push({ kind: 'resistor', id: `wire:${conn.id}`, connectionId: conn.id, role: 'wire', nodes: [a, b], resistance });
+    });
+
+    circuit.components.forEach(component => {
+      const role = roles.get(component.id)!;
+      const nodes = componentNodes.get(component.id)!;
+      const base = { id: component.id, componentId: component.id, role };
+
+      switch (role) {
+        case 'source': {
+          const voltage = component.value > 0 ? component.value : metadataVoltage;
+          const internalResistance = component.properties.resistance || 0;
+          if (internalResistance > 0) {
+            const internalNode = getNode(`${component.id}:internal`);
+            elements.push({ ...base, kind: 'voltage-source', nodes: [internalNode, nodes[1]], voltage, phaseAngle: 0 });
+            elements.push({ kind: 'resistor', id: `${component.id}:internal`, componentId: component.id, role, nodes: [nodes[0], internalNode], resistance: internalResistance });
+          } else {
+            elements.push({ ...base, kind: 'voltage-source', nodes: [nodes[0], nodes[1]], voltage, phaseAngle: 0 });
+          }
+          break;
+        }
+
+        case 'load':
+          if (component.type === 'voltmeter') {
+            elements.push({ ...base, kind: 'resistor', nodes: [nodes[0], nodes[1]], resistance: VOLTMETER_RESISTANCE });
+          } else if ((component.properties.powerConsumption || 0) > 0) {
+            elements.push({
+              ...base,
+              kind: 'load',
+              nodes: [nodes[0], nodes[1]],
+              ratedVoltage: component.properties.operatingVoltage || netVoltage(nodes[0]) || netVoltage(nodes[1]) || supplyVoltage,
+              ratedPower: component.properties.powerConsumption || 0,
+              powerFactor: component.properties.powerFactor || 0.8
+            });
+          }
+          break;
+
+        case 'passive':
+          this.addPassiveElement(component, [nodes[0], nodes[1]], elements);
+          break;
+
+        case 'inline': {
+          // An open contact leaves its terminals unconnected; a changeover switch joins the common to the selected way
+          const closed = this.isContactClosed(component);
+          if (nodes.length === 3) {
+            elements.push({ ...base, kind: 'resistor', nodes: [nodes[0], closed ? nodes[1] : nodes[2]], resistance: CONTACT_RESISTANCE });
+          } else if (closed) {
+            elements.push({ ...base, kind: 'resistor', nodes: [nodes[0], nodes[1]], resistance: CONTACT_RESISTANCE });
+          }
+          break;
+        }
+
+        case 'transformer': {
+          const parameters = TransformerModel.getParameters(component, netVoltage(nodes[0]) || supplyVoltage);
+          if (!parameters) {
+            elements.push({
+              ...base,
+              kind: 'transformer',
+              nodes: [nodes[0], nodes[1], nodes[2], nodes[3]],
+              turnsRatio: component.properties.turnsRatio || 1
+            });
+            break;
+          }
+          // Rated transformers: leakage impedance in series with the secondary, core loss across the primary
+          const internalNode = getNode(`${component.id}:internal`);
+          elements.push({ ...base, kind: 'transformer', nodes: [nodes[0], nodes[1], internalNode, nodes[3]], turnsRatio: parameters.turnsRatio });
+          elements.push({
+            kind: 'inductor',
+            id: `${component.id}:winding`,
+            componentId: component.id,
+            role,
+            nodes: [internalNode, nodes[2]],
+            inductance: parameters.reactance / (2 * Math.PI * nominalFrequency),
+            resistance: Math.max(parameters.resistance, CONTACT_RESISTANCE)
+          });
+          if (isFinite(parameters.coreResistance)) {
+            elements.push({ kind: 'resistor', id: `${component.id}:core`, componentId: component.id, role, nodes: [nodes[0], nodes[1]], resistance: parameters.coreResistance });
+          }
+          break;
+        }
+      }
+    });
+
+    return {
+      nodeCount: nodeNames.length - 1,
+      nodeNames,
+      elements,
+      roles,
+      componentNodes,
+      supplyVoltage
+    };
+  }
+
+  // Nominal voltage of every node's net: each supply's voltage carried along wires and closed contacts, and each
+  // transformer's rated secondary voltage on its output side once its primary net is known
+  private static getNetVoltages(
+    circuit: Circuit,
+    roles: Map<string, ComponentRole>,
+    componentNodes: Map<string, number[]>,
+    wires: [number, number][],
+    defaultVoltage: number
+  ): Map<number, number> {
+    const parent = new Map<number, number>();
+    const find = (node: number): number => {
+      const next = parent.get(node);
+      if (next === undefined || next === node) return node;
+      const root = find(next);
+      parent.set(node, root);
+      return root;
+    };
+    const join = (a: number, b: number) => {
+      const rootA = find(a);
+      const rootB = find(b);
+      if (rootA !== rootB) parent.set(rootA, rootB);
+    };
+    wires.forEach(([a, b]) => join(a, b));
+    circuit.components.forEach(component => {
+      const nodes = componentNodes.get(component.id)!;
+      if (roles.get(component.id) !== 'inline' || !this.isContactClosed(component) || nodes.length < 2) return;
+      join(nodes[0], nodes[1]);
+    });
+
+    const voltages = new Map<number, number>();
+    circuit.components.forEach(component => {
+      const nodes = componentNodes.get(component.id)!;
+      if (roles.get(component.id) !== 'source' || nodes[0] === 0) return;
+      voltages.set(find(nodes[0]), component.value > 0 ? component.value : defaultVoltage);
+    });
+    const transformers = circuit.components.filter(c => roles.get(c.id) === 'transformer');
+    let changed = true;
+    while (changed) {
+      changed = false;
+      for (const component of transformers) {
+        const nodes = componentNodes.get(component.id)!;
+        const primary = voltages.get(find(nodes[0]));
+        if (primary === undefined || nodes[2] === 0 || voltages.has(find(nodes[2]))) continue;
+        const parameters = TransformerModel.getParameters(component, primary);
+        voltages.set(find(nodes[2]), parameters ? parameters.secondaryVoltage : primary / (component.properties.turnsRatio || 1));
+        changed = true;
+      }
+    }
+
+    const result = new Map<number, number>();
+    componentNodes.forEach(nodes => nodes.forEach(node => {
+      const voltage = voltages.get(find(node));
+      if (voltage !== undefined) result.set(node, voltage);
+    }));
+    return result;
+  }
+
+  // Whether a switching device's contact is made: switches and relay/contactor coils by switchState, e-stops by their button
+  static isContactClosed(component: Component): boolean {
+    switch (component.type) {
+      case 'switch':
+      case 'two-way-switch':
+      case 'relay':
+      case 'contactor':
+        return component.properties.switchState !== 'off';
+      case 'emergency-stop':
+        return component.properties.estopType === 'normally-open' ? !!component.properties.estopPressed : !component.properties.estopPressed;
+      default:
+        return true;
+    }
+  }
+
+  // Copy of a switching device set to make or break its contact
+  static setContactClosed(component: Component, closed: boolean): Component {
+    if (component.type === 'emergency-stop') {
+      const pressed = component.properties.estopType === 'normally-open' ? closed : !closed;
+      return { ...component, properties: { ...component.properties, estopPressed: pressed } };
+    }
+    return { ...component, properties: { ...component.properties, switchState: closed ? 'on' : 'off' } };
+  }
+
+  // A two-way switch wired on its third port switches its common (port 1) between ports 2 and 3
+  private static isChangeoverSwitch(component: Component, ends: ConnectionEnd[]): boolean {
+    return component.type === 'two-way-switch' && ends.some(end => end.port === 3);
+  }
+
+  // Map each connection end on a component to one of its terminals (1-based)
+  private static resolveTerminals(
+    component: Component,
+    role: ComponentRole,
+    ends: ConnectionEnd[],
+    componentMap: Map<string, Component>
+  ): Map<string, number> {
+    const terminals = new Map<string, number>();
+    const isReferenceEnd = (end: ConnectionEnd) => {
+      const other = componentMap.get(end.otherId);
+      return !!other && REFERENCE_TYPES.includes(other.type);
+    };
+    const liveEnds = ends.filter(end => !isReferenceEnd(end));
+    // Ports are trusted when they actually distinguish the wires; otherwise fall back to wire direction
+    const portsAreDistinct = new Set(liveEnds.map(end => end.port)).size > 1;
+    // One wire per port means the ports were placed deliberately, earth wires included (e.g. a reversed diode)
+    const everyPortDistinct = ends.length > 1 && new Set(ends.map(end => end.port)).size === ends.length;
+    const isFourTerminalTransformer = role === 'transformer' && component.ports >= 4;
+    const isChangeoverSwitch = this.isChangeoverSwitch(component, ends);
+
+    ends.forEach(end => {
+      const key = `${end.connection.id}:${end.direction}`;
+      let terminal: number;
+
+      if (isReferenceEnd(end) && !everyPortDistinct) {
+        // Earth wires otherwise land on the return terminal
+        terminal = 2;
+      } else if (portsAreDistinct || everyPortDistinct) {
+        if (isFourTerminalTransformer) {
+          terminal = Math.min(Math.max(end.port, 1), 4);
+        } else if (isChangeoverSwitch) {
+          terminal = Math.min(Math.max(end.port, 1), 3);
+        } else if (role === 'transformer') {
+          terminal = end.port === 1 ? 1 : 3;
+        } else {
+          terminal = end.port === 1 ? 1 : 2;
+        }
+      } else if (role === 'source') {
+        terminal = end.direction === 'out' ? 1 : 2;
+      } else if (role === 'transformer') {
+        terminal = end.direction === 'in' ? 1 : 3;
+      } else {
+        terminal = end.direction === 'in' ? 1 : 2;
+      }
+
+      terminals.set(key, terminal);
+    });
+
+    return terminals;
+  }
+
+  private static addPassiveElement(component: Component, nodes: [number, number], elements: NetlistElement[]): void {
+    const base = { id: component.id, componentId: component.id, role: 'passive' as const };
+
+    switch (component.type) {
+      case 'resistor':
+        if (component.value > 0) {
+          elements.push({ ...base, kind: 'resistor', nodes, resistance: component.value });
+        }
+        break;
+
+      case 'capacitor':
+        // Capacitance is stored in the component's display unit (e.g. μF)
+        elements.push({
+          ...base,
+          kind: 'capacitor',
+          nodes,
+          capacitance: (component.properties.capacitance || component.value) * this.getUnitMultiplier(component.unit, 'F')
+        });
+        break;
+
+      case 'inductor':
+        elements.push({
+          ...base,
+          kind: 'inductor',
+          nodes,
+          inductance: (component.properties.inductance || component.value) * this.getUnitMultiplier(component.unit, 'H'),
+          resistance: component.properties.resistance || CONTACT_RESISTANCE
+        });
+        break;
+
+      case 'diode':
+      case 'led': {
+        const isLed = component.type === 'led';
+        const defaultDrop = isLed ? (component.unit === 'V' && component.value > 0 ? component.value : 2) : 0.7;
+        const forwardVoltage = component.properties.forwardVoltage || defaultDrop;
+        // Fit the saturation current so the junction drops forwardVoltage at a typical operating current
+        const referenceCurrent = isLed ? 0.02 : 0.01;
+        const emissionCoefficient = 2;
+        elements.push({
+          ...base,
+          kind: 'diode',
+          nodes,
+          forwardVoltage,
+          onResistance: component.properties.resistance || 0.1,
+          saturationCurrent: referenceCurrent / Math.expm1(forwardVoltage / (emissionCoefficient * THERMAL_VOLTAGE)),
+          emissionCoefficient,
+          breakdownVoltage: component.properties.reverseVoltage || (isLed ? DEFAULT_LED_REVERSE_VOLTAGE : DEFAULT_DIODE_REVERSE_VOLTAGE)
+        });
+        break;
+      }
+    }
+  }
+
+  // SI multiplier for a unit such as 'μF' or 'mH' relative to its base unit
+  static getUnitMultiplier(unit: string, baseUnit: string): number {
+    const prefixes: { [prefix: string]: number } = { p: 1e-12, n: 1e-9, 'μ': 1e-6, 'µ': 1e-6, u: 1e-6, m: 1e-3, '': 1, k: 1e3, M: 1e6 };
+    const trimmed = (unit || '').trim();
+    if (!trimmed.endsWith(baseUnit)) return 1;
+    const multiplier = prefixes[trimmed.slice(0, -baseUnit.length)];
+    return multiplier !== undefined ? multiplier : 1;
+  }
+
+  // Impedance that draws rated power at rated voltage: resistive at DC, lagging by the power factor at AC
+  static getLoadImpedance(element: LoadElement, frequency: number = 0): Complex {
+    if (frequency <= 0) {
+      return ComplexMath.complex((element.ratedVoltage * element.ratedVoltage) / element.ratedPower);
+    }
+    const powerFactor = Math.min(Math.max(element.powerFactor, 0.01), 1);
+    const magnitude = (element.ratedVoltage * element.ratedVoltage * powerFactor) / element.ratedPower;
+    return ComplexMath.complex(magnitude * powerFactor, magnitude * Math.sqrt(1 - powerFactor * powerFactor));
+  }
+
+  // Diode current at junction voltage v, including reverse breakdown
+  static getDiodeCurrent(element: DiodeElement, voltage: number): number {
+    const companion = this.linearizeDiode(element, voltage);
+    return companion.conductance * voltage + companion.current;
+  }
+
+  // Tangent of the diode characteristic at junction voltage v (Newton-Raphson companion)
+  static linearizeDiode(element: DiodeElement, voltage: number): DiodeCompanion {
+    const nVt = element.emissionCoefficient * THERMAL_VOLTAGE;
+    const is = element.saturationCurrent;
+    // Beyond this argument the exponential is continued linearly to avoid overflow
+    const maxExponent = 80;
+    const exponential = (x: number) => x > maxExponent ? Math.exp(maxExponent) * (1 + x - maxExponent) : Math.exp(x);
+    const exponentialSlope = (x: number) => Math.exp(Math.min(x, maxExponent));
+
+    let current = is * (exponential(voltage / nVt) - 1);
+    let conductance = (is / nVt) * exponentialSlope(voltage / nVt);
+    if (element.breakdownVoltage > 0) {
+      const reverse = -(voltage + element.breakdownVoltage) / nVt;
+      current -= is * exponential(reverse);
+      conductance += (is / nVt) * exponentialSlope(reverse);
+    }
+    conductance += GMIN;
+    current += GMIN * voltage;
+    return { conductance, current: current - conductance * voltage };
+  }
+
+  // Limit the change in junction voltage between iterations so the exponential cannot run away
+  static limitDiodeVoltage(element: DiodeElement, newVoltage: number, oldVoltage: number): number {
+    const nVt = element.emissionCoefficient * THERMAL_VOLTAGE;
+    const critical = nVt * Math.log(nVt / (Math.SQRT2 * element.saturationCurrent));
+    const limitJunction = (vNew: number, vOld: number): number => {
+      if (vNew <= critical || Math.abs(vNew - vOld) <= 2 * nVt) return vNew;
+      if (vOld > 0) {
+        const arg = 1 + (vNew - vOld) / nVt;
+        return arg > 0 ? vOld + nVt * Math.log(arg) : critical;
+      }
+      return nVt * Math.log(vNew / nVt);
+    };
+
+    if (element.breakdownVoltage > 0 && newVoltage < -element.breakdownVoltage) {
+      // Mirror the breakdown knee onto the forward characteristic
+      const offset = element.breakdownVoltage;
+      return -(limitJunction(-(newVoltage + offset), -(oldVoltage + offset)) + offset);
+    }
+    return limitJunction(newVoltage, oldVoltage);
+  }
+
+  // Solve the DC operating point with modified nodal analysis, iterating Newton-Raphson over nonlinear devices
+  static solveDC(netlist: CircuitNetlist): DCSolution | null {
+    const n = netlist.nodeCount;
+    const branchElements = netlist.elements.filter(e => e.kind === 'voltage-source' || e.kind === 'transformer');
+    const diodes = netlist.elements.filter((e): e is DiodeElement => e.kind === 'diode');
+    const size = n + branchElements.length;
+
+    // Start every junction forward biased at its rated drop
+    const diodeVoltages = new Map(diodes.map(d => [d.id, d.forwardVoltage]));
+    let x: number[] | null = null;
+    let converged = false;
+    let iterations = 0;
+
+    while (!converged && iterations < MAX_NEWTON_ITERATIONS) {
+      iterations++;
+      const matrix: number[][] = Array.from({ length: size }, () => new Array(size).fill(0));
+      const rhs: number[] = new Array(size).fill(0);
+
+      // Node k (1-based) maps to row k - 1; the reference node is not stored
+      const stampConductance = (a: number, b: number, g: number) => {
+        if (a > 0) matrix[a - 1][a - 1] += g;
+        if (b > 0) matrix[b - 1][b - 1] += g;
+        if (a > 0 && b > 0) {
+          matrix[a - 1][b - 1] -= g;
+          matrix[b - 1][a - 1] -= g;
+        }
+      };
+      // Current source pushing `current` from node a to node b through the element
+      const stampCurrent = (a: number, b: number, current: number) => {
+        if (a > 0) rhs[a - 1] -= current;
+        if (b > 0) rhs[b - 1] += current;
+      };
+
+      for (let node = 1; node <= n; node++) {
+        stampConductance(node, 0, GMIN);
+      }
+
+      netlist.elements.forEach(element => {
+        switch (element.kind) {
+          case 'resistor':
+            stampConductance(element.nodes[0], element.nodes[1], 1 / element.resistance);
+            break;
+          case 'load':
+            stampConductance(element.nodes[0], element.nodes[1], 1 / this.getLoadImpedance(element).re);
+            break;
+          case 'inductor':
+            stampConductance(element.nodes[0], element.nodes[1], 1 / element.resistance);
+            break;
+          case 'diode': {
+            const companion = this.linearizeDiode(element, diodeVoltages.get(element.id) || 0);
+            stampConductance(element.nodes[0], element.nodes[1], companion.conductance);
+            stampCurrent(element.nodes[0], element.nodes[1], companion.current);
+            break;
+          }
+          case 'capacitor':
+            // Open circuit at DC
+            break;
+        }
+      });
+
+      branchElements.forEach((element, index) => {
+        const k = n + index;
+        if (element.kind === 'voltage-source') {
+          const [p, m] = element.nodes;
+          if (p > 0) { matrix[p - 1][k] += 1; matrix[k][p - 1] += 1; }
+          if (m > 0) { matrix[m - 1][k] -= 1; matrix[k][m - 1] -= 1; }
+          rhs[k] = element.voltage;
+        } else if (element.kind === 'transformer') {
+          const [p1, p2, s1, s2] = element.nodes;
+          const ratio = element.turnsRatio;
+          // Primary current enters p1; secondary current into s1 is -ratio times that
+          if (p1 > 0) { matrix[p1 - 1][k] += 1; matrix[k][p1 - 1] += 1; }
+          if (p2 > 0) { matrix[p2 - 1][k] -= 1; matrix[k][p2 - 1] -= 1; }
+          if (s1 > 0) { matrix[s1 - 1][k] -= ratio; matrix[k][s1 - 1] -= ratio; }
+          if (s2 > 0) { matrix[s2 - 1][k] += ratio; matrix[k][s2 - 1] += ratio; }
+        }
+      });
+
+      x = this.solveLinearSystem(matrix, rhs);
+      if (!x) return null;
+
+      // Converged once no junction voltage moves by more than the tolerance
+      const solved = [0, ...x.slice(0, n)];
+      converged = true;
+      diodes.forEach(diode => {
+        const previous = diodeVoltages.get(diode.id) || 0;
+        const proposed = solved[diode.nodes[0]] - solved[diode.nodes[1]];
+        if (Math.abs(proposed - previous) > NEWTON_VOLTAGE_TOLERANCE + NEWTON_RELATIVE_TOLERANCE * Math.abs(proposed)) {
+          converged = false;
+        }
+        diodeVoltages.set(diode.id, this.limitDiodeVoltage(diode, proposed, previous));
+      });
+    }
+
+    const solution = x;
+    if (!solution) return null;
+    const nodeVoltages = [0, ...solution.slice(0, n)];
+    const elementCurrents = new Map<string, number>();
+
+    netlist.elements.forEach(element => {
+      const va = nodeVoltages[element.nodes[0]];
+      const vb = nodeVoltages[element.nodes[1]];
+      switch (element.kind) {
+        case 'resistor':
+          elementCurrents.set(element.id, (va - vb) / element.resistance);
+          break;
+        case 'load':
+          elementCurrents.set(element.id, (va - vb) / this.getLoadImpedance(element).re);
+          break;
+        case 'inductor':
+          elementCurrents.set(element.id, (va - vb) / element.resistance);
+          break;
+        case 'diode':
+          elementCurrents.set(element.id, this.getDiodeCurrent(element, va - vb));
+          break;
+        case 'capacitor':
+          elementCurrents.set(element.id, 0);
+          break;
+      }
+    });
+    branchElements.forEach((element, index) => {
+      elementCurrents.set(element.id, solution[n + index]);
+    });
+
+    return { nodeVoltages, elementCurrents, converged, iterations };
+  }
+
+  // Admittance of a two-terminal element at the given frequency (Hz)
+  static getElementAdmittance(element: NetlistElement, frequency: number): Complex {
+    const omega = 2 * Math.PI * frequency;
+    switch (element.kind) {
+      case 'resistor':
+        return ComplexMath.complex(1 / element.resistance);
+      case 'load':
+        return ComplexMath.reciprocal(this.getLoadImpedance(element, frequency));
+      case 'capacitor':
+        return ComplexMath.complex(0, omega * element.capacitance);
+      case 'inductor':
+        return ComplexMath.reciprocal(ComplexMath.complex(element.resistance, omega * element.inductance));
+      case 'diode':
+        // Phasor analysis treats a diode as conducting through its on-resistance
+        return ComplexMath.complex(1 / element.onResistance);
+      default:
+        return ComplexMath.ZERO;
+    }
+  }
+
+  // Solve the sinusoidal steady state with complex modified nodal analysis; elements in openElements are left out,
+  // and each current source draws its current in at nodes[0] and returns it at nodes[1]
+  static solveAC(
+    netlist: CircuitNetlist,
+    frequency: number,
+    openElements: Set<string> = new Set(),
+    currentSources: CurrentSource[] = []
+  ): PhasorSolution | null {
+    const n = netlist.nodeCount;
+    const branchElements = netlist.elements.filter(e => e.kind === 'voltage-source' || e.kind === 'transformer');
+    const size = n + branchElements.length;
+    const matrix: Complex[][] = Array.from({ length: size }, () => new Array(size).fill(ComplexMath.ZERO));
+    const rhs: Complex[] = new Array(size).fill(ComplexMath.ZERO);
+
+    const addTo = (row: number, col: number, value: Complex) => {
+      matrix[row][col] = ComplexMath.add(matrix[row][col], value);
+    };
+    const stampAdmittance = (a: number, b: number, y: Complex) => {
+      if (a > 0) addTo(a - 1, a - 1, y);
+      if (b > 0) addTo(b - 1, b - 1, y);
+      if (a > 0 && b > 0) {
+        addTo(a - 1, b - 1, ComplexMath.negate(y));
+        addTo(b - 1, a - 1, ComplexMath.negate(y));
+      }
+    };
+    const stampBranch = (node: number, k: number, coefficient: number) => {
+      if (node <= 0) return;
+      addTo(node - 1, k, ComplexMath.complex(coefficient));
+      addTo(k, node - 1, ComplexMath.complex(coefficient));
+    };
+
+    for (let node = 1; node <= n; node++) {
+      stampAdmittance(node, 0, ComplexMath.complex(GMIN));
+    }
+
+    const admittances = new Map<string, Complex>();
+    netlist.elements.forEach(element => {
+      if (element.kind === 'voltage-source' || element.kind === 'transformer' || openElements.has(element.id)) return;
+      const y = this.getElementAdmittance(element, frequency);
+      admittances.set(element.id, y);
+      stampAdmittance(element.nodes[0], element.nodes[1], y);
+    });
+
+    branchElements.forEach((element, index) => {
+      const k = n + index;
+      if (element.kind === 'voltage-source') {
+        stampBranch(element.nodes[0], k, 1);
+        stampBranch(element.nodes[1], k, -1);
+        rhs[k] = ComplexMath.fromPolar(element.voltage, element.phaseAngle);
+      } else if (element.kind === 'transformer') {
+        const [p1, p2, s1, s2] = element.nodes;
+        stampBranch(p1, k, 1);
+        stampBranch(p2, k, -1);
+        stampBranch(s1, k, -element.turnsRatio);
+        stampBranch(s2, k, element.turnsRatio);
+      }
+    });
+
+    currentSources.forEach(({ nodes: [from, to], current }) => {
+      if (from > 0) rhs[from - 1] = ComplexMath.subtract(rhs[from - 1], current);
+      if (to > 0) rhs[to - 1] = ComplexMath.add(rhs[to - 1], current);
+    });
+
+    const x = ComplexMath.solveLinearSystem(matrix, rhs);
+    if (!x) return null;
+
+    const nodeVoltages = [ComplexMath.ZERO, ...x.slice(0, n)];
+    const elementCurrents = new Map<string, Complex>();
+    netlist.elements.forEach(element => {
+      const y = admittances.get(element.id);
+      if (!y) return;
+      const across = ComplexMath.subtract(nodeVoltages[element.nodes[0]], nodeVoltages[element.nodes[1]]);
+      elementCurrents.set(element.id, ComplexMath.multiply(y, across));
+    });
+    branchElements.forEach((element, index) => {
+      elementCurrents.set(element.id, x[n + index]);
+    });
+
+    return { frequency, nodeVoltages, elementCurrents };
+  }
+
+  // Express a DC operating point as a zero-frequency phasor solution
+  static toPhasorSolution(solution: DCSolution): PhasorSolution {
+    const elementCurrents = new Map<string, Complex>();
+    solution.elementCurrents.forEach((current, id) => elementCurrents.set(id, ComplexMath.complex(current)));
+    return {
+      frequency: 0,
+      nodeVoltages: solution.nodeVoltages.map(voltage => ComplexMath.complex(voltage)),
+      elementCurrents
+    };
+  }
+
+  // Current flowing through a node: the phasor sum of wire currents carrying power into it
+  static getNodeThroughput(netlist: CircuitNetlist, solution: PhasorSolution, node: number): number {
+    return ComplexMath.magnitude(this.getNodeInflow(netlist, solution, node));
+  }
+
+  // Phasor sum of the wire currents carrying power into a node
+  static getNodeInflow(
+    netlist: CircuitNetlist,
+    solution: PhasorSolution,
+    node: number,
+    supplyDirection: Complex = ComplexMath.ONE
+  ): Complex {
+    const nodeVoltage = solution.nodeVoltages[node] || ComplexMath.ZERO;
+    // At the reference node, the supply angle sets the direction instead
+    const direction = ComplexMath.magnitude(nodeVoltage) > 1e-9 ? nodeVoltage : supplyDirection;
+    let inflow = ComplexMath.ZERO;
+    netlist.elements.forEach(element => {
+      if (element.role !== 'wire') return;
+      const current = solution.elementCurrents.get(element.id) || ComplexMath.ZERO;
+      let entering: Complex | null = null;
+      if (element.nodes[1] === node) entering = current;
+      if (element.nodes[0] === node) entering = ComplexMath.negate(current);
+      if (entering && ComplexMath.multiply(entering, ComplexMath.conjugate(direction)).re > 0) {
+        inflow = ComplexMath.add(inflow, entering);
+      }
+    });
+    return inflow;
+  }
+
+  // Gaussian elimination with partial pivoting; returns null for a singular system
+  static solveLinearSystem(matrix: number[][], rhs: number[]): number[] | null {
+    const size = rhs.length;
+    const a = matrix.map(row => [...row]);
+    const b = [...rhs];
+
+    for (let col = 0; col < size; col++) {
+      let pivotRow = col;
+      for (let row = col + 1; row < size; row++) {
+        if (Math.abs(a[row][col]) > Math.abs(a[pivotRow][col])) pivotRow = row;
+      }
+      if (Math.abs(a[pivotRow][col]) < 1e-18) return null;
+      if (pivotRow !== col) {
+        [a[col], a[pivotRow]] = [a[pivotRow], a[col]];
+        [b[col], b[pivotRow]] = [b[pivotRow], b[col]];
+      }
+
+      for (let row = col + 1; row < size; row++) {
+        const factor = a[row][col] / a[col][col];
+        if (factor === 0) continue;
+        for (let k = col; k < size; k++) {
+          a[row][k] -= factor * a[col][k];
+        }
+        b[row] -= factor * b[col];
+      }
+    }
+
+    const x = new Array(size).fill(0);
+    for (let row = size - 1; row >= 0; row--) {
+      let sum = b[row];
+      for (let k = row + 1; k < size; k++) {
+        sum -= a[row][k] * x[k];
+      }
+      x[row] = sum / a[row][row];
+    }
+
+    return x.every(Number.isFinite) ? x : null;
+  }
+}
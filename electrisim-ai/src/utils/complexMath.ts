@@ -0,0 +1,109 @@
+// Complex Arithmetic for Phasor Analysis
+export interface Complex {
+  re: number;
+  im: number;
+}
+
+export class ComplexMath {
+  static readonly ZERO: Complex = { re: 0, im: 0 };
+  static readonly ONE: Complex = { re: 1, im: 0 };
+
+  static complex(re: number, im: number = 0): Complex {
+    return { re, im };
+  }
+
+  // Build a phasor from magnitude and angle in degrees
+  static fromPolar(magnitude: number, angleDegrees: number): Complex {
+    const angle = (angleDegrees * Math.PI) / 180;
+    return { re: magnitude * Math.cos(angle), im: magnitude * Math.sin(angle) };
+  }
+
+  static add(a: Complex, b: Complex): Complex {
+    return { re: a.re + b.re, im: a.im + b.im };
+  }
+
+  static subtract(a: Complex, b: Complex): Complex {
+    return { re: a.re - b.re, im: a.im - b.im };
+  }
+
+  static multiply(a: Complex, b: Complex): Complex {
+    return { re: a.re * b.re - a.im * b.im, im: a.re * b.im + a.im * b.re };
+  }
+
+  static divide(a: Complex, b: Complex): Complex {
+    const denominator = b.re * b.re + b.im * b.im;
+    if (denominator === 0) return { re: NaN, im: NaN };
+    return {
+      re: (a.re * b.re + a.im * b.im) / denominator,
+      im: (a.im * b.re - a.re * b.im) / denominator
+    };
+  }
+
+  static scale(a: Complex, factor: number): Complex {
+    return { re: a.re * factor, im: a.im * factor };
+  }
+
+  static conjugate(a: Complex): Complex {
+    return { re: a.re, im: -a.im };
+  }
+
+  static negate(a: Complex): Complex {
+    return { re: -a.re, im: -a.im };
+  }
+
+  static reciprocal(a: Complex): Complex {
+    return this.divide(this.ONE, a);
+  }
+
+  static magnitude(a: Complex): number {
+    return Math.hypot(a.re, a.im);
+  }
+
+  // Angle in degrees, in the range (-180, 180]
+  static phase(a: Complex): number {
+    return (Math.atan2(a.im, a.re) * 180) / Math.PI;
+  }
+
+  static isFinite(a: Complex): boolean {
+    return Number.isFinite(a.re) && Number.isFinite(a.im);
+  }
+
+  // Gaussian elimination with partial pivoting over complex numbers; returns null for a singular system
+  static solveLinearSystem(matrix: Complex[][], rhs: Complex[]): Complex[] | null {
+    const size = rhs.length;
+    const a = matrix.map(row => row.map(value => ({ ...value })));
+    const b = rhs.map(value => ({ ...value }));
+
+    for (let col = 0; col < size; col++) {
+      let pivotRow = col;
+      for (let row = col + 1; row < size; row++) {
+        if (this.magnitude(a[row][col]) > this.magnitude(a[pivotRow][col])) pivotRow = row;
+      }
+      if (this.magnitude(a[pivotRow][col]) < 1e-18) return null;
+      if (pivotRow !== col) {
+        [a[col], a[pivotRow]] = [a[pivotRow], a[col]];
+        [b[col], b[pivotRow]] = [b[pivotRow], b[col]];
+      }
+
+      for (let row = col + 1; row < size; row++) {
+        if (a[row][col].re === 0 && a[row][col].im === 0) continue;
+        const factor = this.divide(a[row][col], a[col][col]);
+        for (let k = col; k < size; k++) {
+          a[row][k] = this.subtract(a[row][k], this.multiply(factor, a[col][k]));
+        }
+        b[row] = this.subtract(b[row], this.multiply(factor, b[col]));
+      }
+    }
+
+    const x: Complex[] = new Array(size).fill(this.ZERO);
+    for (let row = size - 1; row >= 0; row--) {
+      let sum = b[row];
+      for (let k = row + 1; k < size; k++) {
+        sum = this.subtract(sum, this.multiply(a[row][k], x[k]));
+      }
+      x[row] = this.divide(sum, a[row][row]);
+    }
+
+    return x.every(value => this.isFinite(value)) ? x : null;
+  }
+}
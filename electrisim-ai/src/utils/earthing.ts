@@ -0,0 +1,208 @@
+// Earthing Systems: Earth Fault Loop Impedance, Touch Voltage and Disconnection Times
+import type { Circuit, CircuitIssue, Component, Connection, EarthFaultLoopResult, EarthingAnalysis, EarthingSystem } from '../types/circuit.types';
+import { CableCalculations } from './cables';
+import { CircuitSolver } from './circuitSolver';
+import { ProtectionCurves } from './protectionCurves';
+
+export const DEFAULT_EARTHING_SYSTEM: EarthingSystem = 'TN-S';
+
+// Typical external loop impedance Ze (ohms) declared by the supplier; TT includes the source electrode
+export const DEFAULT_EXTERNAL_LOOP_IMPEDANCE: { [system in EarthingSystem]: number } = {
+  'TN-S': 0.8, 'TN-C-S': 0.35, 'TT': 21, 'IT': 21
+};
+
+// Installation electrode resistance (ohms) assumed when no ground or lightning rod states one
+export const DEFAULT_ELECTRODE_RESISTANCE = 100;
+
+// Conventional touch voltage limit in dry conditions (V)
+export const MAX_TOUCH_VOLTAGE = 50;
+
+// IEC 60364-4-41 Table 41.1 at 230V for final circuits up to 32A, and 411.3.2.4 / 411.5.3 above it (seconds)
+export const MAX_DISCONNECTION_TIMES: { [system in 'TN' | 'TT']: { final: number; distribution: number } } = {
+  TN: { final: 0.4, distribution: 5 },
+  TT: { final: 0.2, distribution: 1 }
+};
+export const FINAL_CIRCUIT_MAX_RATING = 32;
+
+// Capacitive leakage current of a first fault in an IT system (A)
+export const IT_FIRST_FAULT_CURRENT = 0.5;
+
+const TRAVERSED_ROLES = ['inline', 'bus'];
+
+// Route from the supply to one load: the devices it passes through and the connections it uses
+interface SupplyPath {
+  devices: Component[];
+  connections: Connection[];
+}
+
+export class EarthingAnalyzer {
+  static getSystem(circuit: Circuit): EarthingSystem {
+    return circuit.metadata?.earthingSystem || DEFAULT_EARTHING_SYSTEM;
+  }
+
+  static getExternalImpedance(circuit: Circuit): number {
+    const stated = circuit.metadata?.externalLoopImpedance;
+    return stated !== undefined && stated >= 0 ? stated : DEFAULT_EXTERNAL_LOOP_IMPEDANCE[this.getSystem(circuit)];
+  }
+
+  // Earth electrodes are the grounds and lightning rods stating a resistance, in parallel
+  static getElectrodeResistance(circuit: Circuit): number | null {
+    const conductance = circuit.components
+      .filter(c => (c.type === 'ground' || c.type === 'lightning-rod') && (c.properties.groundingResistance || 0) > 0)
+      .reduce((sum, c) => sum + 1 / c.properties.groundingResistance!, 0);
+    return conductance > 0 ? 1 / conductance : null;
+  }
+
+  // Earth fault at the far end of every load fed from the supply through protective and switching devices;
+  // the protective conductor is taken to run with the line conductor at the same size, so R2 = R1
+  static analyze(circuit: Circuit, voltage: number, issues: CircuitIssue[]): EarthingAnalysis {
+    const system = this.getSystem(circuit);
+    const externalImpedance = this.getExternalImpedance(circuit);
+    const electrodeResistance = this.getElectrodeResistance(circuit);
+    const isTN = system === 'TN-S' || system === 'TN-C-S';
+    const electrode = electrodeResistance ?? DEFAULT_ELECTRODE_RESISTANCE;
+
+    if (!isTN && electrodeResistance === null) {
+      issues.push({
+        id: 'earthing-electrode-assumed',
+        type: 'info',
+        severity: 'low',
+        message: `No earth electrode states its resistance; ${DEFAULT_ELECTRODE_RESISTANCE}Ω is assumed for the ${system} installation electrode`,
+        recommendation: 'Measure the electrode resistance and enter it as the grounding resistance of the ground component'
+      });
+    }
+
+    const paths = this.findSupplyPaths(circuit);
+    const finalCircuits = circuit.components
+      .filter(c => CircuitSolver.getComponentRole(c, circuit) === 'load' && c.type !== 'voltmeter' && paths.has(c.id))
+      .map((component): EarthFaultLoopResult => {
+        const path = paths.get(component.id)!;
+        const lineResistance = path.connections.reduce((sum, conn) => sum + (conn.cable ? CableCalculations.getResistance(conn.cable) : 0), 0);
+        const protectiveResistance = lineResistance;
+        const loopImpedance = externalImpedance + lineResistance + protectiveResistance + (isTN ? 0 : electrode);
+        const faultCurrent = system === 'IT' ? IT_FIRST_FAULT_CURRENT : loopImpedance > 0 ? voltage / loopImpedance : 0;
+        // In TN the exposed parts rise by the drop along the protective conductor; otherwise by the drop to true earth
+        const touchVoltage = faultCurrent * (isTN ? protectiveResistance : protectiveResistance + electrode);
+
+        // RCDs see the whole fault current as residual current; the guaranteed break time decides who clears
+        let disconnectionTime: number | null = null;
+        let protectiveDeviceId: string | undefined;
+        for (const device of path.devices) {
+          if (!ProtectionCurves.isOvercurrentDevice(device) && !ProtectionCurves.isResidualCurrentDevice(device)) continue;
+          const { maxTime } = ProtectionCurves.getTripBand(device, faultCurrent);
+          if (maxTime !== null && (disconnectionTime === null || maxTime < disconnectionTime)) {
+            disconnectionTime = maxTime;
+            protectiveDeviceId = device.id;
+          }
+        }
+
+        // The overcurrent device nearest the load decides whether this is a final circuit of 32A or less
+        const nearest = [...path.devices].reverse().find(device => ProtectionCurves.isOvercurrentDevice(device));
+        const limits = MAX_DISCONNECTION_TIMES[isTN ? 'TN' : 'TT'];
+        const maxDisconnectionTime = system === 'IT'
+          ? null
+          : nearest && ProtectionCurves.getRating(nearest) > FINAL_CIRCUIT_MAX_RATING ? limits.distribution : limits.final;
+        const compliant = maxDisconnectionTime === null
+          ? touchVoltage <= MAX_TOUCH_VOLTAGE
+          : disconnectionTime !== null && disconnectionTime <= maxDisconnectionTime;
+
+        return {
+          componentId: component.id,
+          externalImpedance,
+          lineResistance,
+          protectiveResistance,
+          electrodeResistance: isTN ? 0 : electrode,
+          loopImpedance,
+          faultCurrent,
+          touchVoltage,
+          protectiveDeviceId,
+          disconnectionTime,
+          maxDisconnectionTime,
+          compliant
+        };
+      });
+
+    finalCircuits.filter(result => !result.compliant).forEach(result => {
+      const device = circuit.components.find(c => c.id === result.protectiveDeviceId);
+      const hasRCD = paths.get(result.componentId)!.devices.some(d => ProtectionCurves.isResidualCurrentDevice(d));
+      if (result.maxDisconnectionTime === null) {
+        issues.push({
+          id: `earthing-touch-voltage-${result.componentId}`,
+          type: 'warning',
+          severity: 'medium',
+          componentId: result.componentId,
+          message: `A first earth fault at ${result.componentId} raises exposed parts to ${result.touchVoltage.toFixed(0)}V, above ${MAX_TOUCH_VOLTAGE}V`,
+          recommendation: 'Lower the installation electrode resistance so the first fault stays below the touch voltage limit'
+        });
+        return;
+      }
+      const clearing = result.disconnectionTime === null
+        ? `is not cleared by any protective device within the ${result.maxDisconnectionTime}s required for ${system}`
+        : `takes ${result.disconnectionTime.toFixed(2)}s to clear on ${device!.id} (${ProtectionCurves.getLabel(device!)}), above the ${result.maxDisconnectionTime}s limit for ${system}`;
+      issues.push({
+        id: `earthing-disconnection-${result.componentId}`,
+        type: 'error',
+        severity: result.touchVoltage > MAX_TOUCH_VOLTAGE ? 'critical' : 'high',
+        componentId: result.componentId,
+        message: `Earth fault at ${result.componentId} (Zs ${result.loopImpedance.toFixed(2)}Ω, ${result.faultCurrent.toFixed(0)}A) ${clearing}, with ${result.touchVoltage.toFixed(0)}V touch voltage`,
+        recommendation: isTN && !hasRCD
+          ? 'Reduce the loop impedance with a shorter or larger cable, use a lower-rated or B-curve device, or add a 30mA RCD'
+          : 'Protect the circuit with a 30mA RCD'
+      });
+    });
+
+    // TT protection by RCD holds only while the rated residual current cannot raise the electrode above 50V
+    if (system === 'TT') {
+      circuit.components
+        .filter(c => ProtectionCurves.isResidualCurrentDevice(c) && electrode * ProtectionCurves.getRating(c) > MAX_TOUCH_VOLTAGE)
+        .forEach(rcd => {
+          issues.push({
+            id: `earthing-electrode-rcd-${rcd.id}`,
+            type: 'error',
+            severity: 'high',
+            componentId: rcd.id,
+            message: `Electrode resistance ${electrode.toFixed(0)}Ω × IΔn ${(ProtectionCurves.getRating(rcd) * 1000).toFixed(0)}mA gives ${(electrode * ProtectionCurves.getRating(rcd)).toFixed(0)}V, above ${MAX_TOUCH_VOLTAGE}V`,
+            recommendation: 'Improve the earth electrode or use a more sensitive RCD'
+          });
+        });
+    }
+
+    if (system === 'IT') {
+      issues.push({
+        id: 'earthing-it-monitoring',
+        type: 'info',
+        severity: 'low',
+        message: 'IT system: a first earth fault need not disconnect the supply',
+        recommendation: 'Fit an insulation monitoring device so the first fault is found and cleared before a second one'
+      });
+    }
+
+    return { system, externalImpedance, electrodeResistance, finalCircuits };
+  }
+
+  // Breadth-first search out from every supply, passing only through inline devices and buses
+  private static findSupplyPaths(circuit: Circuit): Map<string, SupplyPath> {
+    const paths = new Map<string, SupplyPath>();
+    const componentMap = new Map(circuit.components.map(c => [c.id, c]));
+    const queue = circuit.components.filter(c => CircuitSolver.getComponentRole(c, circuit) === 'source');
+    queue.forEach(source => paths.set(source.id, { devices: [], connections: [] }));
+
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      const path = paths.get(current.id)!;
+      circuit.connections
+        .filter(conn => conn.from === current.id || conn.to === current.id)
+        .forEach(conn => {
+          const next = componentMap.get(conn.from === current.id ? conn.to : conn.from);
+          if (!next || paths.has(next.id)) return;
+          const role = CircuitSolver.getComponentRole(next, circuit);
+          if (role === 'reference' || role === 'source') return;
+          const devices = role === 'inline' ? [...path.devices, next] : path.devices;
+          paths.set(next.id, { devices, connections: [...path.connections, conn] });
+          if (TRAVERSED_ROLES.includes(role)) queue.push(next);
+        });
+    }
+
+    return paths;
+  }
+}
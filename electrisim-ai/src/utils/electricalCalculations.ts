@@ -1,5 +1,14 @@
 // Enhanced Electrical Calculations with Proper Formulas and Realistic Analysis
-import type { Component, Circuit, CircuitAnalysis, CircuitIssue } from '../types/circuit.types';
+import type { Cable, CableBranchResult, Component, Circuit, CircuitAnalysis, CircuitIssue, AnalysisMode, AnalysisOptions, Phasor, PowerBreakdown, TransformerResult } from '../types/circuit.types';
+import { CableCalculations, DEFAULT_CABLE, MAX_CABLE_VOLTAGE_DROP } from './cables';
+import { CircuitSolver, CONTACT_RESISTANCE, type PhasorSolution } from './circuitSolver';
+import { ComplexMath, type Complex } from './complexMath';
+import { DEFAULT_THREE_PHASE_LIMITS, ThreePhaseSolver } from './threePhaseSolver';
+import { HARMONIC_LIMITS, HarmonicAnalyzer } from './harmonicAnalysis';
+import { MAX_TRANSFORMER_REGULATION, TransformerModel } from './transformers';
+import { EarthingAnalyzer } from './earthing';
+import { ShortCircuitAnalyzer } from './shortCircuit';
+import { ArcFlashAnalyzer, DEFAULT_CONDUCTOR_GAP, DEFAULT_ELECTRODE_CONFIGURATION, DEFAULT_WORKING_DISTANCE } from './arcFlash';
 
 export interface ElectricalResult {
   voltage: number;
@@ -67,23 +76,17 @@ export class ElectricalCalculations {
   }
 
   // Enhanced wire sizing calculations with proper formulas
-  static calculateWireSize(current: number, length: number, voltageDrop: number = 3, voltage: number = 230): number {
-    // Voltage drop formula: V_drop = 2 * I * R * L / 1000
-    // Where R is resistance per km, L is length in meters
-    // For copper wire: R = 0.0175 ohm/mm²/m
-    const resistivity = 0.0175; // Copper resistivity in ohm*mm²/m
-    const maxVoltageDrop = (voltage * voltageDrop) / 100; // Percentage to volts
-    
-    // Calculate required cross-sectional area in mm²
-    // V_drop = 2 * I * (resistivity / A) * (L / 1000)
-    // Solving for A: A = (2 * I * resistivity * L) / (V_drop * 1000)
-    const crossSectionalArea = (2 * current * resistivity * length) / (maxVoltageDrop * 1000);
-    
-    // Round up to standard wire sizes (mm²): 1.5, 2.5, 4, 6, 10, 16, 25, 35, 50, 70, 95, 120
-    const standardSizes = [1.5, 2.5, 4, 6, 10, 16, 25, 35, 50, 70, 95, 120, 150, 185, 240];
-    const selectedSize = standardSizes.find(size => size >= crossSectionalArea) || 240;
-    
-    return Math.max(selectedSize, 1.5); // Minimum 1.5mm²
+  static calculateWireSize(
+    current: number,
+    length: number,
+    voltageDrop: number = 3,
+    voltage: number = 230,
+    cable: Partial<Cable> = {}
+  ): number {
+    // Smallest standard size that both carries the current after ambient and grouping derating
+    // and keeps the round-trip voltage drop within the limit; copper PVC clipped direct in mm² by default,
+    // an AWG gauge from NEC 310.16 when the cable is given in AWG
+    return CableCalculations.selectSize({ ...DEFAULT_CABLE, ...cable, length }, current, voltage, voltageDrop).size;
   }
 
   // Calculate voltage drop for a given wire size
@@ -118,15 +121,13 @@ export class ElectricalCalculations {
     return standardRatings.find(rating => rating >= mcbRating) || 125;
   }
 
-  // Short-circuit current calculation
-  static calculateShortCircuitCurrent(voltage: number, sourceImpedance: number = 0.1): number {
-    // Simplified short-circuit current: I_sc = V / Z_source
-    // sourceImpedance in ohms (typically very low for utility supply)
-    return voltage / sourceImpedance;
+  // Short-circuit current at the supply terminals from the source's fault level and X/R ratio (IEC 60909)
+  static calculateShortCircuitCurrent(voltage: number, source?: Component, threePhase: boolean = false): number {
+    return ShortCircuitAnalyzer.getInitialCurrent(voltage, ShortCircuitAnalyzer.getSourceImpedance(source, voltage, threePhase));
   }
 
   // Power factor correction calculation
-  static calculatePowerFactorCorrection(currentPF: number, targetPF: number, activePower: number, voltage: number): number {
+  static calculatePowerFactorCorrection(currentPF: number, targetPF: number, activePower: number, voltage: number, frequency: number = 50): number {
     // Calculate required reactive power for correction
     const currentAngle = Math.acos(currentPF);
     const targetAngle = Math.acos(targetPF);
@@ -136,7 +137,6 @@ export class ElectricalCalculations {
     const requiredReactive = currentReactive - targetReactive;
     
     // Calculate capacitor size in microfarads
-    const frequency = 50; // Hz
     const capacitance = (requiredReactive * 1000000) / (2 * Math.PI * frequency * voltage * voltage);
     
     return Math.max(capacitance, 0);
@@ -159,37 +159,37 @@ export class ElectricalCalculations {
     return resistance;
   }
 
-  // Arc flash hazard calculation (simplified)
+  // IEEE 1584-2018 incident energy (cal/cm²) at 457mm in a panelboard, from the line-to-line voltage and bolted fault current
   static calculateArcFlashEnergy(voltage: number, shortCircuitCurrent: number, clearingTime: number = 0.1): number {
-    // Simplified arc flash energy calculation
-    // Energy (cal/cm²) = 1.732 * V * I_sc * t / (4 * π * d²)
-    // Where d is working distance (assumed 18 inches = 45.72 cm)
-    const workingDistance = 45.72; // cm
-    const energy = (1.732 * voltage * shortCircuitCurrent * clearingTime) / (4 * Math.PI * workingDistance * workingDistance);
-    return energy;
+    const { arcingCurrent } = ArcFlashAnalyzer.getArcingCurrent(voltage, shortCircuitCurrent, DEFAULT_ELECTRODE_CONFIGURATION, DEFAULT_CONDUCTOR_GAP);
+    return ArcFlashAnalyzer.getIncidentEnergy(
+      shortCircuitCurrent, arcingCurrent, clearingTime, DEFAULT_ELECTRODE_CONFIGURATION, DEFAULT_CONDUCTOR_GAP, DEFAULT_WORKING_DISTANCE
+    );
   }
 
   // Calculate required PPE category based on arc flash energy
   static calculatePPECategory(arcFlashEnergy: number): { category: number; description: string } {
-    if (arcFlashEnergy < 1.2) {
-      return { category: 0, description: 'Arc-rated long-sleeve shirt and pants' };
-    } else if (arcFlashEnergy < 4) {
-      return { category: 1, description: 'Arc-rated clothing, minimum 4 cal/cm²' };
-    } else if (arcFlashEnergy < 8) {
-      return { category: 2, description: 'Arc-rated clothing, minimum 8 cal/cm²' };
-    } else if (arcFlashEnergy < 25) {
-      return { category: 3, description: 'Arc-rated clothing, minimum 25 cal/cm²' };
-    } else {
-      return { category: 4, description: 'Arc-rated clothing, minimum 40 cal/cm²' };
-    }
+    return ArcFlashAnalyzer.getPPECategory(arcFlashEnergy);
+  }
+
+  // Choose DC or AC (phasor) analysis from the supply, unless the caller forces one
+  static getAnalysisMode(circuit: Circuit, options: AnalysisOptions = {}): { mode: AnalysisMode; frequency: number } {
+    const sources = circuit.components.filter(c => CircuitSolver.getComponentRole(c, circuit) === 'source');
+    const acSource = sources.find(c => c.properties.batteryType === 'AC' || (c.type === 'socket' && c.properties.batteryType !== 'DC'));
+    const frequency = options.frequency || circuit.metadata?.frequency || acSource?.properties.frequency || 50;
+    const mode = options.mode || (acSource || (circuit.metadata?.frequency || 0) > 0 ? 'ac' : 'dc');
+    return { mode, frequency: mode === 'ac' ? frequency : 0 };
   }
 
-  // Enhanced circuit analysis with proper electrical engineering principles
-  static analyzeCircuit(circuit: Circuit): CircuitAnalysis {
+  // Circuit analysis by modified nodal analysis of the connected network
+  static analyzeCircuit(circuit: Circuit, options: AnalysisOptions = {}): CircuitAnalysis {
     const voltages: { [key: string]: number } = {};
     const currents: { [key: string]: number } = {};
     const power: { [key: string]: number } = {};
+    const powerBreakdown: { [key: string]: PowerBreakdown } = {};
     const issues: CircuitIssue[] = [];
+    // Off-grid, battery banks supply their inverters' loads as they do in the solar study
+    circuit = CircuitSolver.withBankSupply(circuit);
 
     // Find power sources
     const powerSources = circuit.components.filter(c => c.type === 'battery' || c.type === 'socket');
@@ -204,42 +204,6 @@ export class ElectricalCalculations {
       return { voltages, currents, power, totalPower: 0, efficiency: 0, issues };
     }
 
-    const metadataVoltage = circuit.metadata?.voltage && circuit.metadata.voltage > 0 ? circuit.metadata.voltage : 230;
-    const validSource = powerSources.find(source => typeof source.value === 'number' && source.value > 0);
-    const sourceVoltage = validSource ? validSource.value : metadataVoltage;
-    const isThreePhase = circuit.metadata?.phase === 'three';
-
-    // Build connection graph for topology analysis
-    const componentMap = new Map(circuit.components.map(c => [c.id, c]));
-    const connectionGraph = new Map<string, Array<{ componentId: string; port: number; wireColor?: string }>>();
-    
-    // Initialize graph
-    circuit.components.forEach(comp => {
-      connectionGraph.set(comp.id, []);
-    });
-
-    // Build bidirectional graph from connections
-    circuit.connections.forEach(conn => {
-      const fromConnections = connectionGraph.get(conn.from) || [];
-      const toConnections = connectionGraph.get(conn.to) || [];
-      
-      fromConnections.push({ componentId: conn.to, port: conn.toPort, wireColor: conn.wireColor });
-      toConnections.push({ componentId: conn.from, port: conn.fromPort, wireColor: conn.wireColor });
-      
-      connectionGraph.set(conn.from, fromConnections);
-      connectionGraph.set(conn.to, toConnections);
-    });
-
-    // Identify appliances (loads)
-    const applianceTypes = ['fan', 'light', 'tv', 'ac', 'motor', 'heater', 'refrigerator', 'washing-machine', 'microwave', 'ups', 'inverter', 'dishwasher', 'water-heater', 'electric-stove', 'electric-oven', 'heat-pump', 'electric-boiler'];
-    const appliances = circuit.components.filter(c => applianceTypes.includes(c.type));
-
-    // Calculate total load from appliances only
-    const totalLoad = appliances.reduce((sum, app) => {
-      const appPower = app.properties.powerConsumption || 0;
-      return sum + appPower;
-    }, 0);
-
     // Initialize all components with default values
     circuit.components.forEach(component => {
       voltages[component.id] = 0;
@@ -247,222 +211,224 @@ export class ElectricalCalculations {
       power[component.id] = 0;
     });
 
-    // Step 1: Set power source voltages
-    powerSources.forEach(source => {
-      const supplyVoltage = source.value && source.value > 0 ? source.value : sourceVoltage;
-      voltages[source.id] = supplyVoltage;
-    });
-
-    // Step 2: Calculate appliance currents and power (use powerConsumption directly)
-    const applianceCurrents: { [key: string]: number } = {};
-    appliances.forEach(app => {
-      const appPower = app.properties.powerConsumption || 0;
-      const appVoltage = app.properties.operatingVoltage || sourceVoltage;
-      const appPowerFactor = app.properties.powerFactor || 0.8;
-      
-      // Calculate current per appliance
-      let appCurrent: number;
-      if (isThreePhase) {
-        appCurrent = appPower > 0 ? appPower / (Math.sqrt(3) * appVoltage * appPowerFactor) : 0;
-      } else {
-        appCurrent = appPower > 0 ? appPower / (appVoltage * appPowerFactor) : 0;
-      }
-      
-      if (!Number.isFinite(appCurrent) || appCurrent < 0) {
-        appCurrent = 0;
-      }
-      
-      applianceCurrents[app.id] = appCurrent;
-      voltages[app.id] = appVoltage;
-      currents[app.id] = appCurrent;
-      power[app.id] = appPower; // Use powerConsumption directly, not calculated
-    });
-
-    // Step 3: Trace current flow from sources through protection devices to loads
-    // Use BFS to propagate voltage and calculate current flow
-    const visited = new Set<string>();
-    const queue: Array<{ id: string; voltage: number; current: number }> = [];
-    
-    // Start from power sources
-    powerSources.forEach(source => {
-      const supplyVoltage = source.value && source.value > 0 ? source.value : sourceVoltage;
-      queue.push({ id: source.id, voltage: supplyVoltage, current: 0 });
-      visited.add(source.id);
-    });
+    // Step 1: Build nets from connection ports and solve node voltages and branch currents
+    const { mode, frequency } = this.getAnalysisMode(circuit, options);
+    const netlist = CircuitSolver.buildNetlist(circuit);
+    const isThreePhase = mode === 'ac' && ThreePhaseSolver.isThreePhase(circuit);
+    const threePhase = isThreePhase ? ThreePhaseSolver.solve(circuit, netlist, frequency) : null;
+    const dcSolution = mode === 'dc' ? CircuitSolver.solveDC(netlist) : null;
+    let solution: PhasorSolution | null;
+    if (isThreePhase) {
+      solution = threePhase && threePhase.combined;
+    } else if (mode === 'ac') {
+      solution = CircuitSolver.solveAC(netlist, frequency);
+    } else {
+      solution = dcSolution && CircuitSolver.toPhasorSolution(dcSolution);
+    }
+    if (!solution) {
+      issues.push({
+        id: 'solver-singular',
+        type: 'error',
+        severity: 'critical',
+        message: 'Circuit equations could not be solved (singular network)',
+        recommendation: 'Check for voltage sources connected in parallel or loops of ideal sources'
+      });
+      return { voltages, currents, power, totalPower: 0, efficiency: 0, issues, mode, frequency };
+    }
 
-    // Calculate total current needed (sum of all appliance currents)
-    const totalCurrent = Object.values(applianceCurrents).reduce((sum, curr) => sum + curr, 0);
+    if (dcSolution && !dcSolution.converged) {
+      issues.push({
+        id: 'solver-nonconvergence',
+        type: 'warning',
+        severity: 'high',
+        message: `Diode and LED models did not converge after ${dcSolution.iterations} iterations; results may be inaccurate`,
+        recommendation: 'Check diode and LED orientation, forward voltages and series resistors'
+      });
+    }
 
-    // Step 4: Process protection devices and junctions
-    // Protection devices pass voltage through and carry downstream current
-    const protectionDevices = circuit.components.filter(c => 
-      ['mcb', 'rccb', 'fuse', 'gfci', 'afci', 'spd', 'surge-protector', 'two-way-switch', 'switch'].includes(c.type)
+    const nodeVoltage = (node: number) => solution.nodeVoltages[node] || ComplexMath.ZERO;
+    const elementCurrent = (id: string) => solution.elementCurrents.get(id) || ComplexMath.ZERO;
+    const elementsByComponent = new Map(
+      netlist.elements.filter(e => e.componentId && e.id === e.componentId).map(e => [e.componentId!, e])
     );
-    
-    protectionDevices.forEach(device => {
-      voltages[device.id] = sourceVoltage; // Pass-through voltage
-      currents[device.id] = totalCurrent; // Carry total load current
-      power[device.id] = this.calculatePower(sourceVoltage, totalCurrent);
-      
-      // Check ratings for protection devices
-      if (device.type === 'mcb') {
-        const mcbRating = device.properties.tripCurrent || 16;
-        if (totalCurrent > mcbRating) {
-          issues.push({
-            id: `mcb-overcurrent-${device.id}`,
-            type: 'error',
-            severity: 'critical',
-            componentId: device.id,
-            message: `MCB will trip: Current (${totalCurrent.toFixed(2)}A) exceeds rating (${mcbRating}A)`,
-            recommendation: `Use MCB with rating ${Math.ceil(totalCurrent * 1.25)}A or higher`
-          });
-        }
-      } else if (device.type === 'fuse') {
-        const fuseRating = device.properties.fuseRating || 16;
-        if (totalCurrent > fuseRating) {
-          issues.push({
-            id: `fuse-overcurrent-${device.id}`,
-            type: 'error',
-            severity: 'critical',
-            componentId: device.id,
-            message: `Fuse will blow: Current (${totalCurrent.toFixed(2)}A) exceeds rating (${fuseRating}A)`,
-            recommendation: `Use fuse with rating ${Math.ceil(totalCurrent * 1.25)}A or higher`
-          });
-        }
-      } else if (device.type === 'two-way-switch' || device.type === 'switch') {
-        // Switches have minimal power loss
-        power[device.id] = this.calculatePower(sourceVoltage, totalCurrent * 0.01);
-      } else if (device.type === 'gfci' || device.type === 'afci' || device.type === 'surge-protector') {
-        // These devices have minimal current draw
-        currents[device.id] = Math.min(totalCurrent, 2);
-        power[device.id] = this.calculatePower(sourceVoltage, currents[device.id]);
-      }
-    });
+    const recordPower = (componentId: string, complexPower: Complex) => {
+      const apparentPower = ComplexMath.magnitude(complexPower);
+      powerBreakdown[componentId] = {
+        activePower: complexPower.re,
+        reactivePower: complexPower.im,
+        apparentPower,
+        powerFactor: apparentPower > 0 ? Math.min(1, Math.abs(complexPower.re) / apparentPower) : 1,
+        phaseAngle: apparentPower > 0 ? ComplexMath.phase(complexPower) : 0
+      };
+      power[componentId] = complexPower.re;
+    };
 
-    // Step 5: Process junctions (sum currents from branches)
-    const junctions = circuit.components.filter(c => c.type === 'junction');
-    junctions.forEach(junction => {
-      // Find all appliances connected to this junction
-      const connectedAppliances = appliances.filter(app => {
-        return circuit.connections.some(conn => 
-          (conn.from === junction.id && conn.to === app.id) ||
-          (conn.to === junction.id && conn.from === app.id)
-        );
-      });
-      
-      // Sum currents from connected appliances
-      const junctionCurrent = connectedAppliances.reduce((sum, app) => {
-        return sum + (applianceCurrents[app.id] || 0);
-      }, 0);
-      
-      voltages[junction.id] = sourceVoltage; // Junction maintains supply voltage
-      currents[junction.id] = junctionCurrent;
-      power[junction.id] = this.calculatePower(sourceVoltage, junctionCurrent);
-    });
+    // Step 2: Map solved quantities back onto components; complex power S = V·I*
+    let deliveredPower = 0;
+    let reactivePower = 0;
+    let consumedPower = 0;
+    let totalCurrent = 0;
 
-    // Step 6: Process other components
-    const processedComponentIds = new Set([
-      ...powerSources.map(s => s.id),
-      ...appliances.map(a => a.id),
-      ...protectionDevices.map(p => p.id),
-      ...junctions.map(j => j.id)
-    ]);
-    
     circuit.components.forEach(component => {
-      // Skip if already processed
-      if (processedComponentIds.has(component.id)) {
-        return;
-      }
-
-      switch (component.type) {
-        case 'ground':
-        case 'lightning-rod':
-          voltages[component.id] = 0;
-          currents[component.id] = 0;
-          power[component.id] = 0;
-          break;
-
-        case 'voltmeter':
-          voltages[component.id] = sourceVoltage;
-          currents[component.id] = 0.001; // Very low current
-          power[component.id] = this.calculatePower(voltages[component.id], currents[component.id]);
-          break;
-
-        case 'ammeter':
-          voltages[component.id] = 0.1; // Very low voltage drop
-          currents[component.id] = totalCurrent;
-          power[component.id] = this.calculatePower(voltages[component.id], currents[component.id]);
-          break;
-
-        case 'wattmeter':
-          voltages[component.id] = sourceVoltage;
-          currents[component.id] = totalCurrent;
-          power[component.id] = this.calculatePower(sourceVoltage, totalCurrent);
+      const role = netlist.roles.get(component.id);
+      const nodes = netlist.componentNodes.get(component.id) || [0];
+      const element = elementsByComponent.get(component.id);
+      const across = ComplexMath.subtract(nodeVoltage(nodes[0]), nodeVoltage(nodes[1] ?? 0));
+
+      switch (role) {
+        case 'source': {
+          // Source branch current flows + to - inside the source, so delivered current is its negative
+          const delivered = ComplexMath.negate(elementCurrent(component.id));
+          // A three-phase supply delivers the sum over its phases
+          const sourcePower = threePhase?.sourcePower.get(component.id)
+            || ComplexMath.multiply(across, ComplexMath.conjugate(delivered));
+          voltages[component.id] = ComplexMath.magnitude(across);
+          currents[component.id] = ComplexMath.magnitude(delivered);
+          recordPower(component.id, sourcePower);
+          deliveredPower += sourcePower.re;
+          reactivePower += sourcePower.im;
+          totalCurrent += currents[component.id];
           break;
+        }
 
-        case 'transformer':
-          const turnsRatio = component.properties.turnsRatio || 1;
-          const primaryVoltage = component.properties.primaryVoltage || sourceVoltage;
-          const secondaryVoltage = primaryVoltage / turnsRatio;
-          voltages[component.id] = secondaryVoltage;
-          currents[component.id] = totalCurrent * turnsRatio;
-          power[component.id] = this.calculatePower(secondaryVoltage, currents[component.id]);
-          break;
+        case 'load':
+        case 'passive': {
+          const current = element ? elementCurrent(element.id) : ComplexMath.ZERO;
+          voltages[component.id] = ComplexMath.magnitude(across);
+          currents[component.id] = ComplexMath.magnitude(current);
+          recordPower(component.id, ComplexMath.multiply(across, ComplexMath.conjugate(current)));
+          consumedPower += power[component.id];
 
-        case 'resistor':
-          // Only process resistors that are explicitly added (not defaulted from invalid types)
-          // For resistors in parallel with loads, they would have minimal effect
-          // For now, if resistor has a reasonable value, calculate it properly
-          const safeResistance = component.value > 0 && component.value < 1000000 ? component.value : 1000;
-          // Don't use totalCurrent for resistor - it's likely in parallel, so voltage is sourceVoltage
-          const resistorVoltage = sourceVoltage;
-          const resistorCurrent = resistorVoltage / safeResistance;
-          const resistorPower = this.calculatePower(resistorVoltage, resistorCurrent);
-          
-          voltages[component.id] = resistorVoltage;
-          currents[component.id] = resistorCurrent;
-          power[component.id] = resistorPower;
-
-          if (component.properties.powerRating && resistorPower > component.properties.powerRating) {
+          if (component.type === 'resistor' && component.properties.powerRating && power[component.id] > component.properties.powerRating) {
             issues.push({
               id: `overpower-${component.id}`,
               type: 'warning',
               severity: 'high',
               componentId: component.id,
               message: `Resistor ${component.id} is exceeding its power rating`,
-              recommendation: `Use a resistor with higher power rating (${resistorPower.toFixed(2)}W)`
+              recommendation: `Use a resistor with higher power rating (${power[component.id].toFixed(2)}W)`
             });
           }
           break;
+        }
+
+        case 'inline': {
+          // Inline devices report the line potential they sit at and the current they carry
+          const currentPhasor = element ? elementCurrent(element.id) : ComplexMath.ZERO;
+          const current = ComplexMath.magnitude(currentPhasor);
+          const lineNode = ComplexMath.magnitude(nodeVoltage(nodes[0])) >= ComplexMath.magnitude(nodeVoltage(nodes[1] ?? 0)) ? nodes[0] : nodes[1];
+          const lineVoltage = nodeVoltage(lineNode);
+          voltages[component.id] = ComplexMath.magnitude(lineVoltage);
+          currents[component.id] = current;
+          if (component.type === 'wattmeter') {
+            // A wattmeter reads the real power flowing past it
+            recordPower(component.id, ComplexMath.multiply(lineVoltage, ComplexMath.conjugate(currentPhasor)));
+            power[component.id] = Math.abs(power[component.id]);
+          } else {
+            power[component.id] = current * current * CONTACT_RESISTANCE;
+          }
 
-        case 'ups':
-        case 'inverter':
-          // These are already processed as appliances, but handle if not
-          if (!appliances.some(a => a.id === component.id)) {
-            const upsPower = component.properties.powerConsumption || 1000;
-            const upsVoltage = component.properties.operatingVoltage || sourceVoltage;
-            const upsPowerFactor = component.properties.powerFactor || 0.8;
-            let upsCurrent: number;
-            if (isThreePhase) {
-              upsCurrent = upsPower > 0 ? upsPower / (Math.sqrt(3) * upsVoltage * upsPowerFactor) : 0;
-            } else {
-              upsCurrent = upsPower > 0 ? upsPower / (upsVoltage * upsPowerFactor) : 0;
+          if (component.type === 'mcb') {
+            const mcbRating = component.properties.tripCurrent || 16;
+            if (current > mcbRating) {
+              issues.push({
+                id: `mcb-overcurrent-${component.id}`,
+                type: 'error',
+                severity: 'critical',
+                componentId: component.id,
+                message: `MCB will trip: Current (${current.toFixed(2)}A) exceeds rating (${mcbRating}A)`,
+                recommendation: `Use MCB with rating ${Math.ceil(current * 1.25)}A or higher`
+              });
+            }
+          } else if (component.type === 'fuse') {
+            const fuseRating = component.properties.fuseRating || 16;
+            if (current > fuseRating) {
+              issues.push({
+                id: `fuse-overcurrent-${component.id}`,
+                type: 'error',
+                severity: 'critical',
+                componentId: component.id,
+                message: `Fuse will blow: Current (${current.toFixed(2)}A) exceeds rating (${fuseRating}A)`,
+                recommendation: `Use fuse with rating ${Math.ceil(current * 1.25)}A or higher`
+              });
+            }
+          } else if (component.type === 'relay' || component.type === 'contactor') {
+            const contactRating = component.properties.contactRating;
+            if (contactRating && current > contactRating) {
+              issues.push({
+                id: `contact-overload-${component.id}`,
+                type: 'warning',
+                severity: 'high',
+                componentId: component.id,
+                message: `${component.type === 'relay' ? 'Relay' : 'Contactor'} contacts overloaded: Current (${current.toFixed(2)}A) exceeds contact rating (${contactRating}A)`,
+                recommendation: `Use a ${component.type} with contacts rated ${Math.ceil(current * 1.25)}A or higher`
+              });
             }
-            voltages[component.id] = upsVoltage;
-            currents[component.id] = upsCurrent;
-            power[component.id] = upsPower;
           }
           break;
+        }
 
-        default:
-          // For unknown components, use conservative defaults
-          voltages[component.id] = sourceVoltage;
-          currents[component.id] = 0; // Don't assume current
+        case 'transformer': {
+          const secondaryVoltage = ComplexMath.subtract(nodeVoltage(nodes[2]), nodeVoltage(nodes[3]));
+          const turnsRatio = element?.kind === 'transformer' ? element.turnsRatio : 1;
+          const secondaryCurrent = ComplexMath.scale(elementCurrent(component.id), turnsRatio);
+          voltages[component.id] = ComplexMath.magnitude(secondaryVoltage);
+          currents[component.id] = ComplexMath.magnitude(secondaryCurrent);
+          recordPower(component.id, ComplexMath.multiply(secondaryVoltage, ComplexMath.conjugate(secondaryCurrent)));
+          power[component.id] = Math.abs(power[component.id]);
+          break;
+        }
+
+        case 'bus':
+        case 'reference':
+          // Junctions and earth carry the current entering them over their wires
+          voltages[component.id] = ComplexMath.magnitude(nodeVoltage(nodes[0]));
+          if (!threePhase) {
+            currents[component.id] = CircuitSolver.getNodeThroughput(netlist, solution, nodes[0]);
+          } else if (role === 'reference') {
+            // Earth/neutral return carries the phasor sum of the phase currents
+            currents[component.id] = ThreePhaseSolver.getNeutralThroughput(netlist, threePhase, nodes[0]);
+          } else {
+            currents[component.id] = ThreePhaseSolver.getPoleThroughput(netlist, threePhase, nodes[0]);
+          }
           power[component.id] = 0;
+          break;
+
+        default:
+          voltages[component.id] = ComplexMath.magnitude(nodeVoltage(nodes[0]));
       }
     });
 
-    // Step 7: Validate all calculated values
+    // Reverse bias across junctions: the DC value, or at AC the peak seen while blocking the negative half-cycle
+    const reverseVoltages: { [componentId: string]: number } = {};
+    const diodes = netlist.elements.filter(e => e.kind === 'diode');
+    const blocking = mode === 'ac' && diodes.length > 0
+      ? CircuitSolver.solveAC(netlist, frequency, new Set(diodes.map(d => d.id)))
+      : null;
+    diodes.forEach(element => {
+      if (!element.componentId) return;
+      if (mode === 'ac') {
+        const across = blocking
+          ? ComplexMath.subtract(blocking.nodeVoltages[element.nodes[0]], blocking.nodeVoltages[element.nodes[1]])
+          : ComplexMath.ZERO;
+        reverseVoltages[element.componentId] = ComplexMath.magnitude(across) * Math.SQRT2;
+      } else {
+        reverseVoltages[element.componentId] = Math.max(0, nodeVoltage(element.nodes[1]).re - nodeVoltage(element.nodes[0]).re);
+      }
+    });
+
+    // Phasors for every node and branch, relative to the 0° supply
+    const toPhasor = (value: Complex): Phasor => ({ magnitude: ComplexMath.magnitude(value), phase: ComplexMath.phase(value) });
+    const nodePhasors: { [nodeName: string]: Phasor } = {};
+    netlist.nodeNames.forEach((name, index) => {
+      nodePhasors[name] = toPhasor(nodeVoltage(index));
+    });
+    const branchPhasors: { [elementId: string]: Phasor } = {};
+    solution.elementCurrents.forEach((current, id) => {
+      branchPhasors[id] = toPhasor(current);
+    });
+
+    // Step 3: Validate all calculated values
     Object.keys(voltages).forEach(compId => {
       const v = voltages[compId];
       const i = currents[compId];
@@ -509,12 +475,11 @@ export class ElectricalCalculations {
       }
     });
 
-    // Step 8: Calculate total power (sum of appliance powers only)
-    const totalPower = appliances.reduce((sum, app) => {
-      return sum + (app.properties.powerConsumption || 0);
-    }, 0);
-    
-    const efficiency = totalLoad > 0 && totalPower > 0 ? Math.min(100, (totalPower / totalLoad) * 100) : 100;
+    // Step 4: Total power is the real power the sources deliver; efficiency is the share reaching loads
+    const totalPower = deliveredPower;
+    const totalApparentPower = Math.hypot(deliveredPower, reactivePower);
+    const powerFactor = totalApparentPower > 0 ? Math.min(1, Math.abs(deliveredPower) / totalApparentPower) : 1;
+    const efficiency = deliveredPower > 0 ? Math.min(100, (consumedPower / deliveredPower) * 100) : 100;
 
     // Add circuit-level issues
     if (totalCurrent > 100 && totalCurrent < 10000) {
@@ -527,7 +492,181 @@ export class ElectricalCalculations {
       });
     }
 
-    if (efficiency < 80 && totalLoad > 0 && efficiency > 0) {
+    if (threePhase) {
+      const limits = { ...DEFAULT_THREE_PHASE_LIMITS, ...options.threePhaseLimits };
+      const { phases, neutralCurrent, imbalancePercent } = threePhase.analysis;
+      const highestPhaseCurrent = Math.max(phases.L1.current, phases.L2.current, phases.L3.current);
+      const phaseSummary = `L1 ${phases.L1.current.toFixed(2)}A, L2 ${phases.L2.current.toFixed(2)}A, L3 ${phases.L3.current.toFixed(2)}A`;
+
+      if (highestPhaseCurrent > 0.01 && imbalancePercent > limits.maxImbalancePercent) {
+        issues.push({
+          id: 'phase-imbalance',
+          type: 'warning',
+          severity: imbalancePercent > 2 * limits.maxImbalancePercent ? 'high' : 'medium',
+          message: `Phase imbalance ${imbalancePercent.toFixed(1)}% exceeds ${limits.maxImbalancePercent}% (${phaseSummary})`,
+          recommendation: 'Move single-phase loads from the most loaded phase to the least loaded one'
+        });
+      }
+
+      if (highestPhaseCurrent > 0.01 && neutralCurrent > (limits.maxNeutralCurrentPercent / 100) * highestPhaseCurrent) {
+        issues.push({
+          id: 'neutral-overcurrent',
+          type: 'warning',
+          severity: neutralCurrent > highestPhaseCurrent ? 'high' : 'medium',
+          message: `Neutral current ${neutralCurrent.toFixed(2)}A exceeds ${limits.maxNeutralCurrentPercent}% of the highest phase current (${highestPhaseCurrent.toFixed(2)}A)`,
+          recommendation: 'Balance loads across phases and check the neutral conductor is sized for this current'
+        });
+      }
+    }
+
+    // Harmonic currents of non-linear loads distort the bus voltages and add up in a three-phase neutral
+    const harmonics = mode === 'ac' ? HarmonicAnalyzer.analyze(circuit, netlist, frequency, solution, threePhase) : null;
+    if (harmonics) {
+      harmonics.buses.forEach(bus => {
+        if (bus.voltageTHD > HARMONIC_LIMITS.maxVoltageTHD) {
+          issues.push({
+            id: `harmonic-voltage-${bus.componentId}`,
+            type: 'warning',
+            severity: bus.voltageTHD > 2 * HARMONIC_LIMITS.maxVoltageTHD ? 'high' : 'medium',
+            componentId: bus.componentId,
+            message: `Voltage THD at ${bus.componentId} is ${bus.voltageTHD.toFixed(1)}%, above the ${HARMONIC_LIMITS.maxVoltageTHD}% limit`,
+            recommendation: 'Fit harmonic filters or choose appliances with power factor correction, and keep supply cables short'
+          });
+        }
+        if (bus.currentTHD > HARMONIC_LIMITS.maxCurrentTHD) {
+          issues.push({
+            id: `harmonic-current-${bus.componentId}`,
+            type: 'warning',
+            severity: 'medium',
+            componentId: bus.componentId,
+            message: `Current THD at ${bus.componentId} is ${bus.currentTHD.toFixed(1)}% from non-linear loads`,
+            recommendation: 'Derate cables and transformers for harmonic heating or add harmonic filtering'
+          });
+        }
+      });
+
+      const neutral = harmonics.neutral;
+      const highestPhaseCurrent = neutral ? Math.max(neutral.phaseCurrents.L1, neutral.phaseCurrents.L2, neutral.phaseCurrents.L3) : 0;
+      if (neutral && highestPhaseCurrent > 0.01 && neutral.rmsCurrent > highestPhaseCurrent) {
+        issues.push({
+          id: 'neutral-harmonic-overload',
+          type: 'error',
+          severity: 'high',
+          message: `Neutral carries ${neutral.rmsCurrent.toFixed(2)}A (${neutral.triplenCurrent.toFixed(2)}A triplen harmonics), more than the highest phase current of ${highestPhaseCurrent.toFixed(2)}A`,
+          recommendation: 'Size the neutral for the triplen harmonic current (up to twice the phase conductor) or filter the third harmonic'
+        });
+      }
+    }
+
+    // Cabled connections: voltage drop by the IEC 60364-5-52 formula, counting the return conductor except in three-phase circuits
+    const returnFactor = isThreePhase ? 1 : 2;
+    const cables = circuit.connections
+      .filter(conn => conn.cable && solution.elementCurrents.has(`wire:${conn.id}`))
+      .map((conn): CableBranchResult => {
+        const cable = conn.cable!;
+        const current = ComplexMath.magnitude(elementCurrent(`wire:${conn.id}`));
+        const resistance = CableCalculations.getResistance(cable);
+        const voltageDrop = returnFactor * current * resistance;
+        const ampacity = CableCalculations.getAmpacity(CableCalculations.withAmbient(cable, circuit.metadata?.ambientTemperature), isThreePhase ? 3 : 2);
+        return {
+          connectionId: conn.id,
+          from: conn.from,
+          to: conn.to,
+          crossSection: CableCalculations.getCrossSection(cable),
+          resistance,
+          current,
+          voltageDrop,
+          voltageDropPercent: netlist.supplyVoltage > 0 ? (voltageDrop / netlist.supplyVoltage) * 100 : 0,
+          ampacity,
+          utilisation: ampacity > 0 ? (current / ampacity) * 100 : 0
+        };
+      });
+    cables.forEach(branch => {
+      const label = CableCalculations.getLabel(circuit.connections.find(conn => conn.id === branch.connectionId)!.cable!);
+      if (branch.utilisation > 100) {
+        issues.push({
+          id: `cable-overload-${branch.connectionId}`,
+          type: 'error',
+          severity: 'high',
+          message: `Cable ${branch.from} → ${branch.to} (${label}) carries ${branch.current.toFixed(1)}A, ${branch.utilisation.toFixed(0)}% of its ${branch.ampacity.toFixed(0)}A capacity`,
+          recommendation: 'Use a larger cross-section or an installation method with better heat dissipation'
+        });
+      }
+      if (branch.voltageDropPercent > MAX_CABLE_VOLTAGE_DROP) {
+        issues.push({
+          id: `cable-voltage-drop-${branch.connectionId}`,
+          type: 'warning',
+          severity: 'medium',
+          message: `Cable ${branch.from} → ${branch.to} (${label}) drops ${branch.voltageDrop.toFixed(1)}V (${branch.voltageDropPercent.toFixed(1)}%), above ${MAX_CABLE_VOLTAGE_DROP}%`,
+          recommendation: 'Shorten the run or increase the conductor size'
+        });
+      }
+    });
+
+    // Rated transformers: regulation against the open-circuit secondary, efficiency from winding and core losses,
+    // and the fault level let through to the secondary from an infinite bus or the supply's stated resistance
+    const upstreamResistance = circuit.components.find(c => netlist.roles.get(c.id) === 'source')?.properties.resistance || 0;
+    const transformers = circuit.components
+      .filter(c => netlist.roles.get(c.id) === 'transformer' && solution.elementCurrents.has(`${c.id}:winding`))
+      .map((component): TransformerResult => {
+        const parameters = TransformerModel.getParameters(component, netlist.supplyVoltage)!;
+        const nodes = netlist.componentNodes.get(component.id)!;
+        const primaryVoltage = ComplexMath.magnitude(ComplexMath.subtract(nodeVoltage(nodes[0]), nodeVoltage(nodes[1])));
+        const secondary = ComplexMath.subtract(nodeVoltage(nodes[2]), nodeVoltage(nodes[3]));
+        const secondaryVoltage = ComplexMath.magnitude(secondary);
+        const current = elementCurrent(`${component.id}:winding`);
+        const outputPower = Math.abs(ComplexMath.multiply(secondary, ComplexMath.conjugate(current)).re);
+        const copperLoss = Math.pow(ComplexMath.magnitude(current), 2) * parameters.resistance;
+        const noLoadLoss = isFinite(parameters.coreResistance) ? (primaryVoltage * primaryVoltage) / parameters.coreResistance : 0;
+        const noLoadVoltage = primaryVoltage / parameters.turnsRatio;
+        const faultCurrent = TransformerModel.getSecondaryFaultCurrent(parameters, upstreamResistance);
+        return {
+          componentId: component.id,
+          rating: parameters.rating,
+          loading: ((secondaryVoltage * ComplexMath.magnitude(current)) / parameters.rating) * 100,
+          primaryVoltage,
+          secondaryVoltage,
+          noLoadVoltage,
+          regulation: secondaryVoltage > 0 ? ((noLoadVoltage - secondaryVoltage) / secondaryVoltage) * 100 : 0,
+          outputPower,
+          copperLoss,
+          noLoadLoss,
+          efficiency: outputPower > 0 ? (outputPower / (outputPower + copperLoss + noLoadLoss)) * 100 : 0,
+          faultCurrent,
+          faultLevel: faultCurrent * parameters.secondaryVoltage
+        };
+      });
+    transformers.forEach(transformer => {
+      if (transformer.loading > 100) {
+        issues.push({
+          id: `transformer-overload-${transformer.componentId}`,
+          type: 'error',
+          severity: 'high',
+          componentId: transformer.componentId,
+          message: `Transformer ${transformer.componentId} is loaded to ${transformer.loading.toFixed(0)}% of its ${(transformer.rating / 1000).toFixed(1)}kVA rating`,
+          recommendation: `Use a transformer rated at least ${Math.ceil((transformer.loading / 100) * transformer.rating / 100) / 10}kVA or move loads to another supply`
+        });
+      }
+      if (transformer.regulation > MAX_TRANSFORMER_REGULATION) {
+        issues.push({
+          id: `transformer-regulation-${transformer.componentId}`,
+          type: 'warning',
+          severity: 'medium',
+          componentId: transformer.componentId,
+          message: `Transformer ${transformer.componentId} secondary falls from ${transformer.noLoadVoltage.toFixed(1)}V to ${transformer.secondaryVoltage.toFixed(1)}V on load (${transformer.regulation.toFixed(1)}% regulation)`,
+          recommendation: 'Choose a transformer with a larger rating or lower impedance, or use its tap to raise the secondary voltage'
+        });
+      }
+    });
+
+    // Earth fault loop at every final circuit under the circuit's earthing arrangement
+    const earthing = mode === 'ac' ? EarthingAnalyzer.analyze(circuit, netlist.supplyVoltage, issues) : null;
+    // Bolted fault levels at every bus against the breaking capacity of the devices that must clear them
+    const shortCircuit = mode === 'ac' ? ShortCircuitAnalyzer.analyze(circuit, frequency, issues) : null;
+    // Incident energy at every bus from its fault level and the upstream device that clears the arc
+    const arcFlash = shortCircuit ? ArcFlashAnalyzer.analyze(circuit, shortCircuit, issues) : null;
+
+    if (efficiency < 80 && deliveredPower > 0 && efficiency > 0) {
       issues.push({
         id: 'low-efficiency',
         type: 'warning',
@@ -543,7 +682,24 @@ export class ElectricalCalculations {
       power,
       totalPower,
       efficiency,
-      issues
+      issues,
+      mode,
+      frequency,
+      powerBreakdown,
+      nodePhasors,
+      branchPhasors,
+      totalReactivePower: reactivePower,
+      totalApparentPower,
+      powerFactor,
+      convergence: dcSolution ? { converged: dcSolution.converged, iterations: dcSolution.iterations } : undefined,
+      reverseVoltages,
+      threePhase: threePhase?.analysis,
+      harmonics: harmonics || undefined,
+      cables: cables.length > 0 ? cables : undefined,
+      transformers: transformers.length > 0 ? transformers : undefined,
+      earthing: earthing && earthing.finalCircuits.length > 0 ? earthing : undefined,
+      shortCircuit: shortCircuit && shortCircuit.buses.length > 0 ? shortCircuit : undefined,
+      arcFlash: arcFlash && arcFlash.locations.length > 0 ? arcFlash : undefined
     };
   }
 
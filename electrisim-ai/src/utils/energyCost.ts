@@ -0,0 +1,196 @@
+// Energy Cost Estimation under Flat, Tiered and Time-of-use Tariffs
+import type { ApplianceCost, Circuit, CircuitIssue, EnergyCostResult, OperatingPeriod, ScheduleSuggestion, Tariff } from '../types/circuit.types';
+import { LoadProfileSimulator } from './loadProfile';
+
+export const DAYS_PER_MONTH = 365 / 12;
+
+// Appliances that can run at any time of day without inconvenience
+export const DEFERRABLE_LOADS = ['dishwasher', 'washing-machine', 'water-heater'];
+
+const PROFILE_STEP_MINUTES = 15;
+const WEEKDAYS = [0, 1, 2, 3, 4];
+
+// Starting points for the tariff editor
+export const TARIFF_PRESETS: Tariff[] = [
+  { name: 'Flat rate', type: 'flat', currency: '€', rate: 0.28, standingCharge: 0.5 },
+  {
+    name: 'Tiered',
+    type: 'tiered',
+    currency: '€',
+    rate: 0.35,
+    tiers: [{ upTo: 200, rate: 0.2 }, { upTo: 500, rate: 0.28 }, { rate: 0.35 }],
+    standingCharge: 0.5
+  },
+  {
+    name: 'Time-of-use',
+    type: 'time-of-use',
+    currency: '€',
+    rate: 0.3,
+    periods: [
+      { name: 'Off-peak', start: 23, end: 7, rate: 0.12 },
+      { name: 'Peak', start: 16, end: 20, days: WEEKDAYS, rate: 0.45 }
+    ],
+    standingCharge: 0.5
+  },
+  { name: 'Flat rate with demand charge', type: 'flat', currency: '€', rate: 0.22, demandCharge: 8, standingCharge: 0.3 }
+];
+
+export class EnergyCostEstimator {
+  // Energy rate at an hour of the week (0 = Monday 00:00); the first matching time-of-use period wins
+  static getRate(tariff: Tariff, hour: number): number {
+    if (tariff.type !== 'time-of-use' || !tariff.periods) return tariff.rate;
+    const weekday = Math.floor(hour / 24) % 7;
+    const time = hour - Math.floor(hour / 24) * 24;
+    const period = tariff.periods.find(p => {
+      // A period wrapping past midnight belongs to the day it starts on
+      if (p.end > p.start) return time >= p.start && time < p.end && (!p.days || p.days.includes(weekday));
+      if (time >= p.start) return !p.days || p.days.includes(weekday);
+      return time < p.end && (!p.days || p.days.includes((weekday + 6) % 7));
+    });
+    return period ? period.rate : tariff.rate;
+  }
+
+  // Energy charge for a month's consumption, filling each tier in turn
+  static getTieredCost(tariff: Tariff, monthlyEnergy: number): number {
+    if (!tariff.tiers || tariff.tiers.length === 0) return monthlyEnergy * tariff.rate;
+    let cost = 0;
+    let billed = 0;
+    for (const tier of tariff.tiers) {
+      const limit = tier.upTo ?? Infinity;
+      const energy = Math.min(monthlyEnergy, limit) - billed;
+      if (energy <= 0) continue;
+      cost += energy * tier.rate;
+      billed += energy;
+    }
+    // Consumption beyond the last bounded tier is billed at the base rate
+    return cost + Math.max(0, monthlyEnergy - billed) * tariff.rate;
+  }
+
+  // Simulate a week of scheduled demand and scale it to a month's bill per appliance and for the whole circuit
+  static estimate(circuit: Circuit, tariff: Tariff): EnergyCostResult {
+    const issues: CircuitIssue[] = [];
+    const profile = LoadProfileSimulator.simulate(circuit, { days: 7, stepMinutes: PROFILE_STEP_MINUTES });
+    const stepHours = profile.options.stepMinutes / 60;
+    const monthScale = DAYS_PER_MONTH / profile.options.days;
+    const rates = profile.time.map(hour => this.getRate(tariff, hour + stepHours / 2));
+    const peakIndex = profile.demand.indexOf(profile.peakDemand);
+
+    const monthlyEnergy = profile.totalEnergy * monthScale;
+    const demandCost = profile.peakDemand * (tariff.demandCharge || 0);
+    const standingCost = DAYS_PER_MONTH * (tariff.standingCharge || 0);
+
+    // Tiers are billed on the circuit's total, so each appliance pays the average rate
+    const tieredRate = tariff.type === 'tiered' && monthlyEnergy > 0 ? this.getTieredCost(tariff, monthlyEnergy) / monthlyEnergy : 0;
+    const appliances = profile.appliances.map((appliance): ApplianceCost => {
+      const energy = appliance.energy * monthScale;
+      const energyCost = tariff.type === 'tiered'
+        ? energy * tieredRate
+        : appliance.demand.reduce((sum, kW, i) => sum + kW * stepHours * rates[i], 0) * monthScale;
+      const atPeak = peakIndex >= 0 ? appliance.demand[peakIndex] || 0 : 0;
+      const applianceDemandCost = profile.peakDemand > 0 ? (demandCost * atPeak) / profile.peakDemand : 0;
+      return {
+        componentId: appliance.componentId,
+        type: appliance.type,
+        energy,
+        energyCost,
+        demandCost: applianceDemandCost,
+        cost: energyCost + applianceDemandCost,
+        deferrable: DEFERRABLE_LOADS.includes(appliance.type)
+      };
+    });
+
+    const energyCost = appliances.reduce((sum, appliance) => sum + appliance.energyCost, 0);
+    const totalCost = energyCost + demandCost + standingCost;
+    const suggestions = this.suggestSchedules(circuit, tariff, profile.appliances.map(a => ({ componentId: a.componentId, power: a.ratedPower })));
+
+    if (totalCost > 0 && demandCost / totalCost > 0.3) {
+      issues.push({
+        id: 'demand-charge-dominant',
+        type: 'info',
+        severity: 'low',
+        message: `Demand charges are ${((demandCost / totalCost) * 100).toFixed(0)}% of the monthly bill, set by a ${profile.peakDemand.toFixed(2)}kW peak`,
+        recommendation: 'Stagger large appliances so they do not run together and lower the monthly peak'
+      });
+    }
+
+    return {
+      tariff,
+      monthlyEnergy,
+      peakDemand: profile.peakDemand,
+      energyCost,
+      demandCost,
+      standingCost,
+      totalCost,
+      averageRate: monthlyEnergy > 0 ? energyCost / monthlyEnergy : 0,
+      appliances,
+      suggestions,
+      issues
+    };
+  }
+
+  // Move each period of a deferrable appliance to the start time with the lowest energy cost, keeping its length and days
+  private static suggestSchedules(
+    circuit: Circuit,
+    tariff: Tariff,
+    appliances: { componentId: string; power: number }[]
+  ): ScheduleSuggestion[] {
+    if (tariff.type !== 'time-of-use') return [];
+    const stepHours = PROFILE_STEP_MINUTES / 60;
+    const suggestions: ScheduleSuggestion[] = [];
+
+    appliances.forEach(({ componentId, power }) => {
+      const component = circuit.components.find(c => c.id === componentId);
+      if (!component || !DEFERRABLE_LOADS.includes(component.type) || power <= 0) return;
+      const usage = LoadProfileSimulator.getUsage(component);
+
+      // Cost per week of running a period of the given length from a start hour on its days
+      const periodCost = (period: OperatingPeriod, start: number): number => {
+        const duration = (period.end > period.start ? period.end : period.end + 24) - period.start;
+        const days = period.days || [0, 1, 2, 3, 4, 5, 6];
+        let rateHours = 0;
+        days.forEach(day => {
+          for (let t = 0; t < duration; t += stepHours) {
+            rateHours += this.getRate(tariff, day * 24 + start + t + Math.min(stepHours, duration - t) / 2) * Math.min(stepHours, duration - t);
+          }
+        });
+        return (rateHours * power * usage.dutyCycle) / 1000;
+      };
+
+      // Periods of the same appliance must not be moved on top of each other
+      const placed = usage.schedule.map(period => ({
+        start: period.start,
+        duration: (period.end > period.start ? period.end : period.end + 24) - period.start
+      }));
+      const overlapsOthers = (index: number, start: number, duration: number) => placed.some((other, i) =>
+        i !== index && [-24, 0, 24].some(shift => start < other.start + shift + other.duration && other.start + shift < start + duration)
+      );
+
+      let saving = 0;
+      const suggested = usage.schedule.map((period, index) => {
+        const { duration } = placed[index];
+        if (duration >= 24) return period;
+        const current = periodCost(period, period.start);
+        let best = { start: period.start, cost: current };
+        // Search forward from the current start so ties keep the nearest later time
+        for (let offset = stepHours; offset < 24; offset += stepHours) {
+          const start = (period.start + offset) % 24;
+          if (overlapsOthers(index, start, duration)) continue;
+          const cost = periodCost(period, start);
+          if (cost < best.cost - 1e-9) best = { start, cost };
+        }
+        if (best.start === period.start) return period;
+        saving += current - best.cost;
+        placed[index].start = best.start;
+        const end = (best.start + duration) % 24;
+        return { ...period, start: best.start, end: end === 0 ? 24 : end };
+      });
+
+      const monthlySaving = (saving * DAYS_PER_MONTH) / 7;
+      if (monthlySaving >= 0.01) {
+        suggestions.push({ componentId, type: component.type, current: usage.schedule, suggested, monthlySaving });
+      }
+    });
+
+    return suggestions.sort((a, b) => b.monthlySaving - a.monthlySaving);
+  }
+}
@@ -0,0 +1,204 @@
+// Fault Study: Prospective Fault Current and Protection Response
+import type { Circuit, CircuitIssue, Component, FaultSpec, FaultStudyResult, ProtectiveDeviceResponse } from '../types/circuit.types';
+import { CircuitSolver, type CircuitNetlist, type NetlistElement, type PhasorSolution } from './circuitSolver';
+import { ComplexMath } from './complexMath';
+import { ElectricalCalculations } from './electricalCalculations';
+import { ProtectionCurves } from './protectionCurves';
+import { ShortCircuitAnalyzer } from './shortCircuit';
+import { ThreePhaseSolver } from './threePhaseSolver';
+
+// Resistance of a metallic (bolted) short (ohms)
+export const BOLTED_FAULT_RESISTANCE = 0.001;
+// Earth fault loop resistance assumed for a line-to-ground fault (ohms)
+export const DEFAULT_EARTH_FAULT_RESISTANCE = 1;
+// Maximum disconnection time for final circuits under IEC 60364-4-41 (seconds)
+export const MAX_EARTH_FAULT_DISCONNECTION_TIME = 0.4;
+
+const PROTECTIVE_TYPES: Component['type'][] = ['mcb', 'fuse', 'rccb', 'gfci'];
+// Change in device current (A) below which it is not considered to see the fault
+const FAULT_DETECTION_THRESHOLD = 0.001;
+// A load is de-energised once its voltage falls below this fraction of its pre-fault value
+const DEENERGIZED_VOLTAGE_RATIO = 0.5;
+const FAULT_ELEMENT_ID = 'fault:injected';
+
+export class FaultSimulator {
+  // Inject the fault, solve the faulted network and work out which protective device clears it first
+  static simulate(circuit: Circuit, fault: FaultSpec): FaultStudyResult {
+    const issues: CircuitIssue[] = [];
+
+    // Every supply gets a finite impedance so a bolted short has a bounded prospective current
+    const studied = ShortCircuitAnalyzer.withSourceImpedance(circuit);
+    const netlist = CircuitSolver.buildNetlist(studied);
+    const analysisMode = ElectricalCalculations.getAnalysisMode(studied);
+    const strongestSource = studied.components
+      .filter(c => CircuitSolver.getComponentRole(c, studied) === 'source')
+      .sort((a, b) => (a.properties.resistance || 0) - (b.properties.resistance || 0))[0];
+
+    const result: FaultStudyResult = {
+      fault,
+      prospectiveCurrent: 0,
+      sourceFaultLevel: ElectricalCalculations.calculateShortCircuitCurrent(netlist.supplyVoltage, strongestSource, ThreePhaseSolver.isThreePhase(studied)),
+      devices: [],
+      deenergized: [],
+      issues
+    };
+
+    const faulted = this.applyFault(netlist, fault);
+    if (!faulted) {
+      issues.push({
+        id: 'fault-invalid-target',
+        type: 'error',
+        severity: 'high',
+        componentId: fault.componentId,
+        message: 'The selected fault location is not part of the energised network',
+        recommendation: 'Pick a connected component or wire to inject the fault'
+      });
+      return result;
+    }
+
+    const preFault = ThreePhaseSolver.solvePhasor(studied, netlist, analysisMode);
+    const duringFault = ThreePhaseSolver.solvePhasor(studied, faulted, analysisMode);
+    if (!preFault || !duringFault) {
+      issues.push({
+        id: 'fault-singular',
+        type: 'error',
+        severity: 'critical',
+        message: 'Circuit equations could not be solved with the fault applied',
+        recommendation: 'Check for voltage sources connected in parallel or loops of ideal sources'
+      });
+      return result;
+    }
+
+    const magnitude = (solution: PhasorSolution, id: string) => ComplexMath.magnitude(solution.elementCurrents.get(id) || ComplexMath.ZERO);
+    if (fault.type !== 'open-circuit') {
+      result.prospectiveCurrent = magnitude(duringFault, FAULT_ELEMENT_ID);
+    }
+
+    // Protective devices carry their current through their own contact element
+    result.devices = studied.components
+      .filter(c => PROTECTIVE_TYPES.includes(c.type) && netlist.elements.some(e => e.id === c.id))
+      .map(component => {
+        const before = magnitude(preFault, component.id);
+        const current = magnitude(duringFault, component.id);
+        const residualCurrent = fault.type === 'line-to-ground' && ProtectionCurves.isResidualCurrentDevice(component)
+          ? this.getResidualCurrent(studied, faulted, component.id, result.prospectiveCurrent)
+          : 0;
+        // RCDs respond only to residual current; the guaranteed (maximum) break time decides who clears
+        const band = ProtectionCurves.getTripBand(component, ProtectionCurves.isResidualCurrentDevice(component) ? residualCurrent : current);
+        return {
+          componentId: component.id,
+          type: component.type,
+          current,
+          residualCurrent,
+          rating: ProtectionCurves.getRating(component),
+          seesFault: Math.abs(current - before) > FAULT_DETECTION_THRESHOLD,
+          operates: band.maxTime !== null,
+          tripTime: band.maxTime
+        };
+      });
+
+    const clearing = result.devices
+      .filter((device): device is ProtectiveDeviceResponse & { tripTime: number } => device.tripTime !== null)
+      .reduce<(ProtectiveDeviceResponse & { tripTime: number }) | null>((first, device) => (!first || device.tripTime < first.tripTime ? device : first), null);
+    if (clearing) {
+      result.clearingDevice = clearing.componentId;
+      result.clearingTime = clearing.tripTime;
+    }
+
+    // Loads left dead once the clearing device has opened (or by the open circuit itself)
+    const cleared = clearing ? { ...faulted, elements: faulted.elements.filter(e => e.id !== clearing.componentId) } : faulted;
+    const postFault = clearing ? ThreePhaseSolver.solvePhasor(studied, cleared, analysisMode) : duringFault;
+    if (postFault) {
+      // A component taken out of the network is dead even though its floating terminals still read a voltage
+      const remaining = new Set(cleared.elements.map(e => e.id));
+      const removed = new Set(netlist.elements.filter(e => e.componentId && !remaining.has(e.id)).map(e => e.componentId));
+      result.deenergized = studied.components
+        .filter(c => ['load', 'passive'].includes(netlist.roles.get(c.id) || ''))
+        .filter(c => {
+          const nodes = netlist.componentNodes.get(c.id) || [];
+          if (nodes.length < 2) return false;
+          const across = (solution: PhasorSolution) =>
+            ComplexMath.magnitude(ComplexMath.subtract(solution.nodeVoltages[nodes[0]], solution.nodeVoltages[nodes[1]]));
+          const before = across(preFault);
+          return before > 1 && (removed.has(c.id) || across(postFault) < DEENERGIZED_VOLTAGE_RATIO * before);
+        })
+        .map(c => c.id);
+    }
+
+    if (fault.type !== 'open-circuit') {
+      const location = fault.componentId || fault.connectionId;
+      if (!clearing) {
+        issues.push({
+          id: 'fault-uncleared',
+          type: 'error',
+          severity: 'critical',
+          componentId: fault.componentId,
+          message: `No protective device clears the ${fault.type.replace(/-/g, ' ')} at ${location} (${result.prospectiveCurrent.toFixed(1)}A)`,
+          recommendation: 'Install an MCB or fuse upstream of this point, and an RCD for earth faults'
+        });
+      } else {
+        const breakingCapacity = studied.components.find(c => c.id === clearing.componentId)?.properties.breakingCapacity;
+        if (breakingCapacity && clearing.current > breakingCapacity * 1000) {
+          issues.push({
+            id: 'fault-breaking-capacity',
+            type: 'error',
+            severity: 'critical',
+            componentId: clearing.componentId,
+            message: `Fault current of ${(clearing.current / 1000).toFixed(2)}kA exceeds the ${breakingCapacity}kA breaking capacity of ${clearing.componentId}`,
+            recommendation: 'Use a protective device with a higher breaking capacity or add upstream back-up protection'
+          });
+        }
+        if (fault.type === 'line-to-ground' && clearing.tripTime > MAX_EARTH_FAULT_DISCONNECTION_TIME) {
+          issues.push({
+            id: 'fault-slow-disconnection',
+            type: 'warning',
+            severity: 'high',
+            componentId: clearing.componentId,
+            message: `Earth fault at ${location} takes ${clearing.tripTime.toFixed(2)}s to clear, above the ${MAX_EARTH_FAULT_DISCONNECTION_TIME}s limit`,
+            recommendation: 'Add a 30mA RCD or reduce the earth fault loop impedance'
+          });
+        }
+      }
+    }
+
+    return result;
+  }
+
+  // Share of the earth fault current fed through a device: the part that disappears when the device is taken out
+  private static getResidualCurrent(circuit: Circuit, faulted: CircuitNetlist, componentId: string, faultCurrent: number): number {
+    const bypassed = ThreePhaseSolver.solvePhasor(circuit, { ...faulted, elements: faulted.elements.filter(e => e.id !== componentId) }, ElectricalCalculations.getAnalysisMode(circuit));
+    if (!bypassed) return 0;
+    return Math.max(0, faultCurrent - ComplexMath.magnitude(bypassed.elementCurrents.get(FAULT_ELEMENT_ID) || ComplexMath.ZERO));
+  }
+
+  // Copy of the netlist with the fault path added, or the faulted branch removed; null when the location is not in the network
+  private static applyFault(netlist: CircuitNetlist, fault: FaultSpec): CircuitNetlist | null {
+    let nodes: number[] = [];
+    let faultedElements: string[] = [];
+
+    if (fault.connectionId) {
+      const wire = netlist.elements.find(e => e.role === 'wire' && e.connectionId === fault.connectionId);
+      if (!wire) return null;
+      nodes = [wire.nodes[0]];
+      faultedElements = [wire.id];
+    } else if (fault.componentId) {
+      nodes = netlist.componentNodes.get(fault.componentId) || [];
+      faultedElements = netlist.elements.filter(e => e.componentId === fault.componentId).map(e => e.id);
+    }
+
+    if (fault.type === 'open-circuit') {
+      if (faultedElements.length === 0) return null;
+      return { ...netlist, elements: netlist.elements.filter(e => !faultedElements.includes(e.id)) };
+    }
+
+    const live = nodes.find(node => node > 0);
+    if (live === undefined) return null;
+    // A bolted short joins the component's own terminals; an earth fault goes from the live terminal to earth
+    const other = fault.type === 'bolted-short' && nodes.length >= 2 && nodes[1] !== live ? nodes[1] : 0;
+    const resistance = fault.resistance && fault.resistance > 0
+      ? fault.resistance
+      : fault.type === 'bolted-short' ? BOLTED_FAULT_RESISTANCE : DEFAULT_EARTH_FAULT_RESISTANCE;
+    const faultElement: NetlistElement = { kind: 'resistor', id: FAULT_ELEMENT_ID, role: 'none', nodes: [live, other], resistance };
+    return { ...netlist, elements: [...netlist.elements, faultElement] };
+  }
+}
@@ -0,0 +1,208 @@
+// Harmonic Distortion from Non-linear Loads
+import type { BusHarmonics, Circuit, Component, HarmonicAnalysis, NeutralHarmonics, PhaseName } from '../types/circuit.types';
+import { CircuitSolver, type CircuitNetlist, type CurrentSource, type InductorElement, type PhasorSolution } from './circuitSolver';
+import { ComplexMath, type Complex } from './complexMath';
+import { PHASES, ThreePhaseSolver, type ThreePhaseSolution } from './threePhaseSolver';
+
+// Harmonic current by order, % of fundamental
+export type HarmonicSpectrum = { [order: number]: number };
+
+// Typical spectra of single-phase rectifier front ends; other appliances are treated as linear
+export const HARMONIC_SPECTRA: { [type: string]: HarmonicSpectrum } = {
+  tv: { 3: 80, 5: 60, 7: 40, 9: 20, 11: 10, 13: 8 }, // switch-mode supply without power factor correction
+  light: { 3: 70, 5: 45, 7: 30, 9: 20, 11: 12, 13: 8 }, // LED drivers
+  microwave: { 3: 40, 5: 20, 7: 10, 9: 5, 11: 3, 13: 2 },
+  ups: { 3: 40, 5: 25, 7: 12, 9: 6, 11: 4, 13: 3 },
+  inverter: { 3: 30, 5: 15, 7: 8, 9: 4, 11: 3, 13: 2 }
+};
+
+// Voltage THD limit at a bus (EN 50160) and current THD above which a bus is flagged (%)
+export const HARMONIC_LIMITS = { maxVoltageTHD: 8, maxCurrentTHD: 20 };
+
+// IEC 60725 reference supply impedance (phase and neutral) for sources that do not state their own (ohms at 50 Hz)
+export const REFERENCE_SUPPLY_RESISTANCE = 0.4;
+export const REFERENCE_SUPPLY_REACTANCE = 0.25;
+
+export class HarmonicAnalyzer {
+  // Spectrum set on the component, or the typical one for its type; an empty spectrum means linear
+  static getSpectrum(component: Component): HarmonicSpectrum {
+    return component.properties.harmonicSpectrum || HARMONIC_SPECTRA[component.type] || {};
+  }
+
+  // Total harmonic distortion as a percentage of the fundamental
+  static calculateTHD(fundamental: number, harmonics: number[]): number {
+    if (!(fundamental > 0)) return 0;
+    return (Math.sqrt(harmonics.reduce((sum, value) => sum + value * value, 0)) / fundamental) * 100;
+  }
+
+  // Non-linear loads become harmonic current sources scaled from their fundamental current; each order is
+  // solved separately with the supply shorted behind its impedance. Null when nothing injects harmonics.
+  static analyze(
+    circuit: Circuit,
+    netlist: CircuitNetlist,
+    frequency: number,
+    fundamental: PhasorSolution,
+    threePhase: ThreePhaseSolution | null
+  ): HarmonicAnalysis | null {
+    if (!(frequency > 0)) return null;
+    const componentMap = new Map(circuit.components.map(c => [c.id, c]));
+    const spectra = new Map<string, HarmonicSpectrum>();
+    netlist.elements.forEach(element => {
+      const component = element.kind === 'load' && element.id === element.componentId ? componentMap.get(element.id) : undefined;
+      if (!component) return;
+      const spectrum = this.getSpectrum(component);
+      if (Object.values(spectrum).some(percent => percent > 0)) spectra.set(element.id, spectrum);
+    });
+    if (spectra.size === 0) return null;
+
+    const orders = [...new Set([...spectra.values()].flatMap(spectrum => Object.keys(spectrum).map(Number)))]
+      .filter(order => Number.isInteger(order) && order > 1)
+      .sort((a, b) => a - b);
+
+    // Single-phase circuits are solved as L1 alone
+    const componentPhases = threePhase ? ThreePhaseSolver.assignPhases(circuit) : null;
+    const phaseOf = (componentId?: string): PhaseName => (componentId && componentPhases?.get(componentId)) || 'L1';
+    const phases: PhaseName[] = threePhase ? PHASES : ['L1'];
+    const fundamentals: Partial<Record<PhaseName, PhasorSolution>> = threePhase ? threePhase.phaseSolutions : { L1: fundamental };
+    const consumers = netlist.elements.filter(e => (e.role === 'load' || e.role === 'passive') && e.componentId);
+    const harmonicNetlist = this.toHarmonicNetlist(netlist, frequency, componentMap);
+
+    // A harmonic of order h follows its fundamental at h times the angle, so triplens of the three phases align
+    const solutions = new Map<number, Partial<Record<PhaseName, PhasorSolution>>>();
+    for (const order of orders) {
+      const byPhase: Partial<Record<PhaseName, PhasorSolution>> = {};
+      for (const phase of phases) {
+        const open = new Set([...spectra.keys(), ...consumers.filter(e => phaseOf(e.componentId) !== phase).map(e => e.id)]);
+        const sources: CurrentSource[] = [];
+        spectra.forEach((spectrum, id) => {
+          const element = netlist.elements.find(e => e.id === id);
+          if (!element || phaseOf(id) !== phase || !(spectrum[order] > 0)) return;
+          const i1 = fundamentals[phase]!.elementCurrents.get(id) || ComplexMath.ZERO;
+          const magnitude = (ComplexMath.magnitude(i1) * spectrum[order]) / 100;
+          sources.push({ nodes: [element.nodes[0], element.nodes[1]], current: ComplexMath.fromPolar(magnitude, order * ComplexMath.phase(i1)) });
+        });
+        const solution = CircuitSolver.solveAC(harmonicNetlist, order * frequency, open, sources);
+        if (!solution) return null;
+        byPhase[phase] = solution;
+      }
+      solutions.set(order, byPhase);
+    }
+
+    const buses = circuit.components
+      .filter(c => ['source', 'bus'].includes(netlist.roles.get(c.id) || '') && netlist.componentNodes.has(c.id))
+      .map((component): BusHarmonics => {
+        const phase = phaseOf(component.id);
+        const nodes = netlist.componentNodes.get(component.id)!;
+        const isSource = netlist.roles.get(component.id) === 'source';
+        // Buses are measured to earth; sources across their terminals
+        const voltage = (solution: PhasorSolution) => ComplexMath.magnitude(ComplexMath.subtract(
+          solution.nodeVoltages[nodes[0]] || ComplexMath.ZERO,
+          isSource ? solution.nodeVoltages[nodes[1] ?? 0] || ComplexMath.ZERO : ComplexMath.ZERO
+        ));
+        const feeders = isSource ? [] : this.getFeeders(netlist, fundamentals[phase]!, nodes[0]);
+        const current = (solution: PhasorSolution) => {
+          if (isSource) return ComplexMath.magnitude(solution.elementCurrents.get(component.id) || ComplexMath.ZERO);
+          const total = feeders.reduce<Complex>(
+            (sum, { id, sign }) => ComplexMath.add(sum, ComplexMath.scale(solution.elementCurrents.get(id) || ComplexMath.ZERO, sign)),
+            ComplexMath.ZERO
+          );
+          return ComplexMath.magnitude(total);
+        };
+
+        const harmonics = orders.map(order => {
+          const solution = solutions.get(order)![phase]!;
+          return { order, voltage: voltage(solution), current: current(solution) };
+        });
+        const fundamentalVoltage = voltage(fundamentals[phase]!);
+        const fundamentalCurrent = current(fundamentals[phase]!);
+        return {
+          componentId: component.id,
+          phase: threePhase ? phase : undefined,
+          fundamentalVoltage,
+          fundamentalCurrent,
+          voltageTHD: this.calculateTHD(fundamentalVoltage, harmonics.map(h => h.voltage)),
+          currentTHD: this.calculateTHD(fundamentalCurrent, harmonics.map(h => h.current)),
+          harmonics
+        };
+      });
+
+    const result: HarmonicAnalysis = { orders, sources: [...spectra.keys()], buses };
+    if (threePhase) result.neutral = this.getNeutralHarmonics(netlist, threePhase, orders, solutions);
+    return result;
+  }
+
+  // Neutral and phase currents at the supply, summing each order as phasors over the three phases
+  private static getNeutralHarmonics(
+    netlist: CircuitNetlist,
+    threePhase: ThreePhaseSolution,
+    orders: number[],
+    solutions: Map<number, Partial<Record<PhaseName, PhasorSolution>>>
+  ): NeutralHarmonics {
+    const supplies = netlist.elements.filter(e => e.kind === 'voltage-source' && e.role === 'source').map(e => e.id);
+    const delivered = (solution: PhasorSolution) => supplies.reduce<Complex>(
+      (sum, id) => ComplexMath.subtract(sum, solution.elementCurrents.get(id) || ComplexMath.ZERO),
+      ComplexMath.ZERO
+    );
+
+    const neutralByOrder = orders.map(order => {
+      const byPhase = solutions.get(order)!;
+      return { order, current: ComplexMath.magnitude(PHASES.reduce((sum, phase) => ComplexMath.add(sum, delivered(byPhase[phase]!)), ComplexMath.ZERO)) };
+    });
+    const fundamentalCurrent = threePhase.analysis.neutralCurrent;
+    const phaseCurrents = {} as { [phase in PhaseName]: number };
+    PHASES.forEach(phase => {
+      const harmonics = orders.map(order => ComplexMath.magnitude(delivered(solutions.get(order)![phase]!)));
+      phaseCurrents[phase] = Math.sqrt(threePhase.analysis.phases[phase].current ** 2 + harmonics.reduce((sum, i) => sum + i * i, 0));
+    });
+
+    return {
+      fundamentalCurrent,
+      triplenCurrent: Math.sqrt(neutralByOrder.filter(h => h.order % 3 === 0).reduce((sum, h) => sum + h.current ** 2, 0)),
+      rmsCurrent: Math.sqrt(fundamentalCurrent ** 2 + neutralByOrder.reduce((sum, h) => sum + h.current ** 2, 0)),
+      phaseCurrents
+    };
+  }
+
+  // Wires whose fundamental current flows into a node, signed so their currents add as the node's supply
+  private static getFeeders(netlist: CircuitNetlist, solution: PhasorSolution, node: number): { id: string; sign: number }[] {
+    const direction = solution.nodeVoltages[node] || ComplexMath.ZERO;
+    return netlist.elements
+      .filter(element => element.role === 'wire' && (element.nodes[0] === node || element.nodes[1] === node))
+      .map(element => {
+        const sign = element.nodes[1] === node ? 1 : -1;
+        const entering = ComplexMath.scale(solution.elementCurrents.get(element.id) || ComplexMath.ZERO, sign);
+        return { id: element.id, sign, supplying: ComplexMath.multiply(entering, ComplexMath.conjugate(direction)).re > 0 };
+      })
+      .filter(feeder => feeder.supplying)
+      .map(({ id, sign }) => ({ id, sign }));
+  }
+
+  // Supplies become their series impedance and appliance impedances are split into R and L so reactance scales with order
+  private static toHarmonicNetlist(netlist: CircuitNetlist, frequency: number, componentMap: Map<string, Component>): CircuitNetlist {
+    const omega = 2 * Math.PI * frequency;
+    const elements = netlist.elements.map(element => {
+      if (element.kind === 'voltage-source') {
+        const source = element.componentId ? componentMap.get(element.componentId) : undefined;
+        // A stated internal resistance is already in the netlist as its own resistor
+        const hasInternalResistance = !!source?.properties.resistance && source.properties.resistance > 0;
+        const supply: InductorElement = {
+          kind: 'inductor',
+          id: element.id,
+          componentId: element.componentId,
+          role: element.role,
+          nodes: element.nodes,
+          resistance: hasInternalResistance ? 0 : REFERENCE_SUPPLY_RESISTANCE,
+          inductance: REFERENCE_SUPPLY_REACTANCE / omega
+        };
+        return supply;
+      }
+      if (element.kind === 'load') {
+        const impedance = CircuitSolver.getLoadImpedance(element, frequency);
+        const load: InductorElement = { ...element, kind: 'inductor', resistance: impedance.re, inductance: impedance.im / omega };
+        return load;
+      }
+      return element;
+    });
+    return { ...netlist, elements };
+  }
+}
@@ -0,0 +1,183 @@
+// Daily and Weekly Load Profile and Energy Consumption
+import type { ApplianceEnergy, Circuit, CircuitIssue, Component, LoadProfileOptions, LoadProfileResult, OperatingPeriod } from '../types/circuit.types';
+import { CircuitSolver } from './circuitSolver';
+import { ElectricalCalculations } from './electricalCalculations';
+import { ProtectionCurves } from './protectionCurves';
+import { ThreePhaseSolver } from './threePhaseSolver';
+
+export interface UsagePattern {
+  schedule: OperatingPeriod[];
+  dutyCycle: number;
+}
+
+const WEEKDAYS = [0, 1, 2, 3, 4];
+const WEEKEND = [5, 6];
+
+// Typical household use by appliance type; thermostatic appliances cycle while scheduled on
+export const DEFAULT_USAGE: { [type: string]: UsagePattern } = {
+  light: { schedule: [{ start: 6, end: 7.5 }, { start: 18, end: 23 }], dutyCycle: 1 },
+  fan: { schedule: [{ start: 13, end: 17 }, { start: 22, end: 6 }], dutyCycle: 1 },
+  tv: { schedule: [{ start: 19, end: 23 }, { start: 10, end: 13, days: WEEKEND }], dutyCycle: 1 },
+  ac: { schedule: [{ start: 13, end: 17 }, { start: 21, end: 1 }], dutyCycle: 0.6 },
+  heater: { schedule: [{ start: 6, end: 8 }, { start: 18, end: 22 }], dutyCycle: 0.7 },
+  motor: { schedule: [{ start: 8, end: 17, days: WEEKDAYS }], dutyCycle: 0.8 },
+  refrigerator: { schedule: [{ start: 0, end: 24 }], dutyCycle: 0.35 },
+  'washing-machine': { schedule: [{ start: 9, end: 10.5, days: [2, 5] }], dutyCycle: 0.5 },
+  microwave: { schedule: [{ start: 7, end: 7.25 }, { start: 19, end: 19.5 }], dutyCycle: 1 },
+  dishwasher: { schedule: [{ start: 20, end: 21.5 }], dutyCycle: 0.6 },
+  'water-heater': { schedule: [{ start: 5.5, end: 7.5 }, { start: 18, end: 20 }], dutyCycle: 0.8 },
+  'electric-stove': { schedule: [{ start: 7, end: 7.5 }, { start: 12, end: 13 }, { start: 18.5, end: 19.5 }], dutyCycle: 0.6 },
+  'electric-oven': { schedule: [{ start: 18, end: 19 }], dutyCycle: 0.5 },
+  'heat-pump': { schedule: [{ start: 0, end: 24 }], dutyCycle: 0.4 },
+  'electric-boiler': { schedule: [{ start: 6, end: 9 }, { start: 17, end: 22 }], dutyCycle: 0.6 },
+  ups: { schedule: [{ start: 0, end: 24 }], dutyCycle: 1 },
+  inverter: { schedule: [{ start: 0, end: 24 }], dutyCycle: 1 }
+};
+
+// Appliances with no typical pattern are assumed to run continuously
+const CONTINUOUS_USAGE: UsagePattern = { schedule: [{ start: 0, end: 24 }], dutyCycle: 1 };
+export const MAX_PROFILE_DAYS = 7;
+
+export class LoadProfileSimulator {
+  // Schedule and duty cycle set on the appliance, falling back to the typical pattern for its type
+  static getUsage(component: Component): UsagePattern {
+    const defaults = DEFAULT_USAGE[component.type] || CONTINUOUS_USAGE;
+    const dutyCycle = component.properties.dutyCycle ?? defaults.dutyCycle;
+    return {
+      schedule: component.properties.schedule || defaults.schedule,
+      dutyCycle: Math.min(Math.max(dutyCycle, 0), 1)
+    };
+  }
+
+  // Step through the run, averaging each appliance's solved power over every demand interval
+  static simulate(circuit: Circuit, options: LoadProfileOptions): LoadProfileResult {
+    const issues: CircuitIssue[] = [];
+    const days = Math.min(Math.max(Math.round(options.days) || 1, 1), MAX_PROFILE_DAYS);
+    const stepHours = Math.min(Math.max(options.stepMinutes || 60, 1), 24 * 60) / 60;
+    const steps = Math.ceil((days * 24) / stepHours);
+
+    // Rated power is the active power each appliance draws in the solved circuit, so switched-off loads draw nothing
+    const analysis = ElectricalCalculations.analyzeCircuit(circuit);
+    const appliances = circuit.components.filter(c =>
+      CircuitSolver.getComponentRole(c, circuit) === 'load' && c.type !== 'voltmeter' && (c.properties.powerConsumption || 0) > 0
+    );
+    const loads = appliances.map(component => {
+      const usage = this.getUsage(component);
+      return {
+        component,
+        power: Math.max(0, analysis.power[component.id] || 0),
+        dutyCycle: usage.dutyCycle,
+        intervals: this.getRunningIntervals(usage.schedule, days)
+      };
+    });
+
+    const time: number[] = [];
+    const demand: number[] = [];
+    const energy = new Map<string, number>();
+    const applianceDemand = new Map<string, number[]>(loads.map(load => [load.component.id, []]));
+    for (let step = 0; step < steps; step++) {
+      const from = step * stepHours;
+      const to = Math.min(from + stepHours, days * 24);
+      let watts = 0;
+      loads.forEach(load => {
+        const running = this.getOverlap(load.intervals, from, to) * load.dutyCycle;
+        watts += load.power * (running / (to - from));
+        applianceDemand.get(load.component.id)!.push((load.power * running) / (to - from) / 1000);
+        energy.set(load.component.id, (energy.get(load.component.id) || 0) + (load.power * running) / 1000);
+      });
+      time.push(from);
+      demand.push(watts / 1000);
+    }
+
+    const peakDemand = Math.max(0, ...demand);
+    const peakIndex = demand.indexOf(peakDemand);
+    const connectedLoad = loads.reduce((sum, load) => sum + load.power, 0) / 1000;
+    const totalEnergy = [...energy.values()].reduce((sum, kWh) => sum + kWh, 0);
+    const averageDemand = totalEnergy / (days * 24);
+
+    // Main protection sized per phase on the coincident peak rather than the connected sum
+    const phases = ThreePhaseSolver.isThreePhase(circuit) ? 3 : 1;
+    const voltage = circuit.metadata?.voltage && circuit.metadata.voltage > 0 ? circuit.metadata.voltage : 230;
+    const powerFactor = analysis.powerFactor && analysis.powerFactor > 0 ? analysis.powerFactor : 0.8;
+    const recommendedMainRating = ElectricalCalculations.calculateMCBRating((peakDemand * 1000) / phases, voltage, powerFactor);
+    const connectedRating = ElectricalCalculations.calculateMCBRating((connectedLoad * 1000) / phases, voltage, powerFactor);
+
+    const result: LoadProfileResult = {
+      options: { days, stepMinutes: stepHours * 60 },
+      time,
+      demand,
+      peakDemand,
+      peakTime: peakIndex >= 0 ? time[peakIndex] : 0,
+      connectedLoad,
+      coincidenceFactor: connectedLoad > 0 ? peakDemand / connectedLoad : 0,
+      loadFactor: peakDemand > 0 ? averageDemand / peakDemand : 0,
+      totalEnergy,
+      appliances: loads.map((load): ApplianceEnergy => ({
+        componentId: load.component.id,
+        type: load.component.type,
+        ratedPower: load.power,
+        operatingHours: load.power > 0 ? ((energy.get(load.component.id) || 0) * 1000) / load.power : 0,
+        energy: energy.get(load.component.id) || 0,
+        demand: applianceDemand.get(load.component.id) || []
+      })),
+      recommendedMainRating,
+      issues
+    };
+
+    if (connectedLoad > 0 && recommendedMainRating < connectedRating) {
+      issues.push({
+        id: 'demand-diversity',
+        type: 'info',
+        severity: 'low',
+        message: `Peak demand is ${peakDemand.toFixed(2)}kW, ${(result.coincidenceFactor * 100).toFixed(0)}% of the ${connectedLoad.toFixed(2)}kW connected load`,
+        recommendation: `Size the service and main protection on peak demand: ${recommendedMainRating}A instead of ${connectedRating}A for the connected load`
+      });
+    }
+
+    const mainDevices = circuit.components.filter(c => ProtectionCurves.isOvercurrentDevice(c));
+    const mainRating = mainDevices.length > 0 ? Math.max(...mainDevices.map(c => ProtectionCurves.getRating(c))) : 0;
+    const peakCurrent = (peakDemand * 1000) / phases / (voltage * powerFactor);
+    if (mainRating > 0 && peakCurrent > mainRating) {
+      issues.push({
+        id: 'peak-demand-exceeds-main',
+        type: 'error',
+        severity: 'high',
+        message: `Peak demand draws ${peakCurrent.toFixed(1)}A per phase, more than the ${mainRating}A main protection`,
+        recommendation: `Upgrade the main protection and service to ${recommendedMainRating}A or shift loads out of the peak`
+      });
+    }
+
+    return result;
+  }
+
+  // Absolute running intervals (hours from Monday 00:00) including periods carried over midnight from the day before
+  private static getRunningIntervals(schedule: OperatingPeriod[], days: number): [number, number][] {
+    const intervals: [number, number][] = [];
+    for (let day = -1; day < days; day++) {
+      const weekday = (day + 7) % 7;
+      schedule.forEach(period => {
+        if (period.days && !period.days.includes(weekday)) return;
+        const start = day * 24 + period.start;
+        const end = day * 24 + (period.end > period.start ? period.end : period.end + 24);
+        intervals.push([start, end]);
+      });
+    }
+    return intervals;
+  }
+
+  // Hours between from and to covered by the intervals, counting overlapping periods once
+  private static getOverlap(intervals: [number, number][], from: number, to: number): number {
+    const clipped = intervals
+      .map(([start, end]): [number, number] => [Math.max(start, from), Math.min(end, to)])
+      .filter(([start, end]) => end > start)
+      .sort((a, b) => a[0] - b[0]);
+    let covered = 0;
+    let reached = from;
+    clipped.forEach(([start, end]) => {
+      if (end <= reached) return;
+      covered += end - Math.max(start, reached);
+      reached = end;
+    });
+    return covered;
+  }
+}
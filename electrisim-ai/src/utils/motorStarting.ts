@@ -0,0 +1,260 @@
+// Motor Starting: Inrush Current, Voltage Dip and Nuisance Tripping
+import type { BusVoltageDip, Circuit, CircuitIssue, Component, MotorStartEvent, MotorStartOptions, MotorStartStudy, NuisanceTripCheck } from '../types/circuit.types';
+import { CircuitSolver, type CircuitNetlist, type LoadElement, type PhasorSolution } from './circuitSolver';
+import { ComplexMath } from './complexMath';
+import { ElectricalCalculations } from './electricalCalculations';
+import { ProtectionCurves } from './protectionCurves';
+import { ShortCircuitAnalyzer } from './shortCircuit';
+import { ThreePhaseSolver } from './threePhaseSolver';
+
+// Locked-rotor current as a multiple of running current, time to reach speed and power factor while stalled
+export interface StartingProfile {
+  multiple: number;
+  duration: number; // seconds
+  powerFactor: number;
+}
+
+type MotorType = NonNullable<Component['properties']['motorType']>;
+type CompressorType = NonNullable<Component['properties']['compressorType']>;
+
+// Direct-on-line induction motors draw 6-8×In; electronically commutated drives limit their inrush
+export const MOTOR_STARTING_PROFILES: { [type in MotorType]: StartingProfile } = {
+  induction: { multiple: 6, duration: 1, powerFactor: 0.35 },
+  brushless: { multiple: 2, duration: 0.2, powerFactor: 0.9 },
+  stepper: { multiple: 1.5, duration: 0.05, powerFactor: 0.9 }
+};
+
+// Hermetic compressors start against head pressure; scroll and rotary designs start more softly
+export const COMPRESSOR_STARTING_PROFILES: { [type in CompressorType]: StartingProfile } = {
+  reciprocating: { multiple: 6, duration: 0.4, powerFactor: 0.4 },
+  rotary: { multiple: 5, duration: 0.3, powerFactor: 0.45 },
+  scroll: { multiple: 4, duration: 0.3, powerFactor: 0.5 }
+};
+
+// Appliances with a motor or compressor, and the profile used when their motor/compressor type is not set
+const APPLIANCE_DEFAULTS: { [type: string]: { motor?: MotorType; compressor?: CompressorType; profile?: StartingProfile } } = {
+  motor: { motor: 'induction' },
+  ac: { compressor: 'rotary' },
+  refrigerator: { compressor: 'reciprocating' },
+  'heat-pump': { compressor: 'scroll' },
+  'washing-machine': { profile: { multiple: 3, duration: 1, powerFactor: 0.6 } },
+  fan: { profile: { multiple: 2, duration: 0.5, powerFactor: 0.6 } }
+};
+
+// Seconds between starts in staggered mode when none is given
+export const DEFAULT_STAGGER_INTERVAL = 2;
+// Voltage dip (%) above which lights flicker visibly and contactors may drop out
+export const MAX_STARTING_VOLTAGE_DIP = 10;
+const SEVERE_STARTING_VOLTAGE_DIP = 20;
+
+// Operating state of each motor between two consecutive start/finish instants
+interface StartingStage {
+  time: number;
+  duration: number;
+  starting: string[];
+  pending: string[];
+}
+
+export class MotorStartingSimulator {
+  // Starting profile of a motor-driven appliance, with per-component overrides; null for other components
+  static getStartingProfile(component: Component): StartingProfile | null {
+    const defaults = APPLIANCE_DEFAULTS[component.type];
+    if (!defaults) return null;
+    const { motorType, compressorType, lockedRotorMultiple, startDuration } = component.properties;
+    const profile = (component.type === 'motor' && motorType && MOTOR_STARTING_PROFILES[motorType])
+      || (compressorType && defaults.compressor && COMPRESSOR_STARTING_PROFILES[compressorType])
+      || defaults.profile
+      || (defaults.compressor && COMPRESSOR_STARTING_PROFILES[defaults.compressor])
+      || (defaults.motor && MOTOR_STARTING_PROFILES[defaults.motor]);
+    if (!profile) return null;
+    return {
+      ...profile,
+      multiple: lockedRotorMultiple && lockedRotorMultiple > 0 ? lockedRotorMultiple : profile.multiple,
+      duration: startDuration && startDuration > 0 ? startDuration : profile.duration
+    };
+  }
+
+  // Start every motor at once or one after another, solving the network in each interval of the sequence
+  static simulate(circuit: Circuit, options: MotorStartOptions): MotorStartStudy {
+    const issues: CircuitIssue[] = [];
+    const result: MotorStartStudy = { options, motors: [], buses: [], devices: [], issues };
+
+    // A stiff ideal supply would show no dip, so sources without an internal resistance get a typical one
+    const studied = ShortCircuitAnalyzer.withSourceImpedance(circuit);
+    const netlist = CircuitSolver.buildNetlist(studied);
+    const analysisMode = ElectricalCalculations.getAnalysisMode(studied);
+
+    const profiles = new Map<string, StartingProfile>();
+    studied.components.forEach(component => {
+      const profile = this.getStartingProfile(component);
+      if (profile && netlist.elements.some(e => e.kind === 'load' && e.id === component.id)) profiles.set(component.id, profile);
+    });
+    if (profiles.size === 0) {
+      issues.push({
+        id: 'motor-start-no-motors',
+        type: 'info',
+        severity: 'low',
+        message: 'No connected motor-driven appliances with a power rating to start',
+        recommendation: 'Add a motor, AC, refrigerator, heat pump or washing machine with its power consumption set'
+      });
+      return result;
+    }
+
+    const interval = options.staggerInterval && options.staggerInterval > 0 ? options.staggerInterval : DEFAULT_STAGGER_INTERVAL;
+    const schedule = [...profiles.entries()].map(([componentId, profile], index) => ({
+      componentId,
+      profile,
+      startTime: options.mode === 'staggered' ? index * interval : 0
+    }));
+    const stages = this.buildStages(schedule.map(s => ({ componentId: s.componentId, start: s.startTime, end: s.startTime + s.profile.duration })));
+
+    const solutions = stages.map(stage => ThreePhaseSolver.solvePhasor(studied, this.applyStage(netlist, stage, profiles, analysisMode.frequency), analysisMode));
+    const running = ThreePhaseSolver.solvePhasor(studied, netlist, analysisMode);
+    if (!running || solutions.some(solution => !solution)) {
+      issues.push({
+        id: 'motor-start-singular',
+        type: 'error',
+        severity: 'critical',
+        message: 'Circuit equations could not be solved during the starting sequence',
+        recommendation: 'Check for voltage sources connected in parallel or loops of ideal sources'
+      });
+      return result;
+    }
+
+    const current = (solution: PhasorSolution, id: string) => ComplexMath.magnitude(solution.elementCurrents.get(id) || ComplexMath.ZERO);
+    const voltage = (solution: PhasorSolution, id: string) => {
+      const nodes = netlist.componentNodes.get(id) || [0];
+      const across = ComplexMath.subtract(solution.nodeVoltages[nodes[0]] || ComplexMath.ZERO, solution.nodeVoltages[nodes[1] ?? 0] || ComplexMath.ZERO);
+      return ComplexMath.magnitude(across);
+    };
+
+    result.motors = schedule.map(({ componentId, profile, startTime }): MotorStartEvent => ({
+      componentId,
+      type: studied.components.find(c => c.id === componentId)!.type,
+      startTime,
+      duration: profile.duration,
+      lockedRotorMultiple: profile.multiple,
+      runningCurrent: current(running, componentId),
+      startingCurrent: Math.max(0, ...stages.map((stage, i) => (stage.starting.includes(componentId) ? current(solutions[i]!, componentId) : 0)))
+    }));
+
+    // Each dip is measured from the last interval in which nothing was starting
+    const monitored = studied.components.filter(c => ['bus', 'load'].includes(netlist.roles.get(c.id) || '') && netlist.componentNodes.has(c.id));
+    result.buses = monitored
+      .map((component): BusVoltageDip | null => {
+        let reference = 0;
+        let deepest: BusVoltageDip | null = null;
+        stages.forEach((stage, i) => {
+          const v = voltage(solutions[i]!, component.id);
+          if (stage.starting.length === 0) {
+            reference = v;
+            return;
+          }
+          if (reference <= 1) return;
+          const dipPercent = ((reference - v) / reference) * 100;
+          if (!deepest || dipPercent > deepest.dipPercent) {
+            deepest = { componentId: component.id, type: component.type, preStartVoltage: reference, minVoltage: v, dipPercent, time: stage.time };
+          }
+        });
+        return deepest;
+      })
+      .filter((dip): dip is BusVoltageDip => dip !== null);
+
+    result.devices = studied.components
+      .filter(c => ProtectionCurves.isOvercurrentDevice(c) && netlist.elements.some(e => e.id === c.id))
+      .map((component): NuisanceTripCheck => {
+        const check: NuisanceTripCheck = {
+          componentId: component.id,
+          label: ProtectionCurves.getLabel(component),
+          rating: ProtectionCurves.getRating(component),
+          peakCurrent: 0,
+          peakDuration: 0,
+          tripTime: null,
+          mayTrip: false,
+          willTrip: false
+        };
+        const stageCurrents = stages.map((_, i) => current(solutions[i]!, component.id));
+        stages.forEach((stage, i) => {
+          if (stage.starting.length === 0) return;
+          // Back-to-back starting intervals are one exposure: the device carries at least their lowest current throughout
+          let windowCurrent = Infinity;
+          let windowDuration = 0;
+          for (let j = i; j < stages.length && stages[j].starting.length > 0; j++) {
+            windowCurrent = Math.min(windowCurrent, stageCurrents[j]);
+            windowDuration += stages[j].duration;
+            const band = ProtectionCurves.getTripBand(component, windowCurrent);
+            if (band.minTime !== null && band.minTime <= windowDuration) check.mayTrip = true;
+            if (band.maxTime !== null && band.maxTime <= windowDuration) check.willTrip = true;
+          }
+          if (stageCurrents[i] > check.peakCurrent) {
+            check.peakCurrent = stageCurrents[i];
+            check.peakDuration = stage.duration;
+            check.tripTime = ProtectionCurves.getTripBand(component, stageCurrents[i]).minTime;
+          }
+        });
+        return check;
+      });
+
+    result.buses
+      .filter(dip => dip.dipPercent > MAX_STARTING_VOLTAGE_DIP)
+      .forEach(dip => {
+        issues.push({
+          id: `motor-start-voltage-dip-${dip.componentId}`,
+          type: 'warning',
+          severity: dip.dipPercent > SEVERE_STARTING_VOLTAGE_DIP ? 'high' : 'medium',
+          componentId: dip.componentId,
+          message: `Voltage at ${dip.componentId} dips ${dip.dipPercent.toFixed(1)}% (${dip.preStartVoltage.toFixed(0)}V to ${dip.minVoltage.toFixed(0)}V) while motors start`,
+          recommendation: options.mode === 'simultaneous'
+            ? 'Stagger the motor starts or fit soft starters to the largest motors'
+            : 'Fit a soft starter or star-delta starter, or increase the supply cable size'
+        });
+      });
+
+    result.devices
+      .filter(check => check.mayTrip)
+      .forEach(check => {
+        issues.push({
+          id: `motor-start-nuisance-trip-${check.componentId}`,
+          type: check.willTrip ? 'error' : 'warning',
+          severity: check.willTrip ? 'critical' : 'high',
+          componentId: check.componentId,
+          message: `${check.componentId} (${check.label}) ${check.willTrip ? 'will' : 'may'} trip on the ${check.peakCurrent.toFixed(1)}A starting current`,
+          recommendation: 'Use a C or D curve MCB or a time-delay fuse, or reduce the inrush with staggered or soft starts'
+        });
+      });
+
+    return result;
+  }
+
+  // Split the sequence at every start and finish; a leading interval has every motor still stopped
+  private static buildStages(starts: { componentId: string; start: number; end: number }[]): StartingStage[] {
+    const instants = [...new Set(starts.flatMap(s => [s.start, s.end]))].sort((a, b) => a - b);
+    const stages: StartingStage[] = [{ time: 0, duration: 0, starting: [], pending: starts.map(s => s.componentId) }];
+    instants.forEach((time, index) => {
+      stages.push({
+        time,
+        duration: index < instants.length - 1 ? instants[index + 1] - time : 0,
+        starting: starts.filter(s => s.start <= time && time < s.end).map(s => s.componentId),
+        pending: starts.filter(s => time < s.start).map(s => s.componentId)
+      });
+    });
+    return stages;
+  }
+
+  // Copy of the netlist with pending motors switched off and starting motors at their locked-rotor impedance
+  private static applyStage(netlist: CircuitNetlist, stage: StartingStage, profiles: Map<string, StartingProfile>, frequency: number): CircuitNetlist {
+    const elements = netlist.elements
+      .filter(element => !stage.pending.includes(element.id))
+      .map(element => {
+        const profile = profiles.get(element.id);
+        if (element.kind !== 'load' || !profile || !stage.starting.includes(element.id)) return element;
+        // |Z| = V²·pf/P at AC and V²/P at DC, so scale P to divide the impedance by the locked-rotor multiple
+        const ratedPower = frequency > 0
+          ? element.ratedPower * profile.multiple * (profile.powerFactor / Math.min(Math.max(element.powerFactor, 0.01), 1))
+          : element.ratedPower * profile.multiple;
+        const lockedRotor: LoadElement = { ...element, ratedPower, powerFactor: profile.powerFactor };
+        return lockedRotor;
+      });
+    return { ...netlist, elements };
+  }
+}
@@ -0,0 +1,224 @@
+// Grid Outage: UPS and Inverter Backup Runtime
+import type { BackupSourceResult, Circuit, CircuitIssue, Component, OutageLoad, OutageStudy } from '../types/circuit.types';
+import { CircuitSolver, type CircuitNetlist, type PhasorSolution, type VoltageSourceElement } from './circuitSolver';
+import { ComplexMath } from './complexMath';
+import { ElectricalCalculations } from './electricalCalculations';
+
+// Conversion efficiency (%) when the component does not state one
+export const DEFAULT_BACKUP_EFFICIENCY: { [type: string]: number } = { ups: 85, inverter: 90 };
+
+// Lead-acid battery model: capacity is rated over a 20-hour discharge, Peukert's law shortens it at higher currents,
+// and only part of it is used before the low-voltage cut-off
+export const BATTERY_RATED_HOURS = 20;
+export const PEUKERT_EXPONENT = 1.15;
+export const USABLE_BATTERY_FRACTION = 0.8;
+
+// Loads below this fraction of the backup output voltage are considered to have dropped out
+const RUNNING_VOLTAGE_FRACTION = 0.5;
+
+export class OutageSimulator {
+  // DC battery bus voltage, stated or typical for the unit's size
+  static getBatteryVoltage(component: Component): number {
+    if (component.properties.inputVoltage && component.properties.inputVoltage > 0) return component.properties.inputVoltage;
+    const rating = this.getRating(component) || 0;
+    if (rating <= 1000) return 12;
+    if (rating <= 3000) return 24;
+    return 48;
+  }
+
+  // Rated output in VA (W for units rated in watts); null when the component has no usable rating
+  static getRating(component: Component): number | null {
+    if (!(component.value > 0)) return null;
+    if (component.unit === 'kVA' || component.unit === 'kW') return component.value * 1000;
+    if (component.unit === 'VA' || component.unit === 'W') return component.value;
+    return null;
+  }
+
+  // Inverters are often rated in watts rather than volt-amperes
+  static isRatedInWatts(component: Component): boolean {
+    return component.unit === 'W' || component.unit === 'kW';
+  }
+
+  // Minutes a battery lasts at a constant discharge current
+  static calculateRuntime(capacity: number, current: number): number {
+    if (!(capacity > 0)) return 0;
+    if (!(current > 0)) return Infinity;
+    const hours = BATTERY_RATED_HOURS * Math.pow(capacity / (current * BATTERY_RATED_HOURS), PEUKERT_EXPONENT);
+    return hours * USABLE_BATTERY_FRACTION * 60;
+  }
+
+  // Disconnect the mains and let every UPS/inverter wired in line carry its downstream loads from its battery
+  static simulate(circuit: Circuit): OutageStudy {
+    const issues: CircuitIssue[] = [];
+    const result: OutageStudy = { backups: [], loads: [], issues };
+    const netlist = CircuitSolver.buildNetlist(circuit);
+
+    const backups = circuit.components.filter(c => (c.type === 'ups' || c.type === 'inverter') && netlist.roles.get(c.id) === 'inline');
+    circuit.components
+      .filter(c => (c.type === 'ups' || c.type === 'inverter') && netlist.roles.get(c.id) === 'load')
+      .forEach(component => {
+        issues.push({
+          id: `outage-backup-standalone-${component.id}`,
+          type: 'info',
+          severity: 'low',
+          componentId: component.id,
+          message: `${component.id} is connected as an appliance and protects no loads`,
+          recommendation: 'Wire the loads to be backed up from its output so they stay powered during an outage'
+        });
+      });
+    if (backups.length === 0) {
+      issues.push({
+        id: 'outage-no-backup',
+        type: 'warning',
+        severity: 'medium',
+        message: 'Every load loses power in an outage: no UPS or inverter feeds downstream loads',
+        recommendation: 'Add a UPS or inverter between the protection and the loads that must keep running'
+      });
+    }
+
+    // Backup output is AC at the inverter's own frequency, whatever the mains is
+    const { frequency: mainsFrequency } = ElectricalCalculations.getAnalysisMode(circuit);
+    const frequencyOf = (component: Component) => component.properties.outputFrequency || mainsFrequency || 50;
+
+    const solve = (active: Component[]): PhasorSolution | null => {
+      const frequency = active.length > 0 ? frequencyOf(active[0]) : mainsFrequency || 50;
+      return CircuitSolver.solveAC(this.toOutageNetlist(netlist, backups, active), frequency);
+    };
+    const combined = solve(backups);
+    const individual = backups.map(backup => solve([backup]));
+    if (!combined || individual.some(solution => !solution)) {
+      issues.push({
+        id: 'outage-singular',
+        type: 'error',
+        severity: 'critical',
+        message: 'Circuit equations could not be solved with the mains disconnected',
+        recommendation: 'Check for UPS or inverter outputs connected in parallel'
+      });
+      return result;
+    }
+
+    // Each load is credited to the backup that keeps it energized on its own
+    const loadElements = netlist.elements.filter(e => e.kind === 'load' && e.componentId);
+    const across = (solution: PhasorSolution, nodes: number[]) =>
+      ComplexMath.subtract(solution.nodeVoltages[nodes[0]] || ComplexMath.ZERO, solution.nodeVoltages[nodes[1]] || ComplexMath.ZERO);
+    result.loads = loadElements.map((element): OutageLoad => {
+      const voltage = across(combined, element.nodes);
+      const current = combined.elementCurrents.get(element.id) || ComplexMath.ZERO;
+      const backupIndex = backups.findIndex((backup, index) => {
+        const output = backup.properties.operatingVoltage || netlist.supplyVoltage;
+        return ComplexMath.magnitude(across(individual[index]!, element.nodes)) >= output * RUNNING_VOLTAGE_FRACTION;
+      });
+      return {
+        componentId: element.componentId!,
+        backupId: backupIndex >= 0 ? backups[backupIndex].id : null,
+        voltage: ComplexMath.magnitude(voltage),
+        power: ComplexMath.multiply(voltage, ComplexMath.conjugate(current)).re
+      };
+    });
+
+    result.backups = backups.map((component): BackupSourceResult => {
+      // Source current flows + to - inside the source, so the output current is its negative
+      const output = ComplexMath.negate(combined.elementCurrents.get(component.id) || ComplexMath.ZERO);
+      const voltage = combined.nodeVoltages[netlist.componentNodes.get(component.id)![1]] || ComplexMath.ZERO;
+      const outputPower = Math.max(0, ComplexMath.multiply(voltage, ComplexMath.conjugate(output)).re);
+      const apparentPower = ComplexMath.magnitude(voltage) * ComplexMath.magnitude(output);
+      const rating = this.getRating(component);
+      const loading = rating ? ((this.isRatedInWatts(component) ? outputPower : apparentPower) / rating) * 100 : null;
+      const efficiency = component.properties.efficiency && component.properties.efficiency > 0
+        ? Math.min(component.properties.efficiency, 100)
+        : DEFAULT_BACKUP_EFFICIENCY[component.type];
+      const batteryVoltage = this.getBatteryVoltage(component);
+      const batteryCapacity = component.properties.batteryCapacity && component.properties.batteryCapacity > 0 ? component.properties.batteryCapacity : null;
+      const batteryCurrent = outputPower / (efficiency / 100) / batteryVoltage;
+
+      return {
+        componentId: component.id,
+        type: component.type,
+        outputPower,
+        apparentPower,
+        rating,
+        loading,
+        batteryVoltage,
+        batteryCapacity,
+        efficiency,
+        batteryCurrent,
+        runtime: batteryCapacity ? this.calculateRuntime(batteryCapacity, batteryCurrent) : null,
+        backupTime: component.properties.backupTime && component.properties.backupTime > 0 ? component.properties.backupTime : null,
+        protectedLoads: result.loads.filter(load => load.backupId === component.id).map(load => load.componentId)
+      };
+    });
+
+    result.backups.forEach(backup => {
+      const component = backups.find(c => c.id === backup.componentId)!;
+      if (backup.loading !== null && backup.loading > 100) {
+        issues.push({
+          id: `outage-backup-overload-${backup.componentId}`,
+          type: 'error',
+          severity: 'high',
+          componentId: backup.componentId,
+          message: `${backup.componentId} is loaded to ${backup.loading.toFixed(0)}% of its rating on battery and will shut down or transfer to a dead bypass`,
+          recommendation: `Use a unit rated at least ${Math.ceil((backup.loading / 100) * backup.rating! / 100) * 100}${this.isRatedInWatts(component) ? 'W' : 'VA'} or move non-essential loads off its output`
+        });
+      }
+      if (backup.runtime === null) {
+        issues.push({
+          id: `outage-backup-no-battery-${backup.componentId}`,
+          type: 'warning',
+          severity: 'medium',
+          componentId: backup.componentId,
+          message: `${backup.componentId} has no battery capacity set, so its runtime is unknown`,
+          recommendation: 'Set the battery capacity (Ah) and DC voltage of the battery bank'
+        });
+        return;
+      }
+      if (backup.backupTime !== null && backup.runtime < backup.backupTime) {
+        // Capacity that would meet the promised time at the same discharge current
+        const ratio = Math.pow(backup.backupTime / backup.runtime, 1 / PEUKERT_EXPONENT);
+        issues.push({
+          id: `outage-backup-runtime-${backup.componentId}`,
+          type: 'warning',
+          severity: backup.runtime < backup.backupTime / 2 ? 'high' : 'medium',
+          componentId: backup.componentId,
+          message: `${backup.componentId} runs ${backup.runtime.toFixed(0)} minutes on battery at ${backup.outputPower.toFixed(0)}W, short of the promised ${backup.backupTime} minutes`,
+          recommendation: `Fit at least ${Math.ceil(backup.batteryCapacity! * ratio)}Ah at ${backup.batteryVoltage}V or reduce the protected load`
+        });
+      }
+    });
+
+    const dropped = result.loads.filter(load => !load.backupId);
+    if (backups.length > 0 && dropped.length > 0) {
+      issues.push({
+        id: 'outage-unprotected-loads',
+        type: 'info',
+        severity: 'low',
+        message: `${dropped.length} load${dropped.length === 1 ? '' : 's'} lose power in an outage: ${dropped.map(load => load.componentId).join(', ')}`,
+        recommendation: 'Move essential loads onto a UPS or inverter output'
+      });
+    }
+
+    return result;
+  }
+
+  // Mains supplies are removed, every backup is isolated from its input and the active ones become sources at their output
+  private static toOutageNetlist(netlist: CircuitNetlist, backups: Component[], active: Component[]): CircuitNetlist {
+    const backupIds = new Set(backups.map(c => c.id));
+    const elements = netlist.elements.filter(element =>
+      element.role !== 'source' && !(element.componentId && backupIds.has(element.componentId))
+    );
+
+    active.forEach(component => {
+      const nodes = netlist.componentNodes.get(component.id)!;
+      const output: VoltageSourceElement = {
+        kind: 'voltage-source',
+        id: component.id,
+        componentId: component.id,
+        role: 'source',
+        nodes: [nodes[1], 0],
+        voltage: component.properties.operatingVoltage || netlist.supplyVoltage,
+        phaseAngle: 0
+      };
+      elements.push(output);
+    });
+    return { ...netlist, elements };
+  }
+}
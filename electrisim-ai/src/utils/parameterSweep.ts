@@ -0,0 +1,87 @@
+// Parameter Sweep: Swept Values, Labels and CSV Export
+import type { Cable, Circuit, Component, SweepOptions, SweepOutput, SweepParameter, SweepQuantity, SweepResult } from '../types/circuit.types';
+import { DEFAULT_CABLE } from './cables';
+
+export const MAX_SWEEP_STEPS = 200;
+
+// Cable fields that can be swept; the rest are categories
+export const SWEEPABLE_CABLE_FIELDS: (keyof Cable)[] = ['length', 'size', 'ambientTemperature', 'groupedCircuits'];
+
+const QUANTITY_LABELS: Record<SweepQuantity, { label: string; unit: string }> = {
+  'voltage': { label: 'voltage', unit: 'V' },
+  'current': { label: 'current', unit: 'A' },
+  'power': { label: 'power', unit: 'W' },
+  'voltage-drop': { label: 'voltage drop', unit: '%' },
+  'total-power': { label: 'Total power', unit: 'W' },
+  'power-factor': { label: 'Power factor', unit: '' },
+  'safety-score': { label: 'Safety score', unit: '' }
+};
+
+export class ParameterSweep {
+  // Points from start to end inclusive, evenly or geometrically spaced
+  static getValues(options: SweepOptions): number[] {
+    const steps = Math.min(Math.max(Math.round(options.steps) || 2, 2), MAX_SWEEP_STEPS);
+    const { start, end } = options;
+    return Array.from({ length: steps }, (_, i) => {
+      const fraction = i / (steps - 1);
+      return options.scale === 'log'
+        ? start * Math.pow(end / start, fraction)
+        : start + (end - start) * fraction;
+    });
+  }
+
+  // Numeric fields of a component: its value and any numeric property it carries
+  static getSweepableFields(component: Component): string[] {
+    const properties = Object.entries(component.properties)
+      .filter(([key, value]) => typeof value === 'number' && key !== 'tolerance')
+      .map(([key]) => key);
+    return ['value', ...properties];
+  }
+
+  // Present value of the swept field, or null when its component or connection is missing
+  static getCurrentValue(circuit: Circuit, parameter: SweepParameter): number | null {
+    if (parameter.target === 'cable') {
+      const conn = circuit.connections.find(c => c.id === parameter.id);
+      if (!conn) return null;
+      const value = { ...DEFAULT_CABLE, ...conn.cable }[parameter.field as keyof Cable];
+      return typeof value === 'number' ? value : parameter.field === 'groupedCircuits' ? 1 : null;
+    }
+    const component = circuit.components.find(c => c.id === parameter.id);
+    if (!component) return null;
+    if (parameter.field === 'value') return component.value;
+    const value = component.properties[parameter.field as keyof Component['properties']];
+    return typeof value === 'number' ? value : null;
+  }
+
+  // Component updates that set the swept field, for CircuitSimulator.updateComponent
+  static getComponentUpdates(component: Component, field: string, value: number): Partial<Component> {
+    return field === 'value'
+      ? { value }
+      : { properties: { ...component.properties, [field]: value } };
+  }
+
+  static getParameterLabel(circuit: Circuit, parameter: SweepParameter): string {
+    if (parameter.target === 'cable') {
+      const unit = parameter.field === 'length' ? ' (m)' : parameter.field === 'ambientTemperature' ? ' (°C)' : '';
+      return `${parameter.id} cable ${parameter.field}${unit}`;
+    }
+    const component = circuit.components.find(c => c.id === parameter.id);
+    const unit = parameter.field === 'value' && component?.unit ? ` (${component.unit})` : parameter.field === 'powerConsumption' ? ' (W)' : '';
+    return `${parameter.id} ${parameter.field}${unit}`;
+  }
+
+  static getOutputLabel(output: SweepOutput): string {
+    const { label, unit } = QUANTITY_LABELS[output.quantity];
+    const name = output.id ? `${output.id} ${label}` : label;
+    return unit ? `${name} (${unit})` : name;
+  }
+
+  // One row per point: the swept value, every output, then every output's change from the unswept circuit
+  static toCSV(result: SweepResult): string {
+    const escape = (cell: string) => (/[",\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell);
+    const format = (value: number) => (Number.isFinite(value) ? value.toPrecision(6) : '');
+    const header = [result.parameterLabel, ...result.labels, ...result.labels.map(label => `Δ ${label}`)];
+    const rows = result.points.map(point => [format(point.value), ...point.outputs.map(format), ...point.changes.map(format)]);
+    return [header.map(escape), ...rows].map(row => row.join(',')).join('\n');
+  }
+}
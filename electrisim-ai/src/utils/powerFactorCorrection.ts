@@ -0,0 +1,262 @@
+// Power Factor Correction: Capacitor Bank Sizing, Insertion and Light-load Check
+import type { Circuit, CircuitAnalysis, CircuitIssue, Component, Connection, PFCDesign, PFCOptions, PowerFactorPoint } from '../types/circuit.types';
+import { CircuitSolver } from './circuitSolver';
+import { ElectricalCalculations } from './electricalCalculations';
+
+export const DEFAULT_PFC_OPTIONS: PFCOptions = { targetPowerFactor: 0.95, steps: 4, lightLoadFraction: 0.25 };
+export const MAX_PFC_STEPS = 12;
+
+// Standard capacitor stage ratings (var)
+export const STANDARD_STEP_RATINGS = [100, 250, 500, 1000, 1500, 2000, 2500, 5000, 7500, 10000, 12500, 15000, 20000, 25000, 50000];
+
+// Standard capacitor voltage ratings (V rms); the bank takes the first at least 10% above the supply voltage
+export const CAPACITOR_VOLTAGE_RATINGS = [230, 440, 480, 525, 690];
+const CAPACITOR_VOLTAGE_MARGIN = 1.1;
+
+export class PowerFactorCorrection {
+  // Size a stepped bank for the main bus from the circuit's aggregate P and Q, then solve the circuit with it
+  // connected at full load and at light load
+  static design(circuit: Circuit, options: PFCOptions = DEFAULT_PFC_OPTIONS): PFCDesign {
+    const issues: CircuitIssue[] = [];
+    const steps = Math.min(Math.max(Math.round(options.steps) || 1, 1), MAX_PFC_STEPS);
+    const targetPowerFactor = Math.min(Math.max(options.targetPowerFactor, 0.5), 1);
+    const lightLoadFraction = Math.min(Math.max(options.lightLoadFraction, 0), 1);
+    const design: PFCDesign = {
+      options: { targetPowerFactor, steps, lightLoadFraction },
+      busId: this.findMainBus(circuit)?.id ?? null,
+      before: null,
+      requiredReactivePower: 0,
+      stepReactivePower: 0,
+      bankReactivePower: 0,
+      stepCapacitance: 0,
+      after: null,
+      currentReduction: 0,
+      lightLoad: null,
+      inserted: false,
+      issues
+    };
+
+    const { mode, frequency } = ElectricalCalculations.getAnalysisMode(circuit);
+    if (mode !== 'ac') {
+      issues.push({
+        id: 'pfc-dc-circuit',
+        type: 'info',
+        severity: 'low',
+        message: 'Power factor correction applies to AC circuits only',
+        recommendation: 'Set the supply to AC to design a capacitor bank'
+      });
+      return design;
+    }
+
+    const before = this.getOperatingPoint(circuit, ElectricalCalculations.analyzeCircuit(circuit));
+    design.before = before;
+    if (!(before.activePower > 0)) {
+      issues.push({
+        id: 'pfc-no-load',
+        type: 'info',
+        severity: 'low',
+        message: 'The supply delivers no active power',
+        recommendation: 'Give the loads a power consumption before correcting the power factor'
+      });
+      return design;
+    }
+    if (before.leading || before.powerFactor >= targetPowerFactor) {
+      issues.push({
+        id: 'pfc-not-required',
+        type: 'info',
+        severity: 'low',
+        message: `Power factor is already ${this.formatPowerFactor(before)}, at or above the ${targetPowerFactor} target`,
+        recommendation: 'No capacitor bank is needed'
+      });
+      return design;
+    }
+
+    // Capacitance across the bus to reach the target exactly, shared over the stages in proportion to their rating
+    const voltage = CircuitSolver.buildNetlist(circuit).supplyVoltage;
+    design.requiredReactivePower = before.reactivePower - before.activePower * Math.tan(Math.acos(targetPowerFactor));
+    design.stepReactivePower = STANDARD_STEP_RATINGS.find(rating => rating * steps >= design.requiredReactivePower)
+      ?? Math.ceil(design.requiredReactivePower / steps / 1000) * 1000;
+    design.bankReactivePower = design.stepReactivePower * steps;
+    const requiredCapacitance = ElectricalCalculations.calculatePowerFactorCorrection(
+      before.powerFactor, targetPowerFactor, before.activePower, voltage, frequency
+    );
+    design.stepCapacitance = requiredCapacitance * (design.stepReactivePower / design.requiredReactivePower);
+
+    if (!design.busId) {
+      issues.push({
+        id: 'pfc-no-bus',
+        type: 'warning',
+        severity: 'medium',
+        message: 'No bus was found downstream of the supply to connect the bank',
+        recommendation: 'Add a junction after the main protective devices and design the bank again'
+      });
+      return design;
+    }
+
+    const after = this.getOperatingPoint(circuit, ElectricalCalculations.analyzeCircuit(this.insertBank(circuit, design)));
+    design.after = after;
+    design.currentReduction = before.current > 0 ? ((before.current - after.current) / before.current) * 100 : 0;
+    if (after.leading) {
+      issues.push({
+        id: 'pfc-overcorrection',
+        type: 'warning',
+        severity: 'medium',
+        message: `With every stage in, the supply runs at ${this.formatPowerFactor(after)} at full load`,
+        recommendation: 'Use fewer or smaller stages so the bank does not exceed the reactive power of the load'
+      });
+    }
+
+    // A fixed bank stays in as the load falls; an automatic controller keeps only the stages the load can absorb
+    const lightLoad = this.scaleLoads(circuit, lightLoadFraction);
+    const withoutBank = this.getOperatingPoint(lightLoad, ElectricalCalculations.analyzeCircuit(lightLoad));
+    const withBank = this.getOperatingPoint(lightLoad, ElectricalCalculations.analyzeCircuit(this.insertBank(lightLoad, design)));
+    const stepsInService = Math.min(steps, Math.max(0, Math.floor(withoutBank.reactivePower / design.stepReactivePower)));
+    design.lightLoad = { withoutBank, withBank, stepsInService };
+    if (withBank.leading && withBank.powerFactor < targetPowerFactor) {
+      issues.push({
+        id: 'pfc-light-load-overcorrection',
+        type: 'warning',
+        severity: 'medium',
+        message: `At ${(lightLoadFraction * 100).toFixed(0)}% load the full bank drives the supply to ${this.formatPowerFactor(withBank)}, exporting ${(-withBank.reactivePower / 1000).toFixed(2)}kvar`,
+        recommendation: `Switch the bank with an automatic controller that keeps ${stepsInService} of ${steps} stages in at light load`
+      });
+    }
+
+    return design;
+  }
+
+  // Connect the bank's stages between the bus and earth, adding an earth when the circuit has none
+  static insertBank(circuit: Circuit, design: PFCDesign): Circuit {
+    const bus = circuit.components.find(c => c.id === design.busId);
+    if (!bus || !(design.stepCapacitance > 0)) return circuit;
+
+    const components = [...circuit.components];
+    const connections = [...circuit.connections];
+    const uniqueId = (prefix: string) => {
+      let index = 1;
+      while (components.some(c => c.id === `${prefix}-${index}`)) index++;
+      return `${prefix}-${index}`;
+    };
+
+    let ground = components.find(c => c.type === 'ground');
+    if (!ground) {
+      ground = {
+        id: uniqueId('pfc-ground'),
+        type: 'ground',
+        value: 0,
+        unit: '',
+        position: { x: bus.position.x, y: bus.position.y + 200 },
+        rotation: 0,
+        connections: [],
+        ports: 1,
+        properties: { description: 'Capacitor bank earth' }
+      };
+      components.push(ground);
+    }
+
+    const voltage = CircuitSolver.buildNetlist(circuit).supplyVoltage;
+    const voltageRating = CAPACITOR_VOLTAGE_RATINGS.find(rating => rating >= voltage * CAPACITOR_VOLTAGE_MARGIN)
+      ?? Math.ceil((voltage * CAPACITOR_VOLTAGE_MARGIN) / 100) * 100;
+    const capacitance = Math.round(design.stepCapacitance * 10) / 10;
+    const { steps } = design.options;
+
+    for (let stage = 1; stage <= steps; stage++) {
+      const capacitor: Component = {
+        id: uniqueId('pfc-capacitor'),
+        type: 'capacitor',
+        value: capacitance,
+        unit: 'μF',
+        position: { x: bus.position.x + 80 * (stage - (steps + 1) / 2), y: bus.position.y + 100 },
+        rotation: 90,
+        connections: [],
+        ports: 2,
+        properties: {
+          capacitance,
+          voltageRating,
+          description: `PFC stage ${stage} of ${steps}, ${this.formatReactivePower(design.stepReactivePower)}`
+        }
+      };
+      components.push(capacitor);
+      this.addConnection(connections, bus.id, capacitor.id, this.getNextFreePort(bus, connections), 1);
+      this.addConnection(connections, capacitor.id, ground.id, 2, this.getNextFreePort(ground, connections));
+    }
+
+    return { ...circuit, components, connections, metadata: { ...circuit.metadata, updatedAt: new Date() } };
+  }
+
+  static getOperatingPoint(circuit: Circuit, analysis: CircuitAnalysis): PowerFactorPoint {
+    const reactivePower = analysis.totalReactivePower ?? 0;
+    return {
+      activePower: analysis.totalPower,
+      reactivePower,
+      apparentPower: analysis.totalApparentPower ?? Math.hypot(analysis.totalPower, reactivePower),
+      powerFactor: analysis.powerFactor ?? 1,
+      leading: reactivePower < 0,
+      current: circuit.components
+        .filter(c => CircuitSolver.getComponentRole(c, circuit) === 'source')
+        .reduce((sum, c) => sum + (analysis.currents[c.id] || 0), 0)
+    };
+  }
+
+  // "0.87 lagging"
+  static formatPowerFactor(point: PowerFactorPoint): string {
+    return `${point.powerFactor.toFixed(2)} ${point.leading ? 'leading' : 'lagging'}`;
+  }
+
+  // "500var" or "2.5kvar"
+  static formatReactivePower(reactivePower: number): string {
+    return Math.abs(reactivePower) < 1000 ? `${reactivePower.toFixed(0)}var` : `${(reactivePower / 1000).toFixed(1)}kvar`;
+  }
+
+  // The first bus reached from a supply through its protective and switching devices
+  private static findMainBus(circuit: Circuit): Component | null {
+    const visited = new Set<string>();
+    const queue = circuit.components.filter(c => CircuitSolver.getComponentRole(c, circuit) === 'source');
+    queue.forEach(source => visited.add(source.id));
+
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      for (const conn of circuit.connections) {
+        if (conn.from !== current.id && conn.to !== current.id) continue;
+        const next = circuit.components.find(c => c.id === (conn.from === current.id ? conn.to : conn.from));
+        if (!next || visited.has(next.id)) continue;
+        visited.add(next.id);
+        const role = CircuitSolver.getComponentRole(next, circuit);
+        if (role === 'bus') return next;
+        if (role === 'inline') queue.push(next);
+      }
+    }
+
+    return null;
+  }
+
+  // Every appliance drawing the given share of its rated power
+  private static scaleLoads(circuit: Circuit, fraction: number): Circuit {
+    return {
+      ...circuit,
+      components: circuit.components.map(component =>
+        CircuitSolver.getComponentRole(component, circuit) === 'load' && component.properties.powerConsumption
+          ? { ...component, properties: { ...component.properties, powerConsumption: component.properties.powerConsumption * fraction } }
+          : component
+      )
+    };
+  }
+
+  private static addConnection(connections: Connection[], from: string, to: string, fromPort: number, toPort: number): void {
+    let index = 1;
+    while (connections.some(conn => conn.id === `conn-pfc-${index}`)) index++;
+    connections.push({ id: `conn-pfc-${index}`, from, to, fromPort, toPort });
+  }
+
+  private static getNextFreePort(component: Component, connections: Connection[]): number {
+    const used = new Set<number>();
+    connections.forEach(conn => {
+      if (conn.from === component.id) used.add(conn.fromPort);
+      if (conn.to === component.id) used.add(conn.toPort);
+    });
+    for (let port = 1; port <= component.ports; port++) {
+      if (!used.has(port)) return port;
+    }
+    return 1;
+  }
+}
@@ -0,0 +1,83 @@
+// Protection Coordination (Selectivity) Study
+import type { Circuit, CircuitIssue, Component, CoordinationPair, CoordinationStudy } from '../types/circuit.types';
+import { FaultSimulator } from './faultSimulator';
+import { ProtectionCurves } from './protectionCurves';
+
+export class ProtectionCoordination {
+  // Check every protective device against the nearest device of the same kind upstream of it
+  static analyze(circuit: Circuit): CoordinationStudy {
+    const issues: CircuitIssue[] = [];
+    const devices = circuit.components.filter(c => ProtectionCurves.isOvercurrentDevice(c) || ProtectionCurves.isResidualCurrentDevice(c));
+    const faultLevels = new Map(devices.map(device => [device.id, this.getFaultLevel(circuit, device)]));
+
+    const pairs: CoordinationPair[] = [];
+    devices.forEach(downstream => {
+      this.findUpstreamDevices(circuit, downstream).forEach(upstream => {
+        const faultCurrent = faultLevels.get(downstream.id) || 0;
+        const { selective, selectivityLimit } = ProtectionCurves.checkSelectivity(upstream, downstream, faultCurrent);
+        pairs.push({ upstreamId: upstream.id, downstreamId: downstream.id, faultCurrent, selective, selectivityLimit });
+
+        if (!selective && selectivityLimit !== null) {
+          const residual = ProtectionCurves.isResidualCurrentDevice(downstream);
+          issues.push({
+            id: `selectivity-${upstream.id}-${downstream.id}`,
+            type: 'warning',
+            severity: selectivityLimit <= ProtectionCurves.getRating(downstream) * 10 ? 'high' : 'medium',
+            componentId: downstream.id,
+            message: residual
+              ? `${upstream.id} may trip with ${downstream.id} for residual currents above ${(selectivityLimit * 1000).toFixed(0)}mA`
+              : `${upstream.id} is only selective with ${downstream.id} up to ${selectivityLimit.toFixed(0)}A (fault level ${faultCurrent.toFixed(0)}A)`,
+            recommendation: residual
+              ? 'Use a time-delayed (type S) RCD upstream with at least three times the downstream rated residual current'
+              : 'Increase the upstream rating or use a slower curve upstream so the downstream device always clears first'
+          });
+        }
+      });
+    });
+
+    const curves = devices.map(device => ProtectionCurves.getCurve(device, faultLevels.get(device.id) || 0));
+    return { curves, pairs, issues };
+  }
+
+  // Highest current through a device for a bolted short (or earth fault, for RCDs) on its load side
+  private static getFaultLevel(circuit: Circuit, device: Component): number {
+    const residual = ProtectionCurves.isResidualCurrentDevice(device);
+    const outgoing = circuit.connections.find(conn => conn.from === device.id);
+    if (!outgoing) {
+      return residual ? 0 : FaultSimulator.simulate(circuit, { type: 'bolted-short', componentId: device.id }).sourceFaultLevel;
+    }
+    const study = FaultSimulator.simulate(circuit, { type: residual ? 'line-to-ground' : 'bolted-short', connectionId: outgoing.id });
+    const response = study.devices.find(d => d.componentId === device.id);
+    if (!response) return study.sourceFaultLevel;
+    return residual ? response.residualCurrent : response.current;
+  }
+
+  // Nearest protective devices of the same kind found by tracing the supply side of each incoming wire
+  private static findUpstreamDevices(circuit: Circuit, device: Component): Component[] {
+    const sameKind = (candidate: Component) => candidate.id !== device.id && (ProtectionCurves.isResidualCurrentDevice(device)
+      ? ProtectionCurves.isResidualCurrentDevice(candidate)
+      : ProtectionCurves.isOvercurrentDevice(candidate));
+    const componentMap = new Map(circuit.components.map(c => [c.id, c]));
+    const found = new Map<string, Component>();
+    const visited = new Set<string>([device.id]);
+    let frontier = [device.id];
+    while (frontier.length > 0) {
+      const next: string[] = [];
+      frontier.forEach(id => {
+        circuit.connections.filter(conn => conn.to === id).forEach(conn => {
+          if (visited.has(conn.from)) return;
+          visited.add(conn.from);
+          const upstream = componentMap.get(conn.from);
+          if (!upstream) return;
+          if (sameKind(upstream)) {
+            found.set(upstream.id, upstream);
+          } else {
+            next.push(upstream.id);
+          }
+        });
+      });
+      frontier = next;
+    }
+    return [...found.values()];
+  }
+}
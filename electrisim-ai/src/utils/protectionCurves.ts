@@ -0,0 +1,176 @@
+// Time-Current Characteristics of Protective Devices
+import type { Component, MCBCurve, RCDType, TimeCurrentCurve, TimeCurrentPoint, TripBand } from '../types/circuit.types';
+
+// Curve points as [multiple of rated current, seconds], interpolated on log-log axes
+type CurvePoints = [number, number][];
+type FuseType = NonNullable<Component['properties']['fuseType']>;
+
+// Instantaneous (magnetic) release band of an MCB, as multiples of In (IEC 60898-1)
+export const MCB_CURVES: { [curve in MCBCurve]: { magneticMin: number; magneticMax: number } } = {
+  B: { magneticMin: 3, magneticMax: 5 },
+  C: { magneticMin: 5, magneticMax: 10 },
+  D: { magneticMin: 10, magneticMax: 20 }
+};
+
+// Thermal release: no trip below 1.13×In within an hour, guaranteed trip above 1.45×In, 1-60s at 2.55×In
+const MCB_THERMAL_MIN: CurvePoints = [[1.13, 3600], [2.55, 1], [4, 0.4], [6, 0.2], [10, 0.08], [20, 0.03]];
+const MCB_THERMAL_MAX: CurvePoints = [[1.45, 3600], [2.55, 60], [4, 15], [6, 6], [10, 2.5], [20, 0.8]];
+export const MCB_MAGNETIC_TRIP_TIME = 0.01;
+const MCB_MAGNETIC_MIN_TIME = 0.001;
+
+// Total clearing time of cartridge fuses by fuseType
+export const FUSE_CURVES: { [type in FuseType]: CurvePoints } = {
+  fast: [[1.5, 3600], [2, 30], [3, 1.5], [5, 0.1], [10, 0.005], [20, 0.001]],
+  slow: [[1.6, 3600], [2, 300], [3, 20], [5, 1.5], [10, 0.1], [20, 0.01]],
+  'time-delay': [[1.6, 3600], [2, 600], [3, 60], [5, 8], [10, 0.6], [20, 0.05]]
+};
+// Pre-arcing (melting) time as a fraction of total clearing time
+export const FUSE_PRE_ARCING_RATIO = 0.5;
+
+// Break times at multiples of IΔn (IEC 61008/61009); selective RCDs also have a minimum non-actuating time
+export const RCD_TRIP_TIMES: { [type in RCDType]: { multiple: number; minTime: number; maxTime: number }[] } = {
+  general: [
+    { multiple: 1, minTime: 0, maxTime: 0.3 },
+    { multiple: 2, minTime: 0, maxTime: 0.15 },
+    { multiple: 5, minTime: 0, maxTime: 0.04 }
+  ],
+  selective: [
+    { multiple: 1, minTime: 0.13, maxTime: 0.5 },
+    { multiple: 2, minTime: 0.06, maxTime: 0.2 },
+    { multiple: 5, minTime: 0.05, maxTime: 0.15 }
+  ]
+};
+// RCDs may operate from half their rated residual current
+export const RCD_NON_OPERATING_RATIO = 0.5;
+
+// Shortest time that time-current curves can discriminate; faster operation needs I²t data
+export const MIN_CURVE_TIME = 0.01;
+
+const OVERCURRENT_TYPES: Component['type'][] = ['mcb', 'fuse'];
+const RESIDUAL_CURRENT_TYPES: Component['type'][] = ['rccb', 'gfci'];
+// Samples per decade of current when tabulating a curve
+const CURVE_SAMPLES_PER_DECADE = 20;
+
+export class ProtectionCurves {
+  static isOvercurrentDevice(component: Component): boolean {
+    return OVERCURRENT_TYPES.includes(component.type);
+  }
+
+  static isResidualCurrentDevice(component: Component): boolean {
+    return RESIDUAL_CURRENT_TYPES.includes(component.type);
+  }
+
+  // Rated current in amperes; for RCDs the rated residual current IΔn in amperes
+  static getRating(component: Component): number {
+    switch (component.type) {
+      case 'mcb':
+        return component.properties.tripCurrent || component.value || 16;
+      case 'fuse':
+        return component.properties.fuseRating || component.value || 16;
+      case 'rccb':
+        return (component.properties.sensitivity || 30) / 1000;
+      case 'gfci':
+        return (component.properties.gfciSensitivity || component.properties.sensitivity || 5) / 1000;
+      default:
+        return 0;
+    }
+  }
+
+  // Short label such as "C16", "16A slow" or "30mA"
+  static getLabel(component: Component): string {
+    const rating = this.getRating(component);
+    switch (component.type) {
+      case 'mcb':
+        return `${component.properties.mcbCurve || 'B'}${rating}`;
+      case 'fuse':
+        return `${rating}A ${component.properties.fuseType || 'slow'}`;
+      case 'rccb':
+      case 'gfci':
+        return `${(rating * 1000).toFixed(0)}mA${component.properties.rcdType === 'selective' ? ' S' : ''}`;
+      default:
+        return component.id;
+    }
+  }
+
+  // Operating band at a current; residual current for RCDs, load or fault current otherwise
+  static getTripBand(component: Component, current: number): TripBand {
+    const rating = this.getRating(component);
+    if (!(rating > 0) || !(current > 0)) return { minTime: null, maxTime: null };
+    const multiple = current / rating;
+
+    switch (component.type) {
+      case 'mcb': {
+        const magnetic = MCB_CURVES[component.properties.mcbCurve || 'B'];
+        const thermalMin = this.interpolate(MCB_THERMAL_MIN, multiple);
+        const thermalMax = this.interpolate(MCB_THERMAL_MAX, multiple);
+        const minTime = multiple >= magnetic.magneticMin ? MCB_MAGNETIC_MIN_TIME : thermalMin;
+        const maxTime = multiple >= magnetic.magneticMax ? MCB_MAGNETIC_TRIP_TIME : thermalMax;
+        return { minTime, maxTime: maxTime !== null && minTime !== null ? Math.max(maxTime, minTime) : maxTime };
+      }
+
+      case 'fuse': {
+        const maxTime = this.interpolate(FUSE_CURVES[component.properties.fuseType || 'slow'], multiple);
+        return { minTime: maxTime !== null ? maxTime * FUSE_PRE_ARCING_RATIO : null, maxTime };
+      }
+
+      case 'rccb':
+      case 'gfci': {
+        if (multiple < RCD_NON_OPERATING_RATIO) return { minTime: null, maxTime: null };
+        const steps = RCD_TRIP_TIMES[component.properties.rcdType || 'general'];
+        const reached = steps.filter(step => multiple >= step.multiple).pop();
+        // Between the non-operating limit and IΔn the RCD may trip but is not required to
+        return reached ? { minTime: reached.minTime, maxTime: reached.maxTime } : { minTime: steps[0].minTime, maxTime: null };
+      }
+
+      default:
+        return { minTime: null, maxTime: null };
+    }
+  }
+
+  // Tabulate the curve from just below its rating up to maxCurrent
+  static getCurve(component: Component, maxCurrent: number): TimeCurrentCurve {
+    const rating = this.getRating(component);
+    const residual = this.isResidualCurrentDevice(component);
+    const start = rating * (residual ? RCD_NON_OPERATING_RATIO : 1);
+    const end = Math.max(maxCurrent, rating * (residual ? 10 : 30));
+    const samples = Math.max(2, Math.ceil(Math.log10(end / start) * CURVE_SAMPLES_PER_DECADE));
+    const points: TimeCurrentPoint[] = [];
+    for (let i = 0; i <= samples; i++) {
+      const current = start * Math.pow(end / start, i / samples);
+      const band = this.getTripBand(component, current);
+      if (band.minTime !== null || band.maxTime !== null) points.push({ current, ...band });
+    }
+    return { componentId: component.id, type: component.type, label: this.getLabel(component), rating, residual, points };
+  }
+
+  // Downstream must clear before the upstream device can start to operate at every current up to maxCurrent
+  static checkSelectivity(upstream: Component, downstream: Component, maxCurrent: number): { selective: boolean; selectivityLimit: number | null } {
+    const start = this.getRating(downstream) * (this.isResidualCurrentDevice(downstream) ? RCD_NON_OPERATING_RATIO : 1);
+    if (!(maxCurrent > start)) return { selective: true, selectivityLimit: null };
+    // Sample on a fixed logarithmic grid so the limit does not depend on the range being checked
+    const currents: number[] = [];
+    for (let k = Math.ceil(Math.log10(start) * CURVE_SAMPLES_PER_DECADE); Math.pow(10, k / CURVE_SAMPLES_PER_DECADE) < maxCurrent; k++) {
+      currents.push(Math.pow(10, k / CURVE_SAMPLES_PER_DECADE));
+    }
+    currents.push(maxCurrent);
+    for (const current of currents) {
+      const up = this.getTripBand(upstream, current);
+      if (up.minTime === null) continue;
+      const down = this.getTripBand(downstream, current);
+      const discriminates = down.maxTime !== null && up.minTime >= MIN_CURVE_TIME && up.minTime > down.maxTime;
+      if (!discriminates) return { selective: false, selectivityLimit: current };
+    }
+    return { selective: true, selectivityLimit: null };
+  }
+
+  // Piecewise log-log interpolation; null below the first point, extrapolated past the last
+  private static interpolate(points: CurvePoints, multiple: number): number | null {
+    if (multiple <= points[0][0]) return null;
+    let index = points.findIndex(([m]) => m >= multiple);
+    if (index === -1) index = points.length - 1;
+    const [m1, t1] = points[index - 1];
+    const [m2, t2] = points[index];
+    const slope = Math.log(t2 / t1) / Math.log(m2 / m1);
+    return t1 * Math.pow(multiple / m1, slope);
+  }
+}
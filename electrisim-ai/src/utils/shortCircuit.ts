@@ -0,0 +1,202 @@
+// Short-circuit Study: IEC 60909 Fault Currents at Every Bus and Breaking Duty of Protective Devices
+import type { BreakingDuty, Circuit, CircuitIssue, Component, ShortCircuitAnalysis, ShortCircuitResult } from '../types/circuit.types';
+import { CableCalculations } from './cables';
+import { CircuitSolver } from './circuitSolver';
+import { ComplexMath, type Complex } from './complexMath';
+import { ProtectionCurves } from './protectionCurves';
+import { ThreePhaseSolver } from './threePhaseSolver';
+import { TransformerModel } from './transformers';
+
+// Voltage factor c for maximum currents in low-voltage systems with a +10% tolerance (IEC 60909-0 Table 1)
+export const VOLTAGE_FACTOR_MAX = 1.1;
+
+// Source impedance (ohms) when the supply gives neither a fault level nor a resistance
+export const DEFAULT_SOURCE_IMPEDANCE = 0.1;
+// X/R of the utility source when not stated; IEC 60909-0 takes RQ = 0.1 XQ
+export const DEFAULT_SOURCE_XR_RATIO = 10;
+
+// Reactance of low-voltage cable (ohms per km)
+export const CABLE_REACTANCE_PER_KM = 0.08;
+
+// Minimum time (s) from fault inception to contact separation used for the breaking current's DC component
+export const MIN_BREAKING_TIME = 0.02;
+
+const TRAVERSED_ROLES = ['inline', 'bus', 'transformer'];
+
+// Impedance from the source to a point, referred to the voltage there
+interface FaultPath {
+  impedance: Complex;
+  voltage: number; // V, nominal phase voltage
+}
+
+export class ShortCircuitAnalyzer {
+  // Utility impedance from the short-circuit power, ZQ = c·Un²/S"kQ with Un the line voltage, or the stated resistance as
+  // its magnitude; a single-phase supply counts the line and neutral alike
+  static getSourceImpedance(source: Component | undefined, voltage: number, threePhase: boolean = false): Complex {
+    const properties: Component['properties'] = source?.properties || {};
+    const xrRatio = properties.xrRatio && properties.xrRatio > 0 ? properties.xrRatio : DEFAULT_SOURCE_XR_RATIO;
+    let magnitude: number;
+    if (properties.faultLevel && properties.faultLevel > 0) {
+      const lineVoltage = voltage * Math.sqrt(3);
+      magnitude = ((VOLTAGE_FACTOR_MAX * lineVoltage * lineVoltage) / (properties.faultLevel * 1e6)) * (threePhase ? 1 : 2);
+    } else {
+      magnitude = properties.resistance && properties.resistance > 0 ? properties.resistance : DEFAULT_SOURCE_IMPEDANCE;
+    }
+    const resistance = magnitude / Math.sqrt(1 + xrRatio * xrRatio);
+    return ComplexMath.complex(resistance, resistance * xrRatio);
+  }
+
+  // Supplies without an internal resistance take the magnitude of their source impedance, for studies solved by
+  // nodal analysis where an ideal supply would give an unbounded fault current or no voltage dip
+  static withSourceImpedance(circuit: Circuit): Circuit {
+    const threePhase = ThreePhaseSolver.isThreePhase(circuit);
+    return {
+      ...circuit,
+      components: circuit.components.map(component => {
+        if (CircuitSolver.getComponentRole(component, circuit) !== 'source' || (component.properties.resistance && component.properties.resistance > 0)) return component;
+        const voltage = component.value > 0 ? component.value : circuit.metadata?.voltage || 230;
+        const resistance = ComplexMath.magnitude(this.getSourceImpedance(component, voltage, threePhase));
+        return { ...component, properties: { ...component.properties, resistance } };
+      })
+    };
+  }
+
+  // Initial symmetrical short-circuit current I"k = c·U0 / |Zk|
+  static getInitialCurrent(voltage: number, impedance: Complex): number {
+    const magnitude = ComplexMath.magnitude(impedance);
+    return magnitude > 0 ? (VOLTAGE_FACTOR_MAX * voltage) / magnitude : Infinity;
+  }
+
+  // Bolted faults at the supply, every bus and the load side of every protective device reached from a supply through
+  // protective devices, buses, transformers and cables; devices are checked against their breaking capacity
+  static analyze(circuit: Circuit, frequency: number, issues: CircuitIssue[]): ShortCircuitAnalysis {
+    const threePhase = ThreePhaseSolver.isThreePhase(circuit);
+    const paths = this.findFaultPaths(circuit, threePhase);
+    const results = new Map<string, ShortCircuitResult>();
+    paths.forEach((path, componentId) => results.set(componentId, this.getResult(componentId, path, frequency, threePhase)));
+
+    const buses = circuit.components
+      .filter(c => results.has(c.id) && ['source', 'bus'].includes(CircuitSolver.getComponentRole(c, circuit)))
+      .map(c => results.get(c.id)!);
+
+    const devices = circuit.components
+      .filter(c => results.has(c.id) && (ProtectionCurves.isOvercurrentDevice(c) || ProtectionCurves.isResidualCurrentDevice(c) || c.type === 'breaker'))
+      .map((component): BreakingDuty => {
+        const result = results.get(component.id)!;
+        const breakingCapacity = component.properties.breakingCapacity && component.properties.breakingCapacity > 0 ? component.properties.breakingCapacity : null;
+        return {
+          componentId: component.id,
+          breakingCurrent: result.breakingCurrent,
+          peakCurrent: result.peakCurrent,
+          breakingCapacity,
+          adequate: breakingCapacity === null || result.breakingCurrent <= breakingCapacity * 1000
+        };
+      });
+
+    devices.filter(duty => !duty.adequate).forEach(duty => {
+      issues.push({
+        id: `short-circuit-breaking-${duty.componentId}`,
+        type: 'error',
+        severity: 'critical',
+        componentId: duty.componentId,
+        message: `Prospective fault current at ${duty.componentId} is ${(duty.breakingCurrent / 1000).toFixed(2)}kA (peak ${(duty.peakCurrent / 1000).toFixed(2)}kA), above its ${duty.breakingCapacity}kA breaking capacity`,
+        recommendation: `Use a device rated to break at least ${Math.ceil(duty.breakingCurrent / 1000)}kA, or one backed up by an upstream current-limiting fuse`
+      });
+    });
+    const unrated = devices.filter(duty => duty.breakingCapacity === null);
+    if (unrated.length > 0) {
+      issues.push({
+        id: 'short-circuit-unrated-devices',
+        type: 'info',
+        severity: 'low',
+        message: `${unrated.map(duty => duty.componentId).join(', ')} ${unrated.length === 1 ? 'does' : 'do'} not state a breaking capacity`,
+        recommendation: 'Enter the rated short-circuit capacity (kA) so it can be checked against the fault level'
+      });
+    }
+
+    return { voltageFactor: VOLTAGE_FACTOR_MAX, buses, devices };
+  }
+
+  private static getResult(componentId: string, path: FaultPath, frequency: number, threePhase: boolean): ShortCircuitResult {
+    const initialCurrent = this.getInitialCurrent(path.voltage, path.impedance);
+    const rx = path.impedance.im > 0 ? path.impedance.re / path.impedance.im : Infinity;
+    // IEC 60909-0 (55): κ = 1.02 + 0.98·e^(−3R/X)
+    const kappa = 1.02 + 0.98 * Math.exp(-3 * rx);
+    const peakCurrent = kappa * Math.SQRT2 * initialCurrent;
+    // Far from generators the AC component does not decay, so Ib = I"k; the DC component decays with the network's R/X
+    const breakingCurrent = initialCurrent;
+    const dcComponent = Math.SQRT2 * initialCurrent * Math.exp(-2 * Math.PI * frequency * MIN_BREAKING_TIME * rx);
+    return {
+      componentId,
+      voltage: path.voltage,
+      resistance: path.impedance.re,
+      reactance: path.impedance.im,
+      initialCurrent,
+      peakCurrent,
+      breakingCurrent,
+      asymmetricalBreakingCurrent: Math.hypot(breakingCurrent, dcComponent),
+      faultLevel: initialCurrent * path.voltage * (threePhase ? 3 : 1)
+    };
+  }
+
+  // Breadth-first search out from every supply accumulating series impedance; cables count both conductors of a
+  // single-phase loop, and everything upstream of a transformer is referred through its turns ratio
+  private static findFaultPaths(circuit: Circuit, threePhase: boolean): Map<string, FaultPath> {
+    const paths = new Map<string, FaultPath>();
+    const componentMap = new Map(circuit.components.map(c => [c.id, c]));
+    const supplyVoltage = CircuitSolver.buildNetlist(circuit).supplyVoltage;
+    const conductors = threePhase ? 1 : 2;
+    const queue = circuit.components.filter(c => CircuitSolver.getComponentRole(c, circuit) === 'source');
+    queue.forEach(source => paths.set(source.id, {
+      impedance: this.getSourceImpedance(source, source.value > 0 ? source.value : supplyVoltage, threePhase),
+      voltage: source.value > 0 ? source.value : supplyVoltage
+    }));
+
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      const path = paths.get(current.id)!;
+      circuit.connections
+        .filter(conn => conn.from === current.id || conn.to === current.id)
+        .forEach(conn => {
+          const next = componentMap.get(conn.from === current.id ? conn.to : conn.from);
+          if (!next || paths.has(next.id)) return;
+          const role = CircuitSolver.getComponentRole(next, circuit);
+          if (!TRAVERSED_ROLES.includes(role)) return;
+
+          let impedance = path.impedance;
+          let voltage = path.voltage;
+          if (conn.cable) {
+            const cable = conn.cable;
+            // Maximum currents take the conductor at 20°C
+            impedance = ComplexMath.add(impedance, ComplexMath.complex(
+              conductors * CableCalculations.getResistance(cable, 20),
+              conductors * CABLE_REACTANCE_PER_KM * (cable.length / 1000)
+            ));
+          }
+          if (role === 'transformer') {
+            ({ impedance, voltage } = this.referThroughTransformer(next, impedance, voltage));
+          }
+          paths.set(next.id, { impedance, voltage });
+          queue.push(next);
+        });
+    }
+
+    return paths;
+  }
+
+  // Upstream impedance divided by n², plus the transformer's own impedance with the correction factor
+  // KT = 0.95·cmax / (1 + 0.6·xT) of IEC 60909-0 (12a)
+  private static referThroughTransformer(transformer: Component, upstream: Complex, voltage: number): FaultPath {
+    const parameters = TransformerModel.getParameters(transformer, voltage);
+    const turnsRatio = parameters?.turnsRatio || transformer.properties.turnsRatio || 1;
+    const referred = ComplexMath.scale(upstream, 1 / (turnsRatio * turnsRatio));
+    if (!parameters) return { impedance: referred, voltage: voltage / turnsRatio };
+
+    const baseImpedance = (parameters.secondaryVoltage * parameters.secondaryVoltage) / parameters.rating;
+    const correction = (0.95 * VOLTAGE_FACTOR_MAX) / (1 + 0.6 * (parameters.reactance / baseImpedance));
+    return {
+      impedance: ComplexMath.add(referred, ComplexMath.scale(ComplexMath.complex(parameters.resistance, parameters.reactance), correction)),
+      voltage: parameters.secondaryVoltage
+    };
+  }
+}
@@ -0,0 +1,500 @@
+// Solar PV: Array Output under an Irradiance Profile, MPPT Charging, Battery Banks and Grid Exchange
+import type { BatteryBankResult, BatteryChemistry, Circuit, CircuitIssue, Component, PVArrayResult, SolarOptions, SolarStudy } from '../types/circuit.types';
+import { BATTERY_INVERTER_TYPES, CircuitSolver } from './circuitSolver';
+import { LoadProfileSimulator } from './loadProfile';
+import { DEFAULT_BACKUP_EFFICIENCY, OutageSimulator } from './outageSimulator';
+
+// Standard test conditions modules are rated at, and the nominal operating cell temperature at 800 W/m² and 20°C
+export const STC_IRRADIANCE = 1000;
+export const STC_TEMPERATURE = 25;
+export const NOCT = 45;
+
+// Crystalline silicon module coefficients (%/°C) when the datasheet values are not entered
+export const DEFAULT_TEMPERATURE_COEFFICIENT = -0.4;
+export const DEFAULT_VOC_TEMPERATURE_COEFFICIENT = -0.3;
+
+// Coldest cell temperature (°C) a string's open-circuit voltage is checked at, a clear winter morning
+export const MIN_DESIGN_TEMPERATURE = -10;
+
+// Ambient temperature (°C) around the array when neither the study nor the circuit gives one
+export const DEFAULT_PV_AMBIENT = 25;
+
+// Conversion efficiency (%) when the component does not state one
+export const DEFAULT_CONVERTER_EFFICIENCY: { [type: string]: number } = { 'charge-controller': 97, 'grid-tie-inverter': 97 };
+
+export const DEFAULT_INITIAL_STATE_OF_CHARGE = 80;
+
+export interface ChemistryModel {
+  cellVoltage: number; // V nominal per cell
+  depthOfDischarge: number; // % recommended for a long cycle life
+  roundTripEfficiency: number; // %
+  openCircuitCurve: [number, number][]; // [state of charge %, V per cell] at rest
+}
+
+export const BATTERY_CHEMISTRIES: { [chemistry in BatteryChemistry]: ChemistryModel } = {
+  'lead-acid': {
+    cellVoltage: 2,
+    depthOfDischarge: 50,
+    roundTripEfficiency: 80,
+    openCircuitCurve: [[0, 1.93], [50, 2.02], [100, 2.12]]
+  },
+  'lithium-ion': {
+    cellVoltage: 3.6,
+    depthOfDischarge: 80,
+    roundTripEfficiency: 92,
+    openCircuitCurve: [[0, 3.0], [10, 3.45], [50, 3.65], [90, 4.0], [100, 4.15]]
+  },
+  lifepo4: {
+    cellVoltage: 3.2,
+    depthOfDischarge: 90,
+    roundTripEfficiency: 95,
+    openCircuitCurve: [[0, 2.8], [10, 3.2], [50, 3.27], [90, 3.33], [100, 3.4]]
+  }
+};
+
+export const DEFAULT_SOLAR_OPTIONS: SolarOptions = {
+  days: 1,
+  stepMinutes: 15,
+  peakIrradiance: 1000,
+  sunrise: 6,
+  sunset: 18,
+  cloudCover: 0
+};
+
+// Irradiance is averaged over samples this many minutes apart within each interval
+const IRRADIANCE_SAMPLE_MINUTES = 5;
+
+// Working state of a battery bank through the run
+interface BankState {
+  component: Component;
+  chemistry: BatteryChemistry;
+  capacity: number; // kWh
+  minimum: number; // kWh left at the depth of discharge
+  energy: number; // kWh stored
+  efficiency: number; // one-way, the square root of the round trip
+  inverter: Component | null;
+  inverterEfficiency: number; // fraction
+  inverterLimit: number; // kW AC
+  controllers: Component[];
+  result: BatteryBankResult;
+}
+
+export class SolarSimulator {
+  // W/m² on the array at an hour of the run: the hourly profile when given, otherwise a clear-sky half sine between
+  // sunrise and sunset thinned by cloud with the Kasten–Czeplak relation G = Gclear·(1 − 0.75·N^3.4)
+  static getIrradiance(options: SolarOptions, hour: number): number {
+    const time = hour - Math.floor(hour / 24) * 24;
+    if (options.irradiance && options.irradiance.length > 0) {
+      const profile = options.irradiance;
+      const index = Math.floor(time) % profile.length;
+      const next = profile[(index + 1) % profile.length];
+      return Math.max(0, profile[index] + (next - profile[index]) * (time - Math.floor(time)));
+    }
+    if (time <= options.sunrise || time >= options.sunset || options.sunset <= options.sunrise) return 0;
+    const clearSky = options.peakIrradiance * Math.sin((Math.PI * (time - options.sunrise)) / (options.sunset - options.sunrise));
+    const cloudCover = Math.min(Math.max(options.cloudCover || 0, 0), 1);
+    return clearSky * (1 - 0.75 * Math.pow(cloudCover, 3.4));
+  }
+
+  // Cell temperature from the NOCT model, Tcell = Tamb + (NOCT − 20)·G/800
+  static getCellTemperature(ambient: number, irradiance: number): number {
+    return ambient + ((NOCT - 20) * irradiance) / 800;
+  }
+
+  // Wp at STC from the module rating and layout, or the array's own value
+  static getPeakPower(component: Component): number {
+    const { modulePower, modulesPerString, strings } = component.properties;
+    if (modulePower && modulePower > 0) return modulePower * (modulesPerString || 1) * (strings || 1);
+    if (!(component.value > 0)) return 0;
+    return component.unit === 'kW' || component.unit === 'kWp' ? component.value * 1000 : component.value;
+  }
+
+  // W at the array terminals, derated for cell temperature above STC
+  static getArrayPower(component: Component, irradiance: number, ambient: number): number {
+    const coefficient = component.properties.temperatureCoefficient ?? DEFAULT_TEMPERATURE_COEFFICIENT;
+    const cellTemperature = this.getCellTemperature(ambient, irradiance);
+    const power = this.getPeakPower(component) * (irradiance / STC_IRRADIANCE) * (1 + (coefficient / 100) * (cellTemperature - STC_TEMPERATURE));
+    return Math.max(0, power);
+  }
+
+  // Open-circuit voltage of one string at a cell temperature; null without the module's Voc
+  static getStringVoc(component: Component, temperature: number = MIN_DESIGN_TEMPERATURE): number | null {
+    const { moduleVoc, modulesPerString } = component.properties;
+    if (!moduleVoc || moduleVoc <= 0) return null;
+    const coefficient = component.properties.vocTemperatureCoefficient ?? DEFAULT_VOC_TEMPERATURE_COEFFICIENT;
+    return moduleVoc * (modulesPerString || 1) * (1 + (coefficient / 100) * (temperature - STC_TEMPERATURE));
+  }
+
+  static getChemistry(component: Component): BatteryChemistry {
+    return component.properties.batteryChemistry || 'lead-acid';
+  }
+
+  // kWh stored in a full bank, nominal voltage × Ah
+  static getBankCapacity(component: Component): number {
+    const capacity = component.properties.batteryCapacity || 0;
+    return component.value > 0 && capacity > 0 ? (component.value * capacity) / 1000 : 0;
+  }
+
+  // % of capacity used, stated or recommended for the chemistry
+  static getDepthOfDischarge(component: Component): number {
+    const depth = component.properties.depthOfDischarge;
+    return depth && depth > 0 ? Math.min(depth, 100) : BATTERY_CHEMISTRIES[this.getChemistry(component)].depthOfDischarge;
+  }
+
+  // Resting voltage of the bank at a state of charge, interpolated along its chemistry's cell curve
+  static getOpenCircuitVoltage(component: Component, stateOfCharge: number): number {
+    const model = BATTERY_CHEMISTRIES[this.getChemistry(component)];
+    const cells = component.value > 0 ? component.value / model.cellVoltage : 1;
+    const curve = model.openCircuitCurve;
+    const soc = Math.min(Math.max(stateOfCharge, 0), 100);
+    const upper = curve.findIndex(([point]) => point >= soc);
+    if (upper <= 0) return curve[0][1] * cells;
+    const [soc0, v0] = curve[upper - 1];
+    const [soc1, v1] = curve[upper];
+    return (v0 + ((v1 - v0) * (soc - soc0)) / (soc1 - soc0)) * cells;
+  }
+
+  // Step the circuit's load profile against PV generation: PV serves demand first, DC-coupled arrays charge their
+  // bank through the charge controller, banks make up shortfalls through their inverter, and the grid takes what is left
+  static simulate(circuit: Circuit, options: SolarOptions): SolarStudy {
+    const issues: CircuitIssue[] = [];
+    const gridConnected = circuit.components.some(c => CircuitSolver.getComponentRole(c, circuit) === 'source');
+    const ambient = options.ambientTemperature ?? circuit.metadata?.ambientTemperature ?? DEFAULT_PV_AMBIENT;
+
+    const neighbours = (component: Component, types: Component['type'][]) => circuit.connections
+      .filter(conn => conn.from === component.id || conn.to === component.id)
+      .map(conn => circuit.components.find(c => c.id === (conn.from === component.id ? conn.to : conn.from)))
+      .filter((c): c is Component => !!c && types.includes(c.type));
+
+    const arrays = circuit.components.filter(c => c.type === 'pv-array');
+    const controllers = circuit.components.filter(c => c.type === 'charge-controller');
+    const gridTies = circuit.components.filter(c => c.type === 'grid-tie-inverter');
+    const converterOf = new Map(arrays.map(array => [array.id, neighbours(array, ['charge-controller', 'grid-tie-inverter'])[0] || null]));
+
+    const banks: BankState[] = circuit.components.filter(c => c.type === 'battery-bank').map(component => {
+      const chemistry = this.getChemistry(component);
+      const capacity = this.getBankCapacity(component);
+      const inverter = neighbours(component, BATTERY_INVERTER_TYPES)[0] || null;
+      const rating = inverter ? OutageSimulator.getRating(inverter) : null;
+      const initial = component.properties.initialStateOfCharge ?? DEFAULT_INITIAL_STATE_OF_CHARGE;
+      return {
+        component,
+        chemistry,
+        capacity,
+        minimum: capacity * (1 - this.getDepthOfDischarge(component) / 100),
+        energy: capacity * Math.min(Math.max(initial, 0), 100) / 100,
+        efficiency: Math.sqrt(BATTERY_CHEMISTRIES[chemistry].roundTripEfficiency / 100),
+        inverter,
+        inverterEfficiency: inverter ? this.getEfficiency(inverter) : 0,
+        inverterLimit: inverter ? (rating ? rating / 1000 : Infinity) : 0,
+        controllers: neighbours(component, ['charge-controller']),
+        result: {
+          componentId: component.id,
+          chemistry,
+          nominalVoltage: component.value,
+          capacity,
+          usableCapacity: capacity * (this.getDepthOfDischarge(component) / 100),
+          inverterId: inverter?.id || null,
+          stateOfCharge: [],
+          voltage: [],
+          minimumStateOfCharge: initial,
+          chargedEnergy: 0,
+          dischargedEnergy: 0,
+          cycles: 0
+        }
+      };
+    });
+    const bankOf = new Map(controllers.map(controller => [controller.id, banks.find(bank => bank.controllers.includes(controller)) || null]));
+
+    // Off-grid, demand is whatever the bank inverters can energize, so they stand in for the supply
+    const profile = LoadProfileSimulator.simulate(gridConnected ? circuit : CircuitSolver.withBankSupply(circuit), options);
+    const { days, stepMinutes } = profile.options;
+    const study: SolarStudy = {
+      options: { ...options, days, stepMinutes },
+      time: profile.time,
+      irradiance: [],
+      demand: profile.demand,
+      generation: [],
+      gridImport: [],
+      gridExport: [],
+      arrays: arrays.map((array): PVArrayResult => {
+        const converter = converterOf.get(array.id) || null;
+        return {
+          componentId: array.id,
+          peakPower: this.getPeakPower(array),
+          coupling: converter ? (converter.type === 'charge-controller' ? 'dc' : 'ac') : null,
+          converterId: converter?.id || null,
+          stringVoc: this.getStringVoc(array),
+          generation: [],
+          energy: 0,
+          clippedEnergy: 0
+        };
+      }),
+      banks: banks.map(bank => bank.result),
+      gridConnected,
+      demandEnergy: 0,
+      pvEnergy: 0,
+      importEnergy: 0,
+      exportEnergy: 0,
+      curtailedEnergy: 0,
+      unservedEnergy: 0,
+      selfConsumption: 0,
+      selfSufficiency: 0,
+      issues
+    };
+    const arrayResults = new Map(study.arrays.map(result => [result.componentId, result]));
+
+    // Export is capped by the grid-tie inverters' limits, each counting its rating when it states none
+    const exportLimit = gridTies.some(c => c.properties.exportLimit !== undefined)
+      ? gridTies.reduce((sum, c) => sum + (c.properties.exportLimit ?? OutageSimulator.getRating(c) ?? Infinity), 0) / 1000
+      : Infinity;
+    // Grid-tie inverters cannot form a grid of their own and shut down without the mains
+    const activeGridTies = gridConnected ? gridTies : [];
+
+    const samples = Math.max(1, Math.round(stepMinutes / IRRADIANCE_SAMPLE_MINUTES));
+    const totalHours = days * 24;
+    study.time.forEach((from, step) => {
+      const hours = Math.min(stepMinutes / 60, totalHours - from);
+      let irradiance = 0;
+      for (let i = 0; i < samples; i++) irradiance += this.getIrradiance(options, from + ((i + 0.5) * hours) / samples) / samples;
+      study.irradiance.push(irradiance);
+
+      // Each converter passes its arrays' power up to its own limit; the loss is shared in proportion to each array
+      const convert = (converter: Component, limit: number): number => {
+        const connected = arrays.filter(array => converterOf.get(array.id) === converter);
+        const input = connected.map(array => this.getArrayPower(array, irradiance, ambient) / 1000);
+        const available = input.reduce((sum, kW) => sum + kW, 0) * this.getEfficiency(converter);
+        const output = Math.min(available, limit);
+        connected.forEach((array, i) => {
+          const share = available > 0 ? (input[i] * this.getEfficiency(converter)) / available : 0;
+          const result = arrayResults.get(array.id)!;
+          result.generation.push(output * share);
+          result.energy += output * share * hours;
+          result.clippedEnergy += (available - output) * share * hours;
+        });
+        return output;
+      };
+      arrays.filter(array => !converterOf.get(array.id)).forEach(array => arrayResults.get(array.id)!.generation.push(0));
+      gridTies.filter(c => !activeGridTies.includes(c)).forEach(converter => convert(converter, 0));
+
+      const acGeneration = activeGridTies.reduce((sum, converter) => {
+        const rating = OutageSimulator.getRating(converter);
+        return sum + convert(converter, rating ? rating / 1000 : Infinity);
+      }, 0);
+      let dcGeneration = 0;
+      const dcInput = new Map<BankState, number>();
+      controllers.forEach(controller => {
+        const bank = bankOf.get(controller.id) || null;
+        const current = controller.properties.maxChargeCurrent;
+        const limit = !bank ? 0 : current && current > 0 ? (current * bank.component.value) / 1000 : Infinity;
+        const output = convert(controller, limit);
+        dcGeneration += output;
+        if (bank) dcInput.set(bank, (dcInput.get(bank) || 0) + output);
+      });
+
+      let deficit = Math.max(0, study.demand[step] - acGeneration);
+      let surplus = Math.max(0, acGeneration - study.demand[step]);
+      let curtailed = 0;
+      banks.forEach(bank => {
+        let input = dcInput.get(bank) || 0;
+        let headroom = bank.inverterLimit;
+        // PV straight through the inverter, then into the bank, then out to the grid or curtailed
+        const direct = Math.min(deficit, input * bank.inverterEfficiency, headroom);
+        deficit -= direct;
+        headroom -= direct;
+        input -= bank.inverterEfficiency > 0 ? direct / bank.inverterEfficiency : 0;
+        const charge = Math.min(input, Math.max(0, bank.capacity - bank.energy) / (bank.efficiency * hours));
+        bank.energy += charge * bank.efficiency * hours;
+        bank.result.chargedEnergy += charge * hours;
+        input -= charge;
+        if (gridConnected) {
+          const exported = Math.min(input * bank.inverterEfficiency, headroom);
+          surplus += exported;
+          headroom -= exported;
+          input -= bank.inverterEfficiency > 0 ? exported / bank.inverterEfficiency : 0;
+        }
+        curtailed += input;
+
+        const discharge = Math.min(deficit, headroom, (Math.max(0, bank.energy - bank.minimum) * bank.efficiency * bank.inverterEfficiency) / hours);
+        if (discharge > 0) {
+          const drawn = discharge / bank.inverterEfficiency;
+          bank.energy -= (drawn / bank.efficiency) * hours;
+          bank.result.dischargedEnergy += drawn * hours;
+          deficit -= discharge;
+        }
+
+        const stateOfCharge = bank.capacity > 0 ? (bank.energy / bank.capacity) * 100 : 0;
+        bank.result.stateOfCharge.push(stateOfCharge);
+        bank.result.voltage.push(this.getOpenCircuitVoltage(bank.component, stateOfCharge));
+        bank.result.minimumStateOfCharge = Math.min(bank.result.minimumStateOfCharge, stateOfCharge);
+      });
+
+      const exported = gridConnected ? Math.min(surplus, exportLimit) : 0;
+      curtailed += surplus - exported;
+      study.generation.push(acGeneration + dcGeneration);
+      study.gridImport.push(gridConnected ? deficit : 0);
+      study.gridExport.push(exported);
+      study.demandEnergy += study.demand[step] * hours;
+      study.pvEnergy += (acGeneration + dcGeneration) * hours;
+      study.importEnergy += (gridConnected ? deficit : 0) * hours;
+      study.exportEnergy += exported * hours;
+      study.curtailedEnergy += curtailed * hours;
+      study.unservedEnergy += (gridConnected ? 0 : deficit) * hours;
+    });
+
+    banks.forEach(bank => {
+      bank.result.cycles = bank.result.usableCapacity > 0 ? bank.result.dischargedEnergy / bank.result.usableCapacity : 0;
+    });
+    study.selfConsumption = study.pvEnergy > 0 ? Math.max(0, study.pvEnergy - study.exportEnergy - study.curtailedEnergy) / study.pvEnergy : 0;
+    study.selfSufficiency = study.demandEnergy > 0 ? 1 - (study.importEnergy + study.unservedEnergy) / study.demandEnergy : 0;
+
+    this.checkDesign(study, circuit, banks, issues);
+    return study;
+  }
+
+  // Stated efficiency of a converter or battery inverter, as a fraction
+  private static getEfficiency(component: Component): number {
+    const efficiency = component.properties.efficiency && component.properties.efficiency > 0
+      ? Math.min(component.properties.efficiency, 100)
+      : DEFAULT_CONVERTER_EFFICIENCY[component.type] ?? DEFAULT_BACKUP_EFFICIENCY[component.type] ?? 100;
+    return efficiency / 100;
+  }
+
+  private static checkDesign(study: SolarStudy, circuit: Circuit, banks: BankState[], issues: CircuitIssue[]) {
+    if (study.arrays.length === 0) {
+      issues.push({
+        id: 'solar-no-pv',
+        type: 'info',
+        severity: 'low',
+        message: 'The circuit has no PV array',
+        recommendation: 'Add a PV array connected to a charge controller or a grid-tie inverter'
+      });
+    }
+
+    study.arrays.forEach(array => {
+      if (!array.converterId) {
+        issues.push({
+          id: `solar-pv-unconnected-${array.componentId}`,
+          type: 'warning',
+          severity: 'medium',
+          componentId: array.componentId,
+          message: `${array.componentId} is not connected to a charge controller or grid-tie inverter, so its output is unused`,
+          recommendation: 'Connect the array to an MPPT charge controller or a grid-tie inverter'
+        });
+        return;
+      }
+      const converter = circuit.components.find(c => c.id === array.converterId)!;
+      const maxVoltage = converter.properties.maxPVVoltage;
+      if (array.stringVoc !== null && maxVoltage && maxVoltage > 0 && array.stringVoc > maxVoltage) {
+        const component = circuit.components.find(c => c.id === array.componentId)!;
+        const moduleVoc = array.stringVoc / (component.properties.modulesPerString || 1);
+        issues.push({
+          id: `solar-pv-voc-${array.componentId}`,
+          type: 'error',
+          severity: 'critical',
+          componentId: array.componentId,
+          message: `String open-circuit voltage of ${array.componentId} reaches ${array.stringVoc.toFixed(0)}V at ${MIN_DESIGN_TEMPERATURE}°C, above the ${maxVoltage}V limit of ${converter.id}`,
+          recommendation: `Use at most ${Math.floor(maxVoltage / moduleVoc)} modules per string or a converter rated for a higher PV voltage`
+        });
+      }
+    });
+
+    const clipped = new Map<string, { clipped: number; energy: number }>();
+    study.arrays.filter(array => array.converterId).forEach(array => {
+      const total = clipped.get(array.converterId!) || { clipped: 0, energy: 0 };
+      clipped.set(array.converterId!, { clipped: total.clipped + array.clippedEnergy, energy: total.energy + array.energy });
+    });
+    clipped.forEach((total, converterId) => {
+      const converter = circuit.components.find(c => c.id === converterId)!;
+      const fraction = total.clipped / Math.max(total.clipped + total.energy, 1e-9);
+      if (converter.type === 'charge-controller' && !banks.some(bank => bank.controllers.includes(converter))) {
+        issues.push({
+          id: `solar-controller-no-bank-${converterId}`,
+          type: 'warning',
+          severity: 'medium',
+          componentId: converterId,
+          message: `${converterId} has no battery bank to charge, so its arrays produce nothing`,
+          recommendation: 'Connect the charge controller to a battery bank'
+        });
+        return;
+      }
+      if (converter.type === 'grid-tie-inverter' && !study.gridConnected) {
+        issues.push({
+          id: `solar-grid-tie-islanded-${converterId}`,
+          type: 'warning',
+          severity: 'high',
+          componentId: converterId,
+          message: `${converterId} has no mains to synchronise with and shuts down under its anti-islanding protection`,
+          recommendation: 'Connect the circuit to the mains, or couple the array through a charge controller to a battery bank'
+        });
+        return;
+      }
+      if (fraction > 0.01) {
+        issues.push({
+          id: `solar-clipping-${converterId}`,
+          type: 'info',
+          severity: fraction > 0.1 ? 'medium' : 'low',
+          componentId: converterId,
+          message: `${converterId} clips ${total.clipped.toFixed(2)}kWh (${(fraction * 100).toFixed(0)}%) of its arrays' output at its ${converter.type === 'charge-controller' ? 'charge current' : 'power rating'} limit`,
+          recommendation: converter.type === 'charge-controller'
+            ? 'Use a charge controller with a higher charge current or split the array across two controllers'
+            : 'Use a larger inverter or reduce the array size'
+        });
+      }
+    });
+
+    banks.forEach(bank => {
+      const { componentId } = bank.result;
+      if (bank.capacity <= 0) {
+        issues.push({
+          id: `solar-bank-no-capacity-${componentId}`,
+          type: 'warning',
+          severity: 'medium',
+          componentId,
+          message: `${componentId} has no capacity set, so it stores nothing`,
+          recommendation: 'Set the nominal voltage and capacity (Ah) of the battery bank'
+        });
+      }
+      if (!bank.inverter) {
+        issues.push({
+          id: `solar-bank-no-inverter-${componentId}`,
+          type: 'warning',
+          severity: 'medium',
+          componentId,
+          message: `${componentId} is not connected to an inverter, so it charges but never supplies the loads`,
+          recommendation: 'Connect the battery bank to an inverter or UPS feeding the loads'
+        });
+      }
+      const recommended = BATTERY_CHEMISTRIES[bank.chemistry].depthOfDischarge;
+      const depth = this.getDepthOfDischarge(bank.component);
+      if (depth > recommended) {
+        issues.push({
+          id: `solar-bank-depth-${componentId}`,
+          type: 'warning',
+          severity: 'low',
+          componentId,
+          message: `${componentId} is discharged to ${depth}%, deeper than the ${recommended}% recommended for ${bank.chemistry} batteries`,
+          recommendation: `Limit the depth of discharge to ${recommended}% or add capacity to keep the cycle life`
+        });
+      }
+    });
+
+    if (study.unservedEnergy > 0.01) {
+      issues.push({
+        id: 'solar-unserved-demand',
+        type: 'error',
+        severity: 'high',
+        message: `${study.unservedEnergy.toFixed(2)}kWh of demand (${((study.unservedEnergy / study.demandEnergy) * 100).toFixed(0)}%) goes unmet off-grid once the batteries reach their cut-off`,
+        recommendation: 'Add PV or battery capacity, or a generator or mains connection for backup'
+      });
+    } else if (study.gridConnected && banks.some(bank => bank.inverter && bank.result.minimumStateOfCharge <= (bank.minimum / Math.max(bank.capacity, 1e-9)) * 100 + 0.5)) {
+      issues.push({
+        id: 'solar-battery-depleted',
+        type: 'info',
+        severity: 'low',
+        message: 'The batteries reach their depth of discharge during the run and the grid covers the rest',
+        recommendation: 'Add battery capacity to raise self-sufficiency'
+      });
+    }
+  }
+}
@@ -0,0 +1,226 @@
+// Dynamic Thermal Model: First-order Heating of Components and Cables
+import type { Circuit, CircuitAnalysis, CircuitIssue, Component, InstallationMethod, LoadProfileOptions, ThermalStudy, ThermalTrace } from '../types/circuit.types';
+import { CableCalculations } from './cables';
+import { CircuitSolver } from './circuitSolver';
+import { ElectricalCalculations } from './electricalCalculations';
+import { LoadProfileSimulator } from './loadProfile';
+import { TransformerModel } from './transformers';
+
+export const DEFAULT_AMBIENT_TEMPERATURE = 30;
+
+// Body temperature limits by type, °C; others are held to the fallback
+export const DEFAULT_MAX_TEMPERATURE: { [type: string]: number } = { resistor: 155, capacitor: 85, inductor: 130, transformer: 120 };
+const FALLBACK_MAX_TEMPERATURE = 100;
+
+// Heating time constant (s) of a component given no thermal mass, and of a transformer
+export const DEFAULT_TIME_CONSTANT = 300;
+export const TRANSFORMER_TIME_CONSTANT = 1800;
+// Winding temperature rise (K) at rated losses when no thermal resistance is given
+export const TRANSFORMER_RATED_RISE = 80;
+
+// Heating time constant (s) of a 2.5mm² run by installation method; enclosed and buried runs heat more slowly,
+// and the constant grows with the square root of the cross-section
+export const CABLE_TIME_CONSTANTS: { [method in InstallationMethod]: number } = {
+  A1: 1500, A2: 1500, B1: 1200, B2: 1200, C: 900, D1: 3600, E: 600
+};
+const CABLE_REFERENCE_SIZE = 2.5;
+
+// One heated body: where it settles at the present loading, how quickly and against which limit
+export interface ThermalElement {
+  id: string;
+  kind: 'component' | 'cable';
+  label: string;
+  ambient: number; // °C
+  limit: number; // °C
+  timeConstant: number; // s
+  steadyTemperature: number; // °C
+}
+
+export class ThermalModel {
+  static getAmbient(circuit: Circuit): number {
+    return circuit.metadata?.ambientTemperature ?? DEFAULT_AMBIENT_TEMPERATURE;
+  }
+
+  // Components with a thermal resistance, a power rating or a transformer rating, and every loaded cable;
+  // appliances turn their power into heat by design and are only modelled when given a thermal resistance
+  static getElements(circuit: Circuit, analysis: CircuitAnalysis): ThermalElement[] {
+    const ambient = this.getAmbient(circuit);
+    const elements: ThermalElement[] = [];
+
+    circuit.components.forEach(component => {
+      const element = this.getComponentElement(component, circuit, analysis, ambient);
+      if (element) elements.push(element);
+    });
+
+    (analysis.cables || []).forEach(branch => {
+      const cable = CableCalculations.withAmbient(circuit.connections.find(conn => conn.id === branch.connectionId)!.cable!, ambient);
+      const cableAmbient = cable.ambientTemperature ?? CableCalculations.getReferenceAmbient(cable);
+      const limit = CableCalculations.getTemperatureRating(cable);
+      const ampacity = CableCalculations.getAmpacity(cable, analysis.threePhase ? 3 : 2);
+      // The conductor reaches its rated temperature when carrying its derated ampacity, with the rise following I²;
+      // with no capacity left the conductor is already at the ambient above its rating
+      const loading = ampacity > 0 ? branch.current / ampacity : 0;
+      const size = Math.max(CableCalculations.getCrossSection(cable), 0.5);
+      elements.push({
+        id: branch.connectionId,
+        kind: 'cable',
+        label: `${branch.from} → ${branch.to} (${CableCalculations.getLabel(cable)})`,
+        ambient: cableAmbient,
+        limit,
+        timeConstant: CABLE_TIME_CONSTANTS[cable.installationMethod || 'C'] * Math.sqrt(size / CABLE_REFERENCE_SIZE),
+        steadyTemperature: cableAmbient + Math.max(limit - cableAmbient, 0) * loading * loading
+      });
+    });
+
+    return elements;
+  }
+
+  // Seconds for a first-order body heading from start to steady to reach the limit; null if it settles below it
+  static getTimeToLimit(start: number, steady: number, limit: number, timeConstant: number): number | null {
+    if (start >= limit) return 0;
+    if (steady <= limit) return null;
+    return timeConstant * Math.log((steady - start) / (steady - limit));
+  }
+
+  // Step every heated body through the load profile, starting at ambient, with each interval's average appliance power
+  static simulate(circuit: Circuit, options: LoadProfileOptions): ThermalStudy {
+    const issues: CircuitIssue[] = [];
+    const profile = LoadProfileSimulator.simulate(circuit, options);
+    const stepSeconds = profile.options.stepMinutes * 60;
+    const ambientTemperature = this.getAmbient(circuit);
+    const fullLoad = this.getElements(circuit, ElectricalCalculations.analyzeCircuit(circuit));
+    const study: ThermalStudy = {
+      options: profile.options,
+      ambientTemperature,
+      time: [0, ...profile.time.map(t => t + profile.options.stepMinutes / 60)],
+      traces: [],
+      issues
+    };
+
+    if (fullLoad.length === 0) {
+      issues.push({
+        id: 'thermal-no-elements',
+        type: 'info',
+        severity: 'low',
+        message: 'Nothing in the circuit has a thermal model',
+        recommendation: 'Add cables to connections, or give components a power rating or thermal resistance'
+      });
+      return study;
+    }
+
+    const traces = fullLoad.map((element): ThermalTrace => ({
+      id: element.id,
+      kind: element.kind,
+      label: element.label,
+      ambient: element.ambient,
+      limit: element.limit,
+      timeConstant: element.timeConstant,
+      temperature: [element.ambient],
+      peakTemperature: element.ambient,
+      fullLoadTemperature: element.steadyTemperature,
+      timeToLimit: null
+    }));
+
+    // Intervals with the same appliances running solve to the same temperatures
+    const solved = new Map<string, Map<string, number>>();
+    profile.time.forEach((from, step) => {
+      const fractions = profile.appliances.map(appliance =>
+        appliance.ratedPower > 0 ? Math.min(1, (appliance.demand[step] * 1000) / appliance.ratedPower) : 0
+      );
+      const key = fractions.map(fraction => fraction.toFixed(3)).join(',');
+      let steady = solved.get(key);
+      if (!steady) {
+        const running: Circuit = {
+          ...circuit,
+          components: circuit.components.map(component => {
+            const index = profile.appliances.findIndex(appliance => appliance.componentId === component.id);
+            if (index < 0 || fractions[index] === 1) return component;
+            return {
+              ...component,
+              properties: { ...component.properties, powerConsumption: (component.properties.powerConsumption || 0) * fractions[index] }
+            };
+          })
+        };
+        steady = new Map(this.getElements(running, ElectricalCalculations.analyzeCircuit(running)).map(element => [element.id, element.steadyTemperature]));
+        solved.set(key, steady);
+      }
+
+      traces.forEach(trace => {
+        const start = trace.temperature[trace.temperature.length - 1];
+        const target = steady.get(trace.id) ?? trace.ambient;
+        if (trace.timeToLimit === null) {
+          const seconds = this.getTimeToLimit(start, target, trace.limit, trace.timeConstant);
+          if (seconds !== null && seconds <= stepSeconds) trace.timeToLimit = from + seconds / 3600;
+        }
+        const temperature = target + (start - target) * Math.exp(-stepSeconds / trace.timeConstant);
+        trace.temperature.push(temperature);
+        trace.peakTemperature = Math.max(trace.peakTemperature, temperature);
+      });
+    });
+    study.traces = traces;
+
+    traces.filter(trace => trace.timeToLimit !== null).forEach(trace => {
+      issues.push({
+        id: `thermal-limit-${trace.id}`,
+        type: 'error',
+        severity: 'high',
+        componentId: trace.kind === 'component' ? trace.id : undefined,
+        message: `${trace.label} reaches its ${trace.limit}°C limit ${this.formatHours(trace.timeToLimit!)} into the run and peaks at ${trace.peakTemperature.toFixed(0)}°C`,
+        recommendation: trace.kind === 'cable'
+          ? 'Use a larger cross-section, reduce grouping or move the load out of the peak'
+          : 'Use a higher power rating, add heat sinking or reduce the dissipated power'
+      });
+    });
+    const marginal = traces.filter(trace => trace.timeToLimit === null && trace.fullLoadTemperature > trace.limit);
+    if (marginal.length > 0) {
+      issues.push({
+        id: 'thermal-schedule-dependent',
+        type: 'warning',
+        severity: 'medium',
+        message: `${marginal.map(trace => trace.label).join(', ')} stay${marginal.length === 1 ? 's' : ''} within limits on this profile but would overheat with every load running continuously`,
+        recommendation: 'Check the schedules are realistic before relying on diversity to keep these within their ratings'
+      });
+    }
+
+    return study;
+  }
+
+  // "40 min" or "2.5 h"
+  static formatHours(hours: number): string {
+    return hours < 1 ? `${Math.round(hours * 60)} min` : `${hours.toFixed(1)} h`;
+  }
+
+  private static getComponentElement(component: Component, circuit: Circuit, analysis: CircuitAnalysis, ambient: number): ThermalElement | null {
+    const { properties } = component;
+    const role = CircuitSolver.getComponentRole(component, circuit);
+    if (role === 'source' || role === 'reference' || role === 'none') return null;
+    const limit = properties.maxTemperature ?? DEFAULT_MAX_TEMPERATURE[component.type] ?? FALLBACK_MAX_TEMPERATURE;
+
+    let power = Math.abs(analysis.power[component.id] || 0);
+    let thermalResistance = properties.thermalResistance && properties.thermalResistance > 0 ? properties.thermalResistance : 0;
+    let defaultTimeConstant = DEFAULT_TIME_CONSTANT;
+    if (role === 'transformer') {
+      const parameters = TransformerModel.getParameters(component, circuit.metadata?.voltage || 230);
+      const result = analysis.transformers?.find(t => t.componentId === component.id);
+      if (!parameters) return null;
+      power = result ? result.copperLoss + result.noLoadLoss : 0;
+      thermalResistance = thermalResistance || TRANSFORMER_RATED_RISE / (parameters.copperLoss + parameters.noLoadLoss);
+      defaultTimeConstant = TRANSFORMER_TIME_CONSTANT;
+    } else if (!thermalResistance) {
+      // Rated power takes the body to its limit from the default ambient
+      if (role === 'load' || !(properties.powerRating && properties.powerRating > 0)) return null;
+      thermalResistance = (limit - DEFAULT_AMBIENT_TEMPERATURE) / properties.powerRating;
+    }
+    if (!Number.isFinite(thermalResistance) || thermalResistance <= 0) return null;
+
+    return {
+      id: component.id,
+      kind: 'component',
+      label: component.id,
+      ambient,
+      limit,
+      timeConstant: properties.thermalMass && properties.thermalMass > 0 ? thermalResistance * properties.thermalMass : defaultTimeConstant,
+      steadyTemperature: ElectricalCalculations.calculateComponentTemperature(ambient, power, thermalResistance)
+    };
+  }
+}
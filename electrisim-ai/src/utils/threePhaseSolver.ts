@@ -0,0 +1,179 @@
+// Unbalanced Three-Phase Analysis by Phase Superposition
+import type { AnalysisMode, Circuit, PhaseName, PhaseQuantities, ThreePhaseAnalysis, ThreePhaseLimits } from '../types/circuit.types';
+import { CircuitSolver, type CircuitNetlist, type PhasorSolution } from './circuitSolver';
+import { ComplexMath, type Complex } from './complexMath';
+
+export const DEFAULT_THREE_PHASE_LIMITS: ThreePhaseLimits = {
+  maxImbalancePercent: 10,
+  maxNeutralCurrentPercent: 50
+};
+
+export const PHASES: PhaseName[] = ['L1', 'L2', 'L3'];
+// Positive-sequence phase angles (degrees)
+export const PHASE_ANGLES: { [phase in PhaseName]: number } = { L1: 0, L2: -120, L3: 120 };
+const PHASE_COLORS: { [color: string]: PhaseName } = { red: 'L1', green: 'L2', blue: 'L3' };
+
+export interface ThreePhaseSolution {
+  // Every node at its own phase; shared conductors carry their most heavily loaded pole
+  combined: PhasorSolution;
+  phaseSolutions: { [phase in PhaseName]: PhasorSolution };
+  sourcePower: Map<string, Complex>; // source component id -> complex power summed over phases
+  analysis: ThreePhaseAnalysis;
+}
+
+export class ThreePhaseSolver {
+  // Three-phase when the circuit or its supply says so
+  static isThreePhase(circuit: Circuit): boolean {
+    return circuit.metadata?.phase === 'three'
+      || circuit.components.some(c => (c.type === 'battery' || c.type === 'socket') && c.properties.phase === 'three');
+  }
+
+  // Phase of each component from the colour of the live wire feeding it, traced upstream when the wire is black
+  static assignPhases(circuit: Circuit): Map<string, PhaseName> {
+    const phases = new Map<string, PhaseName>();
+    const colouredPhase = (color?: string) => (color ? PHASE_COLORS[color] : undefined);
+
+    const findPhase = (componentId: string): PhaseName => {
+      const visited = new Set<string>();
+      let frontier = [componentId];
+      while (frontier.length > 0) {
+        const next: string[] = [];
+        for (const id of frontier) {
+          if (visited.has(id)) continue;
+          visited.add(id);
+          const known = id !== componentId ? phases.get(id) : undefined;
+          if (known) return known;
+          const incoming = circuit.connections.filter(conn => conn.to === id);
+          const fed = incoming.map(conn => colouredPhase(conn.wireColor)).find(Boolean);
+          if (fed) return fed;
+          next.push(...incoming.map(conn => conn.from));
+        }
+        frontier = next;
+      }
+      // Components only fed over black wires take the phase of any coloured wire they touch
+      const touching = circuit.connections.find(conn => (conn.from === componentId || conn.to === componentId) && colouredPhase(conn.wireColor));
+      return colouredPhase(touching?.wireColor) || 'L1';
+    };
+
+    circuit.components.forEach(component => phases.set(component.id, findPhase(component.id)));
+    return phases;
+  }
+
+  // Combined phasor solution in the circuit's analysis mode: per-phase superposition for three-phase AC, one pass otherwise
+  static solvePhasor(circuit: Circuit, netlist: CircuitNetlist, { mode, frequency }: { mode: AnalysisMode; frequency: number }): PhasorSolution | null {
+    if (mode === 'ac') {
+      return this.isThreePhase(circuit)
+        ? this.solve(circuit, netlist, frequency)?.combined || null
+        : CircuitSolver.solveAC(netlist, frequency);
+    }
+    const dc = CircuitSolver.solveDC(netlist);
+    return dc ? CircuitSolver.toPhasorSolution(dc) : null;
+  }
+
+  // Solve each phase with only its own loads connected and combine; exact for a star supply with solid neutral, whose value is the phase-to-neutral voltage
+  static solve(circuit: Circuit, netlist: CircuitNetlist, frequency: number): ThreePhaseSolution | null {
+    const componentPhases = this.assignPhases(circuit);
+    const consumers = netlist.elements.filter(e => (e.role === 'load' || e.role === 'passive') && e.componentId);
+    const phaseOf = (componentId?: string): PhaseName => (componentId && componentPhases.get(componentId)) || 'L1';
+
+    const phaseSolutions = {} as { [phase in PhaseName]: PhasorSolution };
+    for (const phase of PHASES) {
+      const shifted: CircuitNetlist = {
+        ...netlist,
+        elements: netlist.elements.map(e => (e.kind === 'voltage-source' ? { ...e, phaseAngle: e.phaseAngle + PHASE_ANGLES[phase] } : e))
+      };
+      const open = new Set(consumers.filter(e => phaseOf(e.componentId) !== phase).map(e => e.id));
+      const solution = CircuitSolver.solveAC(shifted, frequency, open);
+      if (!solution) return null;
+      phaseSolutions[phase] = solution;
+    }
+
+    // Loads decide the phase of their terminals; everything else follows its component
+    const nodePhases: PhaseName[] = new Array(netlist.nodeCount + 1).fill('L1');
+    const assignNodes = (componentId: string) => {
+      (netlist.componentNodes.get(componentId) || []).forEach(node => {
+        nodePhases[node] = phaseOf(componentId);
+      });
+    };
+    circuit.components.filter(c => !consumers.some(e => e.componentId === c.id)).forEach(c => assignNodes(c.id));
+    consumers.forEach(e => assignNodes(e.componentId!));
+
+    const combinedCurrents = new Map<string, Complex>();
+    netlist.elements.forEach(element => {
+      const candidates = PHASES.map(phase => phaseSolutions[phase].elementCurrents.get(element.id) || ComplexMath.ZERO);
+      combinedCurrents.set(element.id, candidates.reduce((a, b) => (ComplexMath.magnitude(b) > ComplexMath.magnitude(a) ? b : a)));
+    });
+    const combined: PhasorSolution = {
+      frequency,
+      nodeVoltages: nodePhases.map((phase, node) => phaseSolutions[phase].nodeVoltages[node] || ComplexMath.ZERO),
+      elementCurrents: combinedCurrents
+    };
+
+    // Per-phase supply quantities; source branch current flows + to - inside the source
+    const sourcePower = new Map<string, Complex>();
+    const phaseCurrents: { [phase in PhaseName]: Complex } = { L1: ComplexMath.ZERO, L2: ComplexMath.ZERO, L3: ComplexMath.ZERO };
+    const phases = {} as { [phase in PhaseName]: PhaseQuantities };
+    PHASES.forEach(phase => {
+      const solution = phaseSolutions[phase];
+      let power = ComplexMath.ZERO;
+      let voltage = 0;
+      netlist.elements.forEach(element => {
+        if (element.kind !== 'voltage-source' || element.role !== 'source') return;
+        const delivered = ComplexMath.negate(solution.elementCurrents.get(element.id) || ComplexMath.ZERO);
+        const across = ComplexMath.subtract(solution.nodeVoltages[element.nodes[0]], solution.nodeVoltages[element.nodes[1]]);
+        const elementPower = ComplexMath.multiply(across, ComplexMath.conjugate(delivered));
+        power = ComplexMath.add(power, elementPower);
+        voltage = Math.max(voltage, ComplexMath.magnitude(across));
+        phaseCurrents[phase] = ComplexMath.add(phaseCurrents[phase], delivered);
+        const sourceId = element.componentId || element.id;
+        sourcePower.set(sourceId, ComplexMath.add(sourcePower.get(sourceId) || ComplexMath.ZERO, elementPower));
+      });
+      phases[phase] = {
+        voltage,
+        current: ComplexMath.magnitude(phaseCurrents[phase]),
+        activePower: power.re,
+        reactivePower: power.im,
+        apparentPower: ComplexMath.magnitude(power),
+        loadCount: circuit.components.filter(c => consumers.some(e => e.componentId === c.id) && phaseOf(c.id) === phase).length
+      };
+    });
+
+    const neutral = PHASES.reduce((sum, phase) => ComplexMath.add(sum, phaseCurrents[phase]), ComplexMath.ZERO);
+    const meanCurrent = PHASES.reduce((sum, phase) => sum + phases[phase].current, 0) / PHASES.length;
+    const imbalancePercent = meanCurrent > 0
+      ? (Math.max(...PHASES.map(phase => Math.abs(phases[phase].current - meanCurrent))) / meanCurrent) * 100
+      : 0;
+
+    const componentPhaseMap: { [componentId: string]: PhaseName } = {};
+    componentPhases.forEach((phase, id) => {
+      componentPhaseMap[id] = phase;
+    });
+
+    return {
+      combined,
+      phaseSolutions,
+      sourcePower,
+      analysis: {
+        phases,
+        neutralCurrent: ComplexMath.magnitude(neutral),
+        imbalancePercent,
+        componentPhases: componentPhaseMap
+      }
+    };
+  }
+
+  // Current through a node on its most heavily loaded pole, e.g. a shared distribution bus
+  static getPoleThroughput(netlist: CircuitNetlist, solution: ThreePhaseSolution, node: number): number {
+    return Math.max(...PHASES.map(phase => ComplexMath.magnitude(this.getPhaseInflow(netlist, solution, node, phase))));
+  }
+
+  // Return current through a node summed as phasors over the three phases, e.g. the neutral/earth return
+  static getNeutralThroughput(netlist: CircuitNetlist, solution: ThreePhaseSolution, node: number): number {
+    const total = PHASES.reduce((sum, phase) => ComplexMath.add(sum, this.getPhaseInflow(netlist, solution, node, phase)), ComplexMath.ZERO);
+    return ComplexMath.magnitude(total);
+  }
+
+  private static getPhaseInflow(netlist: CircuitNetlist, solution: ThreePhaseSolution, node: number, phase: PhaseName): Complex {
+    return CircuitSolver.getNodeInflow(netlist, solution.phaseSolutions[phase], node, ComplexMath.fromPolar(1, PHASE_ANGLES[phase]));
+  }
+}
@@ -0,0 +1,203 @@
+// Monte Carlo Tolerance and Worst-case Analysis
+import type { Circuit, CircuitIssue, Component, ProtectionExceedance, ToleranceDistribution, ToleranceOptions, ToleranceQuantity, ToleranceStatistics, ToleranceStudy } from '../types/circuit.types';
+import { CircuitSolver, type ComponentRole } from './circuitSolver';
+import { ComplexMath } from './complexMath';
+import { ElectricalCalculations } from './electricalCalculations';
+import { ProtectionCurves } from './protectionCurves';
+import { ThreePhaseSolver } from './threePhaseSolver';
+
+export const DEFAULT_TOLERANCE_OPTIONS: ToleranceOptions = { runs: 200, distribution: 'normal', supplyTolerance: 10, seed: 1 };
+export const MAX_TOLERANCE_RUNS = 2000;
+
+// Components whose values are drawn from their tolerance; supplies follow the supply tolerance instead
+const SAMPLED_ROLES: ComponentRole[] = ['passive', 'load'];
+// Components whose terminal voltage and current are reported
+const VOLTAGE_ROLES: ComponentRole[] = ['passive', 'load', 'bus'];
+const CURRENT_ROLES: ComponentRole[] = ['passive', 'load', 'inline'];
+
+export class ToleranceAnalyzer {
+  // Seeded mulberry32 generator, so a study can be repeated exactly
+  static createRandom(seed: number): () => number {
+    let state = seed >>> 0;
+    return () => {
+      state = (state + 0x6d2b79f5) >>> 0;
+      let t = state;
+      t = Math.imul(t ^ (t >>> 15), t | 1);
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+  }
+
+  // Multiplier within ±tolerance % drawn from the distribution
+  static sampleFactor(tolerance: number, distribution: ToleranceDistribution, random: () => number): number {
+    if (!(tolerance > 0)) return 1;
+    const limit = tolerance / 100;
+    switch (distribution) {
+      case 'uniform':
+        return 1 + (2 * random() - 1) * limit;
+      case 'extremes':
+        return random() < 0.5 ? 1 - limit : 1 + limit;
+      default: {
+        // Box-Muller, with the tolerance at three standard deviations and clipped to it
+        const gaussian = Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
+        return 1 + Math.max(-limit, Math.min(limit, (gaussian * limit) / 3));
+      }
+    }
+  }
+
+  static getStatistics(values: number[]): ToleranceStatistics {
+    if (values.length === 0) return { min: 0, max: 0, mean: 0, stdDev: 0 };
+    const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+    const variance = values.reduce((sum, value) => sum + (value - mean) * (value - mean), 0) / values.length;
+    return { min: Math.min(...values), max: Math.max(...values), mean, stdDev: Math.sqrt(variance) };
+  }
+
+  // Scale the value that sets a component's impedance: rated power for appliances, otherwise its resistance, capacitance or inductance
+  static scaleComponent(component: Component, factor: number): Component {
+    if (factor === 1) return component;
+    const { properties } = component;
+    if (properties.powerConsumption !== undefined) {
+      return { ...component, properties: { ...properties, powerConsumption: properties.powerConsumption * factor } };
+    }
+    const scale = (value?: number) => (value !== undefined ? value * factor : undefined);
+    return {
+      ...component,
+      value: component.value * factor,
+      properties: { ...properties, capacitance: scale(properties.capacitance), inductance: scale(properties.inductance) }
+    };
+  }
+
+  // Solve the circuit once per run with every toleranced value and the supply drawn afresh
+  static simulate(circuit: Circuit, options: ToleranceOptions = DEFAULT_TOLERANCE_OPTIONS): ToleranceStudy {
+    const issues: CircuitIssue[] = [];
+    const runs = Math.min(Math.max(Math.round(options.runs) || 1, 1), MAX_TOLERANCE_RUNS);
+    const roles = new Map(circuit.components.map(c => [c.id, CircuitSolver.getComponentRole(c, circuit)]));
+    const sampled = circuit.components.filter(c => SAMPLED_ROLES.includes(roles.get(c.id)!) && (c.properties.tolerance || 0) > 0);
+    const sampledIds = new Set(sampled.map(c => c.id));
+    const devices = circuit.components.filter(c => ProtectionCurves.isOvercurrentDevice(c) && roles.get(c.id) === 'inline');
+    const study: ToleranceStudy = {
+      options,
+      runs: 0,
+      sampled: sampled.map(c => c.id),
+      voltages: [],
+      currents: [],
+      devices: [],
+      exceedanceProbability: 0,
+      issues
+    };
+
+    if (sampled.length === 0 && !(options.supplyTolerance > 0)) {
+      issues.push({
+        id: 'tolerance-no-variation',
+        type: 'info',
+        severity: 'low',
+        message: 'No component has a tolerance and the supply is held at nominal, so every run is identical',
+        recommendation: 'Set tolerances on resistors, capacitors, inductors and appliances or allow the supply to vary'
+      });
+    }
+
+    const voltageSamples = new Map<string, number[]>();
+    const currentSamples = new Map<string, number[]>();
+    const deviceSamples = new Map<string, number[]>(devices.map(d => [d.id, []]));
+    circuit.components.forEach(c => {
+      if (VOLTAGE_ROLES.includes(roles.get(c.id)!)) voltageSamples.set(c.id, []);
+      if (CURRENT_ROLES.includes(roles.get(c.id)!)) currentSamples.set(c.id, []);
+    });
+
+    const random = this.createRandom(options.seed);
+    let exceedingRuns = 0;
+    let failedRuns = 0;
+    for (let run = 0; run < runs; run++) {
+      const supplyFactor = this.sampleFactor(options.supplyTolerance, options.distribution, random);
+      const varied: Circuit = {
+        ...circuit,
+        components: circuit.components.map(component => {
+          if (roles.get(component.id) === 'source') return supplyFactor === 1 ? component : { ...component, value: component.value * supplyFactor };
+          if (!sampledIds.has(component.id)) return component;
+          return this.scaleComponent(component, this.sampleFactor(component.properties.tolerance!, options.distribution, random));
+        }),
+        metadata: { ...circuit.metadata, voltage: circuit.metadata.voltage * supplyFactor }
+      };
+      const netlist = CircuitSolver.buildNetlist(varied);
+      const solution = ThreePhaseSolver.solvePhasor(varied, netlist, ElectricalCalculations.getAnalysisMode(varied));
+      if (!solution) {
+        failedRuns++;
+        continue;
+      }
+
+      const nodeVoltage = (node: number) => solution.nodeVoltages[node] || ComplexMath.ZERO;
+      voltageSamples.forEach((samples, id) => {
+        const nodes = netlist.componentNodes.get(id) || [0];
+        const across = roles.get(id) === 'bus' ? nodeVoltage(nodes[0]) : ComplexMath.subtract(nodeVoltage(nodes[0]), nodeVoltage(nodes[1] ?? 0));
+        samples.push(ComplexMath.magnitude(across));
+      });
+      currentSamples.forEach((samples, id) => {
+        samples.push(ComplexMath.magnitude(solution.elementCurrents.get(id) || ComplexMath.ZERO));
+      });
+      let exceeded = false;
+      devices.forEach(device => {
+        const current = ComplexMath.magnitude(solution.elementCurrents.get(device.id) || ComplexMath.ZERO);
+        deviceSamples.get(device.id)!.push(current);
+        if (current > ProtectionCurves.getRating(device)) exceeded = true;
+      });
+      if (exceeded) exceedingRuns++;
+      study.runs++;
+    }
+
+    if (study.runs === 0) {
+      issues.push({
+        id: 'tolerance-singular',
+        type: 'error',
+        severity: 'critical',
+        message: 'Circuit equations could not be solved in any run',
+        recommendation: 'Check for voltage sources connected in parallel or loops of ideal sources'
+      });
+      return study;
+    }
+    if (failedRuns > 0) {
+      issues.push({
+        id: 'tolerance-failed-runs',
+        type: 'warning',
+        severity: 'medium',
+        message: `${failedRuns} of ${runs} runs could not be solved and were left out of the statistics`,
+        recommendation: 'Check for component values that can reach zero within their tolerance'
+      });
+    }
+
+    const toQuantities = (samples: Map<string, number[]>): ToleranceQuantity[] =>
+      [...samples.entries()].map(([componentId, values]) => ({
+        componentId,
+        type: circuit.components.find(c => c.id === componentId)!.type,
+        statistics: this.getStatistics(values)
+      }));
+    study.voltages = toQuantities(voltageSamples);
+    study.currents = toQuantities(currentSamples);
+    study.devices = devices.map((device): ProtectionExceedance => {
+      const rating = ProtectionCurves.getRating(device);
+      const currents = deviceSamples.get(device.id)!;
+      return {
+        componentId: device.id,
+        label: ProtectionCurves.getLabel(device),
+        rating,
+        current: this.getStatistics(currents),
+        loading: this.getStatistics(currents.map(current => (current / rating) * 100)),
+        probability: currents.filter(current => current > rating).length / study.runs
+      };
+    });
+    study.exceedanceProbability = exceedingRuns / study.runs;
+
+    study.devices.filter(device => device.probability > 0).forEach(device => {
+      const likely = device.probability >= 0.5;
+      issues.push({
+        id: `tolerance-exceedance-${device.componentId}`,
+        type: likely ? 'error' : 'warning',
+        severity: likely ? 'high' : 'medium',
+        componentId: device.componentId,
+        message: `${device.componentId} (${device.label}) carries more than its ${device.rating}A rating in ${(device.probability * 100).toFixed(1)}% of runs, up to ${device.current.max.toFixed(2)}A`,
+        recommendation: `Use a rating of at least ${Math.ceil(device.current.max)}A or reduce the load so the worst case stays within it`
+      });
+    });
+
+    return study;
+  }
+}
@@ -0,0 +1,71 @@
+// Transformer Rating, Leakage Impedance and Losses
+import type { Component } from '../types/circuit.types';
+
+// Typical distribution transformer nameplate values, used when the component does not state them
+export const DEFAULT_IMPEDANCE_PERCENT = 4;
+export const DEFAULT_COPPER_LOSS_FRACTION = 0.012; // of rating, at rated current
+export const DEFAULT_NO_LOAD_LOSS_FRACTION = 0.0025; // of rating, at rated voltage
+
+// Voltage regulation (%) above which the secondary is flagged
+export const MAX_TRANSFORMER_REGULATION = 5;
+
+// Equivalent circuit: ideal windings, leakage impedance referred to the secondary and a core-loss resistance across the primary
+export interface TransformerParameters {
+  rating: number; // VA
+  turnsRatio: number;
+  primaryVoltage: number; // V, rated
+  secondaryVoltage: number; // V, rated
+  impedancePercent: number;
+  copperLoss: number; // W at rated current
+  noLoadLoss: number; // W at rated voltage
+  resistance: number; // Ω, referred to the secondary
+  reactance: number; // Ω, referred to the secondary
+  coreResistance: number; // Ω across the primary, infinite without core loss
+}
+
+export class TransformerModel {
+  // Rated power in VA from the kVA rating, a VA/kVA value or the power rating; null for an ideal transformer
+  static getRating(component: Component): number | null {
+    if (component.properties.kvaRating && component.properties.kvaRating > 0) return component.properties.kvaRating * 1000;
+    if (component.value > 0 && component.unit === 'kVA') return component.value * 1000;
+    if (component.value > 0 && component.unit === 'VA') return component.value;
+    if (component.properties.powerRating && component.properties.powerRating > 0) return component.properties.powerRating;
+    return null;
+  }
+
+  static getParameters(component: Component, supplyVoltage: number): TransformerParameters | null {
+    const rating = this.getRating(component);
+    if (!rating) return null;
+    const { properties } = component;
+    const turnsRatio = properties.turnsRatio || 1;
+    const primaryVoltage = properties.primaryVoltage || supplyVoltage;
+    const secondaryVoltage = properties.secondaryVoltage || primaryVoltage / turnsRatio;
+    const impedancePercent = properties.impedancePercent && properties.impedancePercent > 0 ? properties.impedancePercent : DEFAULT_IMPEDANCE_PERCENT;
+    const copperLoss = properties.copperLoss !== undefined && properties.copperLoss >= 0 ? properties.copperLoss : rating * DEFAULT_COPPER_LOSS_FRACTION;
+    const noLoadLoss = properties.noLoadLoss !== undefined && properties.noLoadLoss >= 0 ? properties.noLoadLoss : rating * DEFAULT_NO_LOAD_LOSS_FRACTION;
+
+    // %Z is the share of rated voltage dropped across the leakage impedance at rated current
+    const impedance = (impedancePercent / 100) * (secondaryVoltage * secondaryVoltage) / rating;
+    const ratedCurrent = rating / secondaryVoltage;
+    const resistance = Math.min(copperLoss / (ratedCurrent * ratedCurrent), impedance);
+    return {
+      rating,
+      turnsRatio,
+      primaryVoltage,
+      secondaryVoltage,
+      impedancePercent,
+      copperLoss,
+      noLoadLoss,
+      resistance,
+      reactance: Math.sqrt(impedance * impedance - resistance * resistance),
+      coreResistance: noLoadLoss > 0 ? (primaryVoltage * primaryVoltage) / noLoadLoss : Infinity
+    };
+  }
+
+  // Bolted fault at the secondary terminals; the upstream impedance (Ω, primary side) is referred through the turns ratio
+  static getSecondaryFaultCurrent(parameters: TransformerParameters, upstreamResistance: number = 0): number {
+    const resistance = parameters.resistance + upstreamResistance / (parameters.turnsRatio * parameters.turnsRatio);
+    const impedance = Math.hypot(resistance, parameters.reactance);
+    return impedance > 0 ? parameters.secondaryVoltage / impedance : Infinity;
+  }
+}
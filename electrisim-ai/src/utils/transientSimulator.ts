@@ -0,0 +1,285 @@
+// Time-Domain Transient Simulation with Companion Models
+import type { Circuit, CircuitIssue, TransientEvent, TransientOptions, TransientResult } from '../types/circuit.types';
+import {
+  CircuitSolver,
+  GMIN,
+  MAX_NEWTON_ITERATIONS,
+  NEWTON_RELATIVE_TOLERANCE,
+  NEWTON_VOLTAGE_TOLERANCE,
+  SWITCHING_TYPES,
+  type DiodeElement,
+  type NetlistElement
+} from './circuitSolver';
+import { ElectricalCalculations } from './electricalCalculations';
+
+// Upper bound on time steps per run so long or finely sampled simulations stay responsive
+export const MAX_TRANSIENT_STEPS = 20000;
+
+// Series R-L branch (inductor or reactive load) reduced to its backward-Euler companion
+interface InductiveBranch {
+  resistance: number;
+  inductance: number;
+}
+
+export class TransientSimulator {
+  // Simulate the circuit from rest over [0, duration] with a fixed backward-Euler time step
+  static simulate(circuit: Circuit, options: TransientOptions): TransientResult {
+    const issues: CircuitIssue[] = [];
+    const { mode, frequency } = ElectricalCalculations.getAnalysisMode(circuit);
+    const result: TransientResult = {
+      time: [],
+      nodeVoltages: {},
+      branchCurrents: {},
+      componentVoltages: {},
+      componentCurrents: {},
+      timeStep: options.timeStep,
+      duration: options.duration,
+      frequency,
+      issues
+    };
+
+    if (!(options.duration > 0) || !(options.timeStep > 0)) {
+      issues.push({
+        id: 'transient-invalid-options',
+        type: 'error',
+        severity: 'high',
+        message: 'Transient duration and time step must both be greater than zero',
+        recommendation: 'Set a positive duration and a time step smaller than the duration'
+      });
+      return result;
+    }
+
+    let steps = Math.ceil(options.duration / options.timeStep);
+    let h = options.timeStep;
+    if (steps > MAX_TRANSIENT_STEPS) {
+      steps = MAX_TRANSIENT_STEPS;
+      h = options.duration / steps;
+      result.timeStep = h;
+      issues.push({
+        id: 'transient-step-limited',
+        type: 'info',
+        severity: 'low',
+        message: `Time step increased to ${(h * 1000).toFixed(3)}ms to stay within ${MAX_TRANSIENT_STEPS} steps`,
+        recommendation: 'Shorten the duration for finer time resolution'
+      });
+    }
+
+    // Contacts that events will close are built into the netlist and start out open
+    const events: TransientEvent[] = [...(options.events || [])].sort((a, b) => a.time - b.time);
+    const switched = new Set(events.map(event => event.componentId));
+    const initiallyOpen = circuit.components
+      .filter(c => switched.has(c.id) && SWITCHING_TYPES.includes(c.type) && !CircuitSolver.isContactClosed(c))
+      .map(c => c.id);
+    const netlist = CircuitSolver.buildNetlist({
+      ...circuit,
+      components: circuit.components.map(c => (initiallyOpen.includes(c.id) ? CircuitSolver.setContactClosed(c, true) : c))
+    });
+    const omega = 2 * Math.PI * frequency;
+    const n = netlist.nodeCount;
+    const branchElements = netlist.elements.filter(e => e.kind === 'voltage-source' || e.kind === 'transformer');
+    const size = n + branchElements.length;
+
+    // Inductors and, on AC supplies, lagging loads carry current from one step to the next
+    const inductiveBranches = new Map<string, InductiveBranch>();
+    netlist.elements.forEach(element => {
+      if (element.kind === 'inductor') {
+        inductiveBranches.set(element.id, { resistance: element.resistance, inductance: element.inductance });
+      } else if (element.kind === 'load') {
+        const impedance = CircuitSolver.getLoadImpedance(element, frequency);
+        inductiveBranches.set(element.id, { resistance: impedance.re, inductance: omega > 0 ? impedance.im / omega : 0 });
+      }
+    });
+
+    const diodes = netlist.elements.filter((e): e is DiodeElement => e.kind === 'diode');
+    const diodeVoltages = new Map<string, number>();
+    const capacitorVoltages = new Map<string, number>();
+    const inductorCurrents = new Map<string, number>();
+    const openComponents = new Set<string>(initiallyOpen);
+    let nextEvent = 0;
+
+    const isOpen = (element: NetlistElement) => !!element.componentId && element.id === element.componentId && openComponents.has(element.componentId);
+    const sourceVoltage = (voltage: number, phaseAngle: number, t: number) => mode === 'ac'
+      ? voltage * Math.SQRT2 * Math.sin(omega * t + (phaseAngle * Math.PI) / 180)
+      : voltage;
+
+    // Everything starts de-energised at t = 0
+    const record = (t: number, nodeVoltages: number[], elementCurrents: Map<string, number>) => {
+      result.time.push(t);
+      netlist.nodeNames.forEach((name, index) => {
+        (result.nodeVoltages[name] ||= []).push(nodeVoltages[index] || 0);
+      });
+      netlist.elements.forEach(element => {
+        const current = elementCurrents.get(element.id) || 0;
+        (result.branchCurrents[element.id] ||= []).push(current);
+        if (!element.componentId || element.id !== element.componentId) return;
+        const nodes = netlist.componentNodes.get(element.componentId) || [0, 0];
+        const across = (nodeVoltages[nodes[0]] || 0) - (nodeVoltages[nodes[1] ?? 0] || 0);
+        (result.componentVoltages[element.componentId] ||= []).push(across);
+        // Source branch current flows + to - inside the source, so delivered current is its negative
+        (result.componentCurrents[element.componentId] ||= []).push(element.kind === 'voltage-source' ? -current : current);
+      });
+    };
+    record(0, new Array(n + 1).fill(0), new Map());
+
+    let peakVoltage = 0;
+    let peakTime = 0;
+
+    for (let step = 1; step <= steps; step++) {
+      const t = step * h;
+      while (nextEvent < events.length && events[nextEvent].time <= t) {
+        const event = events[nextEvent++];
+        if (event.action === 'open') {
+          openComponents.add(event.componentId);
+        } else {
+          openComponents.delete(event.componentId);
+        }
+      }
+
+      // Newton-Raphson over the diodes, starting from the previous step's junction voltages
+      let x: number[] | null = null;
+      let companions = new Map<string, { conductance: number; history: number }>();
+      let converged = false;
+      for (let iteration = 0; iteration < MAX_NEWTON_ITERATIONS && !converged; iteration++) {
+        const matrix: number[][] = Array.from({ length: size }, () => new Array(size).fill(0));
+        const rhs: number[] = new Array(size).fill(0);
+        const stampConductance = (a: number, b: number, g: number) => {
+          if (a > 0) matrix[a - 1][a - 1] += g;
+          if (b > 0) matrix[b - 1][b - 1] += g;
+          if (a > 0 && b > 0) {
+            matrix[a - 1][b - 1] -= g;
+            matrix[b - 1][a - 1] -= g;
+          }
+        };
+        // Current source pushing `current` from node a to node b through the element
+        const stampCurrent = (a: number, b: number, current: number) => {
+          if (a > 0) rhs[a - 1] -= current;
+          if (b > 0) rhs[b - 1] += current;
+        };
+
+        for (let node = 1; node <= n; node++) {
+          stampConductance(node, 0, GMIN);
+        }
+
+        // Companion model: i = g·v + history, where history carries the previous step's state
+        companions = new Map<string, { conductance: number; history: number }>();
+        netlist.elements.forEach(element => {
+          if (element.kind === 'voltage-source' || element.kind === 'transformer' || isOpen(element)) return;
+          let conductance = 0;
+          let history = 0;
+          const inductive = inductiveBranches.get(element.id);
+          if (inductive) {
+            // Backward Euler on v = R·i + L·di/dt
+            const inductiveResistance = inductive.inductance / h;
+            conductance = 1 / (inductive.resistance + inductiveResistance);
+            history = conductance * inductiveResistance * (inductorCurrents.get(element.id) || 0);
+          } else if (element.kind === 'capacitor') {
+            // Backward Euler on i = C·dv/dt
+            conductance = element.capacitance / h;
+            history = -conductance * (capacitorVoltages.get(element.id) || 0);
+          } else if (element.kind === 'diode') {
+            const linearized = CircuitSolver.linearizeDiode(element, diodeVoltages.get(element.id) || 0);
+            conductance = linearized.conductance;
+            history = linearized.current;
+          } else if (element.kind === 'resistor') {
+            conductance = 1 / element.resistance;
+          }
+          companions.set(element.id, { conductance, history });
+          stampConductance(element.nodes[0], element.nodes[1], conductance);
+          stampCurrent(element.nodes[0], element.nodes[1], history);
+        });
+
+        branchElements.forEach((element, index) => {
+          const k = n + index;
+          if (element.kind === 'voltage-source') {
+            const [p, m] = element.nodes;
+            if (p > 0) { matrix[p - 1][k] += 1; matrix[k][p - 1] += 1; }
+            if (m > 0) { matrix[m - 1][k] -= 1; matrix[k][m - 1] -= 1; }
+            rhs[k] = sourceVoltage(element.voltage, element.phaseAngle, t);
+          } else if (element.kind === 'transformer') {
+            const [p1, p2, s1, s2] = element.nodes;
+            const ratio = element.turnsRatio;
+            if (p1 > 0) { matrix[p1 - 1][k] += 1; matrix[k][p1 - 1] += 1; }
+            if (p2 > 0) { matrix[p2 - 1][k] -= 1; matrix[k][p2 - 1] -= 1; }
+            if (s1 > 0) { matrix[s1 - 1][k] -= ratio; matrix[k][s1 - 1] -= ratio; }
+            if (s2 > 0) { matrix[s2 - 1][k] += ratio; matrix[k][s2 - 1] += ratio; }
+          }
+        });
+
+        x = CircuitSolver.solveLinearSystem(matrix, rhs);
+        if (!x) break;
+
+        const solved = [0, ...x.slice(0, n)];
+        converged = true;
+        diodes.forEach(diode => {
+          const previous = diodeVoltages.get(diode.id) || 0;
+          const proposed = solved[diode.nodes[0]] - solved[diode.nodes[1]];
+          if (Math.abs(proposed - previous) > NEWTON_VOLTAGE_TOLERANCE + NEWTON_RELATIVE_TOLERANCE * Math.abs(proposed)) {
+            converged = false;
+          }
+          diodeVoltages.set(diode.id, CircuitSolver.limitDiodeVoltage(diode, proposed, previous));
+        });
+      }
+
+      if (!x) {
+        issues.push({
+          id: 'transient-singular',
+          type: 'error',
+          severity: 'critical',
+          message: `Circuit equations could not be solved at t = ${(t * 1000).toFixed(3)}ms`,
+          recommendation: 'Check for voltage sources connected in parallel or loops of ideal sources'
+        });
+        break;
+      }
+      if (!converged && !issues.some(issue => issue.id === 'transient-nonconvergence')) {
+        issues.push({
+          id: 'transient-nonconvergence',
+          type: 'warning',
+          severity: 'medium',
+          message: `Diode models did not converge at t = ${(t * 1000).toFixed(3)}ms; waveforms near this point may be inaccurate`,
+          recommendation: 'Reduce the time step or check diode and LED ratings'
+        });
+      }
+
+      const nodeVoltages = [0, ...x.slice(0, n)];
+      const elementCurrents = new Map<string, number>();
+      netlist.elements.forEach(element => {
+        const companion = companions.get(element.id);
+        if (!companion) return;
+        const across = nodeVoltages[element.nodes[0]] - nodeVoltages[element.nodes[1]];
+        elementCurrents.set(element.id, element.kind === 'diode'
+          ? CircuitSolver.getDiodeCurrent(element, across)
+          : companion.conductance * across + companion.history);
+        if (element.kind === 'capacitor') capacitorVoltages.set(element.id, across);
+      });
+      const solution = x;
+      branchElements.forEach((element, index) => {
+        elementCurrents.set(element.id, solution[n + index]);
+      });
+
+      // Open contacts interrupt the stored inductor current and hold their capacitor charge
+      inductiveBranches.forEach((_, id) => inductorCurrents.set(id, elementCurrents.get(id) || 0));
+
+      nodeVoltages.forEach(voltage => {
+        if (Math.abs(voltage) > peakVoltage) {
+          peakVoltage = Math.abs(voltage);
+          peakTime = t;
+        }
+      });
+      record(t, nodeVoltages, elementCurrents);
+    }
+
+    // Switching inductive current can kick node voltages well beyond the supply peak
+    const supplyPeak = netlist.supplyVoltage * (mode === 'ac' ? Math.SQRT2 : 1);
+    if (supplyPeak > 0 && peakVoltage > 2 * supplyPeak) {
+      issues.push({
+        id: 'transient-overvoltage',
+        type: 'warning',
+        severity: 'high',
+        message: `Transient overvoltage of ${peakVoltage.toFixed(0)}V at t = ${(peakTime * 1000).toFixed(3)}ms (supply peak ${supplyPeak.toFixed(0)}V)`,
+        recommendation: 'Add a surge protector, snubber or freewheeling diode across inductive loads that are switched'
+      });
+    }
+
+    return result;
+  }
+}